@@ -1,8 +1,9 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useAuth } from "@/hooks/use-auth"
 import { useToast } from "@/hooks/use-toast"
+import { useBreadcrumbRecorder } from "@/hooks/use-breadcrumb-recorder"
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute"
 
 import { RouteDisplay } from "@/components/lawn-route/RouteDisplay"
@@ -20,17 +21,35 @@ import { ProfileSheet } from "@/components/lawn-route/ProfileSheet"
 import { ScheduleSheet } from "@/components/lawn-route/ScheduleSheet"
 import { CompanyManagementSheet } from "@/components/lawn-route/CompanyManagementSheet"
 import { PendingUsersSheet } from "@/components/lawn-route/PendingUsersSheet"
+import { ReplanApprovalCard } from "@/components/lawn-route/ReplanApprovalCard"
+import { TerritorySheet } from "@/components/lawn-route/TerritorySheet"
+import { WeatherRescheduleSheet } from "@/components/lawn-route/WeatherRescheduleSheet"
+import { RouteImportSheet } from "@/components/lawn-route/RouteImportSheet"
+import { InsertJobSheet } from "@/components/lawn-route/InsertJobSheet"
+import { RouteReplaySheet } from "@/components/lawn-route/RouteReplaySheet"
 import { PendingApprovalScreen } from "@/components/auth/PendingApprovalScreen"
-import { Plus, User as UserIcon, Users, Building2 } from "lucide-react"
+import { Plus, User as UserIcon, Users, Building2, RefreshCw } from "lucide-react"
 import { subscribeToCustomers, subscribeToAllCustomers, addCustomer } from "@/lib/customer-service"
 import { subscribeToUsers, subscribeToAllUsers } from "@/lib/user-service"
-import { generateOptimalRoutes } from "@/lib/route-service"
+import { getAllRoutesForDate, regenerateRoutesForDate } from "@/lib/route-service"
+import { getRouteId, subscribeToStoredRoute } from "@/lib/route-storage-service"
+import { queueServiceRecord, queueStopEvent, startOfflineSync } from "@/lib/offline-sync-service"
+import { subscribeToRouteProgress } from "@/lib/stop-event-service"
 import { getRouteMetrics, downloadMetricsCSV, saveRouteMetrics } from "@/lib/route-metrics-service"
-import type { Customer, User as FirebaseUser, DailyRoute, User } from "@/lib/firebase-types"
-import type { Route } from "@/lib/types"
+import { getReplanTrigger, proposeReplan, subscribeToPendingReplans, subscribeToCrewReplans } from "@/lib/route-replan-service"
+import { calculateScheduleStatus } from "@/lib/schedule-status-service"
+import { subscribeToTerritories } from "@/lib/territory-service"
+import type { CalendarEntry, ChecklistItemResult, Company, Customer, User as FirebaseUser, DailyRoute, Depot, User, RouteReplanProposal, StopEventAction, Territory } from "@/lib/firebase-types"
+import type { Route, StopSignature, TimestampSource } from "@/lib/types"
 import { googleMapsConfig } from "@/lib/env"
-import { dailyRoutesToRoutes } from "@/lib/route-conversion"
+import { dailyRoutesToRoutes, carryOverStopTiming, applyRouteProgress } from "@/lib/route-conversion"
 import { RouteProgressCalculator } from "@/lib/route-progress-service"
+import { applyGeofenceEvent, type GeofenceEvent } from "@/lib/route-tracking-service"
+import { buildStopChecklist, getBlockingChecklistItems } from "@/lib/checklist-service"
+import { toDateKey } from "@/lib/time-utils"
+
+// How long an automatic check-in waits for the crew to confirm or undo it before it's saved
+const GEOFENCE_CONFIRM_TIMEOUT_MS = 5 * 60 * 1000
 
 export default function LawnRoutePage() {
   const { userProfile } = useAuth()
@@ -41,8 +60,22 @@ export default function LawnRoutePage() {
   const [users, setUsers] = useState<FirebaseUser[]>([])
   const [routes, setRoutes] = useState<DailyRoute[]>([])
   const [timingRoutes, setTimingRoutes] = useState<Route[]>([]) // For timing features
+  const [pendingGeofence, setPendingGeofence] = useState<{ event: GeofenceEvent; route: Route } | null>(null) // Auto check-in awaiting confirmation
+  const breadcrumbs = useBreadcrumbRecorder({
+    companyId: userProfile?.companyId,
+    crewId: timingRoutes[0]?.crewId,
+    userId: userProfile?.id,
+    date: timingRoutes[0]?.date,
+  })
+  const [routeReloadKey, setRouteReloadKey] = useState(0) // Bumped after routes are regenerated
+  const [isRegeneratingRoutes, setIsRegeneratingRoutes] = useState(false)
   const [companyName, setCompanyName] = useState<string>('')
   const [baseLocation, setBaseLocation] = useState<{ lat: number; lng: number; address: string } | null>(null)
+  const [depots, setDepots] = useState<Depot[]>([]) // Yards other than the home base
+  const [calendar, setCalendar] = useState<CalendarEntry[]>([]) // Holidays, short days and crew time off
+  const [companySettings, setCompanySettings] = useState<Company['settings']>()
+  const checklistRemindersRef = useRef<Set<string>>(new Set()) // Stops already told their checklist blocks auto check-out
+  const [territories, setTerritories] = useState<Territory[]>([])
 
   // State for manager view
   const [activeView, setActiveView] = useState<'customers' | 'employees' | 'crews'>('customers')
@@ -62,11 +95,24 @@ export default function LawnRoutePage() {
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
   const [selectedRoute, setSelectedRoute] = useState<DailyRoute | null>(null)
   const [isCrewPopupOpen, setIsCrewPopupOpen] = useState(false)
+  const [isSavingRouteEdit, setIsSavingRouteEdit] = useState(false)
+  const [replanProposals, setReplanProposals] = useState<RouteReplanProposal[]>([]) // Pending mid-day re-plans (managers)
+  const [processingReplanId, setProcessingReplanId] = useState<string | null>(null)
+  const handledSkipsRef = useRef<string[]>([]) // Skipped stops already covered by a re-plan
+  const lastProposedDelayRef = useRef<number | null>(null) // Minutes behind at the last delay re-plan
+  const isProposingReplanRef = useRef(false)
+  const seenReplanIdsRef = useRef<Set<string> | null>(null)
+  const seenRouteVersionRef = useRef<number | null>(null)
   const [isCompanySettingsOpen, setIsCompanySettingsOpen] = useState(false)
   const [isProfileSheetOpen, setIsProfileSheetOpen] = useState(false)
   const [isScheduleSheetOpen, setIsScheduleSheetOpen] = useState(false)
   const [isCompanyManagementOpen, setIsCompanyManagementOpen] = useState(false)
   const [isPendingUsersSheetOpen, setIsPendingUsersSheetOpen] = useState(false)
+  const [isTerritorySheetOpen, setIsTerritorySheetOpen] = useState(false)
+  const [isWeatherSheetOpen, setIsWeatherSheetOpen] = useState(false)
+  const [isRouteImportOpen, setIsRouteImportOpen] = useState(false)
+  const [isInsertJobOpen, setIsInsertJobOpen] = useState(false)
+  const [isRouteReplayOpen, setIsRouteReplayOpen] = useState(false)
 
   // Generate human-readable crew IDs using animal names
   const generateCrewId = () => {
@@ -117,6 +163,9 @@ export default function LawnRoutePage() {
             setBaseLocation(company.baseLocation);
             console.log('Company base location loaded:', company.baseLocation);
           }
+          setDepots(company.depots || []);
+          setCalendar(company.calendar || []);
+          setCompanySettings(company.settings);
         }
       } catch (error) {
         console.error('Error fetching company:', error);
@@ -203,7 +252,7 @@ export default function LawnRoutePage() {
     }
   }, [isManager, isAdmin, userProfile])
 
-  // Generate routes for today and tomorrow (skip for admins who don't have a company)
+  // Load stored routes for today and tomorrow (skip for admins who don't have a company)
   useEffect(() => {
     if (!userProfile?.companyId || isAdmin) return
     if (userProfile.accountStatus === 'pending') return // Skip for pending users
@@ -214,8 +263,9 @@ export default function LawnRoutePage() {
         const tomorrow = new Date(today)
         tomorrow.setDate(tomorrow.getDate() + 1)
 
-        const todayRoutes = await generateOptimalRoutes(userProfile.companyId!, today)
-        const tomorrowRoutes = await generateOptimalRoutes(userProfile.companyId!, tomorrow)
+        // Planned on first request, then shared by every device
+        const todayRoutes = await getAllRoutesForDate(userProfile.companyId!, today)
+        const tomorrowRoutes = await getAllRoutesForDate(userProfile.companyId!, tomorrow)
         
         // Combine routes by crew, showing today's routes as primary
         const crewRoutes = new Map<string, DailyRoute>();
@@ -259,14 +309,361 @@ export default function LawnRoutePage() {
     }
 
     generateRoutes()
-  }, [userProfile, customers, users, isManager, isAdmin, toast])
+  }, [userProfile, customers, users, isManager, isAdmin, toast, routeReloadKey])
+
+  // Replan today and tomorrow, storing a new route version for each crew
+  const handleRegenerateRoutes = async () => {
+    if (!userProfile?.companyId) return
+
+    setIsRegeneratingRoutes(true)
+    try {
+      const today = new Date()
+      const tomorrow = new Date(today)
+      tomorrow.setDate(tomorrow.getDate() + 1)
+
+      const todayPlan = await regenerateRoutesForDate(userProfile.companyId, today, userProfile.id)
+      await regenerateRoutesForDate(userProfile.companyId, tomorrow, userProfile.id)
+
+      setRouteReloadKey(key => key + 1)
+      toast({
+        title: "Routes Regenerated",
+        description: todayPlan.unassigned.length > 0
+          ? `${todayPlan.unassigned.length} customers couldn't be assigned today.`
+          : "All crews have a new route plan.",
+      })
+    } catch (error) {
+      console.error('Error regenerating routes:', error)
+      toast({
+        title: "Route Generation Error",
+        description: "Failed to regenerate routes.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRegeneratingRoutes(false)
+    }
+  }
 
-  // Convert DailyRoutes to Routes for timing features
+  // Convert DailyRoutes to Routes for timing features, keeping timing already recorded
   useEffect(() => {
     const converted = dailyRoutesToRoutes(routes)
-    setTimingRoutes(converted)
+    setTimingRoutes(prev => converted.map(route => carryOverStopTiming(
+      route,
+      prev.find(previous =>
+        previous.crewId === route.crewId && previous.date.toDateString() === route.date.toDateString()
+      )
+    )))
   }, [routes])
 
+  // Crew members: show stop progress already saved for the route (before a reload or from another device)
+  const crewRoute = timingRoutes[0]
+  const progressRouteId = !isManager && userProfile?.companyId && crewRoute
+    ? getRouteId(userProfile.companyId, crewRoute.crewId, crewRoute.date)
+    : null
+  useEffect(() => {
+    if (!progressRouteId) return
+
+    const unsubscribe = subscribeToRouteProgress(progressRouteId, (progress) => {
+      setTimingRoutes(prev => prev.map((route, index) => index === 0 ? applyRouteProgress(route, progress) : route))
+    })
+    return () => unsubscribe()
+  }, [progressRouteId])
+
+  // Subscribe to the company's territories (shown on the map, used for crew setup)
+  useEffect(() => {
+    if (!userProfile?.companyId) return
+    if (userProfile.accountStatus === 'pending') return
+
+    const unsubscribe = subscribeToTerritories(userProfile.companyId, setTerritories)
+    return () => unsubscribe()
+  }, [userProfile])
+
+  // Managers: watch for mid-day re-plans waiting for approval
+  useEffect(() => {
+    if (!isManager || isAdmin || !userProfile?.companyId) return
+    if (userProfile.accountStatus === 'pending') return
+
+    const unsubscribe = subscribeToPendingReplans(userProfile.companyId, setReplanProposals)
+    return () => unsubscribe()
+  }, [isManager, isAdmin, userProfile])
+
+  // Crew members: reload the route when a manager approves a re-plan
+  useEffect(() => {
+    if (isManager || !userProfile?.companyId || !userProfile.crewId) return
+    if (userProfile.accountStatus === 'pending') return
+
+    const unsubscribe = subscribeToCrewReplans(userProfile.companyId, userProfile.crewId, (proposals) => {
+      const approved = proposals.filter(proposal => proposal.status === 'approved')
+      const seen = seenReplanIdsRef.current
+
+      // The first snapshot only records what was already approved
+      if (seen && approved.some(proposal => !seen.has(proposal.id))) {
+        setRouteReloadKey(key => key + 1)
+        toast({
+          title: "Route Updated",
+          description: "Your manager approved a new order for the remaining stops.",
+        })
+      }
+      seenReplanIdsRef.current = new Set(approved.map(proposal => proposal.id))
+    })
+    return () => unsubscribe()
+  }, [isManager, userProfile, toast])
+
+  // Crew members: reload today's route when a manager changes it (e.g. adds a same-day job).
+  // Approved re-plans are announced by the re-plan subscription above.
+  useEffect(() => {
+    if (isManager || !userProfile?.companyId || !userProfile.crewId) return
+    if (userProfile.accountStatus === 'pending') return
+
+    seenRouteVersionRef.current = null
+    const unsubscribe = subscribeToStoredRoute(userProfile.companyId, userProfile.crewId, new Date(), (storedRoute) => {
+      const seenVersion = seenRouteVersionRef.current
+      seenRouteVersionRef.current = storedRoute?.version ?? 0
+
+      // The first snapshot only records the current version
+      if (seenVersion === null || !storedRoute || storedRoute.version <= seenVersion) return
+      if (storedRoute.source === 'reoptimized') return
+
+      setRouteReloadKey(key => key + 1)
+      toast({
+        title: "Route Updated",
+        description: "Your manager changed today's stops.",
+      })
+    })
+    return () => unsubscribe()
+  }, [isManager, userProfile, toast])
+
+  // Crew members: propose a re-plan when running significantly late or after skipping a stop
+  useEffect(() => {
+    if (isManager || !userProfile?.companyId) return
+
+    const route = timingRoutes[0]
+    if (!route || route.date.toDateString() !== new Date().toDateString()) return
+
+    const checkForReplan = async () => {
+      if (isProposingReplanRef.current) return
+
+      const trigger = getReplanTrigger(route, handledSkipsRef.current)
+      if (!trigger) return
+
+      // Propose again for a delay only once it has grown by another 30 minutes
+      const minutesBehind = calculateScheduleStatus(route).minutesDelta
+      if (trigger === 'delayed' && lastProposedDelayRef.current !== null &&
+          minutesBehind < lastProposedDelayRef.current + 30) {
+        return
+      }
+
+      isProposingReplanRef.current = true
+      try {
+        const location = userProfile.currentLocation
+        const proposal = await proposeReplan(
+          userProfile.companyId!,
+          route,
+          trigger,
+          userProfile.id,
+          location ? { lat: location.lat, lng: location.lng } : undefined
+        )
+
+        handledSkipsRef.current = route.stops
+          .filter(stop => stop.status === 'skipped')
+          .map(stop => stop.customerId)
+        if (trigger === 'delayed') {
+          lastProposedDelayRef.current = minutesBehind
+        }
+
+        if (proposal) {
+          toast({
+            title: "New Route Proposed",
+            description: "Your manager has been asked to approve a new order for the remaining stops.",
+          })
+        }
+      } catch (error) {
+        console.error('Error proposing re-plan:', error)
+      } finally {
+        isProposingReplanRef.current = false
+      }
+    }
+
+    checkForReplan()
+    const interval = setInterval(checkForReplan, 60000) // Re-check every minute
+    return () => clearInterval(interval)
+  }, [timingRoutes, isManager, userProfile, toast])
+
+  const handleApproveReplan = async (proposal: RouteReplanProposal) => {
+    if (!userProfile) return
+
+    setProcessingReplanId(proposal.id)
+    try {
+      const { approveReplan } = await import('@/lib/route-replan-service')
+      await approveReplan(proposal, userProfile.id)
+      setRouteReloadKey(key => key + 1)
+      toast({
+        title: "Re-plan Approved",
+        description: `Crew ${proposal.crewId} has the new order.`,
+      })
+    } catch (error) {
+      console.error('Error approving re-plan:', error)
+      toast({
+        title: "Approval Failed",
+        description: "The new route could not be saved.",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessingReplanId(null)
+    }
+  }
+
+  const handleRejectReplan = async (proposal: RouteReplanProposal) => {
+    if (!userProfile) return
+
+    setProcessingReplanId(proposal.id)
+    try {
+      const { rejectReplan } = await import('@/lib/route-replan-service')
+      await rejectReplan(proposal, userProfile.id)
+    } catch (error) {
+      console.error('Error rejecting re-plan:', error)
+    } finally {
+      setProcessingReplanId(null)
+    }
+  }
+
+  // Queue a stop action for Firestore; it stays on the device until there's signal
+  const recordStopEvent = (
+    route: Route,
+    customerId: string,
+    action: StopEventAction,
+    occurredAt: Date,
+    notes?: string,
+    source: TimestampSource = 'manual'
+  ) => {
+    if (!userProfile?.companyId) return
+
+    // Anything the crew does next accepts an automatic check-in they haven't answered
+    if (source === 'manual' && pendingGeofence) {
+      confirmGeofenceEvent()
+    }
+
+    queueStopEvent({
+      companyId: userProfile.companyId,
+      routeId: getRouteId(userProfile.companyId, route.crewId, route.date),
+      crewId: route.crewId,
+      customerId,
+      action,
+      occurredAt,
+      ...(notes !== undefined && { notes }),
+      ...((action === 'arrive' || action === 'depart') && { source }),
+      recordedBy: userProfile.id,
+    }).catch(error => console.error('Error saving stop action:', error))
+  }
+
+  // Add a completed stop, with its checklist and any signature, to the customer's service history
+  const recordServiceRecord = async (route: Route, customerId: string) => {
+    const stop = route.stops.find(s => s.customerId === customerId)
+    if (!userProfile?.companyId || !stop) return
+
+    try {
+      const signature = stop.signature && {
+        image: await (await fetch(stop.signature.image)).blob(),
+        signerName: stop.signature.signerName,
+        signedAt: new Date(stop.signature.signedAt),
+      }
+
+      // One record per visit: the route doc is reused when a day is re-planned, so the
+      // departure time keeps a second visit from replacing the first (and its signature)
+      const completedAt = stop.actualDeparture || new Date()
+      await queueServiceRecord(customerId, {
+        id: `${getRouteId(userProfile.companyId, route.crewId, route.date)}_${customerId}_${completedAt.getTime()}`,
+        date: completedAt,
+        managerId: customers.find(customer => customer.id === customerId)?.createdBy || userProfile.id,
+        beforePhotos: [],
+        afterPhotos: [],
+        notes: stop.notes || '',
+        status: 'completed',
+        crewId: route.crewId,
+        completedBy: userProfile.id,
+        ...(stop.serviceTypes?.length && { serviceTypes: stop.serviceTypes }),
+        ...(stop.serviceIds?.length && { serviceIds: stop.serviceIds }),
+        ...(stop.workTime !== undefined && { duration: stop.workTime }),
+        ...(stop.checklist?.length && { checklist: stop.checklist }),
+      }, signature)
+    } catch (error) {
+      console.error('Error saving service record:', error)
+    }
+  }
+
+  // The stop's full checklist stored on the route, so departure checks and the service record see every item
+  const withStopChecklist = (route: Route, customerId: string): Route => {
+    const stop = route.stops.find(s => s.customerId === customerId)
+    const checklist = stop ? buildStopChecklist(companySettings?.checklists || [], stop) : []
+    return checklist.length > 0 ? RouteProgressCalculator.updateStopChecklist(route, customerId, checklist) : route
+  }
+
+  // Arrival or departure detected from the crew's location: shown right away, saved once confirmed
+  const handleGeofenceEvent = (event: GeofenceEvent) => {
+    const routeIndex = timingRoutes.findIndex(r =>
+      r.stops.some(s => s.customerId === event.customerId)
+    )
+    if (routeIndex === -1) return
+
+    const route = event.type === 'departure'
+      ? withStopChecklist(timingRoutes[routeIndex], event.customerId)
+      : timingRoutes[routeIndex]
+    const stop = route.stops.find(s => s.customerId === event.customerId)
+    if (event.type === 'departure' && getBlockingChecklistItems(stop?.checklist).length > 0) {
+      // Leave the stop open; remind the crew once rather than on every location fix
+      if (!checklistRemindersRef.current.has(event.customerId)) {
+        checklistRemindersRef.current.add(event.customerId)
+        toast({
+          title: "Checklist Incomplete",
+          description: `You left ${event.customerName} with required checklist items open. Finish or waive them to complete the stop.`,
+          variant: "destructive",
+        })
+      }
+      return
+    }
+
+    if (pendingGeofence) {
+      confirmGeofenceEvent()
+    }
+
+    const newTimingRoutes = [...timingRoutes]
+    newTimingRoutes[routeIndex] = applyGeofenceEvent(route, event)
+    setTimingRoutes(newTimingRoutes)
+    setPendingGeofence({ event, route: timingRoutes[routeIndex] })
+
+    toast({
+      title: event.type === 'arrival' ? "Arrived" : "Completed",
+      description: `${event.type === 'arrival' ? 'Checked in at' : 'Checked out of'} ${event.customerName} automatically`,
+    })
+  }
+
+  const confirmGeofenceEvent = () => {
+    if (!pendingGeofence) return
+
+    const { event, route } = pendingGeofence
+    recordStopEvent(route, event.customerId, event.type === 'arrival' ? 'arrive' : 'depart', event.at, undefined, 'auto')
+    if (event.type === 'departure') {
+      const completedRoute = timingRoutes.find(r => r.crewId === route.crewId)
+      if (completedRoute) void recordServiceRecord(completedRoute, event.customerId)
+    }
+    setPendingGeofence(null)
+  }
+  const confirmGeofenceRef = useRef(confirmGeofenceEvent)
+  confirmGeofenceRef.current = confirmGeofenceEvent
+
+  // Put the stop back the way it was before the detection; nothing was saved yet
+  const undoGeofenceEvent = () => {
+    if (!pendingGeofence) return
+
+    const { event, route: previousRoute } = pendingGeofence
+    const previousStop = previousRoute.stops.find(s => s.customerId === event.customerId)
+    setTimingRoutes(routes => routes.map(r => r.crewId !== previousRoute.crewId || !previousStop ? r : {
+      ...r,
+      stops: r.stops.map(s => s.customerId === event.customerId ? previousStop : s),
+      status: previousRoute.status,
+    }))
+    setPendingGeofence(null)
+  }
+
   // Handler functions for stop timing
   const handleStopArrival = async (customerId: string) => {
     if (timingRoutes.length === 0) return
@@ -276,10 +673,13 @@ export default function LawnRoutePage() {
     )
     if (routeIndex === -1) return
 
+    const now = new Date()
     const updatedRoute = RouteProgressCalculator.recordStopArrival(
       timingRoutes[routeIndex],
-      customerId
+      customerId,
+      now
     )
+    recordStopEvent(timingRoutes[routeIndex], customerId, 'arrive', now)
 
     const newTimingRoutes = [...timingRoutes]
     newTimingRoutes[routeIndex] = updatedRoute
@@ -299,18 +699,56 @@ export default function LawnRoutePage() {
     )
     if (routeIndex === -1) return
 
-    const updatedRoute = RouteProgressCalculator.recordStopDeparture(
+    const now = new Date()
+    let updatedRoute: Route
+    try {
+      updatedRoute = RouteProgressCalculator.recordStopDeparture(
+        withStopChecklist(timingRoutes[routeIndex], customerId),
+        customerId,
+        now
+      )
+    } catch (error) {
+      toast({
+        title: "Checklist Incomplete",
+        description: error instanceof Error ? error.message : "Finish or waive the required checklist items first.",
+        variant: "destructive",
+      })
+      return
+    }
+    recordStopEvent(timingRoutes[routeIndex], customerId, 'depart', now)
+    void recordServiceRecord(updatedRoute, customerId)
+
+    const newTimingRoutes = [...timingRoutes]
+    newTimingRoutes[routeIndex] = updatedRoute
+    setTimingRoutes(newTimingRoutes)
+
+    toast({
+      title: "Completed",
+      description: "Stop marked as complete",
+    })
+  }
+
+  const handleStopSkip = async (customerId: string) => {
+    if (timingRoutes.length === 0) return
+
+    const routeIndex = timingRoutes.findIndex(r =>
+      r.stops.some(s => s.customerId === customerId)
+    )
+    if (routeIndex === -1) return
+
+    const updatedRoute = RouteProgressCalculator.skipStop(
       timingRoutes[routeIndex],
       customerId
     )
+    recordStopEvent(timingRoutes[routeIndex], customerId, 'skip', new Date())
 
     const newTimingRoutes = [...timingRoutes]
     newTimingRoutes[routeIndex] = updatedRoute
     setTimingRoutes(newTimingRoutes)
 
     toast({
-      title: "Completed",
-      description: "Stop marked as complete",
+      title: "Skipped",
+      description: "Stop skipped, re-planning the rest of the route",
     })
   }
 
@@ -322,10 +760,13 @@ export default function LawnRoutePage() {
     )
     if (routeIndex === -1) return
 
+    const now = new Date()
     const updatedRoute = RouteProgressCalculator.pauseStop(
       timingRoutes[routeIndex],
-      customerId
+      customerId,
+      now
     )
+    recordStopEvent(timingRoutes[routeIndex], customerId, 'pause', now)
 
     const newTimingRoutes = [...timingRoutes]
     newTimingRoutes[routeIndex] = updatedRoute
@@ -345,10 +786,13 @@ export default function LawnRoutePage() {
     )
     if (routeIndex === -1) return
 
+    const now = new Date()
     const updatedRoute = RouteProgressCalculator.resumeStop(
       timingRoutes[routeIndex],
-      customerId
+      customerId,
+      now
     )
+    recordStopEvent(timingRoutes[routeIndex], customerId, 'resume', now)
 
     const newTimingRoutes = [...timingRoutes]
     newTimingRoutes[routeIndex] = updatedRoute
@@ -360,6 +804,47 @@ export default function LawnRoutePage() {
     })
   }
 
+  const handleStopNotes = async (customerId: string, notes: string) => {
+    if (timingRoutes.length === 0) return
+
+    const routeIndex = timingRoutes.findIndex(r =>
+      r.stops.some(s => s.customerId === customerId)
+    )
+    if (routeIndex === -1) return
+
+    const updatedRoute = RouteProgressCalculator.updateStopNotes(
+      timingRoutes[routeIndex],
+      customerId,
+      notes
+    )
+    recordStopEvent(timingRoutes[routeIndex], customerId, 'notes', new Date(), notes)
+
+    const newTimingRoutes = [...timingRoutes]
+    newTimingRoutes[routeIndex] = updatedRoute
+    setTimingRoutes(newTimingRoutes)
+
+    toast({
+      title: "Notes Saved",
+      description: "Notes saved for this stop",
+    })
+  }
+
+  const handleStopChecklist = (customerId: string, checklist: ChecklistItemResult[]) => {
+    setTimingRoutes(routes => routes.map(route =>
+      route.stops.some(s => s.customerId === customerId)
+        ? RouteProgressCalculator.updateStopChecklist(route, customerId, checklist)
+        : route
+    ))
+  }
+
+  const handleStopSignature = (customerId: string, signature: StopSignature | undefined) => {
+    setTimingRoutes(routes => routes.map(route =>
+      route.stops.some(s => s.customerId === customerId)
+        ? RouteProgressCalculator.updateStopSignature(route, customerId, signature)
+        : route
+    ))
+  }
+
   // Swipe handlers
   const onTouchStart = (e: React.TouchEvent) => {
     e.preventDefault()
@@ -440,6 +925,30 @@ export default function LawnRoutePage() {
     }
   };
 
+  // Automatic check-ins the crew doesn't answer are accepted after a few minutes
+  useEffect(() => {
+    if (!pendingGeofence) return
+
+    const timeout = setTimeout(() => confirmGeofenceRef.current(), GEOFENCE_CONFIRM_TIMEOUT_MS)
+    return () => clearTimeout(timeout)
+  }, [pendingGeofence])
+
+  // Send stop actions and photos recorded without signal once the device is back online
+  useEffect(() => {
+    if (!userProfile?.companyId) return
+    return startOfflineSync()
+  }, [userProfile?.companyId])
+
+  // Correct ETAs with drive times learned from the company's completed routes
+  useEffect(() => {
+    const companyId = userProfile?.companyId;
+    if (!companyId) return;
+
+    import('@/lib/drive-time-service')
+      .then(({ loadDriveTimeCorrections }) => loadDriveTimeCorrections(companyId))
+      .catch(error => console.warn('Could not load drive time corrections:', error));
+  }, [userProfile?.companyId])
+
   // Automatically save route metrics when a route is completed
   useEffect(() => {
     const saveCompletedRouteMetrics = async () => {
@@ -496,6 +1005,7 @@ export default function LawnRoutePage() {
                           data.servicePreferences.serviceFrequency === 'monthly' ? 30 : 1,
         },
         serviceHistory: [],
+        ...(data.lotSize && { lotSize: data.lotSize }),
       }
 
       await addCustomer(newCustomer)
@@ -511,20 +1021,29 @@ export default function LawnRoutePage() {
     if (!editingCustomer) return;
     
     try {
-      const { updateDocument } = await import('@/lib/firebase-services');
+      const { updateCustomer } = await import('@/lib/customer-service');
       
       // Create services array from selected service types
-      // Preserve existing service data where possible, create new ones for new types
+      // Preserve existing service data where possible, create new ones for new types.
+      // Start from the live customer so recurrences saved while the sheet was open are kept.
+      const currentCustomer = customers.find(customer => customer.id === editingCustomer.id) || editingCustomer;
       const existingServicesMap = new Map(
-        (editingCustomer.services || []).map(service => [service.type, service])
+        (currentCustomer.services || []).map(service => [service.type, service])
       );
       
+      // Crew size and extra equipment apply to every service at the stop
+      const requirements = {
+        crewSize: Number(data.crewSize) || 1,
+        requiredEquipment: data.requiredEquipment || [],
+      };
+
       const services = (data.serviceTypes || []).map((serviceType: string, index: number) => {
         const existingService = existingServicesMap.get(serviceType);
         if (existingService) {
           // Preserve existing service data
           return {
             ...existingService,
+            ...requirements,
             type: serviceType,
             description: existingService.description || `${serviceType} service`,
           };
@@ -537,17 +1056,21 @@ export default function LawnRoutePage() {
             price: 0,
             scheduledDate: new Date() as any,
             status: 'scheduled' as const,
+            ...requirements,
           };
         }
       });
 
-      await updateDocument('customers', editingCustomer.id, {
+      // Goes through the customer service so the territory is re-tagged if the address moved
+      await updateCustomer(editingCustomer.id, {
+        companyId: editingCustomer.companyId,
         name: data.name,
         address: data.address,
         lat: Number(data.coordinates?.lat || editingCustomer.lat),
         lng: Number(data.coordinates?.lng || editingCustomer.lng),
         notes: data.notes || '',
         services: services,
+        ...(data.lotSize && { lotSize: data.lotSize }),
         servicePreferences: {
           preferredDays: data.servicePreferences.preferredDays,
           preferredTimeRange: data.servicePreferences.preferredTimeRange,
@@ -690,6 +1213,12 @@ export default function LawnRoutePage() {
           await assignUserToCrew(employeeId, {
             crewId: crewId,
             serviceTypes: data.serviceTypes,
+            crewStart: data.crewStart,
+            crewEnd: data.crewEnd,
+            crewHomeLocation: data.crewHomeLocation,
+            territoryIds: data.territoryIds,
+            equipment: data.equipment,
+            fuelCostPerMile: data.fuelCostPerMile,
             // title is optional - omitting it keeps existing title
           });
         }
@@ -704,6 +1233,12 @@ export default function LawnRoutePage() {
           await assignUserToCrew(employeeId, {
             crewId: crewId,
             serviceTypes: data.serviceTypes,
+            crewStart: data.crewStart,
+            crewEnd: data.crewEnd,
+            crewHomeLocation: data.crewHomeLocation,
+            territoryIds: data.territoryIds,
+            equipment: data.equipment,
+            fuelCostPerMile: data.fuelCostPerMile,
             // title is optional - omitting it when creating new crew
           });
         }
@@ -728,6 +1263,62 @@ export default function LawnRoutePage() {
     setIsCrewPopupOpen(true);
   };
 
+  // Run a manual route edit and swap the updated routes into state
+  const applyRouteEdit = async (edit: () => Promise<DailyRoute[]>) => {
+    if (!userProfile) return;
+
+    setIsSavingRouteEdit(true);
+    try {
+      const updatedRoutes = await edit();
+      const findUpdated = (route: DailyRoute) => updatedRoutes.find(updated =>
+        updated.crewId === route.crewId && toDateKey(updated.date) === toDateKey(route.date)
+      );
+
+      setRoutes(prev => prev.map(route => findUpdated(route) || route));
+      setSelectedRoute(prev => prev ? findUpdated(prev) || prev : prev);
+    } catch (error) {
+      console.error('Error editing route:', error);
+      toast({
+        title: "Route Edit Failed",
+        description: "Your change to the route could not be saved.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingRouteEdit(false);
+    }
+  };
+
+  const handleMoveStop = (customerId: string, toIndex: number) => applyRouteEdit(async () => {
+    const { moveStop } = await import('@/lib/route-edit-service');
+    return [await moveStop(selectedRoute!, customerId, toIndex, userProfile!.id)];
+  });
+
+  const handlePinStop = (customerId: string, pin: { position?: boolean; time?: string }) => applyRouteEdit(async () => {
+    const { pinStop } = await import('@/lib/route-edit-service');
+    return [await pinStop(selectedRoute!, customerId, pin, userProfile!.id)];
+  });
+
+  const handleUnpinStop = (customerId: string) => applyRouteEdit(async () => {
+    const { unpinStop } = await import('@/lib/route-edit-service');
+    return [await unpinStop(selectedRoute!, customerId, userProfile!.id)];
+  });
+
+  const handleReoptimizeRoute = () => applyRouteEdit(async () => {
+    const { reoptimizeRoute } = await import('@/lib/route-edit-service');
+    return [await reoptimizeRoute(selectedRoute!, userProfile!.id)];
+  });
+
+  const handleMoveStopToCrew = (customerId: string, crewId: string) => applyRouteEdit(async () => {
+    const targetRoute = routes.find(route =>
+      route.crewId === crewId && toDateKey(route.date) === toDateKey(selectedRoute!.date)
+    );
+    if (!targetRoute) throw new Error(`No route for crew ${crewId} on this day`);
+
+    const { moveStopToCrew } = await import('@/lib/route-edit-service');
+    const { fromRoute, toRoute } = await moveStopToCrew(selectedRoute!, targetRoute, customerId, userProfile!.id);
+    return [fromRoute, toRoute];
+  });
+
   // Render customers view
   const renderCustomersView = () => (
     <div className="space-y-4">
@@ -900,6 +1491,14 @@ export default function LawnRoutePage() {
             <Building2 className="w-5 h-5" />
             Crews ({crewsList.length})
           </h2>
+          <button
+            onClick={handleRegenerateRoutes}
+            disabled={isRegeneratingRoutes}
+            className="flex items-center gap-1 px-3 py-1 rounded-full text-xs bg-secondary hover:bg-accent transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-3 h-3 ${isRegeneratingRoutes ? 'animate-spin' : ''}`} />
+            Regenerate Routes
+          </button>
         </div>
         
         <div className="space-y-4 p-4">
@@ -981,6 +1580,17 @@ export default function LawnRoutePage() {
     );
   }
 
+  // Crews for pickers, named by their crew name where one is set
+  const getCrewOptions = () => {
+    const crewNames = new Map<string, string>();
+    users.forEach(user => {
+      if (user.crewId && !crewNames.has(user.crewId)) {
+        crewNames.set(user.crewId, user.crewName || user.crewId);
+      }
+    });
+    return Array.from(crewNames, ([crewId, name]) => ({ crewId, name }));
+  };
+
   // Handler to reload base location after update
   const handleLocationUpdated = async () => {
     if (!userProfile?.companyId) return;
@@ -990,6 +1600,9 @@ export default function LawnRoutePage() {
       if (company?.baseLocation) {
         setBaseLocation(company.baseLocation);
       }
+      setDepots(company?.depots || []);
+      setCalendar(company?.calendar || []);
+      setCompanySettings(company?.settings);
     } catch (error) {
       console.error('Error reloading base location:', error);
     }
@@ -1011,6 +1624,11 @@ export default function LawnRoutePage() {
             onOpenSchedule={() => setIsScheduleSheetOpen(true)}
             onOpenCompanyManagement={() => setIsCompanyManagementOpen(true)}
             onOpenPendingUsers={() => setIsPendingUsersSheetOpen(true)}
+            onOpenTerritories={() => setIsTerritorySheetOpen(true)}
+            onOpenWeather={() => setIsWeatherSheetOpen(true)}
+            onOpenRouteImport={() => setIsRouteImportOpen(true)}
+            onOpenInsertJob={() => setIsInsertJobOpen(true)}
+            onOpenRouteReplay={() => setIsRouteReplayOpen(true)}
           />
           <main className="grid grid-rows-2 md:grid-rows-1 md:grid-cols-3 flex-grow overflow-hidden">
             <div className="md:col-span-2 h-full w-full">
@@ -1022,6 +1640,8 @@ export default function LawnRoutePage() {
                 onSelectCustomer={handleSelectCustomer}
                 onRouteClick={handleRouteClick}
                 baseLocation={baseLocation}
+                depots={depots}
+                territories={territories}
                 apiKey={googleMapsConfig.apiKey}
               />
             </div>
@@ -1033,6 +1653,13 @@ export default function LawnRoutePage() {
             >
               {/* Content Area */}
               <div className="flex-1 overflow-y-auto p-4">
+                <ReplanApprovalCard
+                  proposals={replanProposals}
+                  customers={customers}
+                  processingId={processingReplanId}
+                  onApprove={handleApproveReplan}
+                  onReject={handleRejectReplan}
+                />
                 {activeView === 'customers' && renderCustomersView()}
                 {activeView === 'employees' && renderEmployeesView()}
                 {activeView === 'crews' && renderCrewsView()}
@@ -1122,6 +1749,8 @@ export default function LawnRoutePage() {
               }
             }}
             onAddCrew={handleAddCrew}
+            depots={depots}
+            territories={territories}
             editingCrew={editingCrew}
             crewTiming={editingCrew ? (() => {
               const crewRoute = timingRoutes.find(r => r.crewId === editingCrew.crewId);
@@ -1144,6 +1773,17 @@ export default function LawnRoutePage() {
             onOpenChange={setIsCrewPopupOpen}
             route={selectedRoute}
             employees={users}
+            editing={isManager && selectedRoute ? {
+              otherRoutes: routes.filter(route =>
+                route.crewId !== selectedRoute.crewId && toDateKey(route.date) === toDateKey(selectedRoute.date)
+              ),
+              isSaving: isSavingRouteEdit,
+              onMoveStop: handleMoveStop,
+              onPinStop: handlePinStop,
+              onUnpinStop: handleUnpinStop,
+              onMoveToCrew: handleMoveStopToCrew,
+              onReoptimize: handleReoptimizeRoute,
+            } : undefined}
           />
 
           {/* Company Settings Sheet */}
@@ -1152,6 +1792,10 @@ export default function LawnRoutePage() {
             onOpenChange={setIsCompanySettingsOpen}
             companyId={userProfile?.companyId || ''}
             currentBaseLocation={baseLocation}
+            currentDepots={depots}
+            currentCalendar={calendar}
+            crews={getCrewOptions()}
+            currentSettings={companySettings}
             onLocationUpdated={handleLocationUpdated}
           />
 
@@ -1178,6 +1822,56 @@ export default function LawnRoutePage() {
             open={isPendingUsersSheetOpen}
             onOpenChange={setIsPendingUsersSheetOpen}
           />
+
+          {/* Territory Sheet (Manager/Admin Only) */}
+          <TerritorySheet
+            open={isTerritorySheetOpen}
+            onOpenChange={setIsTerritorySheetOpen}
+            companyId={userProfile?.companyId || ''}
+            territories={territories}
+            customers={customers}
+            baseLocation={baseLocation}
+            apiKey={googleMapsConfig.apiKey}
+          />
+
+          {/* Weather Reschedule Sheet (Manager/Admin Only) */}
+          <WeatherRescheduleSheet
+            open={isWeatherSheetOpen}
+            onOpenChange={setIsWeatherSheetOpen}
+            companyId={userProfile?.companyId || ''}
+            userId={userProfile?.id}
+            onApplied={() => setRouteReloadKey(key => key + 1)}
+          />
+
+          {/* Route Import Sheet (Manager/Admin Only) */}
+          <RouteImportSheet
+            open={isRouteImportOpen}
+            onOpenChange={setIsRouteImportOpen}
+            companyId={userProfile?.companyId || ''}
+            userId={userProfile?.id}
+            crews={getCrewOptions()}
+            onImported={() => setRouteReloadKey(key => key + 1)}
+          />
+
+          {/* Same-Day Job Sheet (Manager/Admin Only) */}
+          <InsertJobSheet
+            open={isInsertJobOpen}
+            onOpenChange={setIsInsertJobOpen}
+            companyId={userProfile?.companyId || ''}
+            userId={userProfile?.id}
+            customers={customers}
+            crews={getCrewOptions()}
+            onInserted={() => setRouteReloadKey(key => key + 1)}
+          />
+
+          {/* Route Replay Sheet (Manager/Admin Only) */}
+          <RouteReplaySheet
+            open={isRouteReplayOpen}
+            onOpenChange={setIsRouteReplayOpen}
+            companyId={userProfile?.companyId || ''}
+            crews={getCrewOptions()}
+            apiKey={googleMapsConfig.apiKey}
+          />
         </div>
       </ProtectedRoute>
     )
@@ -1203,6 +1897,8 @@ export default function LawnRoutePage() {
               selectedCustomer={selectedCustomer}
               onSelectCustomer={handleSelectCustomer}
               baseLocation={baseLocation}
+              depots={depots}
+              territories={territories}
               apiKey={googleMapsConfig.apiKey}
             />
           </div>
@@ -1216,6 +1912,16 @@ export default function LawnRoutePage() {
                   onStopDeparture={handleStopDeparture}
                   onStopPause={handleStopPause}
                   onStopResume={handleStopResume}
+                  onStopSkip={handleStopSkip}
+                  onStopNotes={handleStopNotes}
+                  onGeofenceEvent={handleGeofenceEvent}
+                  pendingGeofenceEvent={pendingGeofence?.event}
+                  onConfirmGeofenceEvent={confirmGeofenceEvent}
+                  onUndoGeofenceEvent={undoGeofenceEvent}
+                  onLocationSample={breadcrumbs.recordSample}
+                  checklists={companySettings?.checklists}
+                  onChecklistChange={handleStopChecklist}
+                  onSignatureChange={handleStopSignature}
                 />
               ) : (
                 <div className="p-4">
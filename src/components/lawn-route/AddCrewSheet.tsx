@@ -3,6 +3,7 @@
 import * as React from "react"
 import { useForm } from "react-hook-form"
 import { z } from "zod"
+import { zodResolver } from "@hookform/resolvers/zod"
 
 import { Button } from "@/components/ui/button"
 import {
@@ -12,8 +13,12 @@ import {
   FormItem,
   FormLabel,
   FormMessage,
+  FormDescription,
 } from "@/components/ui/form"
 import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PlacesAutocompleteSimple } from "@/components/ui/places-autocomplete-simple"
 import {
   Sheet,
   SheetContent,
@@ -25,15 +30,29 @@ import {
 } from "@/components/ui/sheet"
 import { useToast } from "@/hooks/use-toast"
 import { useAuth } from "@/hooks/use-auth"
-import { Users } from "lucide-react"
+import { MapPin, Users } from "lucide-react"
 import { getUsers } from "@/lib/user-service"
-import type { User } from "@/lib/firebase-types"
+import { EQUIPMENT_LABELS, getDefaultCrewEquipment } from "@/lib/service-requirements"
+import type { CrewEndpoint, Depot, EquipmentType, Territory, User } from "@/lib/firebase-types"
 import { TimeAnalysisBar } from "./TimeAnalysisBar"
 
+export interface CrewSheetValues {
+  serviceTypes: string[]
+  assignedEmployees: string[]
+  crewStart: CrewEndpoint | null // null = home base
+  crewEnd: CrewEndpoint | null // null = back where the crew started
+  crewHomeLocation: { lat: number; lng: number; address: string } | null
+  territoryIds: string[] // Empty = serves anywhere
+  equipment: EquipmentType[]
+  fuelCostPerMile: number | null // null = company default
+}
+
 interface AddCrewSheetProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onAddCrew: (data: z.infer<typeof formSchema>) => Promise<void>
+  onAddCrew: (data: CrewSheetValues) => Promise<void>
+  depots?: Depot[] // Yards other than the home base
+  territories?: Territory[]
   editingCrew?: {
     crewId: string;
     members: User[];
@@ -48,9 +67,33 @@ interface AddCrewSheetProps {
 const formSchema = z.object({
   serviceTypes: z.array(z.string()).min(1, { message: "At least one service type is required." }),
   assignedEmployees: z.array(z.string()).default([]),
+  territoryIds: z.array(z.string()).default([]),
+  equipment: z.array(z.string()).default([]),
+  fuelCostPerMile: z.string().default('').refine(
+    value => value.trim() === '' || (!isNaN(Number(value)) && Number(value) >= 0),
+    { message: "Enter a cost per mile, or leave empty for the company default." }
+  ),
+  startPoint: z.string().default('default'),
+  endPoint: z.string().default('default'),
+  homeAddress: z.string().optional(),
+  homeCoordinates: z.object({ lat: z.number(), lng: z.number() }).optional(),
 })
 
-export function AddCrewSheet({ open, onOpenChange, onAddCrew, editingCrew, crewTiming }: AddCrewSheetProps) {
+// Select values: 'default', 'home', 'last_stop' or 'depot:<depotId>'
+const EQUIPMENT_OPTIONS = Object.entries(EQUIPMENT_LABELS) as [EquipmentType, string][]
+
+const toEndpointValue = (endpoint?: CrewEndpoint | null): string => {
+  if (!endpoint) return 'default'
+  return endpoint.type === 'depot' ? `depot:${endpoint.depotId}` : endpoint.type
+}
+
+const toCrewEndpoint = (value: string): CrewEndpoint | null => {
+  if (value === 'home' || value === 'last_stop') return { type: value }
+  if (value.startsWith('depot:')) return { type: 'depot', depotId: value.slice('depot:'.length) }
+  return null
+}
+
+export function AddCrewSheet({ open, onOpenChange, onAddCrew, depots = [], territories = [], editingCrew, crewTiming }: AddCrewSheetProps) {
   const { toast } = useToast()
   const { userProfile } = useAuth()
   const [isSubmitting, setIsSubmitting] = React.useState(false)
@@ -85,31 +128,79 @@ export function AddCrewSheet({ open, onOpenChange, onAddCrew, editingCrew, crewT
   }, [userProfile])
 
   const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
     defaultValues: {
       serviceTypes: [],
       assignedEmployees: [],
+      territoryIds: [],
+      equipment: [],
+      fuelCostPerMile: '',
+      startPoint: 'default',
+      endPoint: 'default',
+      homeAddress: '',
     },
   })
 
+  const startPoint = form.watch('startPoint')
+  const endPoint = form.watch('endPoint')
+  const usesHome = startPoint === 'home' || endPoint === 'home'
+
   // Update form when editing crew changes
   React.useEffect(() => {
     if (editingCrew) {
+      const lead = editingCrew.members[0]
       form.reset({
         serviceTypes: editingCrew.serviceTypes,
         assignedEmployees: editingCrew.members.map(member => member.id),
+        territoryIds: lead?.crewTerritoryIds || [],
+        // Crews from before equipment was tracked start from what their service types need
+        equipment: lead?.crewEquipment || getDefaultCrewEquipment(editingCrew.serviceTypes),
+        fuelCostPerMile: lead?.crewFuelCostPerMile !== undefined ? String(lead.crewFuelCostPerMile) : '',
+        startPoint: toEndpointValue(lead?.crewStart),
+        endPoint: toEndpointValue(lead?.crewEnd),
+        homeAddress: lead?.crewHomeLocation?.address || '',
+        homeCoordinates: lead?.crewHomeLocation
+          ? { lat: lead.crewHomeLocation.lat, lng: lead.crewHomeLocation.lng }
+          : undefined,
       });
     } else {
       form.reset({
         serviceTypes: [],
         assignedEmployees: [],
+        territoryIds: [],
+        equipment: [],
+        fuelCostPerMile: '',
+        startPoint: 'default',
+        endPoint: 'default',
+        homeAddress: '',
       });
     }
   }, [editingCrew, form]);
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
+    if (usesHome && (!values.homeAddress || !values.homeCoordinates)) {
+      toast({
+        title: "Home Location Required",
+        description: "Select the crew's home address from the suggestions.",
+        variant: "destructive",
+      })
+      return
+    }
+
     setIsSubmitting(true)
     try {
-      await onAddCrew(values)
+      await onAddCrew({
+        serviceTypes: values.serviceTypes,
+        assignedEmployees: values.assignedEmployees,
+        crewStart: toCrewEndpoint(values.startPoint),
+        crewEnd: toCrewEndpoint(values.endPoint),
+        crewHomeLocation: usesHome && values.homeAddress && values.homeCoordinates
+          ? { ...values.homeCoordinates, address: values.homeAddress }
+          : null,
+        territoryIds: values.territoryIds,
+        equipment: values.equipment as EquipmentType[],
+        fuelCostPerMile: values.fuelCostPerMile.trim() === '' ? null : Number(values.fuelCostPerMile),
+      })
       toast({
         title: editingCrew ? "Crew Updated" : "Crew Created",
         description: editingCrew ? "Crew has been updated successfully." : "Crew has been created successfully.",
@@ -133,6 +224,12 @@ export function AddCrewSheet({ open, onOpenChange, onAddCrew, editingCrew, crewT
       <SheetContent 
         side="bottom" 
         className="rounded-t-lg max-h-[90svh] overflow-y-auto"
+        onPointerDownOutside={(e) => {
+          // Don't close if clicking on autocomplete
+          if (e.target && (e.target as Element).closest('.pac-container')) {
+            e.preventDefault()
+          }
+        }}
       >
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)}>
@@ -201,6 +298,211 @@ export function AddCrewSheet({ open, onOpenChange, onAddCrew, editingCrew, crewT
                 )}
               />
 
+              {territories.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="territoryIds"
+                  render={() => (
+                    <FormItem>
+                      <FormLabel>Territories</FormLabel>
+                      <FormDescription>
+                        Leave empty for a crew that can work anywhere.
+                      </FormDescription>
+                      <div className="space-y-3">
+                        {territories.map((territory) => (
+                          <FormField
+                            key={territory.id}
+                            control={form.control}
+                            name="territoryIds"
+                            render={({ field }) => (
+                              <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                                <FormControl>
+                                  <Checkbox
+                                    checked={field.value?.includes(territory.id)}
+                                    onCheckedChange={(checked) => {
+                                      return checked
+                                        ? field.onChange([...field.value, territory.id])
+                                        : field.onChange(
+                                            field.value?.filter(
+                                              (value) => value !== territory.id
+                                            )
+                                          )
+                                    }}
+                                  />
+                                </FormControl>
+                                <FormLabel className="text-sm font-normal cursor-pointer flex items-center gap-2">
+                                  <span
+                                    className="w-3 h-3 rounded-sm"
+                                    style={{ backgroundColor: territory.color }}
+                                  />
+                                  {territory.name}
+                                </FormLabel>
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="equipment"
+                render={() => (
+                  <FormItem>
+                    <FormLabel>Equipment</FormLabel>
+                    <FormDescription>
+                      Jobs needing equipment the crew doesn&apos;t carry, or more members than are working that day, go to another crew.
+                    </FormDescription>
+                    <div className="grid grid-cols-2 gap-3">
+                      {EQUIPMENT_OPTIONS.map(([value, label]) => (
+                        <FormField
+                          key={value}
+                          control={form.control}
+                          name="equipment"
+                          render={({ field }) => (
+                            <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                              <FormControl>
+                                <Checkbox
+                                  checked={field.value?.includes(value)}
+                                  onCheckedChange={(checked) => {
+                                    return checked
+                                      ? field.onChange([...field.value, value])
+                                      : field.onChange(
+                                          field.value?.filter(
+                                            (item) => item !== value
+                                          )
+                                        )
+                                  }}
+                                />
+                              </FormControl>
+                              <FormLabel className="text-sm font-normal cursor-pointer">
+                                {label}
+                              </FormLabel>
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="fuelCostPerMile"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vehicle Fuel Cost per Mile ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" placeholder="Company default" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Used for route cost estimates and cost-based route ordering.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Start and End Section */}
+              <div className="space-y-4 border-t pt-6">
+                <div className="flex items-center gap-2">
+                  <MapPin className="w-5 h-5" />
+                  <h3 className="text-lg font-semibold">Start &amp; End</h3>
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="startPoint"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starts From</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="default">Home base</SelectItem>
+                          {depots.map((depot) => (
+                            <SelectItem key={depot.id} value={`depot:${depot.id}`}>{depot.name}</SelectItem>
+                          ))}
+                          <SelectItem value="home">Crew&apos;s home</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endPoint"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends At</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="default">Same as start</SelectItem>
+                          <SelectItem value="depot:base">Home base</SelectItem>
+                          {depots.map((depot) => (
+                            <SelectItem key={depot.id} value={`depot:${depot.id}`}>{depot.name}</SelectItem>
+                          ))}
+                          <SelectItem value="home">Crew&apos;s home</SelectItem>
+                          <SelectItem value="last_stop">Last stop (open route)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Open routes finish at the last customer with no drive back.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {usesHome && (
+                  <FormField
+                    control={form.control}
+                    name="homeAddress"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Crew Home Address</FormLabel>
+                        <FormControl>
+                          <PlacesAutocompleteSimple
+                            value={field.value || ''}
+                            onChange={(value: string) => {
+                              field.onChange(value)
+                              form.setValue('homeCoordinates', undefined)
+                            }}
+                            placeholder="Where the truck is kept overnight..."
+                            onPlaceSelect={(place: google.maps.places.PlaceResult) => {
+                              if (place.geometry?.location) {
+                                form.setValue('homeCoordinates', {
+                                  lat: place.geometry.location.lat(),
+                                  lng: place.geometry.location.lng(),
+                                })
+                              }
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
               {/* Employee Assignment Section */}
               <div className="space-y-4 border-t pt-6">
                 <div className="flex items-center gap-2">
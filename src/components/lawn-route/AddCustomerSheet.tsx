@@ -46,6 +46,7 @@ const formSchema = z.object({
     lng: z.number().optional(),
   }).optional(),
   notes: z.string().optional(),
+  lotSize: z.enum(['small', 'medium', 'large', 'estate']).optional(),
   serviceTypes: z.array(z.string()).min(1, { message: "At least one service type is required." }),
   servicePreferences: z.object({
     preferredDays: z.array(z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])).default([]),
@@ -226,6 +227,29 @@ export function AddCustomerSheet({ open, onOpenChange, onAddCustomer }: AddCusto
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="lotSize"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lot Size</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select lot size" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="small">Small</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="large">Large</SelectItem>
+                        <SelectItem value="estate">Estate</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
               {/* Service Preferences Section */}
               <div className="space-y-4 border-t pt-6">
@@ -3,6 +3,7 @@
 import * as React from "react"
 import { useForm } from "react-hook-form"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import {
   Form,
   FormControl,
@@ -12,7 +13,11 @@ import {
   FormMessage,
   FormDescription,
 } from "@/components/ui/form"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
 import { PlacesAutocompleteSimple } from "@/components/ui/places-autocomplete-simple"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
   Sheet,
   SheetContent,
@@ -23,25 +28,69 @@ import {
   SheetClose
 } from "@/components/ui/sheet"
 import { useToast } from "@/hooks/use-toast"
-import { Home, Loader2 } from "lucide-react"
+import { CalendarOff, DollarSign, Home, ListChecks, Loader2, Plus, Trash2, Warehouse } from "lucide-react"
+import { describeCalendarEntry } from "@/lib/company-calendar"
+import { DEFAULT_ROUTE_COSTS } from "@/lib/route-cost-service"
+import { fromDateKey } from "@/lib/time-utils"
+import type { CalendarEntry, ChecklistItem, Company, Depot, RouteObjective, ServiceChecklist } from "@/lib/firebase-types"
 
 interface CompanySettingsSheetProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   companyId: string
   currentBaseLocation?: { lat: number; lng: number; address: string } | null
+  currentDepots?: Depot[]
+  currentCalendar?: CalendarEntry[]
+  crews?: { crewId: string; name: string }[]
+  currentSettings?: Company['settings']
   onLocationUpdated?: () => void
 }
 
+const SERVICE_TYPES = [
+  { value: 'push-mow', label: 'Push Mow' },
+  { value: 'edge', label: 'Edge' },
+  { value: 'blow', label: 'Blow' },
+  { value: 'detail', label: 'Detail' },
+  { value: 'riding-mow', label: 'Riding Mow' },
+]
+
 export function CompanySettingsSheet({
   open,
   onOpenChange,
   companyId,
   currentBaseLocation,
+  currentDepots = [],
+  currentCalendar = [],
+  crews = [],
+  currentSettings,
   onLocationUpdated
 }: CompanySettingsSheetProps) {
   const { toast } = useToast()
   const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [isSavingDepot, setIsSavingDepot] = React.useState(false)
+  const [depotName, setDepotName] = React.useState('')
+  const [depotAddress, setDepotAddress] = React.useState('')
+  const [depotCoordinates, setDepotCoordinates] = React.useState<{ lat: number; lng: number } | null>(null)
+  const [isSavingCalendar, setIsSavingCalendar] = React.useState(false)
+  const [calendarType, setCalendarType] = React.useState<CalendarEntry['type']>('closed')
+  const [calendarName, setCalendarName] = React.useState('')
+  const [calendarDate, setCalendarDate] = React.useState('')
+  const [calendarEndDate, setCalendarEndDate] = React.useState('')
+  const [calendarStartTime, setCalendarStartTime] = React.useState('08:00')
+  const [calendarEndTime, setCalendarEndTime] = React.useState('12:00')
+  const [calendarCrewId, setCalendarCrewId] = React.useState('all')
+  const [isSavingCosts, setIsSavingCosts] = React.useState(false)
+  const [fuelCostPerMile, setFuelCostPerMile] = React.useState('')
+  const [laborCostPerHour, setLaborCostPerHour] = React.useState('')
+  const [overtimeAfterHours, setOvertimeAfterHours] = React.useState('')
+  const [overtimeMultiplier, setOvertimeMultiplier] = React.useState('')
+  const [optimizeFor, setOptimizeFor] = React.useState<RouteObjective>('time')
+  const [isSavingChecklists, setIsSavingChecklists] = React.useState(false)
+  const [checklistServiceType, setChecklistServiceType] = React.useState(SERVICE_TYPES[0].value)
+  const [checklistLabel, setChecklistLabel] = React.useState('')
+  const [checklistRequired, setChecklistRequired] = React.useState(true)
+
+  const checklists = currentSettings?.checklists || []
 
   const form = useForm({
     defaultValues: {
@@ -58,6 +107,17 @@ export function CompanySettingsSheet({
     }
   }, [currentBaseLocation, form])
 
+  // Show the saved route costs, or the defaults, each time the sheet opens
+  React.useEffect(() => {
+    if (!open) return
+    const costs = { ...DEFAULT_ROUTE_COSTS, ...currentSettings?.routeCosts }
+    setFuelCostPerMile(String(costs.fuelCostPerMile))
+    setLaborCostPerHour(String(costs.laborCostPerHour))
+    setOvertimeAfterHours(String(costs.overtimeAfterHours))
+    setOvertimeMultiplier(String(costs.overtimeMultiplier))
+    setOptimizeFor(currentSettings?.scheduling?.optimizeFor || 'time')
+  }, [open, currentSettings])
+
   const onSubmit = async (values: { address: string; coordinates?: { lat: number; lng: number } }) => {
     setIsSubmitting(true)
     try {
@@ -106,6 +166,219 @@ export function CompanySettingsSheet({
     }
   }
 
+  const handleAddDepot = async () => {
+    if (!depotName.trim() || !depotCoordinates) {
+      toast({
+        title: "Depot Incomplete",
+        description: "Enter a name and select an address from the suggestions.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSavingDepot(true)
+    try {
+      const { addCompanyDepot } = await import('@/lib/company-service')
+      await addCompanyDepot(companyId, {
+        name: depotName.trim(),
+        lat: depotCoordinates.lat,
+        lng: depotCoordinates.lng,
+        address: depotAddress,
+      })
+
+      setDepotName('')
+      setDepotAddress('')
+      setDepotCoordinates(null)
+      onLocationUpdated?.()
+    } catch (error) {
+      console.error('Error adding depot:', error)
+      toast({
+        title: "Error",
+        description: "Failed to add depot. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingDepot(false)
+    }
+  }
+
+  const handleRemoveDepot = async (depot: Depot) => {
+    setIsSavingDepot(true)
+    try {
+      const { removeCompanyDepot } = await import('@/lib/company-service')
+      await removeCompanyDepot(companyId, depot.id)
+      onLocationUpdated?.()
+    } catch (error) {
+      console.error('Error removing depot:', error)
+      toast({
+        title: "Error",
+        description: "Failed to remove depot. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingDepot(false)
+    }
+  }
+
+  const handleAddCalendarEntry = async () => {
+    const needsCrew = calendarType === 'time_off'
+    if (!calendarName.trim() || !calendarDate || (needsCrew && calendarCrewId === 'all')) {
+      toast({
+        title: "Calendar Entry Incomplete",
+        description: needsCrew ? "Enter a name, a date and the crew that's off." : "Enter a name and a date.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSavingCalendar(true)
+    try {
+      const { addCompanyCalendarEntry } = await import('@/lib/company-service')
+      await addCompanyCalendarEntry(companyId, {
+        type: calendarType,
+        name: calendarName.trim(),
+        date: calendarDate,
+        ...(calendarEndDate && calendarEndDate > calendarDate && { endDate: calendarEndDate }),
+        ...(calendarType === 'reduced_hours' && { startTime: calendarStartTime, endTime: calendarEndTime }),
+        ...(calendarType !== 'closed' && calendarCrewId !== 'all' && { crewId: calendarCrewId }),
+      })
+
+      setCalendarName('')
+      setCalendarDate('')
+      setCalendarEndDate('')
+      onLocationUpdated?.()
+    } catch (error) {
+      console.error('Error adding calendar entry:', error)
+      toast({
+        title: "Error",
+        description: "Failed to add calendar entry. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingCalendar(false)
+    }
+  }
+
+  const handleRemoveCalendarEntry = async (entry: CalendarEntry) => {
+    setIsSavingCalendar(true)
+    try {
+      const { removeCompanyCalendarEntry } = await import('@/lib/company-service')
+      await removeCompanyCalendarEntry(companyId, entry.id)
+      onLocationUpdated?.()
+    } catch (error) {
+      console.error('Error removing calendar entry:', error)
+      toast({
+        title: "Error",
+        description: "Failed to remove calendar entry. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingCalendar(false)
+    }
+  }
+
+  const handleSaveRouteCosts = async () => {
+    const costs = {
+      fuelCostPerMile: Number(fuelCostPerMile),
+      laborCostPerHour: Number(laborCostPerHour),
+      overtimeAfterHours: Number(overtimeAfterHours),
+      overtimeMultiplier: Number(overtimeMultiplier),
+    }
+    const values = [fuelCostPerMile, laborCostPerHour, overtimeAfterHours, overtimeMultiplier]
+    if (values.some(value => value.trim() === '' || isNaN(Number(value)) || Number(value) < 0) || costs.overtimeMultiplier < 1) {
+      toast({
+        title: "Route Costs Incomplete",
+        description: "Enter every rate as a number. The overtime multiplier must be at least 1.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSavingCosts(true)
+    try {
+      const { updateCompanyRouteCosts } = await import('@/lib/company-service')
+      await updateCompanyRouteCosts(companyId, costs, optimizeFor)
+
+      toast({
+        title: "Success",
+        description: "Route costs saved. New plans use them.",
+      })
+      onLocationUpdated?.()
+    } catch (error) {
+      console.error('Error saving route costs:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save route costs. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingCosts(false)
+    }
+  }
+
+  const saveChecklists = async (updated: ServiceChecklist[]) => {
+    setIsSavingChecklists(true)
+    try {
+      const { updateCompanyChecklists } = await import('@/lib/company-service')
+      await updateCompanyChecklists(companyId, updated)
+      onLocationUpdated?.()
+      return true
+    } catch (error) {
+      console.error('Error saving checklists:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save checklists. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsSavingChecklists(false)
+    }
+  }
+
+  const handleAddChecklistItem = async () => {
+    if (!checklistLabel.trim()) {
+      toast({
+        title: "Checklist Item Incomplete",
+        description: "Enter what the crew needs to do.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const item: ChecklistItem = {
+      id: `item_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      label: checklistLabel.trim(),
+      required: checklistRequired,
+    }
+    const existing = checklists.find(checklist => checklist.serviceType === checklistServiceType)
+    const updated = existing
+      ? checklists.map(checklist => checklist === existing ? { ...checklist, items: [...checklist.items, item] } : checklist)
+      : [...checklists, { serviceType: checklistServiceType, items: [item] }]
+
+    if (await saveChecklists(updated)) {
+      setChecklistLabel('')
+    }
+  }
+
+  const handleRemoveChecklistItem = (serviceType: string, itemId: string) => {
+    saveChecklists(checklists.map(checklist => checklist.serviceType !== serviceType ? checklist : {
+      ...checklist,
+      items: checklist.items.filter(item => item.id !== itemId),
+    }))
+  }
+
+  const getServiceTypeLabel = (serviceType: string) =>
+    SERVICE_TYPES.find(type => type.value === serviceType)?.label || serviceType
+
+  const formatEntryDates = (entry: CalendarEntry) => {
+    const start = fromDateKey(entry.date).toLocaleDateString()
+    return entry.endDate ? `${start} - ${fromDateKey(entry.endDate).toLocaleDateString()}` : start
+  }
+
+  const getCrewName = (crewId: string) =>
+    crews.find(crew => crew.crewId === crewId)?.name || crewId
+
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
       <SheetContent
@@ -126,7 +399,7 @@ export function CompanySettingsSheet({
                 Company Settings
               </SheetTitle>
               <SheetDescription>
-                Set your home base location where crews start and end their day
+                Set your home base, other depots where crews start and end their day, and days off
               </SheetDescription>
             </SheetHeader>
 
@@ -165,6 +438,384 @@ export function CompanySettingsSheet({
                   </FormItem>
                 )}
               />
+
+              {/* Other yards crews can be set to start or end at */}
+              <div className="space-y-3 border-t pt-4">
+                <div className="flex items-center gap-2">
+                  <Warehouse className="w-4 h-4" />
+                  <h3 className="text-sm font-semibold">Other Depots</h3>
+                </div>
+
+                {currentDepots.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    No other depots. Every crew starts and ends at the home base.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {currentDepots.map((depot) => (
+                      <div key={depot.id} className="flex items-center justify-between gap-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{depot.name}</p>
+                          <p className="text-xs text-muted-foreground truncate">{depot.address}</p>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={isSavingDepot}
+                          onClick={() => handleRemoveDepot(depot)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid gap-2">
+                  <Input
+                    value={depotName}
+                    onChange={(e) => setDepotName(e.target.value)}
+                    placeholder="Depot name, e.g. North Yard"
+                    disabled={isSavingDepot}
+                  />
+                  <PlacesAutocompleteSimple
+                    value={depotAddress}
+                    onChange={(value: string) => {
+                      setDepotAddress(value)
+                      setDepotCoordinates(null)
+                    }}
+                    placeholder="Depot address..."
+                    disabled={isSavingDepot}
+                    onPlaceSelect={(place: google.maps.places.PlaceResult) => {
+                      if (place.geometry?.location) {
+                        setDepotCoordinates({
+                          lat: place.geometry.location.lat(),
+                          lng: place.geometry.location.lng(),
+                        })
+                      }
+                    }}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={isSavingDepot}
+                    onClick={handleAddDepot}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Depot
+                  </Button>
+                </div>
+              </div>
+
+              {/* Closed days, short days and crew time off, honored by every planner */}
+              <div className="space-y-3 border-t pt-4">
+                <div className="flex items-center gap-2">
+                  <CalendarOff className="w-4 h-4" />
+                  <h3 className="text-sm font-semibold">Calendar</h3>
+                </div>
+
+                {currentCalendar.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    No holidays or time off. Crews work their normal schedules.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {currentCalendar.map((entry) => (
+                      <div key={entry.id} className="flex items-center justify-between gap-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{describeCalendarEntry(entry)}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {formatEntryDates(entry)}
+                            {entry.crewId && ` · ${getCrewName(entry.crewId)}`}
+                          </p>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={isSavingCalendar}
+                          onClick={() => handleRemoveCalendarEntry(entry)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid gap-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={calendarType}
+                      disabled={isSavingCalendar}
+                      onValueChange={(value) => setCalendarType(value as CalendarEntry['type'])}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="closed">Closed</SelectItem>
+                        <SelectItem value="reduced_hours">Reduced hours</SelectItem>
+                        <SelectItem value="time_off">Crew time off</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={calendarName}
+                      onChange={(e) => setCalendarName(e.target.value)}
+                      placeholder={calendarType === 'time_off' ? 'e.g. Vacation' : 'e.g. Thanksgiving'}
+                      disabled={isSavingCalendar}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">From</Label>
+                      <Input
+                        type="date"
+                        value={calendarDate}
+                        onChange={(e) => setCalendarDate(e.target.value)}
+                        disabled={isSavingCalendar}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Through (optional)</Label>
+                      <Input
+                        type="date"
+                        value={calendarEndDate}
+                        min={calendarDate || undefined}
+                        onChange={(e) => setCalendarEndDate(e.target.value)}
+                        disabled={isSavingCalendar}
+                      />
+                    </div>
+                  </div>
+                  {calendarType === 'reduced_hours' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Start</Label>
+                        <Input
+                          type="time"
+                          value={calendarStartTime}
+                          onChange={(e) => setCalendarStartTime(e.target.value)}
+                          disabled={isSavingCalendar}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Finish by</Label>
+                        <Input
+                          type="time"
+                          value={calendarEndTime}
+                          onChange={(e) => setCalendarEndTime(e.target.value)}
+                          disabled={isSavingCalendar}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {calendarType !== 'closed' && (
+                    <Select
+                      value={calendarCrewId}
+                      disabled={isSavingCalendar}
+                      onValueChange={setCalendarCrewId}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {calendarType === 'reduced_hours'
+                          ? <SelectItem value="all">All crews</SelectItem>
+                          : <SelectItem value="all" disabled>Select a crew</SelectItem>}
+                        {crews.map((crew) => (
+                          <SelectItem key={crew.crewId} value={crew.crewId}>{crew.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={isSavingCalendar}
+                    onClick={handleAddCalendarEntry}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add to Calendar
+                  </Button>
+                </div>
+              </div>
+
+              {/* What crews must do for each service before they can complete a stop */}
+              <div className="space-y-3 border-t pt-4">
+                <div className="flex items-center gap-2">
+                  <ListChecks className="w-4 h-4" />
+                  <h3 className="text-sm font-semibold">Stop Checklists</h3>
+                </div>
+
+                {checklists.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    No checklists. Crews can complete stops without one.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {checklists.map((checklist) => (
+                      <div key={checklist.serviceType} className="space-y-1">
+                        <p className="text-xs font-medium uppercase text-muted-foreground">
+                          {getServiceTypeLabel(checklist.serviceType)}
+                        </p>
+                        {checklist.items.map((item) => (
+                          <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <span className="truncate">{item.label}</span>
+                              {item.required && <Badge variant="outline" className="text-xs">Required</Badge>}
+                            </div>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              disabled={isSavingChecklists}
+                              onClick={() => handleRemoveChecklistItem(checklist.serviceType, item.id)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid gap-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={checklistServiceType}
+                      disabled={isSavingChecklists}
+                      onValueChange={setChecklistServiceType}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SERVICE_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={checklistLabel}
+                      onChange={(e) => setChecklistLabel(e.target.value)}
+                      placeholder="e.g. Edge sidewalks"
+                      disabled={isSavingChecklists}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="checklist-required"
+                      checked={checklistRequired}
+                      disabled={isSavingChecklists}
+                      onCheckedChange={(checked) => setChecklistRequired(checked === true)}
+                    />
+                    <Label htmlFor="checklist-required" className="text-sm font-normal">
+                      Required before the crew can complete the stop
+                    </Label>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={isSavingChecklists}
+                    onClick={handleAddChecklistItem}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Checklist Item
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-3 border-t pt-4">
+                <div className="flex items-center gap-2">
+                  <DollarSign className="w-4 h-4" />
+                  <h3 className="text-sm font-semibold">Route Costs</h3>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Used for each route&apos;s estimated cost and margin. Crews can set their own fuel cost per mile.
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="fuel-cost">Fuel per mile ($)</Label>
+                    <Input
+                      id="fuel-cost"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={fuelCostPerMile}
+                      onChange={(e) => setFuelCostPerMile(e.target.value)}
+                      disabled={isSavingCosts}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="labor-cost">Labor per hour, each member ($)</Label>
+                    <Input
+                      id="labor-cost"
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      value={laborCostPerHour}
+                      onChange={(e) => setLaborCostPerHour(e.target.value)}
+                      disabled={isSavingCosts}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="overtime-after">Overtime after (hours/day)</Label>
+                    <Input
+                      id="overtime-after"
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      value={overtimeAfterHours}
+                      onChange={(e) => setOvertimeAfterHours(e.target.value)}
+                      disabled={isSavingCosts}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="overtime-multiplier">Overtime multiplier</Label>
+                    <Input
+                      id="overtime-multiplier"
+                      type="number"
+                      step="0.1"
+                      min="1"
+                      value={overtimeMultiplier}
+                      onChange={(e) => setOvertimeMultiplier(e.target.value)}
+                      disabled={isSavingCosts}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label>Order stops to minimize</Label>
+                  <Select
+                    value={optimizeFor}
+                    disabled={isSavingCosts}
+                    onValueChange={(value) => setOptimizeFor(value as RouteObjective)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="time">Time on the road</SelectItem>
+                      <SelectItem value="distance">Miles driven</SelectItem>
+                      <SelectItem value="cost">Route cost (fuel + labor)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={isSavingCosts}
+                  onClick={handleSaveRouteCosts}
+                >
+                  {isSavingCosts && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                  Save Route Costs
+                </Button>
+              </div>
             </div>
 
             <SheetFooter>
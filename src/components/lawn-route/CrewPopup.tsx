@@ -3,18 +3,34 @@
 import * as React from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Users, MapPin, Calendar } from "lucide-react"
+import { Users, MapPin, Calendar, Clock, AlertTriangle, Download } from "lucide-react"
+import { RouteStopEditor } from "./RouteStopEditor"
+import { RoutePlanHistory } from "./RoutePlanHistory"
+import { ServiceEstimateBadge } from "./ServiceEstimateBadge"
 import type { DailyRoute, User } from "@/lib/firebase-types"
 
+// Manager-only stop editing; omitted for read-only views
+interface CrewPopupEditing {
+  otherRoutes: DailyRoute[]
+  isSaving: boolean
+  onMoveStop: (customerId: string, toIndex: number) => void
+  onPinStop: (customerId: string, pin: { position?: boolean; time?: string }) => void
+  onUnpinStop: (customerId: string) => void
+  onMoveToCrew: (customerId: string, crewId: string) => void
+  onReoptimize: () => void
+}
+
 interface CrewPopupProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   route: DailyRoute | null
   employees: User[]
+  editing?: CrewPopupEditing
 }
 
-export function CrewPopup({ open, onOpenChange, route, employees }: CrewPopupProps) {
+export function CrewPopup({ open, onOpenChange, route, employees, editing }: CrewPopupProps) {
   if (!route) return null
 
   // Find employees in this crew
@@ -32,10 +48,17 @@ export function CrewPopup({ open, onOpenChange, route, employees }: CrewPopupPro
 
   const crewColor = generateColor(route.crewId)
   const isToday = new Date(route.date).toDateString() === new Date().toDateString()
+  const crewName = crewEmployees.find(emp => emp.crewName)?.crewName
+
+  // Load the route into a GPS unit or another mapping tool
+  const handleExport = async (format: 'gpx' | 'kml') => {
+    const { downloadRouteFile } = await import("@/lib/route-file-service")
+    downloadRouteFile(route, format, crewName ? `${crewName} - ${new Date(route.date).toLocaleDateString()}` : undefined)
+  }
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <div 
@@ -70,6 +93,27 @@ export function CrewPopup({ open, onOpenChange, route, employees }: CrewPopupPro
                 <span className="text-sm text-muted-foreground">Estimated Duration:</span>
                 <span className="text-sm font-medium">{route.estimatedDuration} min</span>
               </div>
+              {route.unhonoredTimeWindows && route.unhonoredTimeWindows.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Missed Time Windows:</span>
+                  <Badge variant="destructive">{route.unhonoredTimeWindows.length}</Badge>
+                </div>
+              )}
+              {route.customers.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Export:</span>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleExport('gpx')}>
+                      <Download className="w-3 h-3 mr-1" />
+                      GPX
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleExport('kml')}>
+                      <Download className="w-3 h-3 mr-1" />
+                      KML
+                    </Button>
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -114,21 +158,49 @@ export function CrewPopup({ open, onOpenChange, route, employees }: CrewPopupPro
               </CardTitle>
             </CardHeader>
             <CardContent>
+              {editing ? (
+                <div className="space-y-4">
+                  <RouteStopEditor route={route} {...editing} />
+                  <RoutePlanHistory
+                    companyId={route.companyId}
+                    crewId={route.crewId}
+                    date={new Date(route.date)}
+                    currentVersion={route.version}
+                    employees={employees}
+                  />
+                </div>
+              ) : (
               <div className="space-y-2">
-                {route.customers.map((customer) => (
-                  <div key={customer.id} className="flex items-center justify-between p-2 bg-muted/50 rounded">
-                    <div>
-                      <p className="text-sm font-medium">{customer.name}</p>
-                      <p className="text-xs text-muted-foreground">{customer.address}</p>
+                {route.customers.map((customer) => {
+                  const stopSchedule = route.stopSchedule?.find(stop => stop.customerId === customer.id)
+                  const serviceEstimate = route.serviceEstimates?.find(estimate => estimate.customerId === customer.id)
+
+                  return (
+                    <div key={customer.id} className="flex items-center justify-between p-2 bg-muted/50 rounded">
+                      <div>
+                        <p className="text-sm font-medium">{customer.name}</p>
+                        <p className="text-xs text-muted-foreground">{customer.address}</p>
+                        {stopSchedule && (
+                          <p className={`text-xs flex items-center gap-1 ${stopSchedule.withinWindow ? 'text-muted-foreground' : 'text-destructive'}`}>
+                            {stopSchedule.withinWindow ? <Clock className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                            Arrive {stopSchedule.serviceStart} (window {stopSchedule.timeWindow.start}–{stopSchedule.timeWindow.end})
+                            {!stopSchedule.withinWindow && ` · ${stopSchedule.lateMinutes} min late`}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        {customer.services.length > 0 && (
+                          <Badge variant="outline" className="text-xs">
+                            {customer.services[0].type}
+                          </Badge>
+                        )}
+                        {serviceEstimate && <ServiceEstimateBadge {...serviceEstimate} />}
+                      </div>
                     </div>
-                    {customer.services.length > 0 && (
-                      <Badge variant="outline" className="text-xs">
-                        {customer.services[0].type}
-                      </Badge>
-                    )}
-                  </div>
-                ))}
+                  )
+                })}
               </div>
+              )}
             </CardContent>
           </Card>
         </div>
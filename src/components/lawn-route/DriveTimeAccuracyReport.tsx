@@ -0,0 +1,101 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Car, Loader2 } from "lucide-react"
+import { fromDateKey } from "@/lib/time-utils"
+import type { DriveTimeAccuracyWeek } from "@/lib/drive-time-service"
+
+interface DriveTimeAccuracyReportProps {
+  companyId: string
+}
+
+const formatBias = (bias: number) => `${bias >= 0 ? '+' : ''}${Math.round(bias * 100)}%`
+
+/**
+ * Drive Time Accuracy Report Component
+ *
+ * Estimated against recorded drive time per week, before and after learned corrections
+ */
+export function DriveTimeAccuracyReport({ companyId }: DriveTimeAccuracyReportProps) {
+  const [weeks, setWeeks] = React.useState<DriveTimeAccuracyWeek[] | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const loadReport = async () => {
+      try {
+        const { getDriveTimeAccuracyReport } = await import("@/lib/drive-time-service")
+        const report = await getDriveTimeAccuracyReport(companyId)
+        if (!cancelled) setWeeks(report)
+      } catch (error) {
+        console.error('Error loading drive time accuracy:', error)
+        if (!cancelled) setWeeks([])
+      }
+    }
+
+    loadReport()
+    return () => { cancelled = true }
+  }, [companyId])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Car className="w-5 h-5" />
+          Drive Time Accuracy
+        </CardTitle>
+        <CardDescription>Average minutes off per drive between stops, raw and with learned corrections</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!weeks ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : weeks.length === 0 ? (
+          <p className="text-sm text-gray-600">No recorded drives yet. Accuracy shows once crews complete routes.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-2 pr-2 font-medium">Week of</th>
+                  <th className="py-2 px-2 font-medium text-right">Drives</th>
+                  <th className="py-2 px-2 font-medium text-right">Raw</th>
+                  <th className="py-2 px-2 font-medium text-right">Learned</th>
+                  <th className="py-2 pl-2 font-medium text-right">Took</th>
+                </tr>
+              </thead>
+              <tbody>
+                {weeks.map(week => (
+                  <tr key={week.weekStart} className="border-t">
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {fromDateKey(week.weekStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                    </td>
+                    <td className="py-2 px-2 text-right">{week.legs}</td>
+                    <td className="py-2 px-2 text-right">{week.averageErrorMinutes.toFixed(1)} min</td>
+                    <td className={`py-2 px-2 text-right ${week.correctedErrorMinutes < week.averageErrorMinutes ? 'text-green-700' : ''}`}>
+                      {week.correctedErrorMinutes.toFixed(1)} min
+                    </td>
+                    <td className="py-2 pl-2 text-right">
+                      <Badge
+                        variant="outline"
+                        className={Math.abs(week.bias) > 0.2
+                          ? "bg-yellow-100 text-yellow-800 border-yellow-200"
+                          : "bg-green-100 text-green-800 border-green-200"}
+                      >
+                        {formatBias(week.bias)}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-2">&quot;Took&quot; is how much longer (+) or shorter (-) drives were than the raw estimates.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -12,6 +12,7 @@ import {
   FormItem,
   FormLabel,
   FormMessage,
+  FormDescription,
 } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
@@ -48,6 +49,9 @@ import { useToast } from "@/hooks/use-toast"
 import { Calendar, Clock, Trash2, Camera, CheckCircle2 } from "lucide-react"
 import type { DayOfWeek, Customer } from "@/lib/types"
 import { ServicePhotoManager } from "@/components/lawn-route/ServicePhotoManager"
+import { ServiceRecurrenceEditor } from "@/components/lawn-route/ServiceRecurrenceEditor"
+import { ServiceHistoryList, ServiceSignatureProof } from "@/components/lawn-route/ServiceHistoryList"
+import { EQUIPMENT_LABELS } from "@/lib/service-requirements"
 
 interface EditCustomerSheetProps {
   open: boolean
@@ -65,7 +69,10 @@ const formSchema = z.object({
     lng: z.number().optional(),
   }).optional(),
   notes: z.string().optional(),
+  lotSize: z.enum(['small', 'medium', 'large', 'estate']).optional(),
   serviceTypes: z.array(z.string()).min(1, { message: "At least one service type is required." }),
+  crewSize: z.string().default('1'), // Members needed on site, applied to every service
+  requiredEquipment: z.array(z.string()).default([]), // On top of what the service types need
   servicePreferences: z.object({
     preferredDays: z.array(z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])).default([]),
     preferredTimeRange: z.object({
@@ -99,6 +106,8 @@ export function EditCustomerSheet({ open, onOpenChange, customer, onUpdateCustom
       coordinates: undefined,
       notes: "",
       serviceTypes: ["push-mow"],
+      crewSize: '1',
+      requiredEquipment: [],
       servicePreferences: {
         preferredDays: [],
         preferredTimeRange: {
@@ -126,7 +135,10 @@ export function EditCustomerSheet({ open, onOpenChange, customer, onUpdateCustom
         address: customer.address,
         coordinates: { lat: customer.lat, lng: customer.lng },
         notes: customer.notes || '',
+        lotSize: customer.lotSize,
         serviceTypes: serviceTypes,
+        crewSize: String(Math.max(1, ...(customer.services || []).map(service => service.crewSize || 1))),
+        requiredEquipment: Array.from(new Set((customer.services || []).flatMap(service => service.requiredEquipment || []))),
         servicePreferences: {
           preferredDays: customer.servicePreferences?.preferredDays || [],
           preferredTimeRange: customer.servicePreferences?.preferredTimeRange || { start: "08:00", end: "17:00" },
@@ -312,6 +324,95 @@ export function EditCustomerSheet({ open, onOpenChange, customer, onUpdateCustom
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="lotSize"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lot Size</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select lot size" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="small">Small</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="large">Large</SelectItem>
+                          <SelectItem value="estate">Estate</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="crewSize"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Crew Size Needed</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="1">1 person</SelectItem>
+                          <SelectItem value="2">2 people</SelectItem>
+                          <SelectItem value="3">3 people</SelectItem>
+                          <SelectItem value="4">4 people</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="requiredEquipment"
+                  render={() => (
+                    <FormItem>
+                      <FormLabel>Extra Equipment</FormLabel>
+                      <FormDescription>
+                        Riding mows already need a riding mower and trailer.
+                      </FormDescription>
+                      <div className="grid grid-cols-2 gap-3">
+                        {Object.entries(EQUIPMENT_LABELS).map(([value, label]) => (
+                          <FormField
+                            key={value}
+                            control={form.control}
+                            name="requiredEquipment"
+                            render={({ field }) => (
+                              <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                                <FormControl>
+                                  <Checkbox
+                                    checked={field.value?.includes(value)}
+                                    onCheckedChange={(checked) => {
+                                      return checked
+                                        ? field.onChange([...field.value, value])
+                                        : field.onChange(
+                                            field.value?.filter(
+                                              (item) => item !== value
+                                            )
+                                          )
+                                    }}
+                                  />
+                                </FormControl>
+                                <FormLabel className="text-sm font-normal cursor-pointer">
+                                  {label}
+                                </FormLabel>
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
                 {/* Service Preferences Section */}
                 <div className="space-y-4 border-t pt-6">
@@ -496,6 +597,11 @@ export function EditCustomerSheet({ open, onOpenChange, customer, onUpdateCustom
                         </div>
                       </div>
 
+                      <ServiceRecurrenceEditor
+                        customerId={customer.id}
+                        service={service}
+                      />
+
                       {/* Photo Manager */}
                       <ServicePhotoManager
                         customerId={customer.id}
@@ -508,6 +614,13 @@ export function EditCustomerSheet({ open, onOpenChange, customer, onUpdateCustom
                         }}
                         canEdit={service.status !== 'completed'}
                       />
+
+                      {/* Signed proof of service from the visits that covered this service */}
+                      {(customer.serviceHistory || [])
+                        .filter(record => record.signature && record.serviceIds?.includes(service.id))
+                        .map(record => (
+                          <ServiceSignatureProof key={record.id} signature={record.signature!} />
+                        ))}
                     </div>
                   ))
                 ) : (
@@ -516,6 +629,8 @@ export function EditCustomerSheet({ open, onOpenChange, customer, onUpdateCustom
                     <p>No services found for this customer</p>
                   </div>
                 )}
+
+                <ServiceHistoryList records={customer.serviceHistory || []} />
               </div>
             </TabsContent>
           </Tabs>
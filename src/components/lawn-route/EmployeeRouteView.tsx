@@ -2,20 +2,38 @@
 
 import * as React from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { MapPin } from "lucide-react"
 import { ScheduleStatusCard } from "./ScheduleStatusCard"
 import { TimeBreakdownWidget } from "./TimeBreakdownWidget"
 import { StopTimer } from "./StopTimer"
 import { PerStopTimingTable } from "./PerStopTimingTable"
-import type { Route } from "@/lib/types"
-import { autoDetectArrival } from "@/lib/route-tracking-service"
+import { StopChecklist } from "./StopChecklist"
+import { SignatureCapture } from "./SignatureCapture"
+import { buildStopChecklist, getBlockingChecklistItems } from "@/lib/checklist-service"
+import { useGeofence } from "@/hooks/use-geofence"
+import type { Route, StopSignature } from "@/lib/types"
+import type { ChecklistItemResult, ServiceChecklist } from "@/lib/firebase-types"
+import type { GeofenceEvent, LocationSample } from "@/lib/route-tracking-service"
 
 interface EmployeeRouteViewProps {
   route: Route
-  employeeLocation?: { lat: number; lng: number }
   onStopArrival: (customerId: string) => void
   onStopDeparture: (customerId: string) => void
   onStopPause?: (customerId: string) => void
   onStopResume?: (customerId: string) => void
+  onStopSkip?: (customerId: string) => void
+  onStopNotes?: (customerId: string, notes: string) => void
+  onGeofenceEvent?: (event: GeofenceEvent) => void
+  pendingGeofenceEvent?: GeofenceEvent | null // Detected automatically, waiting for the crew to confirm or undo
+  onConfirmGeofenceEvent?: () => void
+  onUndoGeofenceEvent?: () => void
+  onLocationSample?: (sample: LocationSample) => void // Location fixes while auto check-in is on
+  checklists?: ServiceChecklist[] // Company checklists per service type
+  onChecklistChange?: (customerId: string, checklist: ChecklistItemResult[]) => void
+  onSignatureChange?: (customerId: string, signature: StopSignature | undefined) => void
 }
 
 /**
@@ -26,16 +44,33 @@ interface EmployeeRouteViewProps {
  * - Stop timer for clock-in/out
  * - Time breakdown analytics
  * - Per-stop timing details
+ * - Automatic check-in and check-out from GPS geofences
  */
 export function EmployeeRouteView({
   route,
-  employeeLocation,
   onStopArrival,
   onStopDeparture,
   onStopPause,
-  onStopResume
+  onStopResume,
+  onStopSkip,
+  onStopNotes,
+  onGeofenceEvent,
+  pendingGeofenceEvent,
+  onConfirmGeofenceEvent,
+  onUndoGeofenceEvent,
+  onLocationSample,
+  checklists = [],
+  onChecklistChange,
+  onSignatureChange
 }: EmployeeRouteViewProps) {
   const [currentTime, setCurrentTime] = React.useState(new Date())
+  const [autoCheckIn, setAutoCheckIn] = React.useState(false)
+  const geofence = useGeofence({
+    route,
+    enabled: autoCheckIn && !!onGeofenceEvent,
+    onEvent: (event) => onGeofenceEvent?.(event),
+    onSample: onLocationSample,
+  })
 
   // Update current time every minute
   React.useEffect(() => {
@@ -46,28 +81,62 @@ export function EmployeeRouteView({
     return () => clearInterval(interval)
   }, [])
 
-  // Auto-detect arrival at stops (if employee location is available)
-  React.useEffect(() => {
-    if (!employeeLocation) return
-
-    const stopToArrive = autoDetectArrival(employeeLocation, route, 50) // 50 meter threshold
-    if (stopToArrive) {
-      console.log(`Auto-detected arrival at ${stopToArrive.customerName}`)
-      // Optionally auto-trigger arrival
-      // onStopArrival(stopToArrive.customerId)
-    }
-  }, [employeeLocation, route])
+  const handleUndoGeofenceEvent = () => {
+    if (!pendingGeofenceEvent) return
+    geofence.ignoreStop(pendingGeofenceEvent.customerId)
+    onUndoGeofenceEvent?.()
+  }
 
   // Get current and next stops
   const currentStop = route.stops.find(stop => stop.status === 'in_progress')
   const nextStop = route.stops.find(stop => stop.status === 'pending')
   const recentStops = route.stops.filter(stop => stop.status === 'completed').slice(-3)
+  const currentChecklist = currentStop ? buildStopChecklist(checklists, currentStop) : []
+  const blockingItems = getBlockingChecklistItems(currentChecklist)
 
   return (
     <div className="space-y-4 p-4">
       {/* Schedule Status Card - Always visible at top */}
       <ScheduleStatusCard route={route} currentTime={currentTime} showDetails={true} />
 
+      {/* Automatic check-in */}
+      {onGeofenceEvent && (
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div>
+            <Label htmlFor="auto-check-in" className="flex items-center gap-1">
+              <MapPin className="w-4 h-4" />
+              Auto check-in
+            </Label>
+            <p className="text-xs text-gray-500">
+              {!autoCheckIn
+                ? "Marks arrival and departure when you stay at or leave a stop, and records your drive"
+                : geofence.error
+                  ? geofence.error
+                  : geofence.phase === 'entering'
+                    ? "Near a stop, checking in shortly"
+                    : geofence.phase === 'exiting'
+                      ? "Left the stop, checking out shortly"
+                      : "Watching your location"}
+            </p>
+          </div>
+          <Switch id="auto-check-in" checked={autoCheckIn} onCheckedChange={setAutoCheckIn} />
+        </div>
+      )}
+
+      {pendingGeofenceEvent && (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 space-y-2">
+          <p className="text-sm text-blue-900">
+            {pendingGeofenceEvent.type === 'arrival' ? 'Arrived at' : 'Left'} {pendingGeofenceEvent.customerName} at{' '}
+            {pendingGeofenceEvent.at.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })}{' '}
+            (detected automatically)
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" className="flex-1" onClick={onConfirmGeofenceEvent}>Confirm</Button>
+            <Button size="sm" variant="outline" className="flex-1" onClick={handleUndoGeofenceEvent}>Undo</Button>
+          </div>
+        </div>
+      )}
+
       {/* Tabs for different views */}
       <Tabs defaultValue="current" className="w-full">
         <TabsList className="grid w-full grid-cols-3">
@@ -88,8 +157,25 @@ export function EmployeeRouteView({
                 onDepart={() => onStopDeparture(currentStop.customerId)}
                 onPause={onStopPause ? () => onStopPause(currentStop.customerId) : undefined}
                 onResume={onStopResume ? () => onStopResume(currentStop.customerId) : undefined}
+                onSaveNotes={onStopNotes ? (notes) => onStopNotes(currentStop.customerId, notes) : undefined}
                 showTimer={true}
-              />
+                departBlockedReason={blockingItems.length > 0
+                  ? `Check off or waive ${blockingItems.length} required checklist item${blockingItems.length === 1 ? '' : 's'} to complete this stop`
+                  : undefined}
+              >
+                {onChecklistChange && (
+                  <StopChecklist
+                    checklist={currentChecklist}
+                    onChange={(checklist) => onChecklistChange(currentStop.customerId, checklist)}
+                  />
+                )}
+                {onSignatureChange && (
+                  <SignatureCapture
+                    signature={currentStop.signature}
+                    onChange={(signature) => onSignatureChange(currentStop.customerId, signature)}
+                  />
+                )}
+              </StopTimer>
             </div>
           )}
 
@@ -101,6 +187,7 @@ export function EmployeeRouteView({
                 stop={nextStop}
                 onArrive={() => onStopArrival(nextStop.customerId)}
                 onDepart={() => onStopDeparture(nextStop.customerId)}
+                onSkip={onStopSkip ? () => onStopSkip(nextStop.customerId) : undefined}
                 showTimer={false}
               />
             </div>
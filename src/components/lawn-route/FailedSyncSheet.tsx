@@ -0,0 +1,185 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { useToast } from "@/hooks/use-toast"
+import { AlertTriangle, Loader2, RotateCcw, Trash2 } from "lucide-react"
+import { discardFailedEntry, getFailedEntries, getOutboxEntries, retryFailedEntry } from "@/lib/offline-sync-service"
+import type { OutboxEntry } from "@/lib/offline-sync-service"
+
+interface FailedSyncSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const STOP_ACTION_LABELS: Record<string, string> = {
+  arrive: 'Arrival',
+  depart: 'Departure',
+  pause: 'Pause',
+  resume: 'Resume',
+  skip: 'Skipped stop',
+  notes: 'Stop notes',
+}
+
+const describeEntry = (entry: OutboxEntry): string => {
+  switch (entry.kind) {
+    case 'stop_event':
+      return STOP_ACTION_LABELS[entry.event.action] || 'Stop action'
+    case 'photo':
+      return `${entry.photoType === 'before' ? 'Before' : 'After'} photo`
+    case 'breadcrumbs':
+      return `GPS track (${entry.segment.points.length} points)`
+    case 'service_record':
+      return entry.signature ? 'Service record with signature' : 'Service record'
+  }
+}
+
+/**
+ * Changes the server kept rejecting. The crew can try them again or discard them.
+ */
+export function FailedSyncSheet({ open, onOpenChange }: FailedSyncSheetProps) {
+  const { toast } = useToast()
+  const [entries, setEntries] = React.useState<OutboxEntry[]>([])
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [processingId, setProcessingId] = React.useState<number | null>(null)
+
+  const loadEntries = React.useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setEntries(await getFailedEntries())
+    } catch (error) {
+      console.error('Error loading failed changes:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (open) void loadEntries()
+  }, [open, loadEntries])
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    setProcessingId(entry.id!)
+    try {
+      await retryFailedEntry(entry.id!)
+      const stillQueued = (await getOutboxEntries()).some(queued => queued.id === entry.id)
+      toast({
+        title: stillQueued ? "Queued Again" : "Synced",
+        description: stillQueued
+          ? "The change couldn't be saved yet. It will keep retrying with the next sync."
+          : "The change was saved.",
+      })
+      await loadEntries()
+    } catch (error) {
+      console.error('Error retrying failed change:', error)
+      toast({
+        title: "Error",
+        description: "Failed to retry the change. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    setProcessingId(entry.id!)
+    try {
+      await discardFailedEntry(entry.id!)
+      toast({
+        title: "Change Discarded",
+        description: `${describeEntry(entry)} was removed from this device.`,
+      })
+      await loadEntries()
+    } catch (error) {
+      console.error('Error discarding failed change:', error)
+      toast({
+        title: "Error",
+        description: "Failed to discard the change. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-lg max-h-[90svh] overflow-y-auto">
+        <SheetHeader className="text-left">
+          <SheetTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+            Changes That Failed to Sync
+          </SheetTitle>
+          <SheetDescription>
+            The server rejected these changes several times. Retry them, or discard them if they&apos;re no longer needed.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="py-4 space-y-3">
+          {isLoading && entries.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Nothing has failed to sync.</p>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{describeEntry(entry)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Recorded {new Date(entry.queuedAt).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit',
+                        hour12: true,
+                      })}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRetry(entry)}
+                      disabled={processingId !== null}
+                    >
+                      {processingId === entry.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4" />
+                      )}
+                      <span className="ml-1">Retry</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDiscard(entry)}
+                      disabled={processingId !== null}
+                      className="text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span className="ml-1">Discard</span>
+                    </Button>
+                  </div>
+                </div>
+                {entry.lastError && (
+                  <p className="text-xs text-destructive break-words">{entry.lastError}</p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { Leaf, User, LogOut, Calendar, Building2, Download, UserPlus } from 'lucide-react';
+import { Leaf, User, LogOut, Calendar, Building2, Download, UserPlus, Pentagon, CloudRain, FileUp, Siren, CloudOff, History, AlertTriangle } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -16,6 +16,8 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { useState, useEffect } from 'react';
 import { subscribeToPendingUsers } from '@/lib/user-service';
+import { subscribeToOutboxStatus, syncOutbox } from '@/lib/offline-sync-service';
+import { FailedSyncSheet } from './FailedSyncSheet';
 
 interface HeaderProps {
   onOpenCompanySettings?: () => void;
@@ -24,6 +26,11 @@ interface HeaderProps {
   onOpenSchedule?: () => void;
   onOpenCompanyManagement?: () => void;
   onOpenPendingUsers?: () => void;
+  onOpenTerritories?: () => void;
+  onOpenWeather?: () => void;
+  onOpenRouteImport?: () => void;
+  onOpenInsertJob?: () => void;
+  onOpenRouteReplay?: () => void;
 }
 
 export function Header({
@@ -32,11 +39,19 @@ export function Header({
   onOpenProfile,
   onOpenSchedule,
   onOpenCompanyManagement,
-  onOpenPendingUsers
+  onOpenPendingUsers,
+  onOpenTerritories,
+  onOpenWeather,
+  onOpenRouteImport,
+  onOpenInsertJob,
+  onOpenRouteReplay
 }: HeaderProps) {
   const { user, userProfile, signOut, loading } = useAuth();
   const { toast } = useToast();
   const [pendingUsersCount, setPendingUsersCount] = useState(0);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [failedSyncCount, setFailedSyncCount] = useState(0);
+  const [isFailedSyncOpen, setIsFailedSyncOpen] = useState(false);
 
   // Subscribe to pending users count for managers
   useEffect(() => {
@@ -50,6 +65,41 @@ export function Header({
     return () => unsubscribe();
   }, [userProfile?.companyId, userProfile?.role]);
 
+  // Changes recorded offline on this device that haven't reached the server yet
+  useEffect(() => {
+    let lastSyncError: string | undefined;
+    return subscribeToOutboxStatus(({ pending, failed, syncError }) => {
+      setPendingSyncCount(pending);
+      setFailedSyncCount(failed);
+
+      // Tell the crew once when changes can't be synced at all (e.g. no offline storage)
+      if (syncError && syncError !== lastSyncError) {
+        toast({
+          title: "Sync Problem",
+          description: `Changes on this device couldn't be synced: ${syncError}`,
+          variant: "destructive",
+        });
+      }
+      lastSyncError = syncError;
+    });
+  }, [toast]);
+
+  const handleSyncNow = async () => {
+    try {
+      const result = await syncOutbox();
+      toast({
+        title: result.remaining > 0 ? "Still Offline" : result.failed > 0 ? "Some Changes Failed" : "Synced",
+        description: result.remaining > 0
+          ? `${result.remaining} change${result.remaining === 1 ? '' : 's'} will sync when there's signal.`
+          : result.failed > 0
+            ? `${result.failed} change${result.failed === 1 ? '' : 's'} failed to sync and need${result.failed === 1 ? 's' : ''} review.`
+            : `All changes are saved${result.conflicts > 0 ? ` (${result.conflicts} already changed on another device)` : ''}.`,
+      });
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+    }
+  };
+
   // Debug logging
   console.log('Header Auth State:', {
     user: user ? 'Present' : 'Missing',
@@ -116,6 +166,38 @@ export function Header({
             </Badge>
           )}
 
+          {/* Offline changes waiting to sync */}
+          {pendingSyncCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSyncNow}
+              className="flex items-center gap-2 text-amber-700 border-amber-300"
+              title="Tap to sync now"
+            >
+              <CloudOff className="w-4 h-4" />
+              <span>
+                {pendingSyncCount}<span className="hidden sm:inline"> change{pendingSyncCount === 1 ? '' : 's'} pending sync</span>
+              </span>
+            </Button>
+          )}
+
+          {/* Offline changes the server kept rejecting */}
+          {failedSyncCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsFailedSyncOpen(true)}
+              className="flex items-center gap-2 text-destructive border-destructive/50"
+              title="Review changes that failed to sync"
+            >
+              <AlertTriangle className="w-4 h-4" />
+              <span>
+                {failedSyncCount}<span className="hidden sm:inline"> failed to sync</span>
+              </span>
+            </Button>
+          )}
+
           {/* Export Button - Only for managers and admins */}
           {onExportMetrics && userProfile && (userProfile.role === 'manager' || userProfile.role === 'admin') && (
             <Button
@@ -205,6 +287,36 @@ export function Header({
                   <span>Company</span>
                 </DropdownMenuItem>
               )}
+              {onOpenTerritories && (userProfile?.role === 'admin' || userProfile?.role === 'manager') && (
+                <DropdownMenuItem onClick={onOpenTerritories} className="cursor-pointer">
+                  <Pentagon className="mr-2 h-4 w-4" />
+                  <span>Territories</span>
+                </DropdownMenuItem>
+              )}
+              {onOpenWeather && (userProfile?.role === 'admin' || userProfile?.role === 'manager') && (
+                <DropdownMenuItem onClick={onOpenWeather} className="cursor-pointer">
+                  <CloudRain className="mr-2 h-4 w-4" />
+                  <span>Weather</span>
+                </DropdownMenuItem>
+              )}
+              {onOpenRouteImport && (userProfile?.role === 'admin' || userProfile?.role === 'manager') && (
+                <DropdownMenuItem onClick={onOpenRouteImport} className="cursor-pointer">
+                  <FileUp className="mr-2 h-4 w-4" />
+                  <span>Import Route</span>
+                </DropdownMenuItem>
+              )}
+              {onOpenInsertJob && (userProfile?.role === 'admin' || userProfile?.role === 'manager') && (
+                <DropdownMenuItem onClick={onOpenInsertJob} className="cursor-pointer">
+                  <Siren className="mr-2 h-4 w-4" />
+                  <span>Same-Day Job</span>
+                </DropdownMenuItem>
+              )}
+              {onOpenRouteReplay && (userProfile?.role === 'admin' || userProfile?.role === 'manager') && (
+                <DropdownMenuItem onClick={onOpenRouteReplay} className="cursor-pointer">
+                  <History className="mr-2 h-4 w-4" />
+                  <span>Route Replay</span>
+                </DropdownMenuItem>
+              )}
               {onOpenCompanySettings && userProfile?.role === 'employee' && (
                 <DropdownMenuItem onClick={onOpenCompanySettings} className="cursor-pointer">
                   <Building2 className="mr-2 h-4 w-4" />
@@ -218,6 +330,8 @@ export function Header({
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+
+          <FailedSyncSheet open={isFailedSyncOpen} onOpenChange={setIsFailedSyncOpen} />
         </div>
       ) : (
         <div className="flex items-center space-x-3">
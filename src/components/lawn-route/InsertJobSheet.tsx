@@ -0,0 +1,275 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, Siren } from "lucide-react"
+import type { Customer } from "@/lib/firebase-types"
+import type { InsertionOption, InsertionSearchResult, SameDayJob } from "@/lib/job-insertion-service"
+
+interface InsertJobSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  userId?: string
+  customers: Customer[]
+  crews: { crewId: string; name: string }[]
+  onInserted?: () => void
+}
+
+const SERVICE_TYPES = [
+  { value: 'push-mow', label: 'Push Mow' },
+  { value: 'edge', label: 'Edge' },
+  { value: 'blow', label: 'Blow' },
+  { value: 'detail', label: 'Detail' },
+  { value: 'riding-mow', label: 'Riding Mow' },
+]
+
+/**
+ * Fit a same-day job into a crew's route that's already underway
+ */
+export function InsertJobSheet({
+  open,
+  onOpenChange,
+  companyId,
+  userId,
+  customers,
+  crews,
+  onInserted,
+}: InsertJobSheetProps) {
+  const { toast } = useToast()
+  const [customerId, setCustomerId] = React.useState('')
+  const [serviceType, setServiceType] = React.useState('detail')
+  const [description, setDescription] = React.useState('')
+  const [price, setPrice] = React.useState('')
+  const [minutes, setMinutes] = React.useState('')
+  const [result, setResult] = React.useState<InsertionSearchResult | null>(null)
+  const [isSearching, setIsSearching] = React.useState(false)
+  const [insertingCrewId, setInsertingCrewId] = React.useState<string | null>(null)
+
+  // Start fresh each time the sheet opens
+  React.useEffect(() => {
+    if (!open) return
+    setCustomerId('')
+    setDescription('')
+    setPrice('')
+    setMinutes('')
+    setResult(null)
+  }, [open])
+
+  const getCrewName = (crewId: string) => crews.find(crew => crew.crewId === crewId)?.name || crewId
+
+  const getJob = (): SameDayJob => ({
+    customerId,
+    serviceType,
+    description: description.trim() || 'Same-day job',
+    ...(price && { price: Number(price) }),
+    ...(minutes && { minutes: Number(minutes) }),
+  })
+
+  const handleSearch = async () => {
+    if (!customerId) {
+      toast({
+        title: "Customer Required",
+        description: "Choose the customer the job is for.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSearching(true)
+    setResult(null)
+    try {
+      const { findInsertionOptions } = await import("@/lib/job-insertion-service")
+      setResult(await findInsertionOptions(companyId, getJob()))
+    } catch (error) {
+      console.error('Error finding insertion options:', error)
+      toast({
+        title: "Search Failed",
+        description: error instanceof Error ? error.message : "Could not check today's routes.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const handleInsert = async (option: InsertionOption) => {
+    if (!userId) return
+
+    setInsertingCrewId(option.crewId)
+    try {
+      const { insertJob } = await import("@/lib/job-insertion-service")
+      await insertJob(companyId, getJob(), option, userId)
+
+      toast({
+        title: "Job Added",
+        description: `${getCrewName(option.crewId)} arrives around ${option.arrival} and finishes by ${option.estimatedFinishTime}.`,
+      })
+      onInserted?.()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error inserting job:', error)
+      toast({
+        title: "Could Not Add Job",
+        description: error instanceof Error ? error.message : "The route could not be updated.",
+        variant: "destructive",
+      })
+    } finally {
+      setInsertingCrewId(null)
+    }
+  }
+
+  const isBusy = isSearching || insertingCrewId !== null
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-lg max-h-[90svh] overflow-y-auto">
+        <SheetHeader className="text-left">
+          <SheetTitle className="flex items-center gap-2">
+            <Siren className="w-5 h-5" />
+            Same-Day Job
+          </SheetTitle>
+          <SheetDescription>
+            Finds where the job costs the least extra time on the routes crews are driving today.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="space-y-1">
+            <Label>Customer</Label>
+            <Select value={customerId} onValueChange={(value) => { setCustomerId(value); setResult(null) }} disabled={isBusy}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a customer" />
+              </SelectTrigger>
+              <SelectContent>
+                {customers
+                  .filter(customer => customer.status !== 'inactive')
+                  .map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Service</Label>
+              <Select value={serviceType} onValueChange={(value) => { setServiceType(value); setResult(null) }} disabled={isBusy}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SERVICE_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="insert-job-minutes">Minutes on site</Label>
+              <Input
+                id="insert-job-minutes"
+                type="number"
+                min="1"
+                placeholder="Estimate"
+                value={minutes}
+                onChange={(e) => { setMinutes(e.target.value); setResult(null) }}
+                disabled={isBusy}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="insert-job-description">Description</Label>
+              <Input
+                id="insert-job-description"
+                placeholder="e.g. Storm cleanup"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={isBusy}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="insert-job-price">Price</Label>
+              <Input
+                id="insert-job-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                disabled={isBusy}
+              />
+            </div>
+          </div>
+
+          <Button type="button" disabled={isBusy || !customerId} onClick={handleSearch}>
+            {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Find Crews'}
+          </Button>
+
+          {result && (
+            <div className="space-y-3 border-t pt-4 text-sm">
+              {result.options.length === 0 && (
+                <p className="text-muted-foreground">No crew can fit this job in today.</p>
+              )}
+              {result.options.map((option) => (
+                <div key={option.crewId} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{getCrewName(option.crewId)}</p>
+                      <p className="text-muted-foreground">
+                        Stop {option.position + 1}, arrives {option.arrival} · done {option.estimatedFinishTime} (shift ends {option.shiftEnd})
+                      </p>
+                    </div>
+                    <Badge variant="outline">+{option.addedMinutes} min · +{option.addedMiles.toFixed(1)} mi</Badge>
+                  </div>
+                  {option.etaImpacts.length > 0 ? (
+                    <ul className="text-muted-foreground space-y-0.5">
+                      {option.etaImpacts.map((impact) => (
+                        <li key={impact.customerId}>
+                          {impact.customerName}: {impact.arrival} → {impact.newArrival} (+{impact.delayMinutes} min)
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-muted-foreground">No other customer is delayed.</p>
+                  )}
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="w-full"
+                    disabled={isBusy || !userId}
+                    onClick={() => handleInsert(option)}
+                  >
+                    {insertingCrewId === option.crewId ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Add to Route'}
+                  </Button>
+                </div>
+              ))}
+              {result.unavailableCrews.length > 0 && (
+                <div className="text-muted-foreground">
+                  <p>Not possible for:</p>
+                  <ul className="list-disc pl-5">
+                    {result.unavailableCrews.map((crew) => (
+                      <li key={crew.crewId}>{getCrewName(crew.crewId)}: {crew.reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -7,6 +7,8 @@ import { Badge } from "@/components/ui/badge"
 import { CrewTimeAnalytics } from "./CrewTimeAnalytics"
 import { PerStopTimingTable } from "./PerStopTimingTable"
 import { TimeBreakdownWidget } from "./TimeBreakdownWidget"
+import { WorkloadFairnessReport } from "./WorkloadFairnessReport"
+import { DriveTimeAccuracyReport } from "./DriveTimeAccuracyReport"
 import { Clock, AlertCircle, CheckCircle2 } from "lucide-react"
 import type { Route } from "@/lib/types"
 import type { User } from "@/lib/firebase-types"
@@ -16,6 +18,7 @@ import { getPerformanceSummary } from "@/lib/time-analytics-service"
 interface ManagerAnalyticsDashboardProps {
   routes: Route[]
   users: User[]
+  companyId?: string // Enables the workload and drive time reports
   currentTime?: Date
 }
 
@@ -27,6 +30,7 @@ interface ManagerAnalyticsDashboardProps {
 export function ManagerAnalyticsDashboard({
   routes,
   users,
+  companyId,
   currentTime = new Date()
 }: ManagerAnalyticsDashboardProps) {
   const [selectedCrewId, setSelectedCrewId] = React.useState<string | null>(
@@ -126,6 +130,10 @@ export function ManagerAnalyticsDashboard({
         </Card>
       )}
 
+      {/* Planned hours per crew per day against their shifts */}
+      {companyId && <WorkloadFairnessReport companyId={companyId} />}
+      {companyId && <DriveTimeAccuracyReport companyId={companyId} />}
+
       {/* Crew Selection */}
       <Card>
         <CardHeader>
@@ -8,7 +8,10 @@ import {
   Polyline,
 } from '@react-google-maps/api'
 import type { Customer, User } from '@/lib/firebase-types'
-import { Loader2, AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { getPositionAt, type RouteReplay, type ReplayStop } from '@/lib/breadcrumb-service'
+import { Loader2, AlertTriangle, Pause, Play } from 'lucide-react'
 
 interface ManagerMapProps {
   customers: Customer[]
@@ -17,6 +20,11 @@ interface ManagerMapProps {
   selectedCustomer: Customer | null
   onSelectCustomer: (customer: Customer) => void
   apiKey?: string;
+  replay?: {
+    data: RouteReplay
+    time: number // Epoch milliseconds shown on the map
+    onTimeChange: (time: number) => void
+  }
 }
 
 const containerStyle = {
@@ -52,14 +60,31 @@ const mapOptions = {
 // Keep libraries constant to avoid reloading
 const libraries: ("places")[] = ['places']
 
+// Replay plays back a minute of the day every half second
+const PLAYBACK_TICK_MS = 500
+const PLAYBACK_STEP_MS = 60 * 1000
+
+const formatClock = (time: number) =>
+  new Date(time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })
+
+// Stop color at a moment in the replay: done, being worked, or not reached yet
+const getReplayStopColor = (stop: ReplayStop, time: number) => {
+  if (stop.departedAt && stop.departedAt <= time) return '#16A34A'
+  if (stop.arrivedAt && stop.arrivedAt <= time) return '#F59E0B'
+  return '#9CA3AF'
+}
+
 export function ManagerMap({
   customers,
   employees,
   routes = [],
   selectedCustomer,
   onSelectCustomer,
-  apiKey
+  apiKey,
+  replay
 }: ManagerMapProps) {
+  const [isPlaying, setIsPlaying] = React.useState(false)
+  const [isMapReady, setIsMapReady] = React.useState(false)
 
   React.useEffect(() => {
     if (!apiKey) {
@@ -80,6 +105,37 @@ export function ManagerMap({
   }, [loadError]);
 
   const mapRef = React.useRef<google.maps.Map | null>(null)
+  const replayData = replay?.data
+  const replayStart = replayData?.points[0]?.timestamp ?? 0
+  const replayEnd = replayData?.points[replayData.points.length - 1]?.timestamp ?? 0
+
+  // Frame the whole day's track and stops when a replay is loaded
+  React.useEffect(() => {
+    if (!isMapReady || !mapRef.current || !replayData) return
+
+    const bounds = new google.maps.LatLngBounds()
+    replayData.points.forEach(point => bounds.extend(point))
+    replayData.stops.forEach(stop => bounds.extend(stop))
+    if (!bounds.isEmpty()) {
+      mapRef.current.fitBounds(bounds, 40)
+    }
+    setIsPlaying(false)
+  }, [isMapReady, replayData])
+
+  const replayTime = replay?.time
+  const onReplayTimeChange = replay?.onTimeChange
+  React.useEffect(() => {
+    if (!isPlaying || replayTime === undefined || !onReplayTimeChange) return
+
+    if (replayTime >= replayEnd) {
+      setIsPlaying(false)
+      return
+    }
+    const timeout = setTimeout(() => {
+      onReplayTimeChange(Math.min(replayEnd, replayTime + PLAYBACK_STEP_MS))
+    }, PLAYBACK_TICK_MS)
+    return () => clearTimeout(timeout)
+  }, [isPlaying, replayTime, replayEnd, onReplayTimeChange])
 
   if (loadError) {
     return (
@@ -100,13 +156,148 @@ export function ManagerMap({
     )
   }
 
+  if (replay && replayData) {
+    const traveled = replayData.points.filter(point => point.timestamp <= replay.time)
+    const crewPosition = getPositionAt(replayData.points, replay.time)
+
+    return (
+      <div className="relative h-full w-full">
+        <GoogleMap
+          mapContainerStyle={containerStyle}
+          center={center}
+          zoom={12}
+          options={mapOptions}
+          onLoad={(map) => {mapRef.current = map; setIsMapReady(true)}}
+        >
+          {/* Whole day's path, with the part driven so far drawn over it */}
+          <Polyline
+            path={replayData.points}
+            options={{ strokeColor: '#9CA3AF', strokeOpacity: 0.6, strokeWeight: 3 }}
+          />
+          {crewPosition && (
+            <Polyline
+              path={[...traveled, crewPosition]}
+              options={{ strokeColor: '#3B82F6', strokeOpacity: 0.9, strokeWeight: 4 }}
+            />
+          )}
+
+          {replayData.stops.map((stop, index) => (
+            <Marker
+              key={stop.customerId}
+              position={{ lat: stop.lat, lng: stop.lng }}
+              title={[
+                stop.name,
+                stop.arrivedAt && `Arrived ${formatClock(stop.arrivedAt)}${stop.arrivalSource === 'auto' ? ' (auto)' : ''}`,
+                stop.departedAt && `Left ${formatClock(stop.departedAt)}${stop.departureSource === 'auto' ? ' (auto)' : ''}`,
+              ].filter(Boolean).join('\n')}
+              label={{ text: String(index + 1), color: 'white', fontSize: '11px' }}
+              icon={{
+                path: google.maps.SymbolPath.CIRCLE,
+                scale: 10,
+                fillColor: getReplayStopColor(stop, replay.time),
+                fillOpacity: 1,
+                strokeWeight: 2,
+                strokeColor: 'white',
+              }}
+            />
+          ))}
+
+          {replayData.stationaryPeriods.map((period) => (
+            <Marker
+              key={`stationary-${period.start}`}
+              position={{ lat: period.lat, lng: period.lng }}
+              title={`Stopped ${period.minutes} min, ${formatClock(period.start)}–${formatClock(period.end)}`}
+              onClick={() => replay.onTimeChange(period.start)}
+              icon={{
+                path: google.maps.SymbolPath.CIRCLE,
+                scale: 6,
+                fillColor: '#EA580C',
+                fillOpacity: period.start <= replay.time ? 0.9 : 0.35,
+                strokeWeight: 1,
+                strokeColor: 'white',
+              }}
+            />
+          ))}
+
+          {crewPosition && (
+            <Marker
+              position={crewPosition}
+              title={formatClock(replay.time)}
+              zIndex={1000}
+              icon={{
+                path: google.maps.SymbolPath.FORWARD_CLOSED_ARROW,
+                scale: 5,
+                fillColor: 'hsl(var(--accent))',
+                fillOpacity: 1,
+                strokeWeight: 2,
+                strokeColor: 'white',
+              }}
+            />
+          )}
+        </GoogleMap>
+
+        {/* Timeline scrubber */}
+        {replayData.points.length > 0 ? (
+          <div className="absolute bottom-2 left-2 right-2 rounded-lg bg-background/95 p-3 shadow space-y-2">
+            <div className="flex items-center gap-3">
+              <Button
+                type="button"
+                size="icon"
+                variant="outline"
+                className="h-8 w-8 shrink-0"
+                onClick={() => {
+                  if (!isPlaying && replay.time >= replayEnd) replay.onTimeChange(replayStart)
+                  setIsPlaying(!isPlaying)
+                }}
+              >
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Slider
+                min={replayStart}
+                max={replayEnd}
+                step={15 * 1000}
+                value={[replay.time]}
+                onValueChange={([time]) => {
+                  setIsPlaying(false)
+                  replay.onTimeChange(time)
+                }}
+              />
+              <span className="text-sm font-medium w-20 text-right shrink-0">{formatClock(replay.time)}</span>
+            </div>
+            <div className="relative h-2 ml-11 mr-[5.75rem]">
+              {/* Arrival and departure ticks along the timeline */}
+              {replayEnd > replayStart && replayData.stops.flatMap(stop => [
+                stop.arrivedAt && { time: stop.arrivedAt, color: 'bg-amber-500', label: `Arrived at ${stop.name}` },
+                stop.departedAt && { time: stop.departedAt, color: 'bg-green-600', label: `Left ${stop.name}` },
+              ]).filter((tick): tick is { time: number; color: string; label: string } => !!tick && tick.time >= replayStart && tick.time <= replayEnd)
+                .map((tick) => (
+                  <button
+                    key={`${tick.label}-${tick.time}`}
+                    type="button"
+                    title={`${tick.label}, ${formatClock(tick.time)}`}
+                    className={`absolute top-0 h-2 w-1 rounded-sm ${tick.color}`}
+                    style={{ left: `${((tick.time - replayStart) / (replayEnd - replayStart)) * 100}%` }}
+                    onClick={() => replay.onTimeChange(tick.time)}
+                  />
+                ))}
+            </div>
+          </div>
+        ) : (
+          <div className="absolute bottom-2 left-2 right-2 rounded-lg bg-background/95 p-3 shadow text-sm text-muted-foreground">
+            No GPS track was recorded for this day.
+          </div>
+        )}
+      </div>
+    )
+  }
+
   return (
     <GoogleMap
       mapContainerStyle={containerStyle}
       center={center}
       zoom={12}
       options={mapOptions}
-      onLoad={(map) => {mapRef.current = map}}
+      onLoad={(map) => {mapRef.current = map; setIsMapReady(true)}}
     >
       {/* Customer markers */}
       {customers.map((customer) => (
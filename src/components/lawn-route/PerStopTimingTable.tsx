@@ -133,9 +133,15 @@ export function PerStopTimingTable({ route, compact = false }: PerStopTimingTabl
                     </TableCell>
                     <TableCell className="text-right text-sm">
                       {formatTime(stop.actualArrival)}
+                      {stop.arrivalSource === 'auto' && (
+                        <span className="block text-xs text-gray-500" title="Detected from GPS">auto</span>
+                      )}
                     </TableCell>
                     <TableCell className="text-right text-sm">
                       {formatTime(stop.actualDeparture)}
+                      {stop.departureSource === 'auto' && (
+                        <span className="block text-xs text-gray-500" title="Detected from GPS">auto</span>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
                       {stop.driveTime ? (
@@ -5,6 +5,7 @@ import { Camera, Upload, X, Loader2, Image as ImageIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { isConnectivityError, queuePhotos } from '@/lib/offline-sync-service';
 import {
   uploadMultiplePhotos,
   validateImageFile,
@@ -108,6 +109,13 @@ export const PhotoCapture: React.FC<PhotoCaptureProps> = ({
 
     setIsUploading(true);
 
+    // Without signal, keep the photos on the device until it's back online
+    if (!navigator.onLine) {
+      await savePhotosOffline();
+      setIsUploading(false);
+      return;
+    }
+
     try {
       // Mark all photos as uploading
       setPhotos((prev) =>
@@ -134,6 +142,11 @@ export const PhotoCapture: React.FC<PhotoCaptureProps> = ({
       // Clear photos
       setPhotos([]);
     } catch (error) {
+      if (isConnectivityError(error)) {
+        await savePhotosOffline();
+        return;
+      }
+
       console.error('Error uploading photos:', error);
       toast({
         variant: 'destructive',
@@ -151,6 +164,27 @@ export const PhotoCapture: React.FC<PhotoCaptureProps> = ({
     }
   };
 
+  const savePhotosOffline = async () => {
+    try {
+      await queuePhotos(customerId, serviceId, photoType, photos.map((p) => p.file));
+      toast({
+        title: 'Saved offline',
+        description: `${photos.length} ${photoType} photo(s) will upload when you're back online`,
+      });
+      setPhotos([]);
+    } catch (error) {
+      console.error('Error saving photos offline:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Upload failed',
+        description: 'No connection, and the photos could not be saved on this device',
+      });
+      setPhotos((prev) =>
+        prev.map((photo) => ({ ...photo, uploading: false }))
+      );
+    }
+  };
+
   const handleCameraCapture = () => {
     cameraInputRef.current?.click();
   };
@@ -0,0 +1,108 @@
+"use client"
+
+import * as React from 'react'
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AlertTriangle, Check, X, CalendarClock } from "lucide-react"
+import type { Customer, RouteReplanProposal } from "@/lib/firebase-types"
+
+interface ReplanApprovalCardProps {
+  proposals: RouteReplanProposal[]
+  customers: Customer[]
+  processingId?: string | null
+  onApprove: (proposal: RouteReplanProposal) => void
+  onReject: (proposal: RouteReplanProposal) => void
+}
+
+/**
+ * Mid-day re-plans waiting for the manager to approve before the crew gets the new order
+ */
+export function ReplanApprovalCard({
+  proposals,
+  customers,
+  processingId,
+  onApprove,
+  onReject,
+}: ReplanApprovalCardProps) {
+  if (proposals.length === 0) return null
+
+  const getCustomerName = (customerId: string) =>
+    customers.find(customer => customer.id === customerId)?.name || 'Unknown customer'
+
+  return (
+    <div className="space-y-3 mb-4">
+      {proposals.map((proposal) => {
+        const isProcessing = processingId === proposal.id
+
+        return (
+          <Card key={proposal.id} className="border-yellow-300 bg-yellow-50/50">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                Crew {proposal.crewId} needs a new plan
+              </CardTitle>
+              <p className="text-xs text-muted-foreground">
+                {proposal.trigger === 'delayed'
+                  ? `${proposal.minutesBehind} min behind schedule`
+                  : `${proposal.skippedCustomerIds.length} stop(s) skipped`}
+                {` · finishes around ${proposal.estimatedFinishTime}`}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <p className="text-xs font-medium mb-1">Proposed order</p>
+                <ol className="text-xs text-muted-foreground list-decimal list-inside space-y-0.5">
+                  {proposal.proposedCustomerIds.map((customerId) => (
+                    <li key={customerId}>{getCustomerName(customerId)}</li>
+                  ))}
+                </ol>
+              </div>
+
+              {proposal.deferrals.length > 0 && (
+                <div>
+                  <p className="text-xs font-medium mb-1 flex items-center gap-1">
+                    <CalendarClock className="w-3 h-3" />
+                    Deferred
+                  </p>
+                  <div className="space-y-1">
+                    {proposal.deferrals.map((deferral) => (
+                      <div key={deferral.customerId} className="flex items-center justify-between text-xs">
+                        <span>{getCustomerName(deferral.customerId)}</span>
+                        <Badge variant="outline" className="text-xs">
+                          {deferral.deferTo.toDate().toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                          {deferral.reason === 'skipped' ? ' · skipped' : ''}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  disabled={isProcessing}
+                  onClick={() => onApprove(proposal)}
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Approve & Send
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isProcessing}
+                  onClick={() => onReject(proposal)}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Keep Current
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
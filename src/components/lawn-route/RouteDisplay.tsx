@@ -6,9 +6,12 @@ import {
   useJsApiLoader,
   Marker,
   DirectionsRenderer,
+  Polyline,
+  Polygon,
 } from '@react-google-maps/api'
-import type { Customer, User, DailyRoute } from '@/lib/firebase-types'
+import type { Customer, User, DailyRoute, Depot, Territory } from '@/lib/firebase-types'
 import { Loader2, AlertTriangle } from 'lucide-react'
+import { formatCurrency } from '@/lib/route-cost-service'
 
 interface RouteDisplayProps {
   customers: Customer[]
@@ -18,6 +21,8 @@ interface RouteDisplayProps {
   onSelectCustomer: (customer: Customer) => void
   onRouteClick?: (route: DailyRoute) => void
   baseLocation?: { lat: number; lng: number; address: string } | null
+  depots?: Depot[] // Yards other than the home base
+  territories?: Territory[]
   apiKey?: string;
 }
 
@@ -60,8 +65,10 @@ export function RouteDisplay({
   routes,
   selectedCustomer,
   onSelectCustomer,
-  onRouteClick: _onRouteClick,
+  onRouteClick,
   baseLocation,
+  depots = [],
+  territories = [],
   apiKey
 }: RouteDisplayProps) {
   
@@ -84,7 +91,10 @@ export function RouteDisplay({
   }, [loadError]);
 
   const mapRef = React.useRef<google.maps.Map | null>(null)
-  const [directionsResponses, setDirectionsResponses] = React.useState<google.maps.DirectionsResult[]>([])
+  const [directionsResponses, setDirectionsResponses] = React.useState<{
+    route: DailyRoute;
+    result: google.maps.DirectionsResult;
+  }[]>([])
   const [selectedRouteIndex, _setSelectedRouteIndex] = React.useState<number | null>(null)
 
   // Generate a color based on crewId
@@ -104,6 +114,11 @@ export function RouteDisplay({
     return routeDate.toDateString() === today.toDateString();
   };
 
+  const getCrewName = (crewId: string): string =>
+    employees.find(employee => employee.crewId === crewId && employee.crewName)?.crewName || crewId;
+
+  const summarizedRoutes = routes.filter(route => route.cost || route.improvement);
+
   // Generate directions for each route
   React.useEffect(() => {
     if (!isLoaded || routes.length === 0) return;
@@ -119,7 +134,7 @@ export function RouteDisplay({
 
     const generateDirections = async () => {
       const directionsService = new google.maps.DirectionsService();
-      const newDirectionsResponses: google.maps.DirectionsResult[] = [];
+      const newDirectionsResponses: { route: DailyRoute; result: google.maps.DirectionsResult }[] = [];
 
       for (const route of routes) {
         console.log('RouteDisplay - Processing route:', route.crewId, 'with', route.customers.length, 'customers');
@@ -135,7 +150,24 @@ export function RouteDisplay({
           let destination: { lat: number; lng: number };
           let waypoints: google.maps.DirectionsWaypoint[];
 
-          if (baseLocation) {
+          if (route.startLocation) {
+            // Planned start and end; open routes finish at the last stop
+            origin = { lat: Number(route.startLocation.lat), lng: Number(route.startLocation.lng) };
+            if (route.endLocation) {
+              destination = { lat: Number(route.endLocation.lat), lng: Number(route.endLocation.lng) };
+              waypoints = route.customers.map(customer => ({
+                location: { lat: Number(customer.lat), lng: Number(customer.lng) },
+                stopover: true,
+              }));
+            } else {
+              const lastCustomer = route.customers[route.customers.length - 1];
+              destination = { lat: Number(lastCustomer.lat), lng: Number(lastCustomer.lng) };
+              waypoints = route.customers.slice(0, -1).map(customer => ({
+                location: { lat: Number(customer.lat), lng: Number(customer.lng) },
+                stopover: true,
+              }));
+            }
+          } else if (baseLocation) {
             // Start and end at home base
             const baseLat = Number(baseLocation.lat);
             const baseLng = Number(baseLocation.lng);
@@ -186,7 +218,7 @@ export function RouteDisplay({
             optimizeWaypoints: false, // Disable optimization to keep routes separate
           });
 
-          newDirectionsResponses.push(result);
+          newDirectionsResponses.push({ route, result });
         } catch (error) {
           console.error('Error generating directions for route:', route.crewId, error);
         }
@@ -218,130 +250,207 @@ export function RouteDisplay({
   }
 
   return (
-    <GoogleMap
-      mapContainerStyle={containerStyle}
-      center={center}
-      zoom={12}
-      options={mapOptions}
-      onLoad={(map) => {mapRef.current = map}}
-    >
-      {/* Customer markers */}
-      {customers.map((customer) => {
-        // Ensure lat/lng are numbers
-        const lat = Number(customer.lat);
-        const lng = Number(customer.lng);
-
-        // Skip if invalid coordinates
-        if (isNaN(lat) || isNaN(lng)) {
-          console.warn(`Invalid coordinates for customer ${customer.name}:`, customer.lat, customer.lng);
-          return null;
-        }
-
-        // Check if this customer is in the selected tomorrow route
-        const isInSelectedRoute = selectedRouteIndex !== null &&
-          routes[selectedRouteIndex]?.customers.some(c => c.id === customer.id);
-
-        return (
-          <Marker
-            key={customer.id}
-            position={{ lat, lng }}
-            title={customer.name}
-            onClick={() => onSelectCustomer(customer)}
-            icon={{
-              path: google.maps.SymbolPath.CIRCLE,
-              scale: selectedCustomer?.id === customer.id ? 10 : isInSelectedRoute ? 9 : 7,
-              fillColor: selectedCustomer?.id === customer.id ? 'hsl(var(--ring))' :
-                        isInSelectedRoute ? 'hsl(var(--accent))' : 'hsl(var(--primary))',
-              fillOpacity: 1,
-              strokeWeight: 2,
-              strokeColor: 'white',
-            }}
-          />
-        );
-      })}
-
-      {/* Employee location markers */}
-      {employees.map((employee) => {
-        if (!employee.currentLocation) return null;
-
-        const lat = Number(employee.currentLocation.lat);
-        const lng = Number(employee.currentLocation.lng);
-
-        if (isNaN(lat) || isNaN(lng)) {
-          console.warn(`Invalid coordinates for employee ${employee.name}:`, employee.currentLocation);
-          return null;
-        }
-
-        return (
-          <Marker
-            key={`employee-${employee.id}`}
-            position={{ lat, lng }}
-            title={employee.name}
-            icon={{
-              path: google.maps.SymbolPath.CIRCLE,
-              scale: 8,
-              fillColor: 'hsl(var(--accent))',
-              fillOpacity: 1,
+    <div className="relative h-full w-full">
+      <GoogleMap
+        mapContainerStyle={containerStyle}
+        center={center}
+        zoom={12}
+        options={mapOptions}
+        onLoad={(map) => {mapRef.current = map}}
+      >
+        {/* Territory outlines */}
+        {territories.map((territory) => (
+          <Polygon
+            key={territory.id}
+            paths={territory.polygon}
+            options={{
+              fillColor: territory.color,
+              fillOpacity: 0.08,
+              strokeColor: territory.color,
+              strokeOpacity: 0.6,
               strokeWeight: 2,
-              strokeColor: 'white',
+              clickable: false,
             }}
           />
-        );
-      })}
+        ))}
+
+        {/* Customer markers */}
+        {customers.map((customer) => {
+          // Ensure lat/lng are numbers
+          const lat = Number(customer.lat);
+          const lng = Number(customer.lng);
+
+          // Skip if invalid coordinates
+          if (isNaN(lat) || isNaN(lng)) {
+            console.warn(`Invalid coordinates for customer ${customer.name}:`, customer.lat, customer.lng);
+            return null;
+          }
 
-      {/* Home base marker */}
-      {baseLocation && (() => {
-        const lat = Number(baseLocation.lat);
-        const lng = Number(baseLocation.lng);
+          // Check if this customer is in the selected tomorrow route
+          const isInSelectedRoute = selectedRouteIndex !== null &&
+            routes[selectedRouteIndex]?.customers.some(c => c.id === customer.id);
+
+          return (
+            <Marker
+              key={customer.id}
+              position={{ lat, lng }}
+              title={customer.name}
+              onClick={() => onSelectCustomer(customer)}
+              icon={{
+                path: google.maps.SymbolPath.CIRCLE,
+                scale: selectedCustomer?.id === customer.id ? 10 : isInSelectedRoute ? 9 : 7,
+                fillColor: selectedCustomer?.id === customer.id ? 'hsl(var(--ring))' :
+                          isInSelectedRoute ? 'hsl(var(--accent))' : 'hsl(var(--primary))',
+                fillOpacity: 1,
+                strokeWeight: 2,
+                strokeColor: 'white',
+              }}
+            />
+          );
+        })}
+
+        {/* Employee location markers */}
+        {employees.map((employee) => {
+          if (!employee.currentLocation) return null;
+
+          const lat = Number(employee.currentLocation.lat);
+          const lng = Number(employee.currentLocation.lng);
+
+          if (isNaN(lat) || isNaN(lng)) {
+            console.warn(`Invalid coordinates for employee ${employee.name}:`, employee.currentLocation);
+            return null;
+          }
 
-        if (isNaN(lat) || isNaN(lng)) {
-          console.warn('Invalid coordinates for base location:', baseLocation);
-          return null;
-        }
+          return (
+            <Marker
+              key={`employee-${employee.id}`}
+              position={{ lat, lng }}
+              title={employee.name}
+              icon={{
+                path: google.maps.SymbolPath.CIRCLE,
+                scale: 8,
+                fillColor: 'hsl(var(--accent))',
+                fillOpacity: 1,
+                strokeWeight: 2,
+                strokeColor: 'white',
+              }}
+            />
+          );
+        })}
+
+        {/* Home base marker */}
+        {baseLocation && (() => {
+          const lat = Number(baseLocation.lat);
+          const lng = Number(baseLocation.lng);
+
+          if (isNaN(lat) || isNaN(lng)) {
+            console.warn('Invalid coordinates for base location:', baseLocation);
+            return null;
+          }
 
-        return (
+          return (
+            <Marker
+              position={{ lat, lng }}
+              title={`Home Base: ${baseLocation.address}`}
+              icon={{
+                path: google.maps.SymbolPath.CIRCLE,
+                scale: 12,
+                fillColor: '#10b981', // Green color for home base
+                fillOpacity: 1,
+                strokeWeight: 3,
+                strokeColor: '#ffffff',
+              }}
+              label={{
+                text: '🏠',
+                fontSize: '20px',
+                color: '#ffffff',
+              }}
+            />
+          );
+        })()}
+
+        {/* Other depot markers */}
+        {depots.map((depot) => (
           <Marker
-            position={{ lat, lng }}
-            title={`Home Base: ${baseLocation.address}`}
+            key={depot.id}
+            position={{ lat: Number(depot.lat), lng: Number(depot.lng) }}
+            title={`Depot: ${depot.name} (${depot.address})`}
             icon={{
               path: google.maps.SymbolPath.CIRCLE,
-              scale: 12,
-              fillColor: '#10b981', // Green color for home base
+              scale: 10,
+              fillColor: '#0ea5e9', // Blue for other depots
               fillOpacity: 1,
               strokeWeight: 3,
               strokeColor: '#ffffff',
             }}
-            label={{
-              text: '🏠',
-              fontSize: '20px',
-              color: '#ffffff',
-            }}
-          />
-        );
-      })()}
-
-      {/* Route directions */}
-      {directionsResponses.map((directionsResponse, index) => {
-        const route = routes[index];
-        const color = generateColor(route.crewId);
-        const isToday = isTodayRoute(route);
-        
-        return (
-          <DirectionsRenderer
-            key={`directions-${index}`}
-            directions={directionsResponse}
-            options={{
-              suppressMarkers: true, // We're using our own markers
-              polylineOptions: {
-                strokeColor: color,
-                strokeOpacity: isToday ? 0.8 : 0.3, // Solid for today, transparent for tomorrow
-                strokeWeight: isToday ? 4 : 2,
-                clickable: !isToday, // Only tomorrow routes are clickable
-              },
-            }}
           />
-        );
-      })}
-    </GoogleMap>
+        ))}
+
+        {/* Route directions */}
+        {directionsResponses.map(({ route, result }, index) => {
+          const color = generateColor(route.crewId);
+          const isToday = isTodayRoute(route);
+          
+          return (
+            <React.Fragment key={`directions-${index}`}>
+              <DirectionsRenderer
+                directions={result}
+                options={{
+                  suppressMarkers: true, // We're using our own markers
+                  polylineOptions: {
+                    strokeColor: color,
+                    strokeOpacity: isToday ? 0.8 : 0.3, // Solid for today, transparent for tomorrow
+                    strokeWeight: isToday ? 4 : 2,
+                    clickable: false,
+                  },
+                }}
+              />
+              {/* Wide invisible line so the route is easy to click */}
+              {onRouteClick && (
+                <Polyline
+                  path={result.routes[0]?.overview_path || []}
+                  options={{ strokeOpacity: 0, strokeWeight: 16, clickable: true }}
+                  onClick={() => onRouteClick(route)}
+                />
+              )}
+            </React.Fragment>
+          );
+        })}
+      </GoogleMap>
+
+      {/* Estimated cost, margin and optimization savings per route */}
+      {summarizedRoutes.length > 0 && (
+        <div className="absolute bottom-4 left-4 max-h-[40%] overflow-y-auto rounded-lg bg-white/95 shadow-md p-3 text-xs space-y-2">
+          {summarizedRoutes.map((route) => {
+            const { cost, improvement } = route;
+            return (
+              <div key={`cost-${route.crewId}-${new Date(route.date).toDateString()}`} className="space-y-0.5">
+                <div className="flex items-center gap-2 font-semibold">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: generateColor(route.crewId) }} />
+                  {getCrewName(route.crewId)}
+                  <span className="font-normal text-gray-500">{isTodayRoute(route) ? 'Today' : new Date(route.date).toLocaleDateString(undefined, { weekday: 'short' })}</span>
+                </div>
+                {cost && (
+                  <div className="grid grid-cols-[auto_auto] gap-x-3 text-gray-700">
+                    <span>Fuel</span><span className="text-right">{formatCurrency(cost.fuelCost)}</span>
+                    <span>Labor{cost.overtimeCost > 0 && ' (incl. overtime)'}</span><span className="text-right">{formatCurrency(cost.laborCost)}</span>
+                    <span>Total cost</span><span className="text-right">{formatCurrency(cost.totalCost)}</span>
+                    <span>Revenue</span><span className="text-right">{formatCurrency(cost.revenue)}</span>
+                    <span className="font-medium">Margin</span>
+                    <span className={`text-right font-medium ${cost.margin < 0 ? 'text-red-600' : 'text-green-700'}`}>{formatCurrency(cost.margin)}</span>
+                  </div>
+                )}
+                {improvement && (
+                  <p className="text-gray-700">
+                    Optimization saved {Math.max(improvement.distanceSaved, 0).toFixed(1)} mi
+                    <span className="text-gray-500"> ({improvement.initialDistance.toFixed(1)} → {improvement.finalDistance.toFixed(1)} mi)</span>
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,181 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { useToast } from "@/hooks/use-toast"
+import { FileUp, Loader2 } from "lucide-react"
+import { fromDateKey, toDateKey } from "@/lib/time-utils"
+import type { RouteImportResult } from "@/lib/route-file-service"
+
+interface RouteImportSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  userId?: string
+  crews: { crewId: string; name: string }[]
+  onImported?: () => void
+}
+
+const getTomorrowKey = () => {
+  const today = new Date()
+  return toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1))
+}
+
+/**
+ * Import a GPX or KML route planned elsewhere as a crew's route for a day
+ */
+export function RouteImportSheet({
+  open,
+  onOpenChange,
+  companyId,
+  userId,
+  crews,
+  onImported,
+}: RouteImportSheetProps) {
+  const { toast } = useToast()
+  const [crewId, setCrewId] = React.useState('')
+  const [dateKey, setDateKey] = React.useState(getTomorrowKey)
+  const [file, setFile] = React.useState<File | null>(null)
+  const [result, setResult] = React.useState<RouteImportResult | null>(null)
+  const [isImporting, setIsImporting] = React.useState(false)
+
+  // Start fresh each time the sheet opens
+  React.useEffect(() => {
+    if (!open) return
+    setFile(null)
+    setResult(null)
+    setDateKey(getTomorrowKey())
+  }, [open])
+
+  const handleImport = async () => {
+    if (!crewId || !dateKey || !file || !userId) {
+      toast({
+        title: "Import Incomplete",
+        description: "Choose a crew, a date and a GPX or KML file.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsImporting(true)
+    try {
+      const { importRouteFile } = await import("@/lib/route-file-service")
+      const imported = await importRouteFile(companyId, crewId, fromDateKey(dateKey), await file.text(), userId)
+      setResult(imported)
+
+      toast({
+        title: "Route Imported",
+        description: `${imported.matches.length} stop${imported.matches.length === 1 ? '' : 's'} matched to customers.`,
+      })
+      onImported?.()
+    } catch (error) {
+      console.error('Error importing route:', error)
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The route file could not be imported.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-lg max-h-[90svh] overflow-y-auto">
+        <SheetHeader className="text-left">
+          <SheetTitle className="flex items-center gap-2">
+            <FileUp className="w-5 h-5" />
+            Import Route
+          </SheetTitle>
+          <SheetDescription>
+            Waypoints are matched to the nearest customer and kept in the file&apos;s order. This replaces the crew&apos;s route for the day.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="space-y-1">
+            <Label>Crew</Label>
+            <Select value={crewId} onValueChange={setCrewId} disabled={isImporting}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a crew" />
+              </SelectTrigger>
+              <SelectContent>
+                {crews.map((crew) => (
+                  <SelectItem key={crew.crewId} value={crew.crewId}>{crew.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="route-import-date">Date</Label>
+            <Input
+              id="route-import-date"
+              type="date"
+              value={dateKey}
+              onChange={(e) => setDateKey(e.target.value)}
+              disabled={isImporting}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="route-import-file">GPX or KML file</Label>
+            <Input
+              id="route-import-file"
+              type="file"
+              accept=".gpx,.kml,application/gpx+xml,application/vnd.google-earth.kml+xml"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null)
+                setResult(null)
+              }}
+              disabled={isImporting}
+            />
+          </div>
+
+          <Button type="button" disabled={isImporting || !file || !crewId} onClick={handleImport}>
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Import'}
+          </Button>
+
+          {result && (
+            <div className="space-y-2 border-t pt-4 text-sm">
+              <p className="font-medium">
+                {result.matches.length} stop{result.matches.length === 1 ? '' : 's'} on the route
+              </p>
+              <ol className="list-decimal pl-5 space-y-0.5">
+                {result.matches.map((match) => (
+                  <li key={match.customer.id}>
+                    {match.customer.name}
+                    {match.waypoint.name && match.waypoint.name !== match.customer.name && (
+                      <span className="text-muted-foreground"> (from &quot;{match.waypoint.name}&quot;)</span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+              {result.unmatched.length > 0 && (
+                <div className="text-muted-foreground">
+                  <p>No customer near {result.unmatched.length} waypoint{result.unmatched.length === 1 ? '' : 's'}:</p>
+                  <ul className="list-disc pl-5">
+                    {result.unmatched.map((waypoint, index) => (
+                      <li key={index}>
+                        {waypoint.name || `${waypoint.lat.toFixed(5)}, ${waypoint.lng.toFixed(5)}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
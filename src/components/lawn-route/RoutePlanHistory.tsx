@@ -0,0 +1,92 @@
+"use client"
+
+import * as React from 'react'
+import { Badge } from "@/components/ui/badge"
+import { History, Loader2 } from "lucide-react"
+import { toDateKey, fromDateKey } from "@/lib/time-utils"
+import type { RoutePlanSource, RouteVersion, User } from "@/lib/firebase-types"
+
+interface RoutePlanHistoryProps {
+  companyId: string
+  crewId: string
+  date: Date
+  currentVersion?: number // Reloads the history when a new version is saved
+  employees: User[]
+}
+
+const SOURCE_LABELS: Record<RoutePlanSource, string> = {
+  generated: 'Generated',
+  regenerated: 'Regenerated',
+  edited: 'Edited',
+  reoptimized: 'Re-optimized',
+  imported: 'Imported',
+}
+
+/**
+ * Every saved version of a crew's plan for the day, newest first
+ */
+export function RoutePlanHistory({ companyId, crewId, date, currentVersion, employees }: RoutePlanHistoryProps) {
+  const [versions, setVersions] = React.useState<RouteVersion[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const dateKey = toDateKey(date)
+
+  React.useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+
+    import("@/lib/route-storage-service")
+      .then(({ getRouteVersions }) => getRouteVersions(companyId, crewId, fromDateKey(dateKey)))
+      .then(result => {
+        if (!cancelled) setVersions(result)
+      })
+      .catch(error => console.error('Error loading route versions:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [companyId, crewId, dateKey, currentVersion])
+
+  const getUserName = (userId?: string) =>
+    userId ? employees.find(employee => employee.id === userId)?.name || 'Unknown user' : 'Automatic'
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-xs text-muted-foreground">This plan hasn&apos;t been saved yet.</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium flex items-center gap-1">
+        <History className="w-3 h-3" />
+        Plan history
+      </p>
+      {versions.map((version) => (
+        <div key={version.id} className="flex items-start justify-between gap-2 text-xs">
+          <div className="min-w-0">
+            <p>
+              <span className="font-medium">v{version.version}</span> · {SOURCE_LABELS[version.source] || version.source}
+              {' · '}{getUserName(version.createdBy)}
+            </p>
+            {version.note && <p className="text-muted-foreground truncate">{version.note}</p>}
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {version.version === currentVersion && <Badge variant="secondary" className="text-xs">Current</Badge>}
+            <span className="text-muted-foreground">
+              {version.createdAt.toDate().toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
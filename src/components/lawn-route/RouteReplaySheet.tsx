@@ -0,0 +1,217 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { useToast } from "@/hooks/use-toast"
+import { History, Loader2 } from "lucide-react"
+import { ManagerMap } from "./ManagerMap"
+import { fromDateKey, toDateKey } from "@/lib/time-utils"
+import type { ReplayStop, RouteReplay } from "@/lib/breadcrumb-service"
+
+interface RouteReplaySheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  crews: { crewId: string; name: string }[]
+  apiKey?: string
+}
+
+// A stop counts as visited when the track came within this distance (matches findStopVisits)
+const VISIT_RADIUS_METERS = 100
+
+const formatClock = (time?: number) =>
+  time ? new Date(time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }) : '-'
+
+const formatMeters = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`
+
+/**
+ * Replay where a crew drove on a day, with recorded stop times next to what GPS shows
+ */
+export function RouteReplaySheet({
+  open,
+  onOpenChange,
+  companyId,
+  crews,
+  apiKey,
+}: RouteReplaySheetProps) {
+  const { toast } = useToast()
+  const [crewId, setCrewId] = React.useState('')
+  const [dateKey, setDateKey] = React.useState(() => toDateKey(new Date()))
+  const [replay, setReplay] = React.useState<RouteReplay | null>(null)
+  const [replayTime, setReplayTime] = React.useState(0)
+  const [isLoading, setIsLoading] = React.useState(false)
+
+  const handleLoad = async () => {
+    if (!crewId || !dateKey) return
+
+    setIsLoading(true)
+    try {
+      const { getRouteReplay } = await import("@/lib/breadcrumb-service")
+      const result = await getRouteReplay(companyId, crewId, fromDateKey(dateKey))
+      setReplay(result)
+      setReplayTime(result.points[0]?.timestamp ?? 0)
+    } catch (error) {
+      console.error('Error loading route replay:', error)
+      toast({
+        title: "Replay Failed",
+        description: error instanceof Error ? error.message : "Could not load the crew's track.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const seekToStop = (stop: ReplayStop) => {
+    const time = stop.arrivedAt ?? stop.visit.firstSeen ?? stop.visit.closestAt
+    if (time) setReplayTime(time)
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-lg max-h-[90svh] overflow-y-auto">
+        <SheetHeader className="text-left">
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Route Replay
+          </SheetTitle>
+          <SheetDescription>
+            Where a crew actually drove, with its stop times and stationary periods.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-[1fr_auto_auto] gap-2 items-end">
+            <div className="space-y-1">
+              <Label>Crew</Label>
+              <Select value={crewId} onValueChange={(value) => { setCrewId(value); setReplay(null) }} disabled={isLoading}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a crew" />
+                </SelectTrigger>
+                <SelectContent>
+                  {crews.map((crew) => (
+                    <SelectItem key={crew.crewId} value={crew.crewId}>{crew.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="replay-date">Date</Label>
+              <Input
+                id="replay-date"
+                type="date"
+                value={dateKey}
+                onChange={(e) => { setDateKey(e.target.value); setReplay(null) }}
+                disabled={isLoading}
+              />
+            </div>
+            <Button type="button" disabled={isLoading || !crewId || !dateKey} onClick={handleLoad}>
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load'}
+            </Button>
+          </div>
+
+          {replay && (
+            <>
+              <div className="h-[50svh] rounded-md overflow-hidden border">
+                <ManagerMap
+                  customers={[]}
+                  employees={[]}
+                  selectedCustomer={null}
+                  onSelectCustomer={() => {}}
+                  apiKey={apiKey}
+                  replay={{ data: replay, time: replayTime, onTimeChange: setReplayTime }}
+                />
+              </div>
+
+              {replay.stops.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No route was stored for this crew on this day.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600">
+                        <th className="py-2 pr-2 font-medium">Stop</th>
+                        <th className="py-2 px-2 font-medium">Recorded</th>
+                        <th className="py-2 pl-2 font-medium">GPS</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {replay.stops.map((stop, index) => {
+                        const { visit } = stop
+                        const wasNearby = visit.closestMeters !== null && visit.closestMeters <= VISIT_RADIUS_METERS
+
+                        return (
+                          <tr
+                            key={stop.customerId}
+                            className="border-t cursor-pointer hover:bg-gray-50"
+                            onClick={() => seekToStop(stop)}
+                          >
+                            <td className="py-2 pr-2">
+                              <p className="font-medium">{index + 1}. {stop.name}</p>
+                              <p className="text-xs text-gray-500">{stop.address}</p>
+                            </td>
+                            <td className="py-2 px-2 whitespace-nowrap">
+                              {stop.status === 'skipped' ? (
+                                <Badge variant="outline">Skipped</Badge>
+                              ) : (
+                                <>
+                                  {formatClock(stop.arrivedAt)}{stop.arrivalSource === 'auto' && <span className="text-xs text-gray-500"> auto</span>}
+                                  {' – '}
+                                  {formatClock(stop.departedAt)}{stop.departureSource === 'auto' && <span className="text-xs text-gray-500"> auto</span>}
+                                </>
+                              )}
+                            </td>
+                            <td className="py-2 pl-2">
+                              {visit.closestMeters === null ? (
+                                <span className="text-gray-500">No track</span>
+                              ) : wasNearby ? (
+                                <span className="text-green-700">
+                                  {visit.minutesNearby} min nearby, {formatClock(visit.firstSeen)}–{formatClock(visit.lastSeen)}
+                                </span>
+                              ) : (
+                                <span className="text-red-700">
+                                  Never within {VISIT_RADIUS_METERS} m (closest {formatMeters(visit.closestMeters)} at {formatClock(visit.closestAt)})
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {replay.stationaryPeriods.length > 0 && (
+                <div className="text-sm">
+                  <p className="font-medium mb-1">Stationary periods</p>
+                  <ul className="space-y-0.5 text-gray-600">
+                    {replay.stationaryPeriods.map((period) => (
+                      <li key={period.start}>
+                        <button type="button" className="hover:underline" onClick={() => setReplayTime(period.start)}>
+                          {formatClock(period.start)}–{formatClock(period.end)} ({period.minutes} min)
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
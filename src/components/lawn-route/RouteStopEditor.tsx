@@ -0,0 +1,153 @@
+"use client"
+
+import * as React from 'react'
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { GripVertical, Lock, Unlock, Clock, AlertTriangle, RefreshCw } from "lucide-react"
+import { ServiceEstimateBadge } from "./ServiceEstimateBadge"
+import type { DailyRoute } from "@/lib/firebase-types"
+
+interface RouteStopEditorProps {
+  route: DailyRoute
+  otherRoutes: DailyRoute[] // Same-day routes a stop can be moved to
+  isSaving?: boolean
+  onMoveStop: (customerId: string, toIndex: number) => void
+  onPinStop: (customerId: string, pin: { position?: boolean; time?: string }) => void
+  onUnpinStop: (customerId: string) => void
+  onMoveToCrew: (customerId: string, crewId: string) => void
+  onReoptimize: () => void
+}
+
+export function RouteStopEditor({
+  route,
+  otherRoutes,
+  isSaving = false,
+  onMoveStop,
+  onPinStop,
+  onUnpinStop,
+  onMoveToCrew,
+  onReoptimize,
+}: RouteStopEditorProps) {
+  const [draggedId, setDraggedId] = React.useState<string | null>(null)
+  const [dropIndex, setDropIndex] = React.useState<number | null>(null)
+
+  const handleDrop = (index: number) => {
+    if (draggedId && route.customers[index]?.id !== draggedId) {
+      onMoveStop(draggedId, index)
+    }
+    setDraggedId(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Drag to reorder. Pinned stops stay put when the route is re-optimized.
+        </p>
+        <Button size="sm" variant="outline" onClick={onReoptimize} disabled={isSaving}>
+          <RefreshCw className={`w-3 h-3 mr-1 ${isSaving ? 'animate-spin' : ''}`} />
+          Re-optimize
+        </Button>
+      </div>
+
+      {route.customers.map((customer, index) => {
+        const lock = route.stopLocks?.find(stopLock => stopLock.customerId === customer.id)
+        const stopSchedule = route.stopSchedule?.find(stop => stop.customerId === customer.id)
+        const serviceEstimate = route.serviceEstimates?.find(estimate => estimate.customerId === customer.id)
+
+        return (
+          <div
+            key={customer.id}
+            draggable={!isSaving}
+            onDragStart={() => setDraggedId(customer.id)}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setDropIndex(index)
+            }}
+            onDragEnd={() => {
+              setDraggedId(null)
+              setDropIndex(null)
+            }}
+            onDrop={(e) => {
+              e.preventDefault()
+              handleDrop(index)
+            }}
+            className={`p-2 bg-muted/50 rounded space-y-2 ${dropIndex === index && draggedId ? 'ring-2 ring-primary' : ''} ${draggedId === customer.id ? 'opacity-50' : ''}`}
+          >
+            <div className="flex items-center gap-2">
+              <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab shrink-0" />
+              <span className="text-xs font-medium w-5 shrink-0">{index + 1}.</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{customer.name}</p>
+                {stopSchedule && (
+                  <p className={`text-xs flex items-center gap-1 ${stopSchedule.withinWindow ? 'text-muted-foreground' : 'text-destructive'}`}>
+                    {stopSchedule.withinWindow ? <Clock className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                    Arrive {stopSchedule.serviceStart}
+                    {!stopSchedule.withinWindow && ` · ${stopSchedule.lateMinutes} min late`}
+                  </p>
+                )}
+              </div>
+              {serviceEstimate && <ServiceEstimateBadge {...serviceEstimate} />}
+              {lock?.time && (
+                <Badge variant="secondary" className="text-xs">{lock.time}</Badge>
+              )}
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                disabled={isSaving}
+                title={lock ? 'Unpin stop' : 'Pin stop to this position'}
+                onClick={() => lock ? onUnpinStop(customer.id) : onPinStop(customer.id, { position: true })}
+              >
+                {lock ? <Lock className="w-4 h-4 text-primary" /> : <Unlock className="w-4 h-4" />}
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2 pl-11">
+              <Input
+                key={lock?.time || 'unpinned'}
+                type="time"
+                className="h-7 w-28 text-xs"
+                defaultValue={lock?.time || ''}
+                disabled={isSaving}
+                title="Pin to a service start time"
+                onBlur={(e) => {
+                  const time = e.target.value
+                  if (time && time !== lock?.time) {
+                    onPinStop(customer.id, { time })
+                  }
+                }}
+              />
+              {otherRoutes.length > 0 && (
+                <Select
+                  disabled={isSaving}
+                  onValueChange={(crewId) => onMoveToCrew(customer.id, crewId)}
+                >
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue placeholder="Move to crew..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherRoutes.map((otherRoute) => (
+                      <SelectItem key={otherRoute.crewId} value={otherRoute.crewId}>
+                        Crew {otherRoute.crewId}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
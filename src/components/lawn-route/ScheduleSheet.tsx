@@ -8,8 +8,10 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet"
-import { Calendar } from "lucide-react"
+import { Calendar, CalendarOff } from "lucide-react"
 import { useAuth } from "@/hooks/use-auth"
+import { describeCalendarEntry, getWorkingDay, limitToWorkingDay } from "@/lib/company-calendar"
+import type { Company } from "@/lib/firebase-types"
 
 interface ScheduleSheetProps {
   open: boolean
@@ -19,6 +21,24 @@ interface ScheduleSheetProps {
 export function ScheduleSheet({ open, onOpenChange }: ScheduleSheetProps) {
   const { userProfile } = useAuth()
   const [selectedDate, setSelectedDate] = React.useState(new Date())
+  const [company, setCompany] = React.useState<Company | null>(null)
+
+  // Load the company calendar (holidays, short days, crew time off) when opened
+  React.useEffect(() => {
+    const companyId = userProfile?.companyId
+    if (!open || !companyId) return
+
+    const loadCompany = async () => {
+      try {
+        const { getCompany } = await import('@/lib/company-service')
+        setCompany(await getCompany(companyId))
+      } catch (error) {
+        console.error('Error loading company calendar:', error)
+      }
+    }
+
+    loadCompany()
+  }, [open, userProfile?.companyId])
 
   // Generate time slots (8 AM to 6 PM)
   const timeSlots = React.useMemo(() => {
@@ -72,6 +92,9 @@ export function ScheduleSheet({ open, onOpenChange }: ScheduleSheetProps) {
     return userProfile.schedule[dayName] as { start: string; end: string } | undefined
   }
 
+  // Company calendar for a day, including the user's crew time off
+  const getWorkingDayFor = (date: Date) => getWorkingDay(company, date, userProfile?.crewId)
+
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
       <SheetContent
@@ -104,7 +127,9 @@ export function ScheduleSheet({ open, onOpenChange }: ScheduleSheetProps) {
                 }`}
               >
                 <span className="text-xs font-medium">{getDayName(day)}</span>
-                <span className="text-lg font-bold">{getDayNumber(day)}</span>
+                <span className={`text-lg font-bold ${getWorkingDayFor(day).open ? '' : 'line-through opacity-60'}`}>
+                  {getDayNumber(day)}
+                </span>
               </button>
             ))}
           </div>
@@ -120,7 +145,24 @@ export function ScheduleSheet({ open, onOpenChange }: ScheduleSheetProps) {
             </h3>
 
             {(() => {
-              const daySchedule = getScheduleForDay(selectedDate)
+              const workingDay = getWorkingDayFor(selectedDate)
+              const crewSchedule = getScheduleForDay(selectedDate)
+
+              if (!workingDay.open) {
+                return (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <CalendarOff className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                    <p>Day off</p>
+                    {workingDay.entries.map((entry) => (
+                      <p key={entry.id} className="text-sm">{describeCalendarEntry(entry)}</p>
+                    ))}
+                  </div>
+                )
+              }
+
+              // Hours cut to the company's business hours and any short day
+              const limitedHours = crewSchedule && limitToWorkingDay(crewSchedule.start, crewSchedule.end, workingDay)
+              const daySchedule = limitedHours && { start: limitedHours.startTime, end: limitedHours.endTime }
 
               if (!daySchedule) {
                 return (
@@ -146,6 +188,11 @@ export function ScheduleSheet({ open, onOpenChange }: ScheduleSheetProps) {
                         <p className="text-sm font-medium text-green-800">Available</p>
                       </div>
                     </div>
+                    {workingDay.entries.map((entry) => (
+                      <p key={entry.id} className="text-xs text-muted-foreground mt-2">
+                        {describeCalendarEntry(entry)}
+                      </p>
+                    ))}
                   </div>
 
                   {/* Time slots visualization */}
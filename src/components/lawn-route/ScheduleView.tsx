@@ -2,18 +2,17 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Clock, MapPin, RefreshCw, Route } from 'lucide-react';
+import { Calendar, CalendarOff, Clock, MapPin, RefreshCw, Route } from 'lucide-react';
 import { format, isToday, isTomorrow, isYesterday, addDays, startOfWeek, endOfWeek } from 'date-fns';
-import type { User, Customer } from '@/lib/firebase-types';
-import type { AutoGeneratedSchedule } from '@/lib/auto-schedule-service';
-import { createAutoScheduleGenerator } from '@/lib/auto-schedule-service';
+import { describeCalendarEntry, getWorkingDay } from '@/lib/company-calendar';
+import type { User, Company, Customer, DailyRoute } from '@/lib/firebase-types';
 
 interface ScheduleViewProps {
   crewId: string;
   crewMembers: User[];
   customers: Customer[];
   companyId: string;
-  onViewRoute?: (schedule: AutoGeneratedSchedule) => void;
+  onViewRoute?: (schedule: DailyRoute) => void;
   onRefreshSchedules?: () => void;
 }
 
@@ -24,6 +23,18 @@ const getDateLabel = (date: Date): string => {
   return format(date, 'EEEE, MMM d');
 };
 
+// Planned start and finish from the route's stop schedule
+const getRouteTimes = (route: DailyRoute): { start: string; end: string } | null => {
+  const schedule = route.stopSchedule;
+  if (!schedule?.length) return null;
+  return { start: schedule[0].arrival, end: schedule[schedule.length - 1].departure };
+};
+
+const getRouteTimeLabel = (route: DailyRoute): string => {
+  const times = getRouteTimes(route);
+  return times ? `${times.start} - ${times.end}` : `${Math.round(route.estimatedDuration)} min`;
+};
+
 const getWeekRange = (date: Date) => {
   const start = startOfWeek(date, { weekStartsOn: 1 }); // Monday start
   const end = endOfWeek(date, { weekStartsOn: 1 });
@@ -40,8 +51,9 @@ export function ScheduleView({
 }: ScheduleViewProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<'week' | 'day'>('week');
-  const [schedules, setSchedules] = useState<AutoGeneratedSchedule[]>([]);
+  const [schedules, setSchedules] = useState<DailyRoute[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [company, setCompany] = useState<Company | null>(null);
 
   const { start: weekStart, end: weekEnd } = getWeekRange(currentDate);
 
@@ -49,21 +61,15 @@ export function ScheduleView({
   const generateSchedules = useCallback(async () => {
     setIsLoading(true);
     try {
-      const generator = createAutoScheduleGenerator(companyId);
-      await generator.initialize();
-
-      const options = {
-        startDate: viewMode === 'week' ? weekStart : currentDate,
-        endDate: viewMode === 'week' ? weekEnd : currentDate,
-        includeWeekends: true,
-        maxCustomersPerDay: 12,
-        serviceBufferMinutes: 15,
-      };
-
-      const generatedSchedules = await generator.generateSchedules(options);
+      const { getRoutesForRange } = await import('@/lib/route-service');
+      const routes = await getRoutesForRange(
+        companyId,
+        viewMode === 'week' ? weekStart : currentDate,
+        viewMode === 'week' ? weekEnd : currentDate
+      );
 
       // Filter schedules for this crew
-      const crewSchedules = generatedSchedules.filter((schedule: AutoGeneratedSchedule) => schedule.crewId === crewId);
+      const crewSchedules = routes.filter(route => route.crewId === crewId && route.customers.length > 0);
       setSchedules(crewSchedules);
     } catch (error) {
       console.error('Error generating schedules:', error);
@@ -76,6 +82,20 @@ export function ScheduleView({
     generateSchedules();
   }, [generateSchedules]);
 
+  // Company calendar, to show closed days, short days and this crew's time off
+  useEffect(() => {
+    const loadCompany = async () => {
+      try {
+        const { getCompany } = await import('@/lib/company-service');
+        setCompany(await getCompany(companyId));
+      } catch (error) {
+        console.error('Error loading company calendar:', error);
+      }
+    };
+
+    loadCompany();
+  }, [companyId]);
+
   const navigateWeek = (direction: 'prev' | 'next') => {
     setCurrentDate(prev => addDays(prev, direction === 'next' ? 7 : -7));
   };
@@ -84,12 +104,18 @@ export function ScheduleView({
     setCurrentDate(prev => addDays(prev, direction === 'next' ? 1 : -1));
   };
 
-  const getDaySchedules = (date: Date): AutoGeneratedSchedule[] => {
+  const getDaySchedules = (date: Date): DailyRoute[] => {
     return schedules.filter(schedule => 
       format(schedule.date, 'yyyy-MM-dd') === format(date, 'yyyy-MM-dd')
     );
   };
 
+  const renderCalendarNotes = (date: Date) => getWorkingDay(company, date, crewId).entries.map((entry) => (
+    <p key={entry.id} className="text-xs text-amber-700">
+      {describeCalendarEntry(entry)}
+    </p>
+  ));
+
   const renderDayView = () => (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -122,7 +148,19 @@ export function ScheduleView({
         </Button>
       </div>
 
-      {isLoading ? (
+      {renderCalendarNotes(currentDate)}
+
+      {!getWorkingDay(company, currentDate, crewId).open ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <CalendarOff className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">Day off</h3>
+            <p className="text-muted-foreground">
+              Nothing is planned on days the company is closed or the crew is off
+            </p>
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
         <Card>
           <CardContent className="p-8 text-center">
             <RefreshCw className="w-12 h-12 mx-auto text-muted-foreground mb-4 animate-spin" />
@@ -156,16 +194,16 @@ export function ScheduleView({
                     <Clock className="w-5 h-5 text-muted-foreground" />
                     <div>
                       <CardTitle className="text-lg">
-                        {schedule.estimatedStartTime} - {schedule.estimatedEndTime}
+                        {getRouteTimeLabel(schedule)}
                       </CardTitle>
                       <p className="text-sm text-muted-foreground">
-                        {schedule.customers.length} customers • {schedule.totalDistance.toFixed(1)} km
+                        {schedule.customers.length} customers • {schedule.totalDistance.toFixed(1)} mi
                       </p>
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
                     <Badge className="bg-green-100 text-green-800">
-                      Auto-Generated
+                      {schedule.version ? 'Planned' : 'Preview'}
                     </Badge>
                     <Button
                       variant="outline"
@@ -209,8 +247,8 @@ export function ScheduleView({
                 </div>
                 <div className="mt-4 p-3 bg-blue-50 rounded-lg">
                   <p className="text-sm text-blue-800">
-                    <strong>Route Info:</strong> {schedule.optimizedRoute.length} stops, 
-                    {schedule.totalDistance.toFixed(1)} km total distance
+                    <strong>Route Info:</strong> {schedule.customers.length} stops,{' '}
+                    {schedule.totalDistance.toFixed(1)} mi total distance
                   </p>
                 </div>
               </CardContent>
@@ -272,11 +310,12 @@ export function ScheduleView({
                     Today
                   </Badge>
                 )}
+                {renderCalendarNotes(date)}
               </CardHeader>
               <CardContent className="pt-0">
                 {daySchedules.length === 0 ? (
                   <p className="text-xs text-muted-foreground text-center mt-4">
-                    No schedules
+                    {getWorkingDay(company, date, crewId).open ? 'No schedules' : 'Day off'}
                   </p>
                 ) : (
                   <div className="space-y-2">
@@ -288,10 +327,10 @@ export function ScheduleView({
                       >
                         <div className="flex items-center justify-between mb-1">
                           <span className="font-medium">
-                            {schedule.estimatedStartTime}
+                            {getRouteTimes(schedule)?.start || '—'}
                           </span>
                           <Badge className="bg-green-100 text-green-800">
-                            Auto
+                            {schedule.version ? 'Planned' : 'Preview'}
                           </Badge>
                         </div>
                         <p className="text-muted-foreground">
@@ -313,9 +352,9 @@ export function ScheduleView({
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold">Auto-Generated Schedule</h1>
+          <h1 className="text-2xl font-bold">Schedule</h1>
           <p className="text-muted-foreground">
-            AI-powered scheduling for {crewMembers[0]?.crewName || 'Crew'}
+            Planned routes for {crewMembers[0]?.crewName || 'Crew'}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -0,0 +1,44 @@
+"use client"
+
+import * as React from 'react'
+import { Badge } from "@/components/ui/badge"
+import type { ServiceDurationEstimate } from "@/lib/firebase-types"
+
+interface ServiceEstimateBadgeProps {
+  minutes: number
+  confidence: ServiceDurationEstimate['confidence']
+  source?: ServiceDurationEstimate['source']
+  sampleSize?: number
+}
+
+const CONFIDENCE_STYLES: Record<ServiceDurationEstimate['confidence'], string> = {
+  high: 'border-green-300 text-green-700',
+  medium: 'border-yellow-300 text-yellow-700',
+  low: 'border-gray-300 text-muted-foreground',
+}
+
+const SOURCE_LABELS: Record<ServiceDurationEstimate['source'], string> = {
+  customer_crew: "this crew's visits",
+  customer: 'past visits',
+  service_type: 'similar properties',
+  default: 'the default',
+}
+
+/**
+ * Planned minutes on site, colored by how much history backs the estimate
+ */
+export function ServiceEstimateBadge({ minutes, confidence, source, sampleSize }: ServiceEstimateBadgeProps) {
+  const basis = source
+    ? `Based on ${SOURCE_LABELS[source]}${sampleSize ? ` (${sampleSize})` : ''} · `
+    : ''
+
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs ${CONFIDENCE_STYLES[confidence]}`}
+      title={`${basis}${confidence} confidence`}
+    >
+      ~{minutes} min
+    </Badge>
+  )
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import * as React from "react"
+import { Badge } from "@/components/ui/badge"
+import { History, PenLine } from "lucide-react"
+import type { ServiceRecord } from "@/lib/types"
+
+interface ServiceHistoryListProps {
+  records: ServiceRecord[]
+}
+
+const toDate = (date: ServiceRecord['date']): Date =>
+  date instanceof Date ? date : new Date(date.seconds * 1000)
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit', hour12: true })
+
+/**
+ * A customer's signature for one visit, linking to the full image
+ */
+export function ServiceSignatureProof({ signature }: { signature: NonNullable<ServiceRecord['signature']> }) {
+  return (
+    <div className="flex items-center gap-3 rounded-md bg-muted/50 p-2">
+      <a href={signature.url} target="_blank" rel="noopener noreferrer">
+        <img
+          src={signature.url}
+          alt={`Signature of ${signature.signerName}`}
+          className="h-12 rounded border bg-white"
+        />
+      </a>
+      <div className="min-w-0 text-xs">
+        <p className="font-medium flex items-center gap-1">
+          <PenLine className="w-3 h-3" />
+          Signed by {signature.signerName}
+        </p>
+        <p className="text-muted-foreground">{formatDateTime(signature.signedAt.toDate())}</p>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Completed visits for a customer, newest first, with the customer's signature when one was taken
+ */
+export function ServiceHistoryList({ records }: ServiceHistoryListProps) {
+  const sortedRecords = React.useMemo(
+    () => [...records].sort((a, b) => toDate(b.date).getTime() - toDate(a.date).getTime()),
+    [records]
+  )
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold flex items-center gap-2">
+        <History className="w-4 h-4" />
+        Service History
+      </h3>
+
+      {sortedRecords.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No completed visits yet.</p>
+      ) : (
+        sortedRecords.map(record => (
+          <div key={record.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{formatDateTime(toDate(record.date))}</p>
+                {record.duration !== undefined && (
+                  <p className="text-xs text-muted-foreground">{record.duration} min on site</p>
+                )}
+              </div>
+              {record.status && (
+                <Badge variant={record.status === 'completed' ? 'secondary' : 'outline'} className="capitalize">
+                  {record.status.replace('-', ' ')}
+                </Badge>
+              )}
+            </div>
+
+            {record.notes && <p className="text-sm text-muted-foreground">{record.notes}</p>}
+
+            {record.signature && <ServiceSignatureProof signature={record.signature} />}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,360 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/hooks/use-auth"
+import { Loader2, Repeat, RotateCcw, SkipForward } from "lucide-react"
+import { describeRecurrence, getServiceOccurrences } from "@/lib/service-recurrence"
+import { fromDateKey, toDateKey } from "@/lib/time-utils"
+import type { DayOfWeek, ServiceRecurrence } from "@/lib/firebase-types"
+import type { Service } from "@/lib/types"
+
+interface ServiceRecurrenceEditorProps {
+  customerId: string
+  service: Service
+  canEdit?: boolean
+}
+
+const WEEKDAYS: { value: DayOfWeek; label: string }[] = [
+  { value: 'monday', label: 'Mon' },
+  { value: 'tuesday', label: 'Tue' },
+  { value: 'wednesday', label: 'Wed' },
+  { value: 'thursday', label: 'Thu' },
+  { value: 'friday', label: 'Fri' },
+  { value: 'saturday', label: 'Sat' },
+  { value: 'sunday', label: 'Sun' },
+]
+
+const UPCOMING_DAYS = 90
+const UPCOMING_LIMIT = 6
+
+const newRecurrence = (frequency: ServiceRecurrence['frequency']): ServiceRecurrence => ({
+  frequency,
+  interval: 1,
+  startDate: toDateKey(new Date()),
+})
+
+/**
+ * Edit a service's own repeat pattern and skip or restore its upcoming jobs
+ */
+export function ServiceRecurrenceEditor({ customerId, service, canEdit = true }: ServiceRecurrenceEditorProps) {
+  const { toast } = useToast()
+  const { userProfile } = useAuth()
+  const [saved, setSaved] = React.useState<ServiceRecurrence | undefined>(service.recurrence)
+  const [draft, setDraft] = React.useState<ServiceRecurrence | undefined>(service.recurrence)
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  React.useEffect(() => {
+    setSaved(service.recurrence)
+    setDraft(service.recurrence)
+  }, [service.recurrence])
+
+  const upcoming = React.useMemo(() => {
+    if (!saved) return []
+    const until = new Date()
+    until.setDate(until.getDate() + UPCOMING_DAYS)
+    return getServiceOccurrences({ id: service.id, type: service.type, recurrence: saved }, new Date(), until)
+      .slice(0, UPCOMING_LIMIT)
+  }, [saved, service.id, service.type])
+
+  const update = (changes: Partial<ServiceRecurrence>) => {
+    setDraft(current => current ? { ...current, ...changes } : current)
+  }
+
+  // Firestore rejects undefined values, so unset fields are dropped before saving
+  const clean = (recurrence: ServiceRecurrence): ServiceRecurrence =>
+    Object.fromEntries(
+      Object.entries(recurrence).filter(([, value]) => value !== undefined && value !== '')
+    ) as unknown as ServiceRecurrence
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const { updateServiceForCustomer } = await import('@/lib/customer-service')
+      const recurrence = draft ? clean({ ...draft, exceptions: saved?.exceptions || [] }) : null
+      // null removes the recurrence; the customer's service frequency applies again
+      await updateServiceForCustomer(customerId, service.id, { recurrence: recurrence as ServiceRecurrence })
+      setSaved(recurrence || undefined)
+      toast({
+        title: "Schedule Saved",
+        description: recurrence ? describeRecurrence(recurrence) : "Follows the customer's service frequency.",
+      })
+    } catch (error) {
+      console.error('Error saving service recurrence:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save the schedule. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleSkip = async (date: string, skipped: boolean) => {
+    setIsSaving(true)
+    try {
+      const { restoreServiceOccurrence, skipServiceOccurrence, getCustomer } = await import('@/lib/customer-service')
+      if (skipped) {
+        await restoreServiceOccurrence(customerId, service.id, date)
+      } else {
+        await skipServiceOccurrence(customerId, service.id, date, { userId: userProfile?.id })
+      }
+
+      const customer = await getCustomer(customerId)
+      const recurrence = customer?.services.find(candidate => candidate.id === service.id)?.recurrence
+      setSaved(recurrence)
+      setDraft(current => current && recurrence ? { ...current, exceptions: recurrence.exceptions } : current)
+    } catch (error) {
+      console.error('Error updating service occurrence:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update this visit. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const monthlyMode = draft?.bySetPos ? 'weekday' : 'day'
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(saved)
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <Repeat className="w-4 h-4" />
+        <span className="text-sm font-medium">Repeats</span>
+        <span className="text-xs text-muted-foreground truncate">
+          {saved ? describeRecurrence(saved) : "Customer's service frequency"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          value={draft?.frequency || 'none'}
+          disabled={!canEdit || isSaving}
+          onValueChange={(value) => setDraft(value === 'none'
+            ? undefined
+            : { ...(draft || newRecurrence(value as ServiceRecurrence['frequency'])), frequency: value as ServiceRecurrence['frequency'] })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Customer default</SelectItem>
+            <SelectItem value="once">Once</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {draft && draft.frequency !== 'once' && (
+          <div className="flex items-center gap-2">
+            <Label className="text-xs shrink-0">Every</Label>
+            <Input
+              type="number"
+              min={1}
+              value={draft.interval || 1}
+              disabled={!canEdit || isSaving}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+            />
+            <span className="text-xs text-muted-foreground">{draft.frequency === 'weekly' ? 'wk' : 'mo'}</span>
+          </div>
+        )}
+      </div>
+
+      {draft?.frequency === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map((day) => {
+            const selected = draft.byDay?.includes(day.value) || false
+            return (
+              <Button
+                key={day.value}
+                type="button"
+                size="sm"
+                variant={selected ? 'default' : 'outline'}
+                disabled={!canEdit || isSaving}
+                onClick={() => update({
+                  byDay: selected
+                    ? (draft.byDay || []).filter(value => value !== day.value)
+                    : [...(draft.byDay || []), day.value],
+                })}
+              >
+                {day.label}
+              </Button>
+            )
+          })}
+        </div>
+      )}
+
+      {draft?.frequency === 'monthly' && (
+        <div className="grid grid-cols-3 gap-2">
+          <Select
+            value={monthlyMode}
+            disabled={!canEdit || isSaving}
+            onValueChange={(value) => update(value === 'weekday'
+              ? { bySetPos: 1, byDay: [draft.byDay?.[0] || 'monday'], byMonthDay: undefined }
+              : { bySetPos: undefined, byDay: undefined })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Day of month</SelectItem>
+              <SelectItem value="weekday">Nth weekday</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {monthlyMode === 'day' ? (
+            <Input
+              type="number"
+              min={1}
+              max={31}
+              placeholder={String(fromDateKey(draft.startDate).getDate())}
+              value={draft.byMonthDay || ''}
+              disabled={!canEdit || isSaving}
+              onChange={(e) => update({ byMonthDay: Number(e.target.value) || undefined })}
+            />
+          ) : (
+            <>
+              <Select
+                value={String(draft.bySetPos)}
+                disabled={!canEdit || isSaving}
+                onValueChange={(value) => update({ bySetPos: Number(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">1st</SelectItem>
+                  <SelectItem value="2">2nd</SelectItem>
+                  <SelectItem value="3">3rd</SelectItem>
+                  <SelectItem value="4">4th</SelectItem>
+                  <SelectItem value="-1">Last</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={draft.byDay?.[0] || 'monday'}
+                disabled={!canEdit || isSaving}
+                onValueChange={(value) => update({ byDay: [value as DayOfWeek] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day) => (
+                    <SelectItem key={day.value} value={day.value}>{day.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+      )}
+
+      {draft && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">{draft.frequency === 'once' ? 'Date' : 'Starts'}</Label>
+            <Input
+              type="date"
+              value={draft.startDate}
+              disabled={!canEdit || isSaving}
+              onChange={(e) => e.target.value && update({ startDate: e.target.value })}
+            />
+          </div>
+          {draft.frequency !== 'once' && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs">Ends (optional)</Label>
+                <Input
+                  type="date"
+                  value={draft.until || ''}
+                  disabled={!canEdit || isSaving}
+                  onChange={(e) => update({ until: e.target.value || undefined })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Season (MM-DD)</Label>
+                <div className="flex items-center gap-1">
+                  <Input
+                    placeholder="03-15"
+                    value={draft.seasonStart || ''}
+                    disabled={!canEdit || isSaving}
+                    onChange={(e) => update({ seasonStart: e.target.value || undefined })}
+                  />
+                  <span className="text-xs text-muted-foreground">to</span>
+                  <Input
+                    placeholder="11-30"
+                    value={draft.seasonEnd || ''}
+                    disabled={!canEdit || isSaving}
+                    onChange={(e) => update({ seasonEnd: e.target.value || undefined })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Times (optional)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.count || ''}
+                  disabled={!canEdit || isSaving}
+                  onChange={(e) => update({ count: Number(e.target.value) || undefined })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {canEdit && isDirty && (
+        <Button type="button" size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Schedule
+        </Button>
+      )}
+
+      {upcoming.length > 0 && (
+        <div className="space-y-1 border-t pt-2">
+          <p className="text-xs font-medium text-muted-foreground">Upcoming</p>
+          {upcoming.map((occurrence) => (
+            <div key={`${occurrence.originalDate}-${occurrence.date}`} className="flex items-center justify-between text-sm">
+              <span className={occurrence.status === 'due' ? '' : 'text-muted-foreground line-through'}>
+                {fromDateKey(occurrence.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                {occurrence.date !== occurrence.originalDate && (
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    moved from {fromDateKey(occurrence.originalDate).toLocaleDateString()}
+                  </span>
+                )}
+                {occurrence.status === 'moved' && occurrence.exception?.movedTo && (
+                  <span className="ml-2 text-xs">
+                    moved to {fromDateKey(occurrence.exception.movedTo).toLocaleDateString()}
+                  </span>
+                )}
+              </span>
+              {canEdit && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={isSaving}
+                  onClick={() => handleToggleSkip(occurrence.date, occurrence.status !== 'due')}
+                  title={occurrence.status === 'due' ? 'Skip this visit' : 'Put this visit back'}
+                >
+                  {occurrence.status === 'due'
+                    ? <SkipForward className="w-4 h-4" />
+                    : <RotateCcw className="w-4 h-4" />}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { PenLine, Trash2 } from "lucide-react"
+import type { StopSignature } from "@/lib/types"
+
+interface SignatureCaptureProps {
+  signature?: StopSignature
+  onChange: (signature: StopSignature | undefined) => void
+  disabled?: boolean
+}
+
+// Drawing resolution; the pad is scaled to the dialog's width
+const PAD_WIDTH = 600
+const PAD_HEIGHT = 200
+
+/**
+ * Signature Capture Component
+ *
+ * Optional proof of service: the customer signs on the device and gives their name.
+ */
+export function SignatureCapture({ signature, onChange, disabled = false }: SignatureCaptureProps) {
+  const [isOpen, setIsOpen] = React.useState(false)
+  const [signerName, setSignerName] = React.useState('')
+  const [hasStrokes, setHasStrokes] = React.useState(false)
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null)
+  const lastPointRef = React.useRef<{ x: number; y: number } | null>(null)
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: (e.clientX - rect.left) * (PAD_WIDTH / rect.width),
+      y: (e.clientY - rect.top) * (PAD_HEIGHT / rect.height),
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    lastPointRef.current = getPoint(e)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d')
+    const last = lastPointRef.current
+    if (!ctx || !last) return
+
+    const point = getPoint(e)
+    ctx.lineWidth = 3
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    ctx.strokeStyle = '#111827'
+    ctx.beginPath()
+    ctx.moveTo(last.x, last.y)
+    ctx.lineTo(point.x, point.y)
+    ctx.stroke()
+
+    lastPointRef.current = point
+    setHasStrokes(true)
+  }
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null
+  }
+
+  const handleClear = () => {
+    canvasRef.current?.getContext('2d')?.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT)
+    setHasStrokes(false)
+  }
+
+  const handleOpen = () => {
+    setSignerName('')
+    setHasStrokes(false)
+    setIsOpen(true)
+  }
+
+  const handleSave = () => {
+    if (!canvasRef.current || !hasStrokes || !signerName.trim()) return
+
+    onChange({
+      signerName: signerName.trim(),
+      signedAt: new Date(),
+      image: canvasRef.current.toDataURL('image/png'),
+    })
+    setIsOpen(false)
+  }
+
+  const signedAt = signature ? new Date(signature.signedAt) : null
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <PenLine className="w-4 h-4" />
+        Customer Signature
+        <span className="text-xs font-normal text-gray-500">(optional)</span>
+      </div>
+
+      {signature && signedAt ? (
+        <div className="flex items-center gap-3">
+          <img src={signature.image} alt={`Signature of ${signature.signerName}`} className="h-12 rounded border bg-white" />
+          <div className="flex-1 min-w-0 text-sm">
+            <p className="font-medium truncate">{signature.signerName}</p>
+            <p className="text-xs text-gray-500">
+              Signed at {signedAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })}
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            onClick={() => onChange(undefined)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ) : (
+        <Button type="button" variant="outline" size="sm" className="w-full" disabled={disabled} onClick={handleOpen}>
+          Get Signature
+        </Button>
+      )}
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Customer Signature</DialogTitle>
+            <DialogDescription>
+              Ask the customer to sign below to confirm the service was done.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="signer-name">Signer name</Label>
+              <Input
+                id="signer-name"
+                value={signerName}
+                onChange={(e) => setSignerName(e.target.value)}
+                placeholder="e.g. Jane Smith, Facilities"
+              />
+            </div>
+            <canvas
+              ref={canvasRef}
+              width={PAD_WIDTH}
+              height={PAD_HEIGHT}
+              className="w-full rounded-md border bg-white touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={handleClear} disabled={!hasStrokes}>
+              Clear
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={!hasStrokes || !signerName.trim()}>
+              Save Signature
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
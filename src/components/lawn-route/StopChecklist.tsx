@@ -0,0 +1,130 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { ListChecks } from "lucide-react"
+import { setChecklistItemStatus } from "@/lib/checklist-service"
+import type { ChecklistItemResult } from "@/lib/firebase-types"
+
+interface StopChecklistProps {
+  checklist: ChecklistItemResult[]
+  onChange: (checklist: ChecklistItemResult[]) => void
+  disabled?: boolean
+}
+
+const itemKey = (item: ChecklistItemResult) => `${item.serviceType}:${item.itemId}`
+
+/**
+ * Stop Checklist Component
+ *
+ * The tasks for each service at a stop. Required items can be waived with a reason.
+ */
+export function StopChecklist({ checklist, onChange, disabled = false }: StopChecklistProps) {
+  const [waivingKey, setWaivingKey] = React.useState<string | null>(null)
+  const [waiverReason, setWaiverReason] = React.useState('')
+
+  const serviceTypes = Array.from(new Set(checklist.map(item => item.serviceType)))
+
+  const setStatus = (item: ChecklistItemResult, status: ChecklistItemResult['status'], reason?: string) => {
+    onChange(setChecklistItemStatus(checklist, item.serviceType, item.itemId, status, reason))
+  }
+
+  const handleWaive = (item: ChecklistItemResult) => {
+    if (!waiverReason.trim()) return
+    setStatus(item, 'waived', waiverReason)
+    setWaivingKey(null)
+    setWaiverReason('')
+  }
+
+  if (checklist.length === 0) return null
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <ListChecks className="w-4 h-4" />
+        Checklist
+      </div>
+
+      {serviceTypes.map(serviceType => (
+        <div key={serviceType} className="space-y-2">
+          {serviceTypes.length > 1 && (
+            <p className="text-xs font-medium uppercase text-gray-500">{serviceType.replace('-', ' ')}</p>
+          )}
+          {checklist.filter(item => item.serviceType === serviceType).map(item => (
+            <div key={itemKey(item)} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`checklist-${itemKey(item)}`}
+                  checked={item.status === 'done'}
+                  disabled={disabled || item.status === 'waived'}
+                  onCheckedChange={(checked) => setStatus(item, checked ? 'done' : 'open')}
+                />
+                <label
+                  htmlFor={`checklist-${itemKey(item)}`}
+                  className={`flex-1 text-sm ${item.status === 'waived' ? 'text-gray-400 line-through' : ''}`}
+                >
+                  {item.label}
+                </label>
+                {item.required && item.status === 'open' && (
+                  <>
+                    <Badge variant="outline" className="text-xs">Required</Badge>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      disabled={disabled}
+                      onClick={() => { setWaivingKey(itemKey(item)); setWaiverReason('') }}
+                    >
+                      Waive
+                    </Button>
+                  </>
+                )}
+                {item.status === 'waived' && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={disabled}
+                    onClick={() => setStatus(item, 'open')}
+                  >
+                    Undo
+                  </Button>
+                )}
+              </div>
+
+              {item.status === 'waived' && item.waiverReason && (
+                <p className="pl-6 text-xs text-gray-500">Waived: {item.waiverReason}</p>
+              )}
+
+              {waivingKey === itemKey(item) && item.status === 'open' && (
+                <div className="flex gap-2 pl-6">
+                  <Input
+                    autoFocus
+                    value={waiverReason}
+                    onChange={(e) => setWaiverReason(e.target.value)}
+                    placeholder="Why it can't be done (e.g. beds flooded)"
+                    className="h-8 text-sm"
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="h-8"
+                    disabled={!waiverReason.trim()}
+                    onClick={() => handleWaive(item)}
+                  >
+                    Waive
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
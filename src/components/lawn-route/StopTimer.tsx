@@ -4,7 +4,9 @@ import * as React from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Clock, Play, Square, MapPin, Pause } from "lucide-react"
+import { Textarea } from "@/components/ui/textarea"
+import { Clock, Play, Square, MapPin, Pause, SkipForward, StickyNote } from "lucide-react"
+import { ServiceEstimateBadge } from "./ServiceEstimateBadge"
 import type { RouteStop } from "@/lib/types"
 
 interface StopTimerProps {
@@ -13,8 +15,12 @@ interface StopTimerProps {
   onDepart: () => void
   onPause?: () => void
   onResume?: () => void
+  onSkip?: () => void
+  onSaveNotes?: (notes: string) => void
   showTimer?: boolean
   disabled?: boolean
+  departBlockedReason?: string // Why the stop can't be completed yet (e.g. checklist items left)
+  children?: React.ReactNode // Shown above the action buttons, e.g. the stop checklist
 }
 
 /**
@@ -28,11 +34,21 @@ export function StopTimer({
   onDepart,
   onPause,
   onResume,
+  onSkip,
+  onSaveNotes,
   showTimer = true,
-  disabled = false
+  disabled = false,
+  departBlockedReason,
+  children
 }: StopTimerProps) {
   const [elapsedTime, setElapsedTime] = React.useState(0)
   const [isPaused, setIsPaused] = React.useState(false)
+  const [notes, setNotes] = React.useState(stop.notes || '')
+
+  // Show notes saved for this stop (e.g. after moving on to the next one)
+  React.useEffect(() => {
+    setNotes(stop.notes || '')
+  }, [stop.customerId, stop.notes])
 
   // Calculate elapsed time at stop
   React.useEffect(() => {
@@ -165,6 +181,8 @@ export function StopTimer({
           </div>
         )}
 
+        {children}
+
         {/* Action Buttons */}
         <div className="flex gap-2">
           {stop.status === 'pending' && (
@@ -178,11 +196,24 @@ export function StopTimer({
             </Button>
           )}
 
+          {stop.status === 'pending' && onSkip && (
+            <Button
+              onClick={onSkip}
+              disabled={disabled}
+              variant="outline"
+              className="px-4"
+              title="Skip this stop"
+            >
+              <SkipForward className="w-4 h-4" />
+            </Button>
+          )}
+
           {stop.status === 'in_progress' && !isPaused && (
             <>
               <Button
                 onClick={onDepart}
-                disabled={disabled}
+                disabled={disabled || !!departBlockedReason}
+                title={departBlockedReason}
                 className="flex-1 bg-green-600 hover:bg-green-700"
               >
                 <Square className="w-4 h-4 mr-2" />
@@ -219,12 +250,47 @@ export function StopTimer({
           )}
         </div>
 
+        {departBlockedReason && stop.status === 'in_progress' && (
+          <p className="text-xs text-center text-gray-600">{departBlockedReason}</p>
+        )}
+
+        {/* Stop Notes */}
+        {onSaveNotes && stop.status === 'in_progress' && (
+          <div className="space-y-2">
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes for this stop (gate code, dog in yard...)"
+              rows={2}
+              disabled={disabled}
+            />
+            {notes !== (stop.notes || '') && (
+              <Button
+                onClick={() => onSaveNotes(notes.trim())}
+                disabled={disabled}
+                variant="outline"
+                size="sm"
+                className="w-full"
+              >
+                <StickyNote className="w-4 h-4 mr-2" />
+                Save Notes
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Stop Details */}
         {stop.estimatedArrival && stop.status === 'pending' && (
           <div className="text-sm text-gray-600 text-center">
             Estimated Arrival: {stop.estimatedArrival}
           </div>
         )}
+        {stop.estimatedWorkMinutes && stop.estimateConfidence && stop.status !== 'completed' && (
+          <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+            Planned on site:
+            <ServiceEstimateBadge minutes={stop.estimatedWorkMinutes} confidence={stop.estimateConfidence} />
+          </div>
+        )}
       </CardContent>
     </Card>
   )
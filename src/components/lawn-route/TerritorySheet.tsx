@@ -0,0 +1,253 @@
+"use client"
+
+import * as React from "react"
+import { GoogleMap, Marker, Polygon, useJsApiLoader } from "@react-google-maps/api"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, Pentagon, Trash2, Undo2 } from "lucide-react"
+import type { Customer, Territory } from "@/lib/firebase-types"
+
+interface TerritorySheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  territories: Territory[]
+  customers: Customer[]
+  baseLocation?: { lat: number; lng: number } | null
+  apiKey?: string
+}
+
+// Keep libraries constant (and the same as the main map) to avoid reloading
+const libraries: ("places")[] = ['places']
+
+const TERRITORY_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2', '#65a30d', '#db2777']
+
+const DEFAULT_CENTER = { lat: 27.6648, lng: -81.5158 }
+
+/**
+ * Draw named territory polygons by clicking points on the map
+ */
+export function TerritorySheet({
+  open,
+  onOpenChange,
+  companyId,
+  territories,
+  customers,
+  baseLocation,
+  apiKey,
+}: TerritorySheetProps) {
+  const { toast } = useToast()
+  const [name, setName] = React.useState('')
+  const [points, setPoints] = React.useState<{ lat: number; lng: number }[]>([])
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  const { isLoaded } = useJsApiLoader({
+    id: 'google-map-script',
+    googleMapsApiKey: apiKey || "",
+    libraries
+  })
+
+  const nextColor = TERRITORY_COLORS[territories.length % TERRITORY_COLORS.length]
+
+  const getCustomerCount = (territoryId: string) =>
+    customers.filter(customer => customer.territoryId === territoryId).length
+
+  const handleSave = async () => {
+    if (!name.trim() || points.length < 3) {
+      toast({
+        title: "Territory Incomplete",
+        description: "Enter a name and click at least 3 points on the map.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const { createTerritory } = await import('@/lib/territory-service')
+      await createTerritory(companyId, { name: name.trim(), color: nextColor, polygon: points })
+
+      toast({
+        title: "Territory Saved",
+        description: `${name.trim()} was added and customers inside it were tagged.`,
+      })
+      setName('')
+      setPoints([])
+    } catch (error) {
+      console.error('Error saving territory:', error)
+      toast({
+        title: "Error",
+        description: "Failed to save territory. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (territory: Territory) => {
+    setIsSaving(true)
+    try {
+      const { deleteTerritory } = await import('@/lib/territory-service')
+      await deleteTerritory(companyId, territory.id)
+    } catch (error) {
+      console.error('Error deleting territory:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete territory. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-lg max-h-[90svh] overflow-y-auto">
+        <SheetHeader className="text-left">
+          <SheetTitle className="flex items-center gap-2">
+            <Pentagon className="w-5 h-5" />
+            Territories
+          </SheetTitle>
+          <SheetDescription>
+            Click the map to outline a service area. Customers are tagged with the territory they fall in.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="h-72 w-full rounded-lg overflow-hidden border">
+            {isLoaded ? (
+              <GoogleMap
+                mapContainerStyle={{ width: '100%', height: '100%' }}
+                center={baseLocation || DEFAULT_CENTER}
+                zoom={11}
+                options={{ disableDefaultUI: true, zoomControl: true, draggableCursor: 'crosshair' }}
+                onClick={(e) => {
+                  if (!e.latLng) return
+                  setPoints(current => [...current, { lat: e.latLng!.lat(), lng: e.latLng!.lng() }])
+                }}
+              >
+                {territories.map((territory) => (
+                  <Polygon
+                    key={territory.id}
+                    paths={territory.polygon}
+                    options={{
+                      fillColor: territory.color,
+                      fillOpacity: 0.15,
+                      strokeColor: territory.color,
+                      strokeWeight: 2,
+                      clickable: false,
+                    }}
+                  />
+                ))}
+
+                {points.length > 0 && (
+                  <Polygon
+                    paths={points}
+                    options={{
+                      fillColor: nextColor,
+                      fillOpacity: 0.25,
+                      strokeColor: nextColor,
+                      strokeWeight: 2,
+                      clickable: false,
+                    }}
+                  />
+                )}
+
+                {points.map((point, index) => (
+                  <Marker
+                    key={`${point.lat}-${point.lng}-${index}`}
+                    position={point}
+                    icon={{
+                      path: google.maps.SymbolPath.CIRCLE,
+                      scale: 5,
+                      fillColor: nextColor,
+                      fillOpacity: 1,
+                      strokeWeight: 2,
+                      strokeColor: '#ffffff',
+                    }}
+                  />
+                ))}
+              </GoogleMap>
+            ) : (
+              <div className="flex h-full w-full items-center justify-center bg-muted">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Territory name, e.g. North Side"
+              disabled={isSaving}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              title="Remove last point"
+              disabled={isSaving || points.length === 0}
+              onClick={() => setPoints(current => current.slice(0, -1))}
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              disabled={isSaving || points.length < 3 || !name.trim()}
+              onClick={handleSave}
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {points.length} point{points.length === 1 ? '' : 's'} placed
+            {points.length > 0 && points.length < 3 && ' · at least 3 needed'}
+          </p>
+
+          <div className="space-y-2 border-t pt-4">
+            {territories.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No territories yet. Crews without territories can serve any customer.
+              </p>
+            ) : (
+              territories.map((territory) => (
+                <div key={territory.id} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span
+                      className="w-3 h-3 rounded-sm shrink-0"
+                      style={{ backgroundColor: territory.color }}
+                    />
+                    <span className="font-medium truncate">{territory.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {getCustomerCount(territory.id)} customers
+                    </span>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={isSaving}
+                    onClick={() => handleDelete(territory)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,221 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowRight, CloudRain, Loader2, Sun, Wind } from "lucide-react"
+import { fromDateKey } from "@/lib/time-utils"
+import type { WeatherMove, WeatherReschedulePlan } from "@/lib/weather-reschedule-service"
+
+interface WeatherRescheduleSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  companyId: string
+  userId?: string
+  onApplied?: () => void
+}
+
+const formatDay = (dateKey: string) =>
+  fromDateKey(dateKey).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+
+const getMoveKey = (move: WeatherMove) => `${move.customerId}-${move.fromDate}`
+
+/**
+ * Review the forecast and approve moving jobs off unworkable days
+ */
+export function WeatherRescheduleSheet({
+  open,
+  onOpenChange,
+  companyId,
+  userId,
+  onApplied,
+}: WeatherRescheduleSheetProps) {
+  const { toast } = useToast()
+  const [plan, setPlan] = React.useState<WeatherReschedulePlan | null>(null)
+  const [selected, setSelected] = React.useState<Set<string>>(new Set())
+  const [error, setError] = React.useState<string | null>(null)
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [isApplying, setIsApplying] = React.useState(false)
+
+  // Check the forecast each time the sheet opens
+  React.useEffect(() => {
+    if (!open || !companyId) return
+
+    let cancelled = false
+    const loadPlan = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const { planWeatherReschedule } = await import('@/lib/weather-reschedule-service')
+        const nextPlan = await planWeatherReschedule(companyId, new Date())
+        if (cancelled) return
+        setPlan(nextPlan)
+        setSelected(new Set(nextPlan.moves.map(getMoveKey)))
+      } catch (loadError) {
+        console.error('Error checking weather:', loadError)
+        if (!cancelled) {
+          setPlan(null)
+          setError(loadError instanceof Error ? loadError.message : 'Failed to check the forecast.')
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadPlan()
+    return () => { cancelled = true }
+  }, [open, companyId])
+
+  const toggleMove = (move: WeatherMove, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (checked) {
+        next.add(getMoveKey(move))
+      } else {
+        next.delete(getMoveKey(move))
+      }
+      return next
+    })
+  }
+
+  const handleApprove = async () => {
+    if (!plan) return
+
+    const moves = plan.moves.filter(move => selected.has(getMoveKey(move)))
+    if (moves.length === 0) return
+
+    setIsApplying(true)
+    try {
+      const { applyWeatherReschedule } = await import('@/lib/weather-reschedule-service')
+      await applyWeatherReschedule(companyId, moves, userId)
+
+      toast({
+        title: "Jobs Rescheduled",
+        description: `${moves.length} job${moves.length === 1 ? '' : 's'} moved for weather.`,
+      })
+      onApplied?.()
+      onOpenChange(false)
+    } catch (applyError) {
+      console.error('Error applying weather moves:', applyError)
+      toast({
+        title: "Error",
+        description: "Failed to reschedule jobs. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-lg max-h-[90svh] overflow-y-auto">
+        <SheetHeader className="text-left">
+          <SheetTitle className="flex items-center gap-2">
+            <CloudRain className="w-5 h-5" />
+            Weather Reschedule
+          </SheetTitle>
+          <SheetDescription>
+            Jobs on days too wet or windy for their service move to the next workable day, on a preferred day where possible.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="grid gap-4 py-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-muted-foreground">
+              {error === 'No weather provider configured'
+                ? 'No weather provider is set up. Set NEXT_PUBLIC_WEATHER_PROVIDER to enable forecasts.'
+                : error}
+            </p>
+          ) : plan && (
+            <>
+              <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+                {plan.forecasts.map((forecast) => {
+                  const unworkable = plan.unworkableDates.includes(forecast.date)
+                  return (
+                    <div
+                      key={forecast.date}
+                      className={`rounded-md border p-2 text-center text-xs ${unworkable ? 'border-destructive bg-destructive/10' : ''}`}
+                    >
+                      <div className="font-medium">{formatDay(forecast.date)}</div>
+                      <div className="flex justify-center my-1">
+                        {forecast.precipitationInches > 0 || forecast.precipitationChance >= 50
+                          ? <CloudRain className="w-4 h-4" />
+                          : <Sun className="w-4 h-4" />}
+                      </div>
+                      <div>{forecast.precipitationInches.toFixed(2)} in · {Math.round(forecast.precipitationChance)}%</div>
+                      <div className="flex items-center justify-center gap-1 text-muted-foreground">
+                        <Wind className="w-3 h-3" />
+                        {Math.round(forecast.windMph)} mph
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+
+              <div className="space-y-2 border-t pt-4">
+                {plan.moves.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No jobs need to move for the forecast.
+                  </p>
+                ) : (
+                  plan.moves.map((move) => (
+                    <label
+                      key={getMoveKey(move)}
+                      className="flex items-start gap-3 rounded-md border p-3 text-sm cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={selected.has(getMoveKey(move))}
+                        onCheckedChange={(checked) => toggleMove(move, checked === true)}
+                        disabled={isApplying}
+                        className="mt-0.5"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="font-medium truncate">{move.customerName}</div>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="line-through text-muted-foreground">{formatDay(move.fromDate)}</span>
+                          <ArrowRight className="w-3 h-3" />
+                          <span className="font-medium">{formatDay(move.toDate)}</span>
+                          {move.onPreferredDay && (
+                            <span className="text-xs text-muted-foreground">(preferred day)</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {move.serviceTypes.join(', ')} · {move.reason}
+                        </div>
+                      </div>
+                    </label>
+                  ))
+                )}
+              </div>
+
+              {plan.moves.length > 0 && (
+                <Button
+                  type="button"
+                  disabled={isApplying || selected.size === 0}
+                  onClick={handleApprove}
+                >
+                  {isApplying
+                    ? <Loader2 className="w-4 h-4 animate-spin" />
+                    : `Approve ${selected.size} move${selected.size === 1 ? '' : 's'}`}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,147 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ChevronLeft, ChevronRight, Loader2, Scale } from "lucide-react"
+import { fromDateKey } from "@/lib/time-utils"
+import type { WorkloadReport } from "@/lib/workload-report-service"
+
+interface WorkloadFairnessReportProps {
+  companyId: string
+}
+
+const formatHours = (minutes: number) => (minutes / 60).toFixed(1)
+
+// Monday of the week a date falls in
+const getWeekStart = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7))
+
+const getLoadColor = (plannedMinutes: number, shiftMinutes: number) => {
+  if (shiftMinutes === 0) return plannedMinutes > 0 ? "bg-red-100 text-red-800" : "text-gray-400"
+  const load = plannedMinutes / shiftMinutes
+  if (load > 1) return "bg-red-100 text-red-800"
+  if (load >= 0.6) return "bg-green-50 text-green-800"
+  return "bg-yellow-50 text-yellow-800"
+}
+
+/**
+ * Workload Fairness Report Component
+ *
+ * Planned hours per crew per day against each crew's scheduled shift
+ */
+export function WorkloadFairnessReport({ companyId }: WorkloadFairnessReportProps) {
+  const [weekStart, setWeekStart] = React.useState(() => getWeekStart(new Date()))
+  const [report, setReport] = React.useState<WorkloadReport | null>(null)
+  const [isLoading, setIsLoading] = React.useState(false)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const loadReport = async () => {
+      setIsLoading(true)
+      try {
+        const { getWeeklyWorkloadReport } = await import("@/lib/workload-report-service")
+        const nextReport = await getWeeklyWorkloadReport(companyId, weekStart)
+        if (!cancelled) setReport(nextReport)
+      } catch (error) {
+        console.error('Error loading workload report:', error)
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadReport()
+    return () => { cancelled = true }
+  }, [companyId, weekStart])
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(current => new Date(current.getFullYear(), current.getMonth(), current.getDate() + weeks * 7))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Scale className="w-5 h-5" />
+              Workload Fairness
+            </CardTitle>
+            <CardDescription>Planned hours (drive + work) against each crew&apos;s shift</CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon" onClick={() => shiftWeek(-1)} disabled={isLoading}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm font-medium w-24 text-center">
+              {weekStart.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+            </span>
+            <Button variant="outline" size="icon" onClick={() => shiftWeek(1)} disabled={isLoading}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !report ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : report.crews.length === 0 ? (
+          <p className="text-sm text-gray-600">No crews set up yet</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600">
+                    <th className="py-2 pr-2 font-medium">Crew</th>
+                    {report.dates.map(date => (
+                      <th key={date} className="py-2 px-1 font-medium text-center">
+                        {fromDateKey(date).toLocaleDateString(undefined, { weekday: 'short' })}
+                      </th>
+                    ))}
+                    <th className="py-2 pl-2 font-medium text-right">Week</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.crews.map(crew => (
+                    <tr key={crew.crewId} className="border-t">
+                      <td className="py-2 pr-2 font-medium whitespace-nowrap">{crew.crewName}</td>
+                      {crew.days.map(day => (
+                        <td key={day.date} className="py-1 px-1 text-center">
+                          <div className={`rounded px-1 py-0.5 text-xs ${getLoadColor(day.plannedMinutes, day.shiftMinutes)}`}>
+                            {day.shiftMinutes === 0 && day.plannedMinutes === 0
+                              ? 'Off'
+                              : `${formatHours(day.plannedMinutes)}/${formatHours(day.shiftMinutes)}`}
+                          </div>
+                        </td>
+                      ))}
+                      <td className="py-2 pl-2 text-right whitespace-nowrap">
+                        {formatHours(crew.plannedMinutes)}/{formatHours(crew.shiftMinutes)} h
+                        <div className="text-xs text-gray-500">{Math.round(crew.utilization * 100)}%</div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600">Spread between busiest and lightest crew:</span>
+              <Badge
+                variant="outline"
+                className={report.utilizationSpread > 0.2
+                  ? "bg-yellow-100 text-yellow-800 border-yellow-200"
+                  : "bg-green-100 text-green-800 border-green-200"}
+              >
+                {Math.round(report.utilizationSpread * 100)}%
+              </Badge>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,66 @@
+"use client"
+
+import { useEffect, useRef, useCallback } from 'react'
+import { shouldKeepSample, type BreadcrumbPoint } from '@/lib/breadcrumb-service'
+import { toDateKey } from '@/lib/time-utils'
+
+interface UseBreadcrumbRecorderOptions {
+  companyId?: string
+  crewId?: string
+  userId?: string
+  date?: Date // The crew's route date
+}
+
+// Upload a batch once it has this many points or spans this long
+const MAX_BATCH_POINTS = 30
+const MAX_BATCH_MS = 2 * 60 * 1000
+// Fixes less accurate than this (meters) would draw the track through backyards
+const MAX_ACCURACY_METERS = 50
+
+/**
+ * Record a crew's location samples as breadcrumbs, thinned and uploaded in
+ * batches through the offline outbox
+ */
+export function useBreadcrumbRecorder({ companyId, crewId, userId, date }: UseBreadcrumbRecorderOptions) {
+  const bufferRef = useRef<BreadcrumbPoint[]>([])
+  const lastKeptRef = useRef<BreadcrumbPoint | null>(null)
+  const dateKey = date ? toDateKey(date) : undefined
+
+  const flush = useCallback(() => {
+    const points = bufferRef.current
+    if (points.length === 0 || !companyId || !crewId || !userId || !dateKey) return
+
+    bufferRef.current = []
+    import('@/lib/offline-sync-service')
+      .then(({ queueBreadcrumbs }) => queueBreadcrumbs({ companyId, crewId, date: dateKey, recordedBy: userId, points }))
+      .catch(error => console.error('Error saving location track:', error))
+  }, [companyId, crewId, userId, dateKey])
+
+  const recordSample = useCallback(({ accuracy, ...sample }: BreadcrumbPoint & { accuracy?: number }) => {
+    if (accuracy !== undefined && accuracy > MAX_ACCURACY_METERS) return
+    if (!shouldKeepSample(lastKeptRef.current, sample)) return
+
+    lastKeptRef.current = sample
+    bufferRef.current.push(sample)
+
+    const first = bufferRef.current[0]
+    if (bufferRef.current.length >= MAX_BATCH_POINTS || sample.timestamp - first.timestamp >= MAX_BATCH_MS) {
+      flush()
+    }
+  }, [flush])
+
+  // Don't lose the last few points when the app is closed or the route changes
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush()
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      flush()
+    }
+  }, [flush])
+
+  return { recordSample, flush }
+}
@@ -0,0 +1,93 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useGeolocation } from './use-geolocation'
+import {
+  updateGeofence,
+  DEFAULT_GEOFENCE_SETTINGS,
+  INITIAL_GEOFENCE_STATE,
+  type GeofenceEvent,
+  type GeofenceSettings,
+  type GeofenceState,
+  type LocationSample,
+} from '@/lib/route-tracking-service'
+import type { Route } from '@/lib/types'
+
+interface UseGeofenceOptions {
+  route: Route
+  enabled: boolean
+  settings?: GeofenceSettings
+  onEvent: (event: GeofenceEvent) => void
+  onSample?: (sample: LocationSample) => void // Every fix, e.g. for the breadcrumb track
+}
+
+const GEOLOCATION_OPTIONS = {
+  enableHighAccuracy: true,
+  timeout: 15000,
+  maximumAge: 10000,
+}
+
+/**
+ * Feed location samples through the geofence state machine for a route and
+ * report detected arrivals and departures
+ */
+export function useGeofence({
+  route,
+  enabled,
+  settings = DEFAULT_GEOFENCE_SETTINGS,
+  onEvent,
+  onSample,
+}: UseGeofenceOptions) {
+  const { latitude, longitude, accuracy, timestamp, error, isTracking, startTracking, stopTracking } =
+    useGeolocation(GEOLOCATION_OPTIONS)
+  const [phase, setPhase] = useState<GeofenceState['phase']>('outside')
+  const stateRef = useRef<GeofenceState>(INITIAL_GEOFENCE_STATE)
+  const routeRef = useRef(route)
+  const onEventRef = useRef(onEvent)
+  const onSampleRef = useRef(onSample)
+  const trackingRef = useRef({ startTracking, stopTracking })
+
+  // Samples are evaluated against the latest route without restarting tracking when it changes
+  routeRef.current = route
+  onEventRef.current = onEvent
+  onSampleRef.current = onSample
+  trackingRef.current = { startTracking, stopTracking }
+
+  useEffect(() => {
+    if (enabled) {
+      trackingRef.current.startTracking()
+    } else {
+      trackingRef.current.stopTracking()
+      stateRef.current = INITIAL_GEOFENCE_STATE
+      setPhase('outside')
+    }
+  }, [enabled])
+
+  useEffect(() => {
+    if (!enabled || latitude === null || longitude === null || timestamp === null) return
+
+    const sample = { lat: latitude, lng: longitude, accuracy: accuracy ?? undefined, timestamp }
+    const result = updateGeofence(stateRef.current, sample, routeRef.current, settings)
+    stateRef.current = result.state
+    setPhase(result.state.phase)
+
+    onSampleRef.current?.(sample)
+    if (result.event) {
+      onEventRef.current(result.event)
+    }
+  }, [enabled, latitude, longitude, accuracy, timestamp, settings])
+
+  // After the crew undoes a detection, don't detect the same stop again until they move on
+  const ignoreStop = useCallback((customerId: string) => {
+    stateRef.current = { ...INITIAL_GEOFENCE_STATE, ignoredCustomerId: customerId }
+    setPhase('outside')
+  }, [])
+
+  return {
+    phase,
+    accuracy,
+    error,
+    isTracking,
+    ignoreStop,
+  }
+}
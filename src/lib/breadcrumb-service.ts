@@ -0,0 +1,355 @@
+/**
+ * Breadcrumb Service
+ *
+ * Keeps the path a crew actually drove. Location samples are thinned on the
+ * device (a parked truck keeps a point every few minutes, not every few
+ * seconds), uploaded in batches as polyline-encoded segments under
+ * `breadcrumbs/{routeId}/segments`, and read back as one time-ordered track
+ * for replay, along with the stationary periods and stop visits managers use
+ * to settle "they were never here" disputes.
+ */
+
+import { collection, doc, getDocs, increment, runTransaction, Timestamp } from 'firebase/firestore';
+import { getFirebaseDb } from './firebase';
+import { getRouteId, getStoredRoute } from './route-storage-service';
+import { calculateDistance } from './route-tracking-service';
+import { getRouteProgress } from './stop-event-service';
+import { fromDateKey } from './time-utils';
+import type { BreadcrumbSegment, RouteStopProgress } from './firebase-types';
+import type { TimestampSource } from './types';
+
+export interface BreadcrumbPoint {
+  lat: number;
+  lng: number;
+  timestamp: number; // Epoch milliseconds
+}
+
+// A batch of points as recorded on the device, before it reaches Firestore
+export interface BreadcrumbSegmentInput {
+  id: string; // Chosen on the device, so a retried upload replaces rather than duplicates
+  companyId: string;
+  crewId: string;
+  date: string; // YYYY-MM-DD of the crew's route
+  recordedBy: string;
+  points: BreadcrumbPoint[];
+}
+
+export interface StationaryPeriod {
+  lat: number;
+  lng: number;
+  start: number; // Epoch milliseconds
+  end: number;
+  minutes: number;
+}
+
+// How close the track came to a stop, and for how long the crew was there
+export interface StopVisit {
+  customerId: string;
+  closestMeters: number | null; // Null when there's no track
+  closestAt?: number;
+  firstSeen?: number; // First and last points within the visit radius
+  lastSeen?: number;
+  minutesNearby: number;
+}
+
+// A stop on the replayed route with what the crew recorded there
+export interface ReplayStop {
+  customerId: string;
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  status: RouteStopProgress['status'];
+  arrivedAt?: number; // Epoch milliseconds
+  departedAt?: number;
+  arrivalSource?: TimestampSource;
+  departureSource?: TimestampSource;
+  visit: StopVisit;
+}
+
+// Everything needed to replay a crew's day
+export interface RouteReplay {
+  crewId: string;
+  date: Date;
+  points: BreadcrumbPoint[];
+  stops: ReplayStop[];
+  stationaryPeriods: StationaryPeriod[];
+}
+
+// Samples closer than this to the last kept point are dropped...
+const MIN_MOVE_METERS = 15;
+// ...unless this long has passed, so stationary time still shows in the track
+const STATIONARY_SAMPLE_SECONDS = 300;
+
+const COORDINATE_PRECISION = 1e5; // ~1 m
+
+/**
+ * Whether a new sample adds anything to the track over the last point kept
+ */
+export function shouldKeepSample(last: BreadcrumbPoint | null, sample: BreadcrumbPoint): boolean {
+  if (!last) return true;
+  if (sample.timestamp <= last.timestamp) return false;
+
+  return calculateDistance(last.lat, last.lng, sample.lat, sample.lng) >= MIN_MOVE_METERS
+    || sample.timestamp - last.timestamp >= STATIONARY_SAMPLE_SECONDS * 1000;
+}
+
+/**
+ * Upload a batch of points and count them on the day's track. Saving a
+ * segment that was already saved does nothing.
+ */
+export const saveBreadcrumbSegment = async (input: BreadcrumbSegmentInput): Promise<void> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+  if (input.points.length === 0) return;
+
+  const points = [...input.points].sort((a, b) => a.timestamp - b.timestamp);
+  const startedAt = points[0].timestamp;
+  const trackRef = doc(db, 'breadcrumbs', getRouteId(input.companyId, input.crewId, fromDateKey(input.date)));
+  const segmentRef = doc(trackRef, 'segments', input.id);
+
+  await runTransaction(db, async transaction => {
+    const existing = await transaction.get(segmentRef);
+    if (existing.exists()) return;
+
+    const segment: Omit<BreadcrumbSegment, 'id'> = {
+      companyId: input.companyId,
+      crewId: input.crewId,
+      recordedBy: input.recordedBy,
+      startedAt: Timestamp.fromMillis(startedAt),
+      endedAt: Timestamp.fromMillis(points[points.length - 1].timestamp),
+      pointCount: points.length,
+      encodedPoints: encodeBreadcrumbs(points, startedAt),
+    };
+    transaction.set(segmentRef, segment);
+    transaction.set(trackRef, {
+      companyId: input.companyId,
+      crewId: input.crewId,
+      date: input.date,
+      pointCount: increment(points.length),
+      updatedAt: Timestamp.now(),
+    }, { merge: true });
+  });
+};
+
+/**
+ * A crew's full track for a day, oldest point first
+ */
+export const getBreadcrumbTrack = async (
+  companyId: string,
+  crewId: string,
+  date: Date
+): Promise<BreadcrumbPoint[]> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const snapshot = await getDocs(collection(db, 'breadcrumbs', getRouteId(companyId, crewId, date), 'segments'));
+  const points = snapshot.docs.flatMap(segmentDoc => {
+    const segment = segmentDoc.data() as BreadcrumbSegment;
+    return decodeBreadcrumbs(segment.encodedPoints, segment.startedAt.toMillis());
+  });
+
+  // Segments from two crew members' phones interleave, so order by time
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Load a crew's track for a day alongside its route and recorded stop times
+ */
+export const getRouteReplay = async (companyId: string, crewId: string, date: Date): Promise<RouteReplay> => {
+  const [points, route, progress] = await Promise.all([
+    getBreadcrumbTrack(companyId, crewId, date),
+    getStoredRoute(companyId, crewId, date),
+    getRouteProgress(getRouteId(companyId, crewId, date)),
+  ]);
+
+  const customers = route?.customers || [];
+  const visits = findStopVisits(points, customers.map(customer => ({
+    customerId: customer.id,
+    lat: customer.lat,
+    lng: customer.lng,
+  })));
+
+  const stops = customers.map((customer, index): ReplayStop => {
+    const recorded = progress?.stops[customer.id];
+    return {
+      customerId: customer.id,
+      name: customer.name,
+      address: customer.address,
+      lat: customer.lat,
+      lng: customer.lng,
+      status: recorded?.status || 'pending',
+      ...(recorded?.arrivedAt && { arrivedAt: recorded.arrivedAt.toMillis() }),
+      ...(recorded?.departedAt && { departedAt: recorded.departedAt.toMillis() }),
+      ...(recorded?.arrivalSource && { arrivalSource: recorded.arrivalSource }),
+      ...(recorded?.departureSource && { departureSource: recorded.departureSource }),
+      visit: visits[index],
+    };
+  });
+
+  return { crewId, date, points, stops, stationaryPeriods: findStationaryPeriods(points) };
+};
+
+/**
+ * Periods where the crew stayed within a small area for a while
+ */
+export function findStationaryPeriods(
+  points: BreadcrumbPoint[],
+  radiusMeters: number = 40,
+  minMinutes: number = 5
+): StationaryPeriod[] {
+  const periods: StationaryPeriod[] = [];
+  let index = 0;
+
+  while (index < points.length) {
+    const anchor = points[index];
+    let end = index;
+    while (
+      end + 1 < points.length &&
+      calculateDistance(anchor.lat, anchor.lng, points[end + 1].lat, points[end + 1].lng) <= radiusMeters
+    ) {
+      end++;
+    }
+
+    const minutes = (points[end].timestamp - anchor.timestamp) / 60000;
+    if (minutes >= minMinutes) {
+      const cluster = points.slice(index, end + 1);
+      periods.push({
+        lat: cluster.reduce((sum, point) => sum + point.lat, 0) / cluster.length,
+        lng: cluster.reduce((sum, point) => sum + point.lng, 0) / cluster.length,
+        start: anchor.timestamp,
+        end: points[end].timestamp,
+        minutes: Math.round(minutes),
+      });
+      index = end + 1;
+    } else {
+      index++;
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * How close the track came to each stop and how long the crew stayed within the radius
+ */
+export function findStopVisits(
+  points: BreadcrumbPoint[],
+  stops: { customerId: string; lat: number; lng: number }[],
+  radiusMeters: number = 100
+): StopVisit[] {
+  return stops.map(stop => {
+    const visit: StopVisit = { customerId: stop.customerId, closestMeters: null, minutesNearby: 0 };
+    let previousNearby: BreadcrumbPoint | null = null;
+
+    for (const point of points) {
+      const distance = calculateDistance(stop.lat, stop.lng, point.lat, point.lng);
+
+      if (visit.closestMeters === null || distance < visit.closestMeters) {
+        visit.closestMeters = Math.round(distance);
+        visit.closestAt = point.timestamp;
+      }
+
+      if (distance <= radiusMeters) {
+        visit.firstSeen = visit.firstSeen ?? point.timestamp;
+        visit.lastSeen = point.timestamp;
+        if (previousNearby) {
+          visit.minutesNearby += (point.timestamp - previousNearby.timestamp) / 60000;
+        }
+        previousNearby = point;
+      } else {
+        previousNearby = null;
+      }
+    }
+
+    visit.minutesNearby = Math.round(visit.minutesNearby);
+    return visit;
+  });
+}
+
+/**
+ * Where the crew was at a moment, interpolated between the surrounding points
+ */
+export function getPositionAt(points: BreadcrumbPoint[], time: number): { lat: number; lng: number } | null {
+  if (points.length === 0) return null;
+  if (time <= points[0].timestamp) return { lat: points[0].lat, lng: points[0].lng };
+
+  const nextIndex = points.findIndex(point => point.timestamp >= time);
+  if (nextIndex === -1) {
+    const last = points[points.length - 1];
+    return { lat: last.lat, lng: last.lng };
+  }
+
+  const before = points[nextIndex - 1];
+  const after = points[nextIndex];
+  const fraction = (time - before.timestamp) / Math.max(1, after.timestamp - before.timestamp);
+  return {
+    lat: before.lat + (after.lat - before.lat) * fraction,
+    lng: before.lng + (after.lng - before.lng) * fraction,
+  };
+}
+
+/**
+ * Encode points with the Google polyline algorithm, extended with a third
+ * value per point: seconds since the segment started
+ */
+export function encodeBreadcrumbs(points: BreadcrumbPoint[], startedAt: number): string {
+  let encoded = '';
+  let previous = [0, 0, 0];
+
+  for (const point of points) {
+    const values = [
+      Math.round(point.lat * COORDINATE_PRECISION),
+      Math.round(point.lng * COORDINATE_PRECISION),
+      Math.round((point.timestamp - startedAt) / 1000),
+    ];
+    values.forEach((value, index) => {
+      encoded += encodeSignedValue(value - previous[index]);
+    });
+    previous = values;
+  }
+
+  return encoded;
+}
+
+export function decodeBreadcrumbs(encoded: string, startedAt: number): BreadcrumbPoint[] {
+  const points: BreadcrumbPoint[] = [];
+  const values = [0, 0, 0];
+  let position = 0;
+
+  while (position < encoded.length) {
+    for (let index = 0; index < 3; index++) {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        byte = encoded.charCodeAt(position++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+      values[index] += result & 1 ? ~(result >> 1) : result >> 1;
+    }
+
+    points.push({
+      lat: values[0] / COORDINATE_PRECISION,
+      lng: values[1] / COORDINATE_PRECISION,
+      timestamp: startedAt + values[2] * 1000,
+    });
+  }
+
+  return points;
+}
+
+function encodeSignedValue(value: number): string {
+  let remaining = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (remaining >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+    remaining >>= 5;
+  }
+  return encoded + String.fromCharCode(remaining + 63);
+}
@@ -0,0 +1,77 @@
+/**
+ * Checklist Service
+ *
+ * Companies define what "done" means for each service type (e.g. edging:
+ * sidewalks, driveway, beds). At a stop the crew works through the items for
+ * every service due there; required items must be checked off or waived with
+ * a reason before the stop can be completed, and how each item was left is
+ * saved in the customer's service record.
+ */
+
+import type { ChecklistItemResult, ServiceChecklist } from './firebase-types';
+import type { RouteStop } from './types';
+
+/**
+ * The checklist for a stop: every item for its service types, with whatever
+ * the crew has already checked or waived
+ */
+export function buildStopChecklist(
+  checklists: ServiceChecklist[],
+  stop: Pick<RouteStop, 'serviceType' | 'serviceTypes' | 'checklist'>
+): ChecklistItemResult[] {
+  const serviceTypes = stop.serviceTypes?.length ? stop.serviceTypes : stop.serviceType ? [stop.serviceType] : [];
+  const existing = new Map((stop.checklist || []).map(result => [`${result.serviceType}:${result.itemId}`, result]));
+
+  const items = checklists
+    .filter(checklist => serviceTypes.includes(checklist.serviceType))
+    .flatMap(checklist => checklist.items.map((item): ChecklistItemResult => {
+      const previous = existing.get(`${checklist.serviceType}:${item.id}`);
+      return {
+        itemId: item.id,
+        serviceType: checklist.serviceType,
+        label: item.label,
+        required: item.required,
+        status: previous?.status || 'open',
+        ...(previous?.waiverReason && { waiverReason: previous.waiverReason }),
+      };
+    }));
+
+  // Keep results for items removed from the company checklist since the crew touched them
+  const current = new Set(items.map(item => `${item.serviceType}:${item.itemId}`));
+  const removed = (stop.checklist || []).filter(result =>
+    result.status !== 'open' && !current.has(`${result.serviceType}:${result.itemId}`)
+  );
+
+  return [...items, ...removed];
+}
+
+/**
+ * Required items that still stop the crew from completing the stop
+ */
+export function getBlockingChecklistItems(checklist: ChecklistItemResult[] | undefined): ChecklistItemResult[] {
+  return (checklist || []).filter(item =>
+    item.required && (item.status === 'open' || (item.status === 'waived' && !item.waiverReason?.trim()))
+  );
+}
+
+/**
+ * Check, uncheck or waive one item
+ */
+export function setChecklistItemStatus(
+  checklist: ChecklistItemResult[],
+  serviceType: string,
+  itemId: string,
+  status: ChecklistItemResult['status'],
+  waiverReason?: string
+): ChecklistItemResult[] {
+  return checklist.map(item => {
+    if (item.serviceType !== serviceType || item.itemId !== itemId) return item;
+
+    const { waiverReason: _previousReason, ...rest } = item;
+    return {
+      ...rest,
+      status,
+      ...(status === 'waived' && waiverReason?.trim() && { waiverReason: waiverReason.trim() }),
+    };
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Company Calendar
+ *
+ * Which days the company works and when: the weekly business hours from the
+ * company settings, plus calendar entries for holidays and other closed days,
+ * days with shorter hours, and time off for a single crew. Every planner
+ * checks here before putting a crew on a day.
+ */
+
+import { timeToMinutes, toDateKey } from './time-utils';
+import type { CalendarEntry, Company } from './firebase-types';
+
+const DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface WorkingDay {
+  open: boolean;
+  startTime?: string; // Earliest crews may start, if the day limits it
+  endTime?: string; // Latest crews may finish, if the day limits it
+  entries: CalendarEntry[]; // Calendar entries that apply, for display
+}
+
+/**
+ * Calendar entries covering a date. Without a crew only company-wide entries
+ * are returned; with one, that crew's entries are included too.
+ */
+export function getCalendarEntriesForDate(
+  company: Company | null,
+  date: Date,
+  crewId?: string
+): CalendarEntry[] {
+  const dateKey = toDateKey(date);
+
+  return (company?.calendar || []).filter(entry =>
+    entry.date <= dateKey &&
+    (entry.endDate || entry.date) >= dateKey &&
+    (!entry.crewId || entry.crewId === crewId)
+  );
+}
+
+/**
+ * Whether the company (or one crew) works on a date, and the hours it may work
+ */
+export function getWorkingDay(company: Company | null, date: Date, crewId?: string): WorkingDay {
+  const entries = getCalendarEntriesForDate(company, date, crewId);
+  const businessHours = company?.settings?.businessHours?.[DAYS[date.getDay()]];
+
+  if (businessHours && !businessHours.open) {
+    return { open: false, entries };
+  }
+  if (entries.some(entry => entry.type === 'closed' || entry.type === 'time_off')) {
+    return { open: false, entries };
+  }
+
+  let startTime = businessHours?.start;
+  let endTime = businessHours?.end;
+
+  entries
+    .filter(entry => entry.type === 'reduced_hours')
+    .forEach(entry => {
+      if (entry.startTime && (!startTime || timeToMinutes(entry.startTime) > timeToMinutes(startTime))) {
+        startTime = entry.startTime;
+      }
+      if (entry.endTime && (!endTime || timeToMinutes(entry.endTime) < timeToMinutes(endTime))) {
+        endTime = entry.endTime;
+      }
+    });
+
+  return {
+    open: true,
+    ...(startTime && { startTime }),
+    ...(endTime && { endTime }),
+    entries,
+  };
+}
+
+/**
+ * Whether the company (or one crew) works on a date
+ */
+export function isWorkingDay(company: Company | null, date: Date, crewId?: string): boolean {
+  return getWorkingDay(company, date, crewId).open;
+}
+
+/**
+ * Crew hours cut to the day's limits, or null if nothing is left to work
+ */
+export function limitToWorkingDay(
+  startTime: string,
+  endTime: string,
+  day: WorkingDay
+): { startTime: string; endTime: string } | null {
+  if (!day.open) return null;
+
+  const start = day.startTime && timeToMinutes(day.startTime) > timeToMinutes(startTime) ? day.startTime : startTime;
+  const end = day.endTime && timeToMinutes(day.endTime) < timeToMinutes(endTime) ? day.endTime : endTime;
+
+  return timeToMinutes(start) < timeToMinutes(end) ? { startTime: start, endTime: end } : null;
+}
+
+/**
+ * Short label for an entry, e.g. "Closed: Thanksgiving" or "Christmas Eve: 08:00-12:00"
+ */
+export function describeCalendarEntry(entry: CalendarEntry): string {
+  switch (entry.type) {
+    case 'closed':
+      return `Closed: ${entry.name}`;
+    case 'time_off':
+      return `Time off: ${entry.name}`;
+    case 'reduced_hours':
+      return `${entry.name}: ${entry.startTime || 'start'}-${entry.endTime || 'end'}`;
+    default:
+      return entry.name;
+  }
+}
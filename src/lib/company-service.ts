@@ -11,7 +11,7 @@ import {
   onSnapshot,
 } from 'firebase/firestore';
 import { getFirebaseDb } from './firebase';
-import type { Company } from './firebase-types';
+import type { CalendarEntry, Company, Depot, RouteCostSettings, RouteObjective, ServiceChecklist } from './firebase-types';
 
 /**
  * Company service for multi-tenant operations
@@ -113,6 +113,116 @@ export const updateCompanyBaseLocation = async (
   await updateCompany(companyId, { baseLocation });
 };
 
+/**
+ * Add a yard crews can start or end their day at
+ */
+export const addCompanyDepot = async (
+  companyId: string,
+  depot: Omit<Depot, 'id'>
+): Promise<Depot> => {
+  const company = await getCompany(companyId);
+  if (!company) {
+    throw new Error('Company not found');
+  }
+
+  const newDepot: Depot = {
+    id: `depot_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    ...depot,
+  };
+  await updateCompany(companyId, { depots: [...(company.depots || []), newDepot] });
+  return newDepot;
+};
+
+/**
+ * Remove a yard. Crews still set to it fall back to the home base.
+ */
+export const removeCompanyDepot = async (companyId: string, depotId: string): Promise<void> => {
+  const company = await getCompany(companyId);
+  if (!company) {
+    throw new Error('Company not found');
+  }
+
+  await updateCompany(companyId, {
+    depots: (company.depots || []).filter(depot => depot.id !== depotId),
+  });
+};
+
+/**
+ * Add a closed day, short day or crew time off to the company calendar
+ */
+export const addCompanyCalendarEntry = async (
+  companyId: string,
+  entry: Omit<CalendarEntry, 'id'>
+): Promise<CalendarEntry> => {
+  const company = await getCompany(companyId);
+  if (!company) {
+    throw new Error('Company not found');
+  }
+
+  const newEntry: CalendarEntry = {
+    id: `calendar_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    ...entry,
+  };
+  await updateCompany(companyId, {
+    calendar: [...(company.calendar || []), newEntry].sort((a, b) => a.date.localeCompare(b.date)),
+  });
+  return newEntry;
+};
+
+/**
+ * Remove a calendar entry. Days it covered go back to normal hours.
+ */
+export const removeCompanyCalendarEntry = async (companyId: string, entryId: string): Promise<void> => {
+  const company = await getCompany(companyId);
+  if (!company) {
+    throw new Error('Company not found');
+  }
+
+  await updateCompany(companyId, {
+    calendar: (company.calendar || []).filter(entry => entry.id !== entryId),
+  });
+};
+
+/**
+ * Update route cost rates and what route sequencing optimizes for.
+ * Nested fields are set by path so other settings are kept.
+ */
+export const updateCompanyRouteCosts = async (
+  companyId: string,
+  routeCosts: RouteCostSettings,
+  optimizeFor: RouteObjective
+): Promise<void> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const docRef = doc(db, 'companies', companyId);
+  await updateDoc(docRef, {
+    'settings.routeCosts': routeCosts,
+    'settings.scheduling.optimizeFor': optimizeFor,
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * Replace the company's stop checklists. Only the checklists setting is written.
+ */
+export const updateCompanyChecklists = async (
+  companyId: string,
+  checklists: ServiceChecklist[]
+): Promise<void> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  await updateDoc(doc(db, 'companies', companyId), {
+    'settings.checklists': checklists.filter(checklist => checklist.items.length > 0),
+    updatedAt: Timestamp.now(),
+  });
+};
+
 /**
  * Subscribe to company changes
  */
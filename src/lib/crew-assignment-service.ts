@@ -1,10 +1,16 @@
 import { updateDocument } from './firebase-services';
-import type { User } from './firebase-types';
+import type { CrewEndpoint, EquipmentType, User } from './firebase-types';
 
 export interface CrewAssignment {
   crewId: string;
   serviceTypes: string[];
   title?: string; // Optional title like "Lead", "Senior", etc.
+  crewStart?: CrewEndpoint | null; // null clears it (home base)
+  crewEnd?: CrewEndpoint | null; // null clears it (back to the start)
+  crewHomeLocation?: { lat: number; lng: number; address: string } | null;
+  territoryIds?: string[]; // Territories the crew serves; empty = anywhere
+  equipment?: EquipmentType[] | null; // null clears it (no equipment listed)
+  fuelCostPerMile?: number | null; // null clears it (company default)
 }
 
 /**
@@ -33,6 +39,26 @@ export const assignUserToCrew = async (
     updates.title = assignment.title;
   }
 
+  // Start/end settings are shared by the whole crew
+  if (assignment.crewStart !== undefined) {
+    updates.crewStart = assignment.crewStart;
+  }
+  if (assignment.crewEnd !== undefined) {
+    updates.crewEnd = assignment.crewEnd;
+  }
+  if (assignment.crewHomeLocation !== undefined) {
+    updates.crewHomeLocation = assignment.crewHomeLocation;
+  }
+  if (assignment.territoryIds !== undefined) {
+    updates.crewTerritoryIds = assignment.territoryIds;
+  }
+  if (assignment.equipment !== undefined) {
+    updates.crewEquipment = assignment.equipment;
+  }
+  if (assignment.fuelCostPerMile !== undefined) {
+    updates.crewFuelCostPerMile = assignment.fuelCostPerMile;
+  }
+
   // Set default schedule if user doesn't have one (8am-5pm, Monday-Friday)
   if (!currentUserData?.schedule) {
     updates.schedule = {
@@ -57,6 +83,12 @@ export const removeUserFromCrew = async (userId: string): Promise<void> => {
     crewId: null,
     crewServiceTypes: null,
     title: null,
+    crewStart: null,
+    crewEnd: null,
+    crewHomeLocation: null,
+    crewTerritoryIds: null,
+    crewEquipment: null,
+    crewFuelCostPerMile: null,
   });
 };
 
@@ -13,10 +13,13 @@ import {
   QuerySnapshot, 
   DocumentData,
   Timestamp,
-  serverTimestamp
+  serverTimestamp,
+  deleteField,
+  runTransaction
 } from 'firebase/firestore';
 import { db } from './firebase';
-import type { Customer, Service, ServiceRecord, DayOfWeek, CustomerPriority } from './firebase-types';
+import { getStopRequirements } from './service-requirements';
+import type { Customer, Service, ServiceRecord, DayOfWeek, CustomerPriority, ServiceOccurrenceException } from './firebase-types';
 
 // Convert Firestore document to Customer
 const convertFirestoreCustomer = (doc: DocumentData): Customer => {
@@ -41,6 +44,9 @@ const convertFirestoreCustomer = (doc: DocumentData): Customer => {
       serviceFrequency: 7
     },
     serviceHistory: data.serviceHistory || [],
+    ...(data.lotSize && { lotSize: data.lotSize }),
+    ...(data.territoryId && { territoryId: data.territoryId }),
+    ...(data.visitExceptions && { visitExceptions: data.visitExceptions }),
     createdAt: data.createdAt || Timestamp.now(),
     updatedAt: data.updatedAt || Timestamp.now(),
   };
@@ -71,6 +77,12 @@ const convertToFirestoreCustomer = (customer: Customer) => {
   if (customer.nextServiceDate !== undefined) {
     data.nextServiceDate = customer.nextServiceDate;
   }
+  if (customer.lotSize !== undefined) {
+    data.lotSize = customer.lotSize;
+  }
+  if (customer.territoryId !== undefined) {
+    data.territoryId = customer.territoryId;
+  }
 
   return data;
 };
@@ -113,18 +125,33 @@ export const getCustomer = async (id: string): Promise<Customer | null> => {
   return null;
 };
 
-// Add a new customer
+// Add a new customer (tagged with the territory containing it)
 export const addCustomer = async (customer: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
+  const { getTerritoryIdForLocation } = await import('./territory-service');
+  const territoryId = await getTerritoryIdForLocation(customer.companyId, customer);
+
   const customersRef = collection(db, 'customers');
-  const docRef = await addDoc(customersRef, convertToFirestoreCustomer(customer as Customer));
+  const docRef = await addDoc(customersRef, convertToFirestoreCustomer({ ...customer, territoryId } as Customer));
   return docRef.id;
 };
 
-// Update a customer
+// Update a customer (re-tagged with its territory when the location changes)
 export const updateCustomer = async (id: string, updates: Partial<Customer>): Promise<void> => {
   const customerRef = doc(db, 'customers', id);
+  const territoryUpdate: Record<string, any> = {};
+
+  if (updates.lat !== undefined && updates.lng !== undefined) {
+    const companyId = updates.companyId || (await getCustomer(id))?.companyId;
+    if (companyId) {
+      const { getTerritoryIdForLocation } = await import('./territory-service');
+      const territoryId = await getTerritoryIdForLocation(companyId, { lat: updates.lat, lng: updates.lng });
+      territoryUpdate.territoryId = territoryId ?? deleteField();
+    }
+  }
+
   await updateDoc(customerRef, {
     ...updates,
+    ...territoryUpdate,
     updatedAt: serverTimestamp(),
   });
 };
@@ -229,22 +256,128 @@ export const removeServiceFromCustomer = async (
   await updateCustomer(customerId, { services: filteredServices });
 };
 
-// Add service record to customer history
-export const addServiceRecord = async (
+// Skip one occurrence of a recurring service; the planner leaves it off that day
+export const skipServiceOccurrence = async (
+  customerId: string,
+  serviceId: string,
+  date: string, // "YYYY-MM-DD"
+  details: { reason?: string; userId?: string } = {}
+): Promise<void> => {
+  await setServiceOccurrenceException(customerId, serviceId, date, { action: 'skip', ...details });
+};
+
+// Move one occurrence of a recurring service to another day
+export const moveServiceOccurrence = async (
+  customerId: string,
+  serviceId: string,
+  date: string, // "YYYY-MM-DD"
+  movedTo: string, // "YYYY-MM-DD"
+  details: { reason?: string; userId?: string } = {}
+): Promise<void> => {
+  await setServiceOccurrenceException(customerId, serviceId, date, { action: 'move', movedTo, ...details });
+};
+
+// Undo a skip or move, putting the occurrence back on its original day
+export const restoreServiceOccurrence = async (
   customerId: string,
-  serviceRecord: Omit<ServiceRecord, 'id'>
+  serviceId: string,
+  date: string // "YYYY-MM-DD", the original day or the day it was moved to
+): Promise<void> => {
+  await setServiceOccurrenceException(customerId, serviceId, date, null);
+};
+
+// Move a customer's visit for the services that follow its service frequency
+export const moveCustomerVisit = async (
+  customerId: string,
+  date: string, // "YYYY-MM-DD"
+  movedTo: string, // "YYYY-MM-DD"
+  details: { reason?: string; userId?: string } = {}
 ): Promise<void> => {
   const customer = await getCustomer(customerId);
   if (!customer) throw new Error('Customer not found');
-  
+
+  await updateCustomer(customerId, {
+    visitExceptions: withOccurrenceException(customer.visitExceptions || [], date, { action: 'move', movedTo, ...details }),
+  });
+};
+
+// Record (or clear) the exception for one occurrence of a recurring service
+const setServiceOccurrenceException = async (
+  customerId: string,
+  serviceId: string,
+  date: string,
+  change: OccurrenceChange | null
+): Promise<void> => {
+  const customer = await getCustomer(customerId);
+  if (!customer) throw new Error('Customer not found');
+
+  const service = customer.services.find(candidate => candidate.id === serviceId);
+  if (!service?.recurrence) throw new Error('Service has no recurrence');
+
+  await updateServiceForCustomer(customerId, serviceId, {
+    recurrence: {
+      ...service.recurrence,
+      exceptions: withOccurrenceException(service.recurrence.exceptions || [], date, change),
+    },
+  });
+};
+
+type OccurrenceChange = { action: 'skip' | 'move'; movedTo?: string; reason?: string; userId?: string };
+
+// Exceptions list with one occurrence changed. Occurrences already moved are
+// tracked against the day they originally fell on.
+const withOccurrenceException = (
+  existing: ServiceOccurrenceException[],
+  date: string,
+  change: OccurrenceChange | null
+): ServiceOccurrenceException[] => {
+  const originalDate = existing.find(exception => exception.action === 'move' && exception.movedTo === date)?.date || date;
+  const exceptions = existing.filter(exception => exception.date !== originalDate);
+
+  // Moving a job back to its original day is the same as restoring it
+  if (change && !(change.action === 'move' && change.movedTo === originalDate)) {
+    exceptions.push({
+      date: originalDate,
+      action: change.action,
+      ...(change.movedTo && { movedTo: change.movedTo }),
+      ...(change.reason && { reason: change.reason }),
+      ...(change.userId && { createdBy: change.userId }),
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  return exceptions.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Add service record to customer history. A record with an ID that's already
+// there is left as it is, so retried uploads don't add duplicates (crews may only
+// append to the history). Runs in a transaction so records saved from several
+// devices at once are all kept.
+export const addServiceRecord = async (
+  customerId: string,
+  serviceRecord: Omit<ServiceRecord, 'id'> & { id?: string }
+): Promise<void> => {
+  const customerRef = doc(db, 'customers', customerId);
   const newServiceRecord: ServiceRecord = {
     ...serviceRecord,
-    id: Date.now().toString(),
+    id: serviceRecord.id || Date.now().toString(),
   };
-  
-  await updateCustomer(customerId, {
-    serviceHistory: [...customer.serviceHistory, newServiceRecord],
-    lastServiceDate: serviceRecord.date,
+
+  await runTransaction(db, async transaction => {
+    const customerDoc = await transaction.get(customerRef);
+    if (!customerDoc.exists()) throw new Error('Customer not found');
+
+    const { serviceHistory, lastServiceDate } = convertFirestoreCustomer(customerDoc);
+    if (serviceHistory.some(record => record.id === newServiceRecord.id)) return;
+
+    transaction.update(customerRef, {
+      serviceHistory: [...serviceHistory, newServiceRecord],
+      // A record replayed late from the offline queue doesn't move the last service back
+      lastServiceDate: lastServiceDate && lastServiceDate.toMillis() > serviceRecord.date.toMillis()
+        ? lastServiceDate
+        : serviceRecord.date,
+      updatedAt: serverTimestamp(),
+    });
   });
 };
 
@@ -286,9 +419,6 @@ export const calculateCustomerPriorities = async (companyId: string, date: Date)
       ? Math.floor((date.getTime() - customer.lastServiceDate.toDate().getTime()) / (1000 * 60 * 60 * 24))
       : 30; // Default to 30 days if no last service
     
-    // Extract zip code from address (simple implementation)
-    const zipCode = customer.address.match(/\b\d{5}\b/)?.[0] || '';
-    
     // Calculate priority score
     let priority = daysSinceLastService * 10; // Base priority
     
@@ -303,6 +433,8 @@ export const calculateCustomerPriorities = async (companyId: string, date: Date)
       priority += customer.services.length * 5;
     }
     
+    const requirements = getStopRequirements(customer.services);
+
     return {
       customerId: customer.id,
       priority: Math.min(priority, 100), // Cap at 100
@@ -310,11 +442,14 @@ export const calculateCustomerPriorities = async (companyId: string, date: Date)
         daysSinceLastService,
         customerPreferences: customer.servicePreferences,
         serviceType: customer.services[0]?.type || 'general',
+        serviceTypes: customer.services.map(service => service.type),
         location: { 
           lat: customer.lat, 
-          lng: customer.lng, 
-          zipCode 
+          lng: customer.lng 
         },
+        territoryId: customer.territoryId,
+        requiredEquipment: requirements.equipment,
+        requiredCrewSize: requirements.crewSize,
       },
     };
   });
@@ -0,0 +1,268 @@
+/**
+ * Drive Time Service
+ *
+ * Learns how far off travel estimates are from the drive times crews record
+ * (`route_metrics.stopMetrics`: actual minutes against the estimate for the
+ * same leg). Corrections are kept per area (a ~3 mile grid cell around the
+ * stop driven to) and time of day, each shrunk toward the broader one so a
+ * few slow legs don't swing the plan. Route generation uses the area
+ * correction; ETAs also use the time of day, since the departure is known.
+ */
+
+import { getRouteMetrics } from './route-metrics-service';
+import { toDateKey } from './time-utils';
+import { setTravelTimeCorrection } from './travel-matrix-service';
+import type { LatLng, TravelMatrix, TravelMatrixProvider } from './travel-matrix-service';
+import type { RouteMetrics } from './types';
+
+export type TimeOfDay = 'morning' | 'midday' | 'afternoon' | 'evening';
+
+interface LegStats {
+  count: number;
+  actual: number; // Recorded minutes
+  predicted: number; // Estimated minutes for the same legs
+}
+
+export interface DriveTimeModel {
+  samples: Map<string, LegStats>;
+}
+
+export interface DriveTimeAccuracyWeek {
+  weekStart: string; // "YYYY-MM-DD", Monday
+  legs: number;
+  actualMinutes: number;
+  averageErrorMinutes: number; // Raw estimate against actual, per leg
+  correctedErrorMinutes: number; // With learned corrections, per leg
+  bias: number; // How much longer (+) or shorter (-) legs took than raw estimates
+}
+
+const HISTORY_DAYS = 90;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Grid cell size in degrees (~3.5 miles north-south)
+const AREA_CELL_DEGREES = 0.05;
+
+// How many legs' worth of weight the broader correction keeps when shrinking
+const PRIOR_WEIGHT = 3;
+
+// Legs taking less than a third or more than three times the estimate include
+// breaks or timer mistakes, and corrections stay within sensible bounds
+const MIN_SAMPLE_RATIO = 1 / 3;
+const MAX_SAMPLE_RATIO = 3;
+const MIN_CORRECTION = 0.5;
+const MAX_CORRECTION = 2.5;
+
+const modelCache = new Map<string, { model: DriveTimeModel; loadedAt: number }>();
+
+/**
+ * Build a model from recorded route metrics. Legs recorded before estimates
+ * were stored with them are skipped.
+ */
+export function buildDriveTimeModel(metrics: RouteMetrics[]): DriveTimeModel {
+  const samples = new Map<string, LegStats>();
+
+  const addSample = (key: string, actual: number, predicted: number) => {
+    const stats = samples.get(key) || { count: 0, actual: 0, predicted: 0 };
+    stats.count++;
+    stats.actual += actual;
+    stats.predicted += predicted;
+    samples.set(key, stats);
+  };
+
+  for (const metric of metrics) {
+    for (const stop of metric.stopMetrics || []) {
+      if (!isUsableLeg(stop)) continue;
+
+      const area = getAreaKey({ lat: stop.lat!, lng: stop.lng! });
+      const timeOfDay = getTimeOfDay(stop.departureHour!);
+
+      addSample('all', stop.driveTime, stop.predictedDriveTime!);
+      addSample(`time:${timeOfDay}`, stop.driveTime, stop.predictedDriveTime!);
+      addSample(`area:${area}`, stop.driveTime, stop.predictedDriveTime!);
+      addSample(`area:${area}|${timeOfDay}`, stop.driveTime, stop.predictedDriveTime!);
+    }
+  }
+
+  return { samples };
+}
+
+/**
+ * Load the company's model from the last 90 days of route metrics.
+ * Models are cached for a few minutes; without history no correction is made.
+ */
+export const getDriveTimeModel = async (companyId: string): Promise<DriveTimeModel> => {
+  const cached = modelCache.get(companyId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.model;
+  }
+
+  const endDate = new Date();
+  const startDate = new Date(endDate);
+  startDate.setDate(startDate.getDate() - HISTORY_DAYS);
+
+  let model: DriveTimeModel;
+  try {
+    model = buildDriveTimeModel(await getRouteMetrics(companyId, startDate, endDate));
+  } catch (error) {
+    console.warn('Could not load route metrics for drive times, using raw estimates:', error);
+    model = { samples: new Map() };
+  }
+
+  modelCache.set(companyId, { model, loadedAt: Date.now() });
+  return model;
+};
+
+/**
+ * Multiplier for an estimated drive to a point: the area's correction, and
+ * with a departure time, the area's correction at that time of day
+ */
+export function getDriveTimeCorrection(model: DriveTimeModel, to: LatLng, departure?: Date): number {
+  const area = getAreaKey(to);
+  const overall = shrink(model.samples.get('all'), 1);
+  const areaCorrection = shrink(model.samples.get(`area:${area}`), overall);
+
+  if (!departure) {
+    return clampCorrection(areaCorrection);
+  }
+
+  // The time of day's effect company-wide, applied to this area unless it has its own history
+  const timeOfDay = getTimeOfDay(departure.getHours());
+  const timeCorrection = shrink(model.samples.get(`time:${timeOfDay}`), overall);
+  const prior = areaCorrection * (timeCorrection / overall);
+
+  return clampCorrection(shrink(model.samples.get(`area:${area}|${timeOfDay}`), prior));
+}
+
+/**
+ * Travel matrix with learned area corrections applied to drive minutes
+ */
+export class CorrectedTravelMatrixProvider implements TravelMatrixProvider {
+  readonly name: string;
+
+  constructor(
+    private provider: TravelMatrixProvider,
+    private model: DriveTimeModel
+  ) {
+    this.name = provider.name;
+  }
+
+  async getMatrix(origins: LatLng[], destinations: LatLng[]): Promise<TravelMatrix> {
+    const matrix = await this.provider.getMatrix(origins, destinations);
+    if (this.model.samples.size === 0) {
+      return matrix;
+    }
+
+    const corrections = destinations.map(destination => getDriveTimeCorrection(this.model, destination));
+    return {
+      distances: matrix.distances,
+      durations: matrix.durations.map(row => row.map((minutes, column) => minutes * corrections[column])),
+    };
+  }
+}
+
+/**
+ * Use a model for every ETA and drive estimate made with estimateTravel
+ */
+export function applyDriveTimeModel(model: DriveTimeModel): void {
+  setTravelTimeCorrection(
+    model.samples.size > 0
+      ? (_from, to, departure) => getDriveTimeCorrection(model, to, departure)
+      : null
+  );
+}
+
+/**
+ * Load the company's learned drive times and use them for ETAs
+ */
+export const loadDriveTimeCorrections = async (companyId: string): Promise<DriveTimeModel> => {
+  const model = await getDriveTimeModel(companyId);
+  applyDriveTimeModel(model);
+  return model;
+};
+
+/**
+ * Estimated against actual drive time per week, oldest first. "Corrected" is
+ * the estimate with the corrections in use when each leg was driven.
+ */
+export function buildDriveTimeAccuracyReport(metrics: RouteMetrics[]): DriveTimeAccuracyWeek[] {
+  const weeks = new Map<string, { legs: number; actual: number; predicted: number; error: number; correctedError: number }>();
+
+  for (const metric of metrics) {
+    const date = metric.date instanceof Date ? metric.date : new Date(metric.date.seconds * 1000);
+    const weekStart = getWeekStartKey(date);
+
+    for (const stop of metric.stopMetrics || []) {
+      if (!isUsableLeg(stop)) continue;
+
+      const week = weeks.get(weekStart) || { legs: 0, actual: 0, predicted: 0, error: 0, correctedError: 0 };
+      week.legs++;
+      week.actual += stop.driveTime;
+      week.predicted += stop.predictedDriveTime!;
+      week.error += Math.abs(stop.driveTime - stop.predictedDriveTime!);
+      week.correctedError += Math.abs(stop.driveTime - (stop.correctedDriveTime ?? stop.predictedDriveTime!));
+      weeks.set(weekStart, week);
+    }
+  }
+
+  return Array.from(weeks.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, week]) => ({
+      weekStart,
+      legs: week.legs,
+      actualMinutes: Math.round(week.actual),
+      averageErrorMinutes: week.error / week.legs,
+      correctedErrorMinutes: week.correctedError / week.legs,
+      bias: week.predicted > 0 ? week.actual / week.predicted - 1 : 0,
+    }));
+}
+
+/**
+ * Accuracy report for the last few weeks of recorded routes
+ */
+export const getDriveTimeAccuracyReport = async (
+  companyId: string,
+  weeks: number = 8
+): Promise<DriveTimeAccuracyWeek[]> => {
+  const endDate = new Date();
+  const startDate = new Date(endDate);
+  startDate.setDate(startDate.getDate() - weeks * 7);
+
+  return buildDriveTimeAccuracyReport(await getRouteMetrics(companyId, startDate, endDate));
+};
+
+export function getTimeOfDay(hour: number): TimeOfDay {
+  if (hour < 10) return 'morning';
+  if (hour < 14) return 'midday';
+  if (hour < 17) return 'afternoon';
+  return 'evening';
+}
+
+function getAreaKey(point: LatLng): string {
+  return `${Math.floor(point.lat / AREA_CELL_DEGREES)},${Math.floor(point.lng / AREA_CELL_DEGREES)}`;
+}
+
+function isUsableLeg(stop: RouteMetrics['stopMetrics'][number]): boolean {
+  if (!stop.predictedDriveTime || stop.predictedDriveTime < 1 || stop.driveTime <= 0) return false;
+  if (stop.lat === undefined || stop.lng === undefined || stop.departureHour === undefined) return false;
+
+  const ratio = stop.driveTime / stop.predictedDriveTime;
+  return ratio >= MIN_SAMPLE_RATIO && ratio <= MAX_SAMPLE_RATIO;
+}
+
+/**
+ * Ratio of recorded to estimated minutes, weighted with a few average legs at the broader correction
+ */
+function shrink(stats: LegStats | undefined, prior: number): number {
+  if (!stats || stats.predicted <= 0) return prior;
+
+  const averageLeg = stats.predicted / stats.count;
+  return (stats.actual + PRIOR_WEIGHT * averageLeg * prior) / (stats.predicted + PRIOR_WEIGHT * averageLeg);
+}
+
+function clampCorrection(correction: number): number {
+  return Math.min(MAX_CORRECTION, Math.max(MIN_CORRECTION, correction));
+}
+
+function getWeekStartKey(date: Date): string {
+  return toDateKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7)));
+}
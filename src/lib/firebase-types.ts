@@ -23,11 +23,20 @@ export interface Company extends BaseDocument {
     lng: number;
     address: string;
   };
+  depots?: Depot[]; // Additional yards crews can start or end at
+  calendar?: CalendarEntry[]; // Holidays, short days and crew time off
   settings?: {
     autoScheduling?: boolean;
     maxCustomersPerRoute?: number; // Default 12
     serviceRadius?: number; // miles
-    businessHours?: {
+    timeWindows?: { // How customer preferred time ranges are treated during routing
+      mode: 'hard' | 'soft' | 'ignore';
+      latePenaltyPerMinute?: number; // Soft mode only, default 10
+    };
+    scheduling?: Partial<SchedulingRules>; // Planning rules, defaults in scheduling-engine
+    routeCosts?: Partial<RouteCostSettings>; // Defaults in route-cost-service
+    checklists?: ServiceChecklist[]; // What crews must do at a stop, per service type
+    businessHours?: { // Weekly hours crews work within; days left out follow crew schedules
       [day: string]: { start: string; end: string; open: boolean };
     };
   };
@@ -42,6 +51,33 @@ export interface Company extends BaseDocument {
   isActive: boolean;
 }
 
+// A day (or run of days) on the company calendar that changes normal working hours
+export interface CalendarEntry {
+  id: string;
+  type: 'closed' | 'reduced_hours' | 'time_off';
+  name: string; // e.g. "Thanksgiving", "Vacation"
+  date: string; // First day, "YYYY-MM-DD"
+  endDate?: string; // Last day (inclusive); a single day if unset
+  startTime?: string; // reduced_hours: "HH:MM" crews may start
+  endTime?: string; // reduced_hours: "HH:MM" crews must finish by
+  crewId?: string; // time_off: the crew that's off; reduced_hours: only this crew
+}
+
+// A yard crews can start or end their day at
+export interface Depot {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  address: string;
+}
+
+// Where a crew starts or ends its day
+export type CrewEndpoint =
+  | { type: 'depot'; depotId: string } // 'base' is the company's home base
+  | { type: 'home' } // Where the crew keeps its truck overnight (crewHomeLocation)
+  | { type: 'last_stop' }; // End only: an open route that finishes at the last stop
+
 // Updated User model with route optimization roles
 export interface User extends BaseDocument {
   companyId?: string; // Company this user belongs to (optional for admins - they see ALL companies)
@@ -93,8 +129,17 @@ export interface User extends BaseDocument {
     year: number;
     licensePlate?: string;
   };
+  crewStart?: CrewEndpoint; // Default is the company's home base
+  crewEnd?: CrewEndpoint; // Default is where the crew started
+  crewHomeLocation?: { lat: number; lng: number; address: string }; // For 'home' start or end
+  crewTerritoryIds?: string[]; // Territories this crew serves; none = anywhere
+  crewEquipment?: EquipmentType[]; // Equipment on the crew's truck; unset = none listed
+  crewFuelCostPerMile?: number; // The crew vehicle's fuel cost; unset = company default
 }
 
+// Equipment a crew can carry and a service can require
+export type EquipmentType = 'riding_mower' | 'push_mower' | 'trailer' | 'trimmer' | 'blower' | 'aerator' | 'spreader';
+
 // Service model (embedded in customers)
 export interface Service {
   id: string;
@@ -107,6 +152,35 @@ export interface Service {
   notes?: string;
   photos?: string[]; // URLs to photos in Firebase Storage
   assignedCrew?: string;
+  requiredEquipment?: EquipmentType[]; // Added to the service type's default equipment
+  crewSize?: number; // Members needed on site; overrides the service type's default
+  recurrence?: ServiceRecurrence; // Own schedule; without one the customer's service frequency applies
+}
+
+// RRULE-style repeat pattern for one service. Dates are local "YYYY-MM-DD" day keys.
+export interface ServiceRecurrence {
+  frequency: 'once' | 'weekly' | 'monthly';
+  interval?: number; // Every N weeks or months (2 = biweekly, 6 = twice a year), default 1
+  byDay?: DayOfWeek[]; // Weekly: which days (default the start date's day). Monthly: the weekday for bySetPos
+  bySetPos?: number; // Monthly: Nth weekday of the month (1-4, -1 = last), e.g. 2nd Tuesday
+  byMonthDay?: number; // Monthly: day of the month (default the start date's day)
+  byMonth?: number[]; // Only in these months (1-12)
+  startDate: string; // First possible occurrence; weeks and months are counted from here
+  until?: string; // Last possible occurrence
+  count?: number; // Stop after this many occurrences
+  seasonStart?: string; // "MM-DD" each year, e.g. "03-15"
+  seasonEnd?: string; // "MM-DD", may wrap past the new year
+  exceptions?: ServiceOccurrenceException[];
+}
+
+// A skipped or moved occurrence of a recurring service
+export interface ServiceOccurrenceException {
+  date: string; // The occurrence being changed
+  action: 'skip' | 'move';
+  movedTo?: string; // For 'move'
+  reason?: string;
+  createdBy?: string; // User ID
+  createdAt: string; // ISO timestamp
 }
 
 // Service record for customer history
@@ -118,8 +192,49 @@ export interface ServiceRecord {
   afterPhotos: string[]; // Compressed URLs from Firebase Storage
   notes: string;
   status: 'completed' | 'cancelled';
+  crewId?: string;
+  completedBy?: string; // User ID of the crew member who completed the stop
+  serviceTypes?: string[];
+  serviceIds?: string[]; // Services done at this visit; the signature is stored with the first
+  duration?: number; // Minutes on site
+  checklist?: ChecklistItemResult[]; // How each checklist item was left
+  signature?: ServiceSignature; // Signed proof of service
+}
+
+// The customer's signature confirming the service, stored next to the service photos
+export interface ServiceSignature {
+  signerName: string;
+  signedAt: Timestamp;
+  url: string;
+  path: string;
+}
+
+// A task crews check off at a stop, e.g. "Sidewalks" for edging
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  required: boolean; // Blocks completing the stop until done or waived
+}
+
+// A company's definition of done for one service type
+export interface ServiceChecklist {
+  serviceType: string;
+  items: ChecklistItem[];
+}
+
+// A checklist item as the crew left it at a stop
+export interface ChecklistItemResult {
+  itemId: string;
+  serviceType: string;
+  label: string;
+  required: boolean;
+  status: 'open' | 'done' | 'waived';
+  waiverReason?: string; // Why a required item was skipped
 }
 
+// Property size class, used to estimate time on site before a customer has history
+export type LotSize = 'small' | 'medium' | 'large' | 'estate';
+
 // Day of week type
 export type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
 
@@ -140,6 +255,7 @@ export interface Customer extends BaseDocument {
   services: Service[]; // Embedded services array
   lastServiceDate?: Timestamp; // For 5-day rolling prioritization
   nextServiceDate?: Timestamp;
+  visitExceptions?: ServiceOccurrenceException[]; // Skipped or moved visits for services without their own recurrence
   createdBy: string; // User ID who created this customer
   
   // Enhanced fields for route optimization
@@ -151,6 +267,87 @@ export interface Customer extends BaseDocument {
   
   // Service history with photos
   serviceHistory: ServiceRecord[];
+
+  lotSize?: LotSize;
+  territoryId?: string; // Territory containing the customer's location, kept in sync with territory edits
+}
+
+// Which customers are due for service on a day
+export type ServiceDemandRule =
+  | 'days_since_service' // Not serviced within minDaysBetweenServices
+  | 'service_frequency'; // Their serviceFrequency has elapsed since the last service
+
+// Company planning rules for the scheduling engine
+export interface SchedulingRules {
+  demandRule: ServiceDemandRule;
+  minDaysBetweenServices: number; // days_since_service rule
+  requirePreferredDay: boolean; // Only plan customers on one of their preferred days
+  minCrewMembers: number; // Available members a crew needs to get a route
+  maxStopsPerCrew: number;
+  territoryOverflow: TerritoryOverflowRule;
+  overflowMaxMiles: number; // 'nearby' rule: how far outside its territories a crew may go
+  weatherThresholds: WeatherThresholds; // Past any limit a day is unworkable
+  weatherThresholdsByServiceType: Record<string, WeatherThresholds>; // Overrides, e.g. spreading in wind
+  weatherMaxShiftDays: number; // How far a rained-out job may move to stay on a preferred day
+  workloadTolerance: number; // Largest gap in load (planned / shift minutes) allowed between crews, e.g. 0.1
+  balanceWorkloadAcrossWeek: boolean; // Count minutes already planned earlier in the week when balancing
+  optimizeFor: RouteObjective; // What stop sequencing minimizes
+}
+
+// What stop sequencing minimizes: miles driven, minutes on the road, or the
+// route's cost (fuel + labor with overtime, from the company's route costs)
+export type RouteObjective = 'distance' | 'time' | 'cost';
+
+// Company-wide inputs to the route cost model
+export interface RouteCostSettings {
+  fuelCostPerMile: number; // Default vehicle; crews can set their own
+  laborCostPerHour: number; // Per crew member
+  overtimeAfterHours: number; // Paid hours in a day before overtime
+  overtimeMultiplier: number; // e.g. 1.5 for time and a half
+}
+
+// Estimated cost and revenue of a planned route
+export interface RouteCostSummary {
+  fuelCost: number;
+  laborCost: number; // Including overtime
+  overtimeCost: number; // The overtime premium within laborCost
+  totalCost: number;
+  revenue: number; // Prices of the services planned on the route
+  margin: number; // revenue - totalCost
+}
+
+// What the local search phase of route optimization achieved
+export interface RouteImprovementSummary {
+  initialDistance: number; // miles, initial order (nearest neighbor or Google's)
+  finalDistance: number; // miles, after local search
+  distanceSaved: number; // miles
+  iterations: number;
+  moves: {
+    twoOpt: number;
+    orOpt: number;
+    relocate: number;
+  };
+}
+
+// Weather limits for outdoor work (unset = no limit)
+export interface WeatherThresholds {
+  maxPrecipitationInches?: number;
+  maxPrecipitationChance?: number; // 0-100
+  maxWindMph?: number;
+}
+
+// Which other crews may take a customer when its territory's crews are full
+export type TerritoryOverflowRule =
+  | 'none' // Only the territory's crews (and crews without territories)
+  | 'nearby' // Also crews whose territory is within overflowMaxMiles
+  | 'any'; // Any capable crew
+
+// Named service area drawn on the map (territories/{territoryId})
+export interface Territory extends BaseDocument {
+  companyId: string; // REQUIRED: Company this territory belongs to (multi-tenant isolation)
+  name: string;
+  color: string; // Hex color for the map
+  polygon: { lat: number; lng: number }[]; // Vertices in order, not closed
 }
 
 // Route optimization interfaces
@@ -164,7 +361,11 @@ export interface CustomerPriority {
       preferredTimeRange: { start: string; end: string };
     };
     serviceType: string;
-    location: { lat: number; lng: number; zipCode: string };
+    serviceTypes?: string[]; // Every service type the customer requests (serviceType is the first)
+    location: { lat: number; lng: number; zipCode?: string };
+    territoryId?: string;
+    requiredEquipment?: EquipmentType[]; // Everything the stop's services need
+    requiredCrewSize?: number;
   };
 }
 
@@ -176,14 +377,39 @@ export interface CrewAvailability {
     date: Date;
     startTime: string; // e.g., "08:00"
     endTime: string;   // e.g., "17:00"
-    maxCustomers: 12;
+    maxCustomers: number; // Stop limit, default 12
     currentLocation?: { lat: number; lng: number };
+    startLocation?: { lat: number; lng: number }; // Resolved from the crew's start setting
+    endLocation?: { lat: number; lng: number }; // Absent on open routes
   };
   capabilities: string[]; // service types they can handle
   region: string; // zip code or geographic area
+  territoryIds?: string[]; // Territories the crew serves; empty = anywhere
+  equipment?: EquipmentType[]; // Unset = none listed, so no jobs that need equipment
+  fuelCostPerMile?: number; // The crew vehicle's, when it differs from the company default
+}
+
+// Planned timing for a single stop when routing with time windows
+export interface StopSchedule {
+  customerId: string;
+  arrival: string; // "HH:MM"
+  serviceStart: string; // "HH:MM" (after waiting for the window to open)
+  departure: string; // "HH:MM"
+  waitMinutes: number;
+  lateMinutes: number; // Minutes past the end of the customer's window
+  timeWindow: { start: string; end: string };
+  withinWindow: boolean;
+}
+
+// Manager override the optimizer must keep when sequencing a route
+export interface StopLock {
+  customerId: string;
+  position?: number; // 0-based stop index to keep the stop at
+  time?: string; // "HH:MM" service start to keep the stop at
 }
 
 export interface DailyRoute {
+  id?: string; // Stored route document ID (company_crew_date), once persisted
   companyId: string; // REQUIRED: Company this route belongs to (multi-tenant isolation)
   crewId: string;
   date: Date;
@@ -192,4 +418,167 @@ export interface DailyRoute {
   estimatedDuration: number;
   totalDistance: number;
   trafficConditions?: any; // Traffic data from Google Maps API
-} 
\ No newline at end of file
+  stopSchedule?: StopSchedule[]; // Present when routed with time windows
+  unhonoredTimeWindows?: string[]; // Customer IDs whose preferred time range can't be met
+  version?: number; // Current plan version, once persisted
+  stopLocks?: StopLock[]; // Manual pins, kept through re-optimization and regeneration
+  manualCustomerIds?: string[]; // Stops a manager moved onto this crew
+  serviceEstimates?: ServiceDurationEstimate[]; // Minutes on site used to plan each stop
+  cost?: RouteCostSummary; // Estimated cost and revenue when planned
+  improvement?: RouteImprovementSummary; // Distance the local search saved when sequenced
+  startLocation?: { lat: number; lng: number }; // Where the crew leaves from
+  endLocation?: { lat: number; lng: number }; // Where the crew finishes; absent on open routes
+}
+
+// How much history backs a service duration estimate
+export type ServiceDurationConfidence = 'high' | 'medium' | 'low';
+
+// Estimated minutes on site for a stop, learned from recorded work times
+export interface ServiceDurationEstimate {
+  customerId: string;
+  minutes: number;
+  confidence: ServiceDurationConfidence;
+  sampleSize: number; // Recorded visits behind the most specific level used
+  source: 'customer_crew' | 'customer' | 'service_type' | 'default';
+}
+
+// What produced a stored plan version
+export type RoutePlanSource = 'generated' | 'regenerated' | 'edited' | 'reoptimized' | 'imported';
+
+// Route plan as stored in Firestore (customers are stored by ID in route order)
+export interface StoredRoutePlan {
+  companyId: string; // REQUIRED: Company this route belongs to (multi-tenant isolation)
+  crewId: string;
+  date: Timestamp;
+  dateKey: string; // "YYYY-MM-DD" in local time
+  customerIds: string[];
+  optimizedPath: { lat: number; lng: number }[];
+  estimatedDuration: number;
+  totalDistance: number;
+  stopSchedule?: StopSchedule[];
+  unhonoredTimeWindows?: string[];
+  stopLocks?: StopLock[];
+  manualCustomerIds?: string[];
+  serviceEstimates?: ServiceDurationEstimate[];
+  cost?: RouteCostSummary;
+  improvement?: RouteImprovementSummary;
+  startLocation?: { lat: number; lng: number };
+  endLocation?: { lat: number; lng: number };
+}
+
+// Current plan for a crew on a date (routes/{companyId_crewId_dateKey})
+export interface StoredRoute extends StoredRoutePlan {
+  id: string;
+  version: number;
+  source: RoutePlanSource;
+  updatedBy?: string; // User ID, absent for automatic plans
+  updatedAt: Timestamp;
+}
+
+// Snapshot of every plan version (routes/{routeId}/versions/{version})
+export interface RouteVersion extends StoredRoutePlan {
+  id: string;
+  version: number;
+  source: RoutePlanSource;
+  createdBy?: string;
+  createdAt: Timestamp;
+  note?: string;
+}
+
+// What made a crew's route need a mid-day re-plan
+export type ReplanTrigger = 'delayed' | 'stop_skipped';
+
+// Mid-day re-plan awaiting manager approval (route_replans collection)
+export interface RouteReplanProposal {
+  id: string;
+  companyId: string; // REQUIRED: Company this proposal belongs to (multi-tenant isolation)
+  crewId: string;
+  routeId: string; // Stored route document ID
+  date: Timestamp;
+  trigger: ReplanTrigger;
+  minutesBehind: number;
+  fromLocation: { lat: number; lng: number }; // Crew position when the re-plan was made
+  finishedCustomerIds: string[]; // Completed or in progress, kept at the front
+  proposedCustomerIds: string[]; // New order for the remaining stops
+  skippedCustomerIds: string[];
+  deferrals: {
+    customerId: string;
+    deferTo: Timestamp; // Customer's next service day
+    reason: 'skipped' | 'over_shift';
+  }[];
+  estimatedFinishTime: string; // "HH:MM"
+  estimatedDuration: number; // Minutes for the remaining stops
+  totalDistance: number; // Miles for the remaining stops, including the drive to the end location
+  stopSchedule?: StopSchedule[];
+  endLocation?: { lat: number; lng: number }; // Where the crew finishes; absent on open routes
+  status: 'pending' | 'approved' | 'rejected';
+  requestedBy: string; // User ID of the crew member whose device detected the delay
+  reviewedBy?: string;
+  createdAt: Timestamp;
+  reviewedAt?: Timestamp;
+}
+
+// What a crew member did at a stop
+export type StopEventAction = 'arrive' | 'depart' | 'pause' | 'resume' | 'skip' | 'notes';
+
+// A stop action as recorded on the crew's device (stop_events collection, keyed by event ID).
+// Times are taken on the device when the action happened, not when it reached the server.
+export interface StopEvent {
+  id: string; // Generated on the device, so replaying an event is harmless
+  companyId: string; // REQUIRED: Company this event belongs to (multi-tenant isolation)
+  routeId: string; // Stored route ID (company_crew_date)
+  crewId: string;
+  customerId: string;
+  action: StopEventAction;
+  occurredAt: Timestamp;
+  notes?: string; // For 'notes' and 'skip'
+  source?: 'manual' | 'auto'; // Arrivals and departures: tapped, or detected by geofencing
+  recordedBy: string; // User ID
+  syncedAt?: Timestamp;
+  result?: 'applied' | 'conflict';
+  conflict?: string; // Why the event was not (fully) applied
+}
+
+// Progress at one stop, merged from every device's events
+export interface RouteStopProgress {
+  status: 'pending' | 'in_progress' | 'completed' | 'skipped';
+  arrivedAt?: Timestamp;
+  departedAt?: Timestamp;
+  arrivalSource?: 'manual' | 'auto';
+  departureSource?: 'manual' | 'auto';
+  pausedAt?: Timestamp;
+  resumedAt?: Timestamp;
+  notes?: string;
+  notesUpdatedAt?: Timestamp;
+  updatedAt: Timestamp; // Device time of the latest event applied
+  updatedBy: string;
+}
+
+// A crew's progress through its route (route_progress/{routeId})
+export interface StoredRouteProgress {
+  companyId: string; // REQUIRED: Company this record belongs to (multi-tenant isolation)
+  crewId: string;
+  stops: Record<string, RouteStopProgress>; // Keyed by customer ID
+  updatedAt: Timestamp;
+}
+
+// A crew's GPS track for a day (breadcrumbs/{routeId}); the points live in its segments
+export interface BreadcrumbTrack {
+  companyId: string; // REQUIRED: Company this track belongs to (multi-tenant isolation)
+  crewId: string;
+  date: string; // YYYY-MM-DD
+  pointCount: number;
+  updatedAt: Timestamp;
+}
+
+// One uploaded batch of track points (breadcrumbs/{routeId}/segments/{segmentId})
+export interface BreadcrumbSegment {
+  id: string;
+  companyId: string;
+  crewId: string;
+  recordedBy: string; // User ID of the device that recorded it
+  startedAt: Timestamp;
+  endedAt: Timestamp;
+  pointCount: number;
+  encodedPoints: string; // Polyline-encoded latitude, longitude and seconds since startedAt
+}
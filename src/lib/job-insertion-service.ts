@@ -0,0 +1,355 @@
+/**
+ * Job Insertion Service
+ *
+ * Same-day callouts ("tree fell on the lawn, need cleanup today") dropped
+ * into the routes crews are already driving, without regenerating the day.
+ * Each crew working today is tried with the job at every point among the
+ * stops it hasn't reached (per its saved route progress), starting from
+ * where it is now. Placements the
+ * crew can handle and still finish within its shift are ranked by the
+ * minutes they add, with the delay each later customer would see. The
+ * chosen placement is saved as a new version of the crew's route, which the
+ * crew's route view picks up.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { addServiceToCustomer, getCustomers } from './customer-service';
+import { getUsers } from './user-service';
+import { getCrewMismatch } from './route-assignment-service';
+import { getEligibleCrews, getSchedulingRules, toCustomerPriority } from './scheduling-engine';
+import { getRouteId, getStoredRoute, getStoredRoutesForDate, saveRoute } from './route-storage-service';
+import { getRouteProgress } from './stop-event-service';
+import { estimateServiceDuration, getServiceDurationModel } from './service-duration-service';
+import { CorrectedTravelMatrixProvider, getDriveTimeModel } from './drive-time-service';
+import { getTravelMatrixProvider } from './travel-matrix-service';
+import { getCrewCostModel, summarizeRouteCost } from './route-cost-service';
+import { minutesToTime, timeToMinutes, toDateKey } from './time-utils';
+import type { LatLng } from './travel-matrix-service';
+import type { Customer, DailyRoute, RouteStopProgress, Service, StopSchedule } from './firebase-types';
+
+// A same-day job for an existing customer
+export interface SameDayJob {
+  customerId: string;
+  serviceType: string;
+  description: string;
+  price?: number;
+  minutes?: number; // On site; estimated from the crew's history when omitted
+}
+
+// How much later a customer already on the route would be reached
+export interface InsertionEtaImpact {
+  customerId: string;
+  customerName: string;
+  arrival: string; // "HH:MM" before the job is added
+  newArrival: string;
+  delayMinutes: number;
+}
+
+export interface InsertionOption {
+  crewId: string;
+  route: DailyRoute; // The crew's route with the job inserted, ready to save
+  position: number; // Index of the job among the route's customers
+  addedMinutes: number; // Drive and work the job adds to the crew's day
+  addedMiles: number;
+  arrival: string; // "HH:MM" at the job
+  estimatedFinishTime: string; // "HH:MM" for the rest of the route
+  shiftEnd: string;
+  etaImpacts: InsertionEtaImpact[]; // Only customers who'd be reached later, in route order
+}
+
+export interface InsertionSearchResult {
+  options: InsertionOption[]; // Cheapest first, best placement per crew
+  unavailableCrews: { crewId: string; reason: string }[];
+}
+
+interface LegTimeline {
+  arrivals: number[]; // Minutes after midnight, per stop
+  finish: number; // After the last stop (and the drive to the end location, if any)
+  miles: number;
+}
+
+const DEFAULT_OPTION_LIMIT = 3;
+
+/**
+ * The cheapest feasible place for a job on each crew's route today, best first.
+ * Crew positions default to the crew lead's last reported location, then the last
+ * stop the crew reached, then where its route starts. A crew still at a stop isn't
+ * sent on before it's expected to finish there.
+ */
+export const findInsertionOptions = async (
+  companyId: string,
+  job: SameDayJob,
+  options: {
+    currentTime?: Date;
+    crewLocations?: Record<string, LatLng>; // Live positions, keyed by crew ID
+    limit?: number;
+  } = {}
+): Promise<InsertionSearchResult> => {
+  const currentTime = options.currentTime || new Date();
+  const { getCompany } = await import('./company-service');
+  const [company, users, customers] = await Promise.all([
+    getCompany(companyId),
+    getUsers(companyId),
+    getCustomers(companyId),
+  ]);
+
+  const customer = customers.find(candidate => candidate.id === job.customerId);
+  if (!customer) {
+    throw new Error('Customer not found');
+  }
+
+  const jobCustomer: Customer = { ...customer, services: [{ id: 'same-day', ...toJobService(job, currentTime) }] };
+  const jobPriority = toCustomerPriority(jobCustomer, currentTime);
+  const routes = await getStoredRoutesForDate(companyId, currentTime, customers);
+
+  // The crew already has a route, so the minimum crew size rule doesn't apply
+  const crews = getEligibleCrews(users, currentTime, { ...getSchedulingRules(company), minCrewMembers: 1 }, company);
+  const durationModel = await getServiceDurationModel(companyId, customers);
+  const travelProvider = new CorrectedTravelMatrixProvider(getTravelMatrixProvider(), await getDriveTimeModel(companyId));
+  const now = toMinutesOfDay(currentTime);
+
+  const found: InsertionOption[] = [];
+  const unavailableCrews: InsertionSearchResult['unavailableCrews'] = [];
+
+  for (const route of routes) {
+    const crew = crews.find(candidate => candidate.crewId === route.crewId);
+    if (!crew) {
+      unavailableCrews.push({ crewId: route.crewId, reason: 'Not working today' });
+      continue;
+    }
+
+    const mismatch = getCrewMismatch(crew, jobPriority);
+    if (mismatch) {
+      unavailableCrews.push({ crewId: route.crewId, reason: mismatch.details });
+      continue;
+    }
+
+    if (route.customers.some(stop => stop.id === customer.id)) {
+      unavailableCrews.push({ crewId: route.crewId, reason: `${customer.name} is already on this route` });
+      continue;
+    }
+
+    if (route.customers.length >= crew.availability.maxCustomers) {
+      unavailableCrews.push({ crewId: route.crewId, reason: `Already has the maximum of ${crew.availability.maxCustomers} stops` });
+      continue;
+    }
+
+    const shiftEnd = timeToMinutes(crew.availability.endTime);
+    if (now >= shiftEnd) {
+      unavailableCrews.push({ crewId: route.crewId, reason: `Shift ended at ${crew.availability.endTime}` });
+      continue;
+    }
+
+    // Stops the crew has reached, finished or skipped stay where they are
+    const progress = await getRouteProgress(getRouteId(companyId, route.crewId, currentTime));
+    const finished = route.customers.filter(stop => isStarted(progress?.stops[stop.id]));
+    const remaining = route.customers.filter(stop => !isStarted(progress?.stops[stop.id]));
+    const getServiceMinutes = (stop: Customer) =>
+      route.serviceEstimates?.find(estimate => estimate.customerId === stop.id)?.minutes ??
+        estimateServiceDuration(durationModel, stop, route.crewId).minutes;
+
+    const lastVisited = finished
+      .filter(stop => progress?.stops[stop.id]?.arrivedAt)
+      .sort((a, b) => progress!.stops[a.id].arrivedAt!.toMillis() - progress!.stops[b.id].arrivedAt!.toMillis())
+      .pop();
+    const start = options.crewLocations?.[route.crewId] ||
+      crew.availability.currentLocation ||
+      (lastVisited ? { lat: lastVisited.lat, lng: lastVisited.lng } : route.startLocation || route.optimizedPath[0]);
+    if (!start) {
+      unavailableCrews.push({ crewId: route.crewId, reason: 'Crew location unknown' });
+      continue;
+    }
+
+    const lastVisit = lastVisited && progress!.stops[lastVisited.id];
+    const freeAt = !lastVisit ? 0 : lastVisit.departedAt
+      ? toMinutesOfDay(lastVisit.departedAt.toDate())
+      : toMinutesOfDay(lastVisit.arrivedAt!.toDate()) + getServiceMinutes(lastVisited);
+
+    const serviceMinutes = new Map(remaining.map(stop => [stop.id, getServiceMinutes(stop)]));
+    const jobEstimate = estimateServiceDuration(durationModel, jobCustomer, route.crewId);
+    serviceMinutes.set(customer.id, job.minutes ?? jobEstimate.minutes);
+
+    // Point 0 is the crew, then the remaining stops, the job, and the end location
+    const endLocation = route.endLocation || crew.availability.endLocation;
+    const points: LatLng[] = [start, ...remaining, customer, ...(endLocation ? [endLocation] : [])];
+    const matrix = await travelProvider.getMatrix(points, points);
+    const jobPoint = remaining.length + 1;
+    const startMinutes = Math.max(now, freeAt, timeToMinutes(crew.availability.startTime));
+
+    const getTimeline = (stops: number[]): LegTimeline => {
+      const arrivals: number[] = [];
+      let time = startMinutes;
+      let miles = 0;
+      let from = 0;
+
+      for (const point of stops) {
+        time += matrix.durations[from][point];
+        miles += matrix.distances[from][point];
+        arrivals.push(time);
+        time += serviceMinutes.get(point === jobPoint ? customer.id : remaining[point - 1].id) || 0;
+        from = point;
+      }
+      if (endLocation) {
+        time += matrix.durations[from][points.length - 1];
+        miles += matrix.distances[from][points.length - 1];
+      }
+
+      return { arrivals, finish: time, miles };
+    };
+
+    const currentOrder = remaining.map((_, index) => index + 1);
+    const baseline = getTimeline(currentOrder);
+    let best: { position: number; timeline: LegTimeline; delayed: number } | null = null;
+
+    for (let position = 0; position <= remaining.length; position++) {
+      const timeline = getTimeline([...currentOrder.slice(0, position), jobPoint, ...currentOrder.slice(position)]);
+      if (timeline.finish > shiftEnd) continue;
+
+      const delayed = remaining.length - position;
+      if (!best || timeline.finish < best.timeline.finish ||
+          (timeline.finish === best.timeline.finish && delayed < best.delayed)) {
+        best = { position, timeline, delayed };
+      }
+    }
+
+    if (!best) {
+      const earliestFinish = getTimeline([...currentOrder, jobPoint]).finish;
+      unavailableCrews.push({
+        crewId: route.crewId,
+        reason: `Would finish after ${crew.availability.endTime} (at ${minutesToTime(Math.round(earliestFinish))} at the earliest)`,
+      });
+      continue;
+    }
+
+    const { position, timeline } = best;
+    const newRemaining = [...remaining.slice(0, position), customer, ...remaining.slice(position)];
+    const newArrivals = new Map(newRemaining.map((stop, index) => [stop.id, timeline.arrivals[index]]));
+    const addedMinutes = Math.round(timeline.finish - baseline.finish);
+    const addedMiles = timeline.miles - baseline.miles;
+
+    const etaImpacts = remaining.slice(position)
+      .map((stop, index) => ({
+        customerId: stop.id,
+        customerName: stop.name,
+        arrival: minutesToTime(Math.round(baseline.arrivals[position + index])),
+        newArrival: minutesToTime(Math.round(newArrivals.get(stop.id)!)),
+        delayMinutes: Math.round(newArrivals.get(stop.id)! - baseline.arrivals[position + index]),
+      }))
+      .filter(impact => impact.delayMinutes > 0);
+
+    const routeCustomers = [...finished, ...newRemaining];
+    const estimatedDuration = route.estimatedDuration + addedMinutes;
+    const totalDistance = route.totalDistance + addedMiles;
+
+    found.push({
+      crewId: route.crewId,
+      route: {
+        ...route,
+        customers: routeCustomers,
+        optimizedPath: [
+          ...(route.startLocation ? [route.startLocation] : []),
+          ...routeCustomers.map(stop => ({ lat: stop.lat, lng: stop.lng })),
+          ...(endLocation ? [endLocation] : []),
+        ],
+        estimatedDuration,
+        totalDistance,
+        cost: summarizeRouteCost(routeCustomers, totalDistance, estimatedDuration, getCrewCostModel(crew, company)),
+        stopSchedule: [
+          ...(route.stopSchedule || []).filter(entry => finished.some(stop => stop.id === entry.customerId)),
+          ...newRemaining.map((stop, index) =>
+            toStopSchedule(stop, timeline.arrivals[index], serviceMinutes.get(stop.id) || 0)
+          ),
+        ],
+        manualCustomerIds: [...(route.manualCustomerIds || []), customer.id],
+        serviceEstimates: [
+          ...(route.serviceEstimates || []),
+          { ...jobEstimate, minutes: serviceMinutes.get(customer.id)! },
+        ],
+      },
+      position: finished.length + position,
+      addedMinutes,
+      addedMiles,
+      arrival: minutesToTime(Math.round(newArrivals.get(customer.id)!)),
+      estimatedFinishTime: minutesToTime(Math.round(timeline.finish)),
+      shiftEnd: crew.availability.endTime,
+      etaImpacts,
+    });
+  }
+
+  found.sort((a, b) => a.addedMinutes - b.addedMinutes || a.etaImpacts.length - b.etaImpacts.length);
+  return {
+    options: found.slice(0, options.limit ?? DEFAULT_OPTION_LIMIT),
+    unavailableCrews,
+  };
+};
+
+/**
+ * Add the job to the customer as a one-time service today and save the chosen
+ * placement as the crew's route. Fails if the route changed since the options
+ * were found, so the manager can search again.
+ */
+export const insertJob = async (
+  companyId: string,
+  job: SameDayJob,
+  option: InsertionOption,
+  userId: string
+): Promise<DailyRoute> => {
+  const current = await getStoredRoute(companyId, option.crewId, option.route.date);
+  if (!current || current.version !== option.route.version) {
+    throw new Error("The crew's route has changed since these options were found");
+  }
+
+  await addServiceToCustomer(job.customerId, toJobService(job, option.route.date));
+
+  const customer = option.route.customers[option.position];
+  const route = { ...option.route };
+  route.version = await saveRoute(route, {
+    source: 'edited',
+    userId,
+    note: `Inserted same-day job for ${customer.name} (+${option.addedMinutes} min)`,
+  });
+
+  console.log(`Inserted same-day job for ${customer.name} into crew ${option.crewId}'s route at stop ${option.position + 1}`);
+  return route;
+};
+
+/**
+ * One-time service on the day of the job, so the planner keeps it if the day is regenerated
+ */
+function toJobService(job: SameDayJob, date: Date): Omit<Service, 'id'> {
+  return {
+    type: job.serviceType,
+    description: job.description,
+    price: job.price || 0,
+    scheduledDate: Timestamp.fromDate(date),
+    status: 'scheduled',
+    recurrence: { frequency: 'once', startDate: toDateKey(date) },
+  };
+}
+
+/**
+ * Whether the crew has reached, finished or skipped a stop
+ */
+function isStarted(progress: RouteStopProgress | undefined): boolean {
+  return !!progress && progress.status !== 'pending';
+}
+
+function toMinutesOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+function toStopSchedule(customer: Customer, arrival: number, serviceMinutes: number): StopSchedule {
+  const timeWindow = customer.servicePreferences.preferredTimeRange;
+  const lateMinutes = Math.max(0, Math.round(arrival - timeToMinutes(timeWindow.end)));
+
+  return {
+    customerId: customer.id,
+    arrival: minutesToTime(Math.round(arrival)),
+    serviceStart: minutesToTime(Math.round(arrival)),
+    departure: minutesToTime(Math.round(arrival + serviceMinutes)),
+    waitMinutes: 0,
+    lateMinutes,
+    timeWindow: { start: timeWindow.start, end: timeWindow.end },
+    withinWindow: lateMinutes === 0 && arrival >= timeToMinutes(timeWindow.start),
+  };
+}
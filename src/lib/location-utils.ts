@@ -1,11 +1,11 @@
-// Calculate distance between two points using Haversine formula
-export function calculateDistance(
+// Great-circle distance between two points in miles (Haversine formula)
+export function haversineMiles(
   lat1: number,
   lon1: number,
   lat2: number,
   lon2: number
 ): number {
-  const R = 6371 // Earth's radius in kilometers
+  const R = 3959 // Earth's radius in miles
   const dLat = (lat2 - lat1) * (Math.PI / 180)
   const dLon = (lon2 - lon1) * (Math.PI / 180)
   const a =
@@ -15,8 +15,17 @@ export function calculateDistance(
       Math.sin(dLon / 2) *
       Math.sin(dLon / 2)
   const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-  const distance = R * c // Distance in kilometers
-  return distance * 3280.84 // Convert to feet
+  return R * c
+}
+
+// Calculate distance between two points using Haversine formula
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  return haversineMiles(lat1, lon1, lat2, lon2) * 5280 // Convert to feet
 }
 
 // Group employees that are within a certain distance of each other
@@ -130,4 +139,55 @@ export function formatDistance(feet: number): string {
     return `${miles.toFixed(1)} miles`
   }
 } 
- 
\ No newline at end of file
+ 
+// Approximate miles per degree of latitude
+const MILES_PER_DEGREE = 69.1
+
+// Ray casting point-in-polygon test on lat/lng (fine at service area scale)
+export function isPointInPolygon(
+  point: { lat: number; lng: number },
+  polygon: { lat: number; lng: number }[]
+): boolean {
+  let inside = false
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    if (crosses) inside = !inside
+  }
+
+  return inside
+}
+
+// Straight-line miles from a point to the edge of a polygon (0 inside it)
+export function distanceToPolygonMiles(
+  point: { lat: number; lng: number },
+  polygon: { lat: number; lng: number }[]
+): number {
+  if (polygon.length === 0) return Infinity
+  if (isPointInPolygon(point, polygon)) return 0
+
+  // Flat projection around the point, in miles
+  const lngScale = MILES_PER_DEGREE * Math.cos(point.lat * (Math.PI / 180))
+  const project = (vertex: { lat: number; lng: number }) => ({
+    x: (vertex.lng - point.lng) * lngScale,
+    y: (vertex.lat - point.lat) * MILES_PER_DEGREE,
+  })
+
+  let nearest = Infinity
+  for (let i = 0; i < polygon.length; i++) {
+    const a = project(polygon[i])
+    const b = project(polygon[(i + 1) % polygon.length])
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const lengthSquared = dx * dx + dy * dy
+    const t = lengthSquared > 0
+      ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared))
+      : 0
+    nearest = Math.min(nearest, Math.hypot(a.x + t * dx, a.y + t * dy))
+  }
+
+  return nearest
+}
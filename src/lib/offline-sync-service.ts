@@ -0,0 +1,445 @@
+/**
+ * Offline Sync Service
+ *
+ * Durable outbox for what crews record in the field. Stop actions, photos,
+ * GPS breadcrumbs and service records (with any customer signature) are
+ * written to IndexedDB first, stamped with the time on the device, and
+ * replayed to Firebase in the order they happened once there's signal (on
+ * reconnect and every minute). Entries that fail for lack of connectivity
+ * stay queued and stop the replay so later actions don't overtake them, and
+ * a stop action the server rejects holds back the later actions at the same
+ * stop; conflicts with what other devices recorded are settled by the stop event
+ * service, so replaying old actions never undoes newer ones. Entries the
+ * server keeps rejecting are set aside as failed until the user retries or
+ * discards them.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { applyStopEvent } from './stop-event-service';
+import { uploadPhoto, uploadSignature } from './photo-service';
+import { saveBreadcrumbSegment } from './breadcrumb-service';
+import { addServiceRecord } from './customer-service';
+import type { StopEventInput } from './stop-event-service';
+import type { BreadcrumbSegmentInput } from './breadcrumb-service';
+import type { PhotoType } from './photo-service';
+import type { ServiceRecord } from './firebase-types';
+
+interface StopEventEntry {
+  id?: number; // Assigned by IndexedDB, in queue order
+  kind: 'stop_event';
+  event: StopEventInput;
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+interface PhotoEntry {
+  id?: number;
+  kind: 'photo';
+  photoId: string; // Chosen when queued, so a retried upload replaces rather than duplicates
+  customerId: string;
+  serviceId: string;
+  photoType: PhotoType;
+  file: Blob;
+  capturedAt: number;
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+interface BreadcrumbEntry {
+  id?: number;
+  kind: 'breadcrumbs';
+  segment: BreadcrumbSegmentInput;
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+interface ServiceRecordEntry {
+  id?: number;
+  kind: 'service_record';
+  customerId: string;
+  record: Omit<ServiceRecord, 'date' | 'signature'> & { date: number }; // Epoch milliseconds; Timestamps don't survive IndexedDB
+  signature?: { image: Blob; signerName: string; signedAt: number }; // Uploaded before the record is saved
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export type OutboxEntry = StopEventEntry | PhotoEntry | BreadcrumbEntry | ServiceRecordEntry;
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  remaining: number;
+  failed: number;
+}
+
+export interface OutboxStatus {
+  pending: number; // Still being retried
+  failed: number; // Set aside after MAX_ATTEMPTS rejections
+  syncError?: string; // Why the last background replay couldn't run, e.g. offline storage unavailable
+}
+
+const DB_NAME = 'lawnroute-offline';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+// Entries that keep failing for reasons other than connectivity are set aside after this many tries
+const MAX_ATTEMPTS = 5;
+
+// Firebase error codes that mean "no connection" rather than "rejected"
+const CONNECTIVITY_ERROR_CODES = ['unavailable', 'deadline-exceeded', 'storage/retry-limit-exceeded', 'storage/canceled'];
+
+const statusListeners = new Set<(status: OutboxStatus) => void>();
+let syncInProgress: Promise<SyncResult> | null = null;
+let lastStatus: OutboxStatus = { pending: 0, failed: 0 };
+let lastSyncError: string | undefined;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Queue a stop action and try to send it right away
+ */
+export const queueStopEvent = async (
+  event: Omit<StopEventInput, 'id' | 'occurredAt'> & { occurredAt?: Date }
+): Promise<void> => {
+  const { occurredAt, ...rest } = event;
+  await addEntry({
+    kind: 'stop_event',
+    event: {
+      ...rest,
+      id: generateEventId(),
+      occurredAt: (occurredAt || new Date()).getTime(),
+    },
+    queuedAt: Date.now(),
+    attempts: 0,
+  });
+  syncInBackground();
+};
+
+/**
+ * Queue photos to upload once the device is back online
+ */
+export const queuePhotos = async (
+  customerId: string,
+  serviceId: string,
+  photoType: PhotoType,
+  files: Blob[],
+  capturedAt: Date = new Date()
+): Promise<void> => {
+  for (const file of files) {
+    await addEntry({
+      kind: 'photo',
+      photoId: `${capturedAt.getTime()}_${Math.random().toString(36).substring(2, 9)}`,
+      customerId,
+      serviceId,
+      photoType,
+      file,
+      capturedAt: capturedAt.getTime(),
+      queuedAt: Date.now(),
+      attempts: 0,
+    });
+  }
+  syncInBackground();
+};
+
+/**
+ * Queue a batch of GPS points for the crew's track
+ */
+export const queueBreadcrumbs = async (segment: Omit<BreadcrumbSegmentInput, 'id'>): Promise<void> => {
+  await addEntry({
+    kind: 'breadcrumbs',
+    segment: { ...segment, id: generateEventId() },
+    queuedAt: Date.now(),
+    attempts: 0,
+  });
+  syncInBackground();
+};
+
+/**
+ * Queue a completed stop's record for the customer's service history, with
+ * the customer's signature if one was taken
+ */
+export const queueServiceRecord = async (
+  customerId: string,
+  record: Omit<ServiceRecord, 'date' | 'signature'> & { date: Date },
+  signature?: { image: Blob; signerName: string; signedAt: Date }
+): Promise<void> => {
+  await addEntry({
+    kind: 'service_record',
+    customerId,
+    record: { ...record, date: record.date.getTime() },
+    ...(signature && { signature: { ...signature, signedAt: signature.signedAt.getTime() } }),
+    queuedAt: Date.now(),
+    attempts: 0,
+  });
+  syncInBackground();
+};
+
+/**
+ * Everything still waiting to reach the server, oldest first
+ */
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  if (!isIndexedDbAvailable()) return [];
+
+  const db = await openOutbox();
+  return requestToPromise<OutboxEntry[]>(
+    db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE).getAll()
+  );
+};
+
+/**
+ * Entries the server kept rejecting, oldest first. They're skipped by the
+ * replay until retried or discarded.
+ */
+export const getFailedEntries = async (): Promise<OutboxEntry[]> => {
+  const entries = await getOutboxEntries();
+  return entries.filter(isFailedEntry);
+};
+
+export const getOutboxStatus = async (): Promise<OutboxStatus> => {
+  const entries = await getOutboxEntries();
+  const failed = entries.filter(isFailedEntry).length;
+  return { pending: entries.length - failed, failed, ...(lastSyncError && { syncError: lastSyncError }) };
+};
+
+/**
+ * Subscribe to the number of changes waiting to sync and the number that
+ * failed. Called right away with the current status.
+ */
+export const subscribeToOutboxStatus = (callback: (status: OutboxStatus) => void): (() => void) => {
+  statusListeners.add(callback);
+  getOutboxStatus()
+    .then(callback)
+    .catch(error => console.warn('Could not read the offline outbox:', error));
+
+  return () => {
+    statusListeners.delete(callback);
+  };
+};
+
+/**
+ * Give a failed entry a fresh set of attempts and replay the outbox
+ */
+export const retryFailedEntry = async (id: number): Promise<SyncResult> => {
+  const db = await openOutbox();
+  const entry = await requestToPromise<OutboxEntry | undefined>(
+    db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE).get(id)
+  );
+  if (!entry) throw new Error('Queued change not found');
+
+  await putEntry({ ...entry, attempts: 0, lastError: undefined });
+  return syncOutbox();
+};
+
+/**
+ * Drop a failed entry for good
+ */
+export const discardFailedEntry = async (id: number): Promise<void> => {
+  await deleteEntry(id);
+  await notifyStatusListeners();
+};
+
+/**
+ * Send queued entries in order. Stops at the first connectivity failure so
+ * later actions wait for earlier ones. Only one replay runs at a time.
+ */
+export const syncOutbox = (): Promise<SyncResult> => {
+  if (!syncInProgress) {
+    syncInProgress = replayOutbox().finally(() => {
+      syncInProgress = null;
+    });
+  }
+  return syncInProgress;
+};
+
+/**
+ * Replay without waiting for it. If the replay can't run at all, status
+ * listeners hear why.
+ */
+const syncInBackground = (): void => {
+  syncOutbox().catch(error => {
+    console.error('Could not sync offline changes:', error);
+    lastSyncError = error instanceof Error ? error.message : String(error);
+    const status = { ...lastStatus, syncError: lastSyncError };
+    statusListeners.forEach(listener => listener(status));
+  });
+};
+
+/**
+ * Replay the outbox whenever the device comes back online, and every minute
+ * in case the online event is missed. Returns a cleanup function.
+ */
+export const startOfflineSync = (): (() => void) => {
+  if (typeof window === 'undefined') return () => {};
+
+  const handleOnline = () => {
+    syncInBackground();
+  };
+
+  window.addEventListener('online', handleOnline);
+  const interval = setInterval(handleOnline, SYNC_INTERVAL_MS);
+  handleOnline();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    clearInterval(interval);
+  };
+};
+
+/**
+ * Whether an error means the device couldn't reach Firebase (so the action should be queued)
+ */
+export function isConnectivityError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+
+  const code = (error as { code?: string } | null)?.code;
+  return !!code && CONNECTIVITY_ERROR_CODES.includes(code);
+}
+
+const replayOutbox = async (): Promise<SyncResult> => {
+  const result: SyncResult = { synced: 0, conflicts: 0, remaining: 0, failed: 0 };
+  if (!isIndexedDbAvailable()) return result;
+
+  const entries = await getOutboxEntries();
+  lastSyncError = undefined;
+
+  // Stops with a rejected action; their later actions wait so they're applied in order
+  const heldStops = new Set<string>();
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    if (isFailedEntry(entry)) continue;
+
+    const stopKey = entry.kind === 'stop_event' ? `${entry.event.routeId}/${entry.event.customerId}` : null;
+    if (stopKey && heldStops.has(stopKey)) continue;
+
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      break;
+    }
+
+    try {
+      if (entry.kind === 'stop_event') {
+        const applied = await applyStopEvent(entry.event);
+        if (applied.result === 'conflict') result.conflicts++;
+      } else if (entry.kind === 'breadcrumbs') {
+        await saveBreadcrumbSegment(entry.segment);
+      } else if (entry.kind === 'service_record') {
+        // Records queued before service IDs were kept fall back to the visit's own folder
+        const signature = entry.signature && await uploadSignature({
+          customerId: entry.customerId,
+          serviceId: entry.record.serviceIds?.[0] ?? entry.record.id,
+          visitId: entry.record.id,
+          file: entry.signature.image,
+          signerName: entry.signature.signerName,
+          signedAt: entry.signature.signedAt,
+        });
+        await addServiceRecord(entry.customerId, {
+          ...entry.record,
+          date: Timestamp.fromMillis(entry.record.date),
+          ...(signature && { signature }),
+        });
+      } else {
+        await uploadPhoto({
+          customerId: entry.customerId,
+          serviceId: entry.serviceId,
+          photoType: entry.photoType,
+          file: entry.file,
+          photoId: entry.photoId,
+          capturedAt: entry.capturedAt,
+        });
+      }
+
+      await deleteEntry(entry.id!);
+      result.synced++;
+    } catch (error) {
+      if (isConnectivityError(error)) {
+        break;
+      }
+
+      console.error(`Could not sync queued ${entry.kind.replace('_', ' ')}:`, error);
+      if (stopKey) heldStops.add(stopKey);
+      await putEntry({
+        ...entry,
+        attempts: entry.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const status = await notifyStatusListeners();
+  result.remaining = status.pending;
+  result.failed = status.failed;
+
+  if (result.synced > 0) {
+    console.log(`Synced ${result.synced} offline changes (${result.conflicts} conflicts), ${result.remaining} still queued`);
+  }
+  return result;
+};
+
+const openOutbox = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const addEntry = async (entry: OutboxEntry): Promise<void> => {
+  if (!isIndexedDbAvailable()) {
+    throw new Error('Offline storage is not available on this device');
+  }
+
+  const db = await openOutbox();
+  await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).add(entry));
+  await notifyStatusListeners();
+};
+
+const putEntry = async (entry: OutboxEntry): Promise<void> => {
+  const db = await openOutbox();
+  await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).put(entry));
+};
+
+const deleteEntry = async (id: number): Promise<void> => {
+  const db = await openOutbox();
+  await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).delete(id));
+};
+
+const notifyStatusListeners = async (): Promise<OutboxStatus> => {
+  const status = await getOutboxStatus();
+  lastStatus = status;
+  statusListeners.forEach(listener => listener(status));
+  return status;
+};
+
+function isFailedEntry(entry: OutboxEntry): boolean {
+  return entry.attempts >= MAX_ATTEMPTS;
+}
+
+function requestToPromise<T = unknown>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function generateEventId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
@@ -6,7 +6,8 @@ import {
   listAll
 } from 'firebase/storage';
 import { getFirebaseStorage, getFirebaseAuth, getFirebaseDb } from './firebase';
-import { doc, getDoc } from 'firebase/firestore';
+import { doc, getDoc, Timestamp } from 'firebase/firestore';
+import type { ServiceSignature } from './firebase-types';
 
 /**
  * Photo service for handling image uploads, downloads, and management
@@ -21,6 +22,7 @@ export interface PhotoUploadOptions {
   photoType: PhotoType;
   file: File | Blob;
   photoId?: string; // Optional, will generate if not provided
+  capturedAt?: number; // When the photo was taken, if uploaded later (epoch ms)
 }
 
 export interface PhotoMetadata {
@@ -164,6 +166,7 @@ export const uploadPhoto = async (
     contentType: 'image/jpeg',
     customMetadata: {
       uploadedAt: Date.now().toString(),
+      ...(options.capturedAt && { capturedAt: options.capturedAt.toString() }),
       photoType,
       customerId,
       serviceId,
@@ -181,6 +184,46 @@ export const uploadPhoto = async (
   };
 };
 
+/**
+ * Upload a customer's signature for a visit. It goes next to the service's
+ * photos as a PNG (kept lossless so thin strokes stay legible), one file per
+ * visit, and uploading the same visit again replaces it.
+ */
+export const uploadSignature = async (options: {
+  customerId: string;
+  serviceId: string;
+  visitId: string; // The service record's ID
+  file: Blob;
+  signerName: string;
+  signedAt: number; // Epoch milliseconds
+}): Promise<ServiceSignature> => {
+  const storage = getFirebaseStorage();
+  if (!storage) {
+    throw new Error('Firebase Storage is not initialized');
+  }
+
+  const { customerId, serviceId, visitId, file, signerName, signedAt } = options;
+  const path = `customers/${customerId}/services/${serviceId}/signature/${visitId}.png`;
+  const snapshot = await uploadBytes(ref(storage, path), file, {
+    contentType: 'image/png',
+    customMetadata: {
+      uploadedAt: Date.now().toString(),
+      signedAt: signedAt.toString(),
+      signerName,
+      customerId,
+      serviceId,
+      visitId,
+    },
+  });
+
+  return {
+    signerName,
+    signedAt: Timestamp.fromMillis(signedAt),
+    url: await getDownloadURL(snapshot.ref),
+    path,
+  };
+};
+
 /**
  * Upload multiple photos
  */
@@ -0,0 +1,439 @@
+/**
+ * Route Assignment Service
+ *
+ * Capacitated multi-crew assignment: distributes the day's customers across
+ * every available crew, balancing stops and working minutes while respecting
+ * each crew's capabilities, equipment, crew size, stop limit and shift length.
+ * Customers go to the crews bound to their territory first; other crews only
+ * take them as overflow, by the company's rule. Customers that can't be
+ * placed are returned with the reason.
+ *
+ * Workload is balanced as load (planned minutes over shift minutes), counting
+ * what each crew already has planned earlier in the week. After the first
+ * pass, stops move from the busiest crews to lighter ones until every crew's
+ * load is within the tolerance of the others.
+ */
+
+import type { CrewAvailability, CustomerPriority, EquipmentType, Territory, TerritoryOverflowRule } from './firebase-types';
+import { estimateTravel } from './travel-matrix-service';
+import { distanceToPolygonMiles } from './location-utils';
+import { EQUIPMENT_LABELS } from './service-requirements';
+import { timeToMinutes } from './time-utils';
+
+export interface AssignmentOptions {
+  serviceMinutes?: Record<string, number>; // Estimated minutes on site, keyed by customer ID
+  defaultServiceMinutes?: number; // Default 30
+  depot?: { lat: number; lng: number }; // Where crews start when they have no start or current location
+  fixedAssignments?: Record<string, string>; // Crew ID keyed by customer ID (manual moves)
+  territories?: Territory[]; // Needed for territory names and the 'nearby' overflow rule
+  territoryOverflow?: TerritoryOverflowRule; // Default 'any'
+  overflowMaxMiles?: number; // Default 5
+  priorWorkload?: Record<string, CrewWorkload>; // Earlier in the week, keyed by crew ID
+  workloadTolerance?: number; // Largest load gap allowed between crews, default 0.1 (10% of a shift)
+}
+
+// Minutes a crew is planned to work against the minutes it is scheduled for
+export interface CrewWorkload {
+  plannedMinutes: number; // Work + estimated drive minutes
+  shiftMinutes: number;
+}
+
+export interface CrewRouteAssignment {
+  crew: CrewAvailability;
+  customers: CustomerPriority[];
+  plannedMinutes: number; // Work + estimated drive minutes
+  shiftMinutes: number;
+}
+
+export type UnassignedReason =
+  | 'no_crews_available'
+  | 'no_capable_crew'
+  | 'missing_equipment'
+  | 'crew_too_small'
+  | 'no_territory_crew'
+  | 'stop_limit_reached'
+  | 'shift_length_exceeded';
+
+export interface UnassignedCustomer {
+  customerId: string;
+  reason: UnassignedReason;
+  details: string;
+}
+
+export interface CrewAssignmentResult {
+  assignments: CrewRouteAssignment[];
+  unassigned: UnassignedCustomer[];
+}
+
+/**
+ * Assign customers to crews, highest priority first.
+ *
+ * Each customer goes to the capable crew with the lowest resulting load
+ * (planned minutes / shift minutes), with the extra drive from that crew's
+ * nearest assigned stop counted in, so crews stay balanced and compact.
+ * Crews are tried tier by tier (see getCandidateTiers); a later tier is only
+ * used when no crew in an earlier one has room.
+ * Customers with a fixed crew are placed on it first, ignoring limits.
+ */
+export function assignCustomersToCrews(
+  customers: CustomerPriority[],
+  crews: CrewAvailability[],
+  options: AssignmentOptions = {}
+): CrewAssignmentResult {
+  const defaultServiceMinutes = options.defaultServiceMinutes ?? 30;
+
+  const assignments: CrewRouteAssignment[] = crews.map(crew => ({
+    crew,
+    customers: [],
+    plannedMinutes: 0,
+    shiftMinutes: getShiftMinutes(crew),
+  }));
+  const unassigned: UnassignedCustomer[] = [];
+  const candidateTiers = new Map<string, CrewRouteAssignment[][]>();
+
+  const sortedCustomers = [...customers].sort((a, b) => b.priority - a.priority);
+  const fixedCustomerIds = new Set<string>();
+
+  // Manual moves win over balancing, as long as the crew is working that day
+  for (const customer of sortedCustomers) {
+    const crewId = options.fixedAssignments?.[customer.customerId];
+    const assignment = crewId && assignments.find(candidate => candidate.crew.crewId === crewId);
+    if (!assignment) continue;
+
+    assignment.plannedMinutes += (options.serviceMinutes?.[customer.customerId] ?? defaultServiceMinutes) +
+      getNearestDriveMinutes(assignment, customer, options.depot);
+    assignment.customers.push(customer);
+    fixedCustomerIds.add(customer.customerId);
+  }
+
+  for (const customer of sortedCustomers) {
+    if (fixedCustomerIds.has(customer.customerId)) continue;
+
+    if (assignments.length === 0) {
+      unassigned.push({
+        customerId: customer.customerId,
+        reason: 'no_crews_available',
+        details: 'No crews are available on this date',
+      });
+      continue;
+    }
+
+    const serviceTypes = getServiceTypes(customer);
+    const capable = assignments.filter(assignment =>
+      serviceTypes.some(type => assignment.crew.capabilities.includes(type))
+    );
+
+    if (capable.length === 0) {
+      unassigned.push({
+        customerId: customer.customerId,
+        reason: 'no_capable_crew',
+        details: `No available crew handles ${serviceTypes.join(', ')}`,
+      });
+      continue;
+    }
+
+    const requiredEquipment = customer.factors.requiredEquipment || [];
+    const equipped = capable.filter(assignment => hasEquipment(assignment.crew, requiredEquipment));
+
+    if (equipped.length === 0) {
+      unassigned.push({
+        customerId: customer.customerId,
+        reason: 'missing_equipment',
+        details: `No capable crew carries ${requiredEquipment.map(item => EQUIPMENT_LABELS[item]).join(', ')}`,
+      });
+      continue;
+    }
+
+    const requiredCrewSize = customer.factors.requiredCrewSize || 1;
+    const staffed = equipped.filter(assignment => assignment.crew.employeeIds.length >= requiredCrewSize);
+
+    if (staffed.length === 0) {
+      unassigned.push({
+        customerId: customer.customerId,
+        reason: 'crew_too_small',
+        details: `Needs ${requiredCrewSize} crew members and no equipped crew has that many working`,
+      });
+      continue;
+    }
+
+    const tiers = getCandidateTiers(customer, staffed, options);
+    candidateTiers.set(customer.customerId, tiers);
+    const candidateCount = tiers.reduce((total, tier) => total + tier.length, 0);
+
+    if (candidateCount === 0) {
+      const territory = options.territories?.find(candidate => candidate.id === customer.factors.territoryId);
+      unassigned.push({
+        customerId: customer.customerId,
+        reason: 'no_territory_crew',
+        details: `No available crew covers ${territory?.name || 'this territory'} and overflow is not allowed`,
+      });
+      continue;
+    }
+
+    const serviceMinutes = options.serviceMinutes?.[customer.customerId] ?? defaultServiceMinutes;
+    let best: { assignment: CrewRouteAssignment; addedMinutes: number; load: number } | null = null;
+    let blockedByStopLimit = 0;
+
+    for (const tier of tiers) {
+      for (const assignment of tier) {
+        if (assignment.customers.length >= assignment.crew.availability.maxCustomers) {
+          blockedByStopLimit++;
+          continue;
+        }
+
+        const driveMinutes = getNearestDriveMinutes(assignment, customer, options.depot);
+        const addedMinutes = serviceMinutes + driveMinutes;
+        const plannedMinutes = assignment.plannedMinutes + addedMinutes;
+
+        if (plannedMinutes > assignment.shiftMinutes) {
+          continue;
+        }
+
+        const load = getLoad(assignment, plannedMinutes, options);
+        if (!best || load < best.load) {
+          best = { assignment, addedMinutes, load };
+        }
+      }
+
+      if (best) break;
+    }
+
+    if (!best) {
+      const allAtStopLimit = blockedByStopLimit === candidateCount;
+      unassigned.push({
+        customerId: customer.customerId,
+        reason: allAtStopLimit ? 'stop_limit_reached' : 'shift_length_exceeded',
+        details: allAtStopLimit
+          ? `All capable crews already have their maximum number of stops`
+          : `Adding ${serviceMinutes} min of work would exceed every capable crew's shift`,
+      });
+      continue;
+    }
+
+    best.assignment.customers.push(customer);
+    best.assignment.plannedMinutes += best.addedMinutes;
+  }
+
+  rebalanceWorkload(assignments, candidateTiers, fixedCustomerIds, options);
+
+  return {
+    assignments: assignments.filter(assignment => assignment.customers.length > 0),
+    unassigned,
+  };
+}
+
+/**
+ * Share of a crew's shift (and of its week so far, when given) its planned minutes take up
+ */
+function getLoad(assignment: CrewRouteAssignment, plannedMinutes: number, options: AssignmentOptions): number {
+  const prior = options.priorWorkload?.[assignment.crew.crewId];
+  return ((prior?.plannedMinutes || 0) + plannedMinutes) / ((prior?.shiftMinutes || 0) + assignment.shiftMinutes);
+}
+
+/**
+ * Move stops from the most loaded crew to lighter ones while the gap between
+ * the most and least loaded crews is over the tolerance. A stop only moves to
+ * a crew in the same or an earlier territory tier, within its stop limit and
+ * shift, and only when the move lowers the busier of the two crews' loads.
+ * Manually placed stops stay put.
+ */
+function rebalanceWorkload(
+  assignments: CrewRouteAssignment[],
+  candidateTiers: Map<string, CrewRouteAssignment[][]>,
+  fixedCustomerIds: Set<string>,
+  options: AssignmentOptions
+): void {
+  const tolerance = options.workloadTolerance ?? 0.1;
+  const defaultServiceMinutes = options.defaultServiceMinutes ?? 30;
+  const maxMoves = assignments.reduce((total, assignment) => total + assignment.customers.length, 0);
+
+  for (let moves = 0; moves < maxMoves && assignments.length > 1; moves++) {
+    const loads = assignments.map(assignment => getLoad(assignment, assignment.plannedMinutes, options));
+    const sourceIndex = loads.indexOf(Math.max(...loads));
+    if (loads[sourceIndex] - Math.min(...loads) <= tolerance) return;
+
+    const source = assignments[sourceIndex];
+    let best: {
+      customer: CustomerPriority;
+      target: CrewRouteAssignment;
+      sourceMinutes: number;
+      targetMinutes: number;
+      peakLoad: number;
+    } | null = null;
+
+    for (const customer of source.customers) {
+      if (fixedCustomerIds.has(customer.customerId)) continue;
+
+      const tiers = candidateTiers.get(customer.customerId) || [];
+      const sourceTier = tiers.findIndex(tier => tier.includes(source));
+      const remaining = { ...source, customers: source.customers.filter(assigned => assigned !== customer) };
+      const sourceMinutes = getPlannedMinutes(remaining, options);
+      const serviceMinutes = options.serviceMinutes?.[customer.customerId] ?? defaultServiceMinutes;
+
+      for (const target of tiers.slice(0, sourceTier + 1).flat()) {
+        if (target === source || target.customers.length >= target.crew.availability.maxCustomers) continue;
+
+        const targetMinutes = target.plannedMinutes + serviceMinutes + getNearestDriveMinutes(target, customer, options.depot);
+        if (targetMinutes > target.shiftMinutes) continue;
+
+        const peakLoad = Math.max(getLoad(source, sourceMinutes, options), getLoad(target, targetMinutes, options));
+        if (peakLoad < loads[sourceIndex] && (!best || peakLoad < best.peakLoad)) {
+          best = { customer, target, sourceMinutes, targetMinutes, peakLoad };
+        }
+      }
+    }
+
+    if (!best) return;
+
+    source.customers = source.customers.filter(assigned => assigned !== best.customer);
+    source.plannedMinutes = best.sourceMinutes;
+    best.target.customers.push(best.customer);
+    best.target.plannedMinutes = best.targetMinutes;
+  }
+}
+
+/**
+ * Work + drive minutes for a crew's stops, each driven to from the nearest
+ * point before it (as they were added)
+ */
+function getPlannedMinutes(assignment: CrewRouteAssignment, options: AssignmentOptions): number {
+  const defaultServiceMinutes = options.defaultServiceMinutes ?? 30;
+  let plannedMinutes = 0;
+
+  assignment.customers.forEach((customer, index) => {
+    const previous = { ...assignment, customers: assignment.customers.slice(0, index) };
+    plannedMinutes += (options.serviceMinutes?.[customer.customerId] ?? defaultServiceMinutes) +
+      getNearestDriveMinutes(previous, customer, options.depot);
+  });
+
+  return plannedMinutes;
+}
+
+/**
+ * Shift length in minutes from the crew's availability window
+ */
+export function getShiftMinutes(crew: CrewAvailability): number {
+  const minutes = timeToMinutes(crew.availability.endTime) - timeToMinutes(crew.availability.startTime);
+  return minutes > 0 ? minutes : 9 * 60; // Fall back to a standard 8-5 day
+}
+
+/**
+ * Crews that may take a customer, in the order to try them:
+ *   1. crews bound to the customer's territory (every crew, if it has none)
+ *   2. crews without territories
+ *   3. overflow: crews with a territory within overflowMaxMiles ('nearby') or any crew ('any')
+ */
+function getCandidateTiers(
+  customer: CustomerPriority,
+  capable: CrewRouteAssignment[],
+  options: AssignmentOptions
+): CrewRouteAssignment[][] {
+  const territoryId = customer.factors.territoryId;
+  const boundCrews = capable.filter(assignment => assignment.crew.territoryIds?.length);
+  if (!territoryId || boundCrews.length === 0) {
+    return [capable];
+  }
+
+  const home = boundCrews.filter(assignment => assignment.crew.territoryIds!.includes(territoryId));
+  const unbound = capable.filter(assignment => !assignment.crew.territoryIds?.length);
+  const others = boundCrews.filter(assignment => !home.includes(assignment));
+
+  const overflowRule = options.territoryOverflow ?? 'any';
+  let overflow: CrewRouteAssignment[] = [];
+
+  if (overflowRule === 'any') {
+    overflow = others;
+  } else if (overflowRule === 'nearby') {
+    const maxMiles = options.overflowMaxMiles ?? 5;
+    overflow = others.filter(assignment =>
+      (options.territories || []).some(territory =>
+        assignment.crew.territoryIds!.includes(territory.id) &&
+        distanceToPolygonMiles(customer.factors.location, territory.polygon) <= maxMiles
+      )
+    );
+  }
+
+  return [home, unbound, overflow].filter(tier => tier.length > 0);
+}
+
+/**
+ * Why a crew can't take a customer (service type, equipment or crew size), or null if it can.
+ * Stop limits, shifts and territories are left to the caller.
+ */
+export function getCrewMismatch(crew: CrewAvailability, customer: CustomerPriority): UnassignedCustomer | null {
+  const serviceTypes = getServiceTypes(customer);
+  if (!serviceTypes.some(type => crew.capabilities.includes(type))) {
+    return {
+      customerId: customer.customerId,
+      reason: 'no_capable_crew',
+      details: `Crew doesn't handle ${serviceTypes.join(', ')}`,
+    };
+  }
+
+  const requiredEquipment = customer.factors.requiredEquipment || [];
+  const missing = requiredEquipment.filter(item => !hasEquipment(crew, [item]));
+  if (missing.length > 0) {
+    return {
+      customerId: customer.customerId,
+      reason: 'missing_equipment',
+      details: crew.equipment
+        ? `Crew doesn't carry ${missing.map(item => EQUIPMENT_LABELS[item]).join(', ')}`
+        : `Crew hasn't listed its equipment (needs ${missing.map(item => EQUIPMENT_LABELS[item]).join(', ')})`,
+    };
+  }
+
+  const requiredCrewSize = customer.factors.requiredCrewSize || 1;
+  if (crew.employeeIds.length < requiredCrewSize) {
+    return {
+      customerId: customer.customerId,
+      reason: 'crew_too_small',
+      details: `Needs ${requiredCrewSize} crew members and the crew has ${crew.employeeIds.length} working`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a crew carries everything on the list. Crews that haven't listed
+ * their equipment carry nothing as far as planning is concerned, so jobs
+ * needing equipment only go to crews known to have it.
+ */
+function hasEquipment(crew: CrewAvailability, required: EquipmentType[]): boolean {
+  const equipment = crew.equipment || [];
+  return required.every(item => equipment.includes(item));
+}
+
+/**
+ * Service types requested by a customer
+ */
+function getServiceTypes(customer: CustomerPriority): string[] {
+  return customer.factors.serviceTypes?.length
+    ? customer.factors.serviceTypes
+    : [customer.factors.serviceType];
+}
+
+/**
+ * Drive minutes to a customer from the closest point the crew already visits
+ * (its assigned stops, or its starting location)
+ */
+function getNearestDriveMinutes(
+  assignment: CrewRouteAssignment,
+  customer: CustomerPriority,
+  depot?: { lat: number; lng: number }
+): number {
+  const points: { lat: number; lng: number }[] = assignment.customers.map(assigned => assigned.factors.location);
+  const start = assignment.crew.availability.startLocation || assignment.crew.availability.currentLocation || depot;
+
+  if (start) {
+    points.push(start);
+  }
+
+  if (points.length === 0) {
+    return 0;
+  }
+
+  return Math.min(
+    ...points.map(point => estimateTravel(point, customer.factors.location).durationMinutes)
+  );
+}
@@ -4,23 +4,36 @@
  * Converts between DailyRoute (from route generation) and Route (for timing features)
  */
 
-import type { DailyRoute } from './firebase-types'
+import type { DailyRoute, StoredRouteProgress } from './firebase-types'
 import type { Route, RouteStop } from './types'
+import { calculateStopDriveTime, calculateStopWorkTime } from './route-tracking-service'
 
 /**
  * Convert DailyRoute to Route for timing features
  */
 export function dailyRouteToRoute(dailyRoute: DailyRoute): Route {
-  const stops: RouteStop[] = dailyRoute.customers.map((customer, index) => ({
-    customerId: customer.id,
-    customerName: customer.name,
-    address: customer.address,
-    lat: customer.lat,
-    lng: customer.lng,
-    order: index + 1,
-    status: 'pending' as const,
-    estimatedArrival: undefined, // Can be calculated from route start time
-  }))
+  const stops: RouteStop[] = dailyRoute.customers.map((customer, index) => {
+    const serviceEstimate = dailyRoute.serviceEstimates?.find(estimate => estimate.customerId === customer.id)
+    const dueServices = customer.services
+      .filter(service => service.status !== 'completed' && service.status !== 'cancelled')
+
+    return {
+      customerId: customer.id,
+      customerName: customer.name,
+      address: customer.address,
+      lat: customer.lat,
+      lng: customer.lng,
+      order: index + 1,
+      status: 'pending' as const,
+      // Planned arrival from time-window routing, when available
+      estimatedArrival: dailyRoute.stopSchedule?.find(stop => stop.customerId === customer.id)?.arrival,
+      serviceType: customer.services[0]?.type,
+      serviceTypes: Array.from(new Set(dueServices.map(service => service.type))),
+      serviceIds: dueServices.map(service => service.id),
+      estimatedWorkMinutes: serviceEstimate?.minutes,
+      estimateConfidence: serviceEstimate?.confidence,
+    }
+  })
 
   return {
     id: `${dailyRoute.crewId}-${dailyRoute.date.toString()}`,
@@ -40,6 +53,91 @@ export function dailyRoutesToRoutes(dailyRoutes: DailyRoute[]): Route[] {
   return dailyRoutes.map(dailyRouteToRoute)
 }
 
+/**
+ * Keep recorded stop timing when a route is reloaded (e.g. after a re-plan).
+ * Stops are matched by customer; stops that left the route are dropped.
+ */
+export function carryOverStopTiming(route: Route, previous: Route | undefined): Route {
+  if (!previous) return route
+
+  const previousStops = new Map(previous.stops.map(stop => [stop.customerId, stop]))
+  const stops = route.stops.map(stop => {
+    const previousStop = previousStops.get(stop.customerId)
+    if (!previousStop || previousStop.status === 'pending') return stop
+
+    return {
+      ...stop,
+      status: previousStop.status,
+      actualArrival: previousStop.actualArrival,
+      actualDeparture: previousStop.actualDeparture,
+      arrivalSource: previousStop.arrivalSource,
+      departureSource: previousStop.departureSource,
+      driveTime: previousStop.driveTime,
+      workTime: previousStop.workTime,
+      notes: previousStop.notes,
+      pausedAt: previousStop.pausedAt,
+      resumedAt: previousStop.resumedAt,
+      checklist: previousStop.checklist,
+      signature: previousStop.signature,
+    }
+  })
+
+  return {
+    ...route,
+    stops,
+    status: previous.status,
+  }
+}
+
+/**
+ * Apply the progress saved in Firestore (route_progress) to a route, so stops
+ * recorded before a reload or on another device show their real state. A stop
+ * keeps its local state when it changed after the saved progress, since that
+ * change is still waiting in the outbox.
+ */
+export function applyRouteProgress(route: Route, progress: StoredRouteProgress | null): Route {
+  if (!progress) return route
+
+  let changed = false
+  const stops = route.stops.map(stop => {
+    const saved = progress.stops[stop.customerId]
+    if (!saved) return stop
+
+    const localTimes = [stop.actualArrival, stop.actualDeparture, stop.pausedAt, stop.resumedAt]
+      .filter((time): time is Date => time instanceof Date)
+      .map(time => time.getTime())
+    if (localTimes.length > 0 && Math.max(...localTimes) > saved.updatedAt.toMillis()) return stop
+
+    changed = true
+    return {
+      ...stop,
+      status: saved.status,
+      actualArrival: saved.arrivedAt?.toDate(),
+      actualDeparture: saved.departedAt?.toDate(),
+      arrivalSource: saved.arrivalSource,
+      departureSource: saved.departureSource,
+      pausedAt: saved.pausedAt?.toDate(),
+      resumedAt: saved.resumedAt?.toDate(),
+      notes: saved.notes ?? stop.notes,
+    }
+  })
+  if (!changed) return route
+
+  const timedStops = stops.map((stop, index) => ({
+    ...stop,
+    driveTime: stop.driveTime ?? calculateStopDriveTime(stop, index > 0 ? stops[index - 1] : null) ?? undefined,
+    workTime: stop.workTime ?? calculateStopWorkTime(stop) ?? undefined,
+  }))
+  const allDone = timedStops.every(stop => stop.status === 'completed' || stop.status === 'skipped')
+  const started = timedStops.some(stop => stop.status !== 'pending')
+
+  return {
+    ...route,
+    stops: timedStops,
+    status: allDone ? 'completed' : started ? 'in_progress' : route.status,
+  }
+}
+
 /**
  * Update a DailyRoute with stop timing data from a Route
  */
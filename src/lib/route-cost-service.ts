@@ -0,0 +1,114 @@
+/**
+ * Route Cost Service
+ *
+ * What a route costs to run: fuel for the miles the crew vehicle drives, and
+ * labor for every member for the whole day on the road, with an overtime
+ * premium past the company's paid hours. Used as the sequencing objective
+ * when the company optimizes for cost, and to show each route's estimated
+ * cost, revenue and margin.
+ */
+
+import type {
+  Company,
+  CrewAvailability,
+  Customer,
+  RouteCostSettings,
+  RouteCostSummary,
+} from './firebase-types';
+
+export const DEFAULT_ROUTE_COSTS: RouteCostSettings = {
+  fuelCostPerMile: 0.6,
+  laborCostPerHour: 20,
+  overtimeAfterHours: 8,
+  overtimeMultiplier: 1.5,
+};
+
+// Cost inputs for one crew's route
+export interface RouteCostModel {
+  fuelCostPerMile: number;
+  laborCostPerMinute: number; // Whole crew
+  overtimeAfterMinutes: number;
+  overtimeMultiplier: number;
+}
+
+/**
+ * The company's route cost settings, with defaults for anything not set
+ */
+export function getRouteCostSettings(company: Company | null): RouteCostSettings {
+  return {
+    ...DEFAULT_ROUTE_COSTS,
+    ...company?.settings?.routeCosts,
+  };
+}
+
+/**
+ * Cost model for a crew: its vehicle's fuel cost and labor for every member working
+ */
+export function getCrewCostModel(crew: CrewAvailability, company: Company | null): RouteCostModel {
+  const settings = getRouteCostSettings(company);
+
+  return {
+    fuelCostPerMile: crew.fuelCostPerMile ?? settings.fuelCostPerMile,
+    laborCostPerMinute: (settings.laborCostPerHour * Math.max(1, crew.employeeIds.length)) / 60,
+    overtimeAfterMinutes: settings.overtimeAfterHours * 60,
+    overtimeMultiplier: settings.overtimeMultiplier,
+  };
+}
+
+/**
+ * Fuel and labor for a route of the given miles and minutes (drive, work and waiting)
+ */
+export function calculateRouteCost(
+  distanceMiles: number,
+  durationMinutes: number,
+  model: RouteCostModel
+): { fuelCost: number; laborCost: number; overtimeCost: number; totalCost: number } {
+  const fuelCost = distanceMiles * model.fuelCostPerMile;
+  const overtimeMinutes = Math.max(0, durationMinutes - model.overtimeAfterMinutes);
+  const overtimeCost = overtimeMinutes * model.laborCostPerMinute * (model.overtimeMultiplier - 1);
+  const laborCost = durationMinutes * model.laborCostPerMinute + overtimeCost;
+
+  return { fuelCost, laborCost, overtimeCost, totalCost: fuelCost + laborCost };
+}
+
+/**
+ * Revenue from the services planned at each stop
+ */
+export function calculateRouteRevenue(customers: Customer[]): number {
+  return customers.reduce((total, customer) =>
+    total + customer.services.reduce((sum, service) => sum + (service.price || 0), 0), 0
+  );
+}
+
+/**
+ * Estimated cost, revenue and margin for a planned route, rounded to cents
+ */
+export function summarizeRouteCost(
+  customers: Customer[],
+  distanceMiles: number,
+  durationMinutes: number,
+  model: RouteCostModel
+): RouteCostSummary {
+  const cost = calculateRouteCost(distanceMiles, durationMinutes, model);
+  const revenue = calculateRouteRevenue(customers);
+
+  return {
+    fuelCost: roundToCents(cost.fuelCost),
+    laborCost: roundToCents(cost.laborCost),
+    overtimeCost: roundToCents(cost.overtimeCost),
+    totalCost: roundToCents(cost.totalCost),
+    revenue: roundToCents(revenue),
+    margin: roundToCents(revenue - cost.totalCost),
+  };
+}
+
+/**
+ * "$1,234.50"
+ */
+export function formatCurrency(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,160 @@
+/**
+ * Route Edit Service
+ *
+ * Manual changes a manager makes to a stored route: dragging a stop to a new
+ * position, pinning a stop to its position or a time, and moving a stop to
+ * another crew. After every edit the optimizer re-sequences only the stops
+ * that aren't pinned, and the result is saved as a new route version.
+ * Pins and crew moves are stored with the route and kept on regeneration.
+ */
+
+import type { DailyRoute, StopLock } from './firebase-types';
+import { resequenceRoute } from './route-service';
+import { saveRoute } from './route-storage-service';
+
+/**
+ * Drag a stop to a new position; the stop is pinned there
+ */
+export const moveStop = async (
+  route: DailyRoute,
+  customerId: string,
+  toIndex: number,
+  userId: string
+): Promise<DailyRoute> => {
+  const customer = route.customers.find(candidate => candidate.id === customerId);
+  if (!customer) {
+    throw new Error(`Customer ${customerId} is not on this route`);
+  }
+
+  const customers = route.customers.filter(candidate => candidate.id !== customerId);
+  const position = Math.max(0, Math.min(toIndex, customers.length));
+  customers.splice(position, 0, customer);
+
+  const existingLock = route.stopLocks?.find(lock => lock.customerId === customerId);
+  return saveEditedRoute(
+    {
+      ...route,
+      customers,
+      stopLocks: withLock(route, { ...existingLock, customerId, position }),
+    },
+    userId,
+    `Moved ${customer.name} to stop ${position + 1}`
+  );
+};
+
+/**
+ * Pin a stop to its current position and/or a service start time ("HH:MM")
+ */
+export const pinStop = async (
+  route: DailyRoute,
+  customerId: string,
+  pin: { position?: boolean; time?: string },
+  userId: string
+): Promise<DailyRoute> => {
+  const position = route.customers.findIndex(customer => customer.id === customerId);
+  if (position === -1) {
+    throw new Error(`Customer ${customerId} is not on this route`);
+  }
+
+  const existingLock = route.stopLocks?.find(lock => lock.customerId === customerId);
+  const lock: StopLock = {
+    ...existingLock,
+    customerId,
+    ...(pin.position && { position }),
+    ...(pin.time && { time: pin.time }),
+  };
+
+  return saveEditedRoute(
+    { ...route, stopLocks: withLock(route, lock) },
+    userId,
+    `Pinned ${route.customers[position].name}${pin.time ? ` at ${pin.time}` : ` to stop ${position + 1}`}`
+  );
+};
+
+/**
+ * Remove a stop's pins so the optimizer can move it again
+ */
+export const unpinStop = async (
+  route: DailyRoute,
+  customerId: string,
+  userId: string
+): Promise<DailyRoute> => {
+  return saveEditedRoute(
+    { ...route, stopLocks: (route.stopLocks || []).filter(lock => lock.customerId !== customerId) },
+    userId,
+    'Unpinned stop'
+  );
+};
+
+/**
+ * Re-optimize the unpinned stops without any other change
+ */
+export const reoptimizeRoute = async (route: DailyRoute, userId: string): Promise<DailyRoute> => {
+  return saveEditedRoute(route, userId, 'Re-optimized around pinned stops');
+};
+
+/**
+ * Move a stop to another crew's route on the same day.
+ * The stop stays with that crew when the day is regenerated.
+ */
+export const moveStopToCrew = async (
+  fromRoute: DailyRoute,
+  toRoute: DailyRoute,
+  customerId: string,
+  userId: string
+): Promise<{ fromRoute: DailyRoute; toRoute: DailyRoute }> => {
+  const customer = fromRoute.customers.find(candidate => candidate.id === customerId);
+  if (!customer) {
+    throw new Error(`Customer ${customerId} is not on this route`);
+  }
+  if (fromRoute.crewId === toRoute.crewId) {
+    return { fromRoute, toRoute };
+  }
+
+  const note = `Moved ${customer.name} from crew ${fromRoute.crewId} to crew ${toRoute.crewId}`;
+
+  const updatedFromRoute = await saveEditedRoute(
+    {
+      ...fromRoute,
+      customers: fromRoute.customers.filter(candidate => candidate.id !== customerId),
+      stopLocks: (fromRoute.stopLocks || []).filter(lock => lock.customerId !== customerId),
+      manualCustomerIds: (fromRoute.manualCustomerIds || []).filter(id => id !== customerId),
+    },
+    userId,
+    note
+  );
+
+  // A time pin still makes sense on the new crew; a position pin doesn't
+  const timeLock = fromRoute.stopLocks?.find(lock => lock.customerId === customerId && lock.time);
+  const updatedToRoute = await saveEditedRoute(
+    {
+      ...toRoute,
+      customers: [...toRoute.customers, customer],
+      stopLocks: timeLock
+        ? [...(toRoute.stopLocks || []), { customerId, time: timeLock.time }]
+        : toRoute.stopLocks,
+      manualCustomerIds: [...(toRoute.manualCustomerIds || []), customerId],
+    },
+    userId,
+    note
+  );
+
+  return { fromRoute: updatedFromRoute, toRoute: updatedToRoute };
+};
+
+/**
+ * Replace (or add) the lock for a stop; a lock with no position or time removes it
+ */
+const withLock = (route: DailyRoute, lock: StopLock): StopLock[] => {
+  const others = (route.stopLocks || []).filter(existing => existing.customerId !== lock.customerId);
+  return lock.position !== undefined || lock.time ? [...others, lock] : others;
+};
+
+/**
+ * Re-sequence around the pins and store the result as a new version
+ */
+const saveEditedRoute = async (route: DailyRoute, userId: string, note: string): Promise<DailyRoute> => {
+  const resequenced = await resequenceRoute(route);
+  resequenced.version = await saveRoute(resequenced, { source: 'edited', userId, note });
+  return resequenced;
+};
@@ -0,0 +1,315 @@
+/**
+ * Route File Service
+ *
+ * Moves routes in and out of the app as GPX or KML files: export a crew's
+ * day to load into a dedicated GPS unit, or import a route planned in another
+ * tool. Imported waypoints are matched to existing customers by proximity and
+ * saved as the crew's route for the date, in the file's stop order.
+ */
+
+import { getCustomers } from './customer-service';
+import { haversineMiles } from './location-utils';
+import { resequenceRoute } from './route-service';
+import { saveRoute } from './route-storage-service';
+import { toDateKey } from './time-utils';
+import type { Customer, DailyRoute } from './firebase-types';
+
+export type RouteFileFormat = 'gpx' | 'kml';
+
+export interface RouteWaypoint {
+  lat: number;
+  lng: number;
+  name?: string;
+  description?: string;
+}
+
+export interface WaypointMatch {
+  waypoint: RouteWaypoint;
+  customer: Customer;
+  distanceMiles: number;
+}
+
+export interface RouteImportResult {
+  route: DailyRoute;
+  matches: WaypointMatch[];
+  unmatched: RouteWaypoint[]; // Waypoints with no customer close enough
+}
+
+// Waypoints further than this from every customer are left out of an import
+export const DEFAULT_MATCH_RADIUS_MILES = 0.1;
+
+const MIME_TYPES: Record<RouteFileFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+/**
+ * GPX 1.1 for a route: a waypoint per stop plus the stops as an ordered route
+ */
+export function exportRouteToGpx(route: DailyRoute, name: string = getDefaultRouteName(route)): string {
+  const stops = route.customers.map(customer => ({
+    tag: `lat="${customer.lat}" lon="${customer.lng}"`,
+    body: `<name>${escapeXml(customer.name)}</name>` +
+      `<desc>${escapeXml(getStopDescription(customer))}</desc>`,
+  }));
+
+  const routePoints = [
+    ...(route.startLocation ? [{ tag: `lat="${route.startLocation.lat}" lon="${route.startLocation.lng}"`, body: '<name>Start</name>' }] : []),
+    ...stops,
+    ...(route.endLocation ? [{ tag: `lat="${route.endLocation.lat}" lon="${route.endLocation.lng}"`, body: '<name>End</name>' }] : []),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="LawnRoute" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(name)}</name><time>${new Date(route.date).toISOString()}</time></metadata>`,
+    ...stops.map(stop => `  <wpt ${stop.tag}>${stop.body}</wpt>`),
+    '  <rte>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...routePoints.map(point => `    <rtept ${point.tag}>${point.body}</rtept>`),
+    '  </rte>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * KML for a route: a placemark per stop and the route path as a line
+ */
+export function exportRouteToKml(route: DailyRoute, name: string = getDefaultRouteName(route)): string {
+  const path = route.optimizedPath.length > 0
+    ? route.optimizedPath
+    : route.customers.map(customer => ({ lat: customer.lat, lng: customer.lng }));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...route.customers.map((customer, index) => [
+      '    <Placemark>',
+      `      <name>${index + 1}. ${escapeXml(customer.name)}</name>`,
+      `      <description>${escapeXml(getStopDescription(customer))}</description>`,
+      `      <Point><coordinates>${customer.lng},${customer.lat}</coordinates></Point>`,
+      '    </Placemark>',
+    ].join('\n')),
+    '    <Placemark>',
+    '      <name>Route</name>',
+    `      <LineString><coordinates>${path.map(point => `${point.lng},${point.lat}`).join(' ')}</coordinates></LineString>`,
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * A route as a downloadable file
+ */
+export function exportRouteFile(
+  route: DailyRoute,
+  format: RouteFileFormat,
+  name?: string
+): { filename: string; mimeType: string; content: string } {
+  return {
+    filename: `route-${route.crewId}-${toDateKey(route.date)}.${format}`,
+    mimeType: MIME_TYPES[format],
+    content: format === 'gpx' ? exportRouteToGpx(route, name) : exportRouteToKml(route, name),
+  };
+}
+
+/**
+ * Download a route as a GPX or KML file
+ */
+export function downloadRouteFile(route: DailyRoute, format: RouteFileFormat, name?: string) {
+  const file = exportRouteFile(route, format, name);
+  const blob = new Blob([file.content], { type: `${file.mimeType};charset=utf-8;` });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', file.filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Waypoints from a GPX or KML file, in file order. GPX route points are used
+ * when the file has a route, else its waypoints. Only KML points are read;
+ * lines and shapes are ignored.
+ */
+export function parseRouteFile(content: string): { format: RouteFileFormat; waypoints: RouteWaypoint[] } {
+  const xml = new DOMParser().parseFromString(content, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+
+  const root = xml.documentElement.localName;
+  if (root === 'gpx') {
+    return { format: 'gpx', waypoints: parseGpxWaypoints(xml) };
+  }
+  if (root === 'kml') {
+    return { format: 'kml', waypoints: parseKmlWaypoints(xml) };
+  }
+  throw new Error('File is not GPX or KML');
+}
+
+/**
+ * Pair waypoints with the nearest customer within the radius. Each customer is
+ * used once, closest pairs first, so two waypoints at one address don't both match.
+ */
+export function matchWaypointsToCustomers(
+  waypoints: RouteWaypoint[],
+  customers: Customer[],
+  maxDistanceMiles: number = DEFAULT_MATCH_RADIUS_MILES
+): { matches: WaypointMatch[]; unmatched: RouteWaypoint[] } {
+  const candidates = waypoints.flatMap((waypoint, waypointIndex) =>
+    customers
+      .map(customer => ({
+        waypointIndex,
+        customer,
+        distanceMiles: haversineMiles(waypoint.lat, waypoint.lng, customer.lat, customer.lng),
+      }))
+      .filter(candidate => candidate.distanceMiles <= maxDistanceMiles)
+  ).sort((a, b) =>
+    a.distanceMiles - b.distanceMiles ||
+    a.waypointIndex - b.waypointIndex ||
+    a.customer.id.localeCompare(b.customer.id)
+  );
+
+  const byWaypoint = new Map<number, { customer: Customer; distanceMiles: number }>();
+  const usedCustomerIds = new Set<string>();
+  candidates.forEach(candidate => {
+    if (byWaypoint.has(candidate.waypointIndex) || usedCustomerIds.has(candidate.customer.id)) return;
+    byWaypoint.set(candidate.waypointIndex, candidate);
+    usedCustomerIds.add(candidate.customer.id);
+  });
+
+  const matches: WaypointMatch[] = [];
+  const unmatched: RouteWaypoint[] = [];
+  waypoints.forEach((waypoint, index) => {
+    const match = byWaypoint.get(index);
+    if (match) {
+      matches.push({ waypoint, customer: match.customer, distanceMiles: match.distanceMiles });
+    } else {
+      unmatched.push(waypoint);
+    }
+  });
+
+  return { matches, unmatched };
+}
+
+/**
+ * Import a GPX or KML file as a crew's route for a date. Matched stops keep
+ * the file's order (each is pinned to its position) and stay with the crew
+ * when the day is regenerated. Replaces any route the crew already has.
+ */
+export const importRouteFile = async (
+  companyId: string,
+  crewId: string,
+  date: Date,
+  content: string,
+  userId: string,
+  maxDistanceMiles: number = DEFAULT_MATCH_RADIUS_MILES
+): Promise<RouteImportResult> => {
+  const { format, waypoints } = parseRouteFile(content);
+  if (waypoints.length === 0) {
+    throw new Error(`No waypoints found in the ${format.toUpperCase()} file`);
+  }
+
+  const customers = (await getCustomers(companyId)).filter(customer => customer.status !== 'inactive');
+  const { matches, unmatched } = matchWaypointsToCustomers(waypoints, customers, maxDistanceMiles);
+  if (matches.length === 0) {
+    throw new Error('No waypoints are close to a customer');
+  }
+
+  const routeCustomers = matches.map(match => match.customer);
+  const route = await resequenceRoute({
+    companyId,
+    crewId,
+    date,
+    customers: routeCustomers,
+    optimizedPath: [],
+    estimatedDuration: 0,
+    totalDistance: 0,
+    stopLocks: routeCustomers.map((customer, position) => ({ customerId: customer.id, position })),
+    manualCustomerIds: routeCustomers.map(customer => customer.id),
+  });
+
+  route.version = await saveRoute(route, {
+    source: 'imported',
+    userId,
+    note: `Imported ${matches.length} stops from ${format.toUpperCase()}` +
+      (unmatched.length > 0 ? ` (${unmatched.length} waypoints unmatched)` : ''),
+  });
+
+  return { route, matches, unmatched };
+};
+
+function parseGpxWaypoints(xml: Document): RouteWaypoint[] {
+  const routePoints = Array.from(xml.getElementsByTagName('rtept'));
+  const points = routePoints.length > 0 ? routePoints : Array.from(xml.getElementsByTagName('wpt'));
+
+  return points
+    .map(point => toWaypoint(
+      Number(point.getAttribute('lat')),
+      Number(point.getAttribute('lon')),
+      getChildText(point, 'name'),
+      getChildText(point, 'desc')
+    ))
+    .filter((waypoint): waypoint is RouteWaypoint => waypoint !== null);
+}
+
+function parseKmlWaypoints(xml: Document): RouteWaypoint[] {
+  return Array.from(xml.getElementsByTagName('Placemark'))
+    .map(placemark => {
+      const point = placemark.getElementsByTagName('Point')[0];
+      const coordinates = point && getChildText(point, 'coordinates');
+      if (!coordinates) return null;
+
+      // KML coordinates are "lng,lat[,altitude]"
+      const [lng, lat] = coordinates.split(',').map(Number);
+      return toWaypoint(lat, lng, getChildText(placemark, 'name'), getChildText(placemark, 'description'));
+    })
+    .filter((waypoint): waypoint is RouteWaypoint => waypoint !== null);
+}
+
+function toWaypoint(lat: number, lng: number, name?: string, description?: string): RouteWaypoint | null {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  return {
+    lat,
+    lng,
+    ...(name && { name }),
+    ...(description && { description }),
+  };
+}
+
+function getChildText(element: Element, localName: string): string | undefined {
+  const child = Array.from(element.childNodes).find(node =>
+    node.nodeType === 1 && (node as Element).localName === localName
+  );
+  return child?.textContent?.trim() || undefined;
+}
+
+function getDefaultRouteName(route: DailyRoute): string {
+  return `Crew ${route.crewId} - ${toDateKey(route.date)}`;
+}
+
+// Address and notes shown on the GPS unit for a stop
+function getStopDescription(customer: Customer): string {
+  return [customer.address, customer.notes].filter(Boolean).join(' - ');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
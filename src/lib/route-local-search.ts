@@ -0,0 +1,169 @@
+/**
+ * Route Local Search
+ *
+ * Pure TypeScript improvement phase for stop sequences. Starting from an
+ * initial order (usually nearest neighbor), repeatedly applies 2-opt,
+ * Or-opt and relocate moves until no move lowers the cost. The start and
+ * end of the route are not part of the sequence, so they stay fixed.
+ */
+
+export interface LocalSearchOptions {
+  maxIterations?: number; // Upper bound on improving moves (default 1000)
+  maxSegmentLength?: number; // Longest segment Or-opt will move (default 3)
+}
+
+export interface LocalSearchResult<T> {
+  sequence: T[];
+  initialCost: number;
+  finalCost: number;
+  iterations: number;
+  moves: {
+    twoOpt: number;
+    orOpt: number;
+    relocate: number;
+  };
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Improve a stop sequence with 2-opt, Or-opt and relocate moves.
+ *
+ * The cost function receives a full candidate sequence and is responsible
+ * for adding the legs from the fixed start and to the fixed end, so any
+ * objective (distance, time, penalties) can be plugged in.
+ */
+export function improveSequence<T>(
+  initial: T[],
+  cost: (sequence: T[]) => number,
+  options: LocalSearchOptions = {}
+): LocalSearchResult<T> {
+  const maxIterations = options.maxIterations ?? 1000;
+  const maxSegmentLength = options.maxSegmentLength ?? 3;
+
+  let sequence = [...initial];
+  let currentCost = cost(sequence);
+  const initialCost = currentCost;
+  const moves = { twoOpt: 0, orOpt: 0, relocate: 0 };
+  let iterations = 0;
+
+  if (sequence.length < 2) {
+    return { sequence, initialCost, finalCost: currentCost, iterations, moves };
+  }
+
+  let improved = true;
+  while (improved && iterations < maxIterations) {
+    improved = false;
+
+    // 2-opt: reverse the segment between i and k
+    const twoOpt = findTwoOptMove(sequence, cost, currentCost);
+    if (twoOpt) {
+      sequence = twoOpt.sequence;
+      currentCost = twoOpt.cost;
+      moves.twoOpt++;
+      iterations++;
+      improved = true;
+      continue;
+    }
+
+    // Relocate (single stop) and Or-opt (segments of 2..maxSegmentLength)
+    for (let length = 1; length <= Math.min(maxSegmentLength, sequence.length - 1); length++) {
+      const move = findSegmentMove(sequence, cost, currentCost, length);
+      if (move) {
+        sequence = move.sequence;
+        currentCost = move.cost;
+        if (length === 1) {
+          moves.relocate++;
+        } else {
+          moves.orOpt++;
+        }
+        iterations++;
+        improved = true;
+        break;
+      }
+    }
+  }
+
+  return { sequence, initialCost, finalCost: currentCost, iterations, moves };
+}
+
+/**
+ * Find the first 2-opt move that lowers the cost
+ */
+function findTwoOptMove<T>(
+  sequence: T[],
+  cost: (sequence: T[]) => number,
+  currentCost: number
+): { sequence: T[]; cost: number } | null {
+  for (let i = 0; i < sequence.length - 1; i++) {
+    for (let k = i + 1; k < sequence.length; k++) {
+      const candidate = [
+        ...sequence.slice(0, i),
+        ...sequence.slice(i, k + 1).reverse(),
+        ...sequence.slice(k + 1),
+      ];
+      const candidateCost = cost(candidate);
+      if (candidateCost < currentCost - EPSILON) {
+        return { sequence: candidate, cost: candidateCost };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the first move of a segment of the given length (optionally reversed)
+ * to another position that lowers the cost
+ */
+function findSegmentMove<T>(
+  sequence: T[],
+  cost: (sequence: T[]) => number,
+  currentCost: number,
+  length: number
+): { sequence: T[]; cost: number } | null {
+  for (let i = 0; i + length <= sequence.length; i++) {
+    const segment = sequence.slice(i, i + length);
+    const rest = [...sequence.slice(0, i), ...sequence.slice(i + length)];
+
+    for (let j = 0; j <= rest.length; j++) {
+      if (j === i) continue; // Same position
+
+      const variants = length > 1 ? [segment, [...segment].reverse()] : [segment];
+      for (const variant of variants) {
+        const candidate = [...rest.slice(0, j), ...variant, ...rest.slice(j)];
+        const candidateCost = cost(candidate);
+        if (candidateCost < currentCost - EPSILON) {
+          return { sequence: candidate, cost: candidateCost };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Merge a free sequence with items locked to positions. Each locked item
+ * goes to its position when it can; collisions push it later, and positions
+ * past the end of the route are pulled back to the end.
+ */
+export function insertLockedItems<T>(
+  free: T[],
+  locked: { item: T; position: number }[]
+): T[] {
+  if (locked.length === 0) return free;
+
+  const pending = [...locked].sort((a, b) => a.position - b.position);
+  const total = free.length + locked.length;
+  const result: T[] = [];
+  let freeIndex = 0;
+
+  for (let index = 0; index < total; index++) {
+    if (pending.length > 0 && (pending[0].position <= index || freeIndex >= free.length)) {
+      result.push(pending.shift()!.item);
+    } else {
+      result.push(free[freeIndex++]);
+    }
+  }
+
+  return result;
+}
@@ -9,7 +9,8 @@ import {
   Timestamp,
   serverTimestamp
 } from 'firebase/firestore';
-import type { RouteMetrics, Route } from './types';
+import { estimateTravel, getTravelMatrixProvider } from './travel-matrix-service';
+import type { RouteMetrics, Route, RouteStop } from './types';
 
 /**
  * Save route metrics to Firebase
@@ -26,7 +27,7 @@ export async function saveRouteMetrics(
   let totalWorkTime = 0;
   const totalBreakTime = 0;
 
-  const stopMetrics = route.stops.map(stop => {
+  const stopMetrics = route.stops.map((stop, index) => {
     const driveTime = stop.driveTime || 0;
     const workTime = stop.workTime || 0;
 
@@ -39,9 +40,14 @@ export async function saveRouteMetrics(
 
     return {
       customerId: stop.customerId,
+      ...(stop.serviceType && { serviceType: stop.serviceType }),
+      ...(stop.serviceTypes && stop.serviceTypes.length > 1 && { serviceTypes: stop.serviceTypes }),
       driveTime,
       workTime,
-      efficiency
+      efficiency,
+      ...(driveTime > 0 && getLegEstimate(route.stops, index)),
+      ...(stop.arrivalSource && { arrivalSource: stop.arrivalSource }),
+      ...(stop.departureSource && { departureSource: stop.departureSource }),
     };
   });
 
@@ -65,6 +71,25 @@ export async function saveRouteMetrics(
   return docRef.id;
 }
 
+/**
+ * Estimates for the drive to a stop from the last stop the crew left, so
+ * drive time corrections can be learned from the recorded minutes
+ */
+function getLegEstimate(stops: RouteStop[], index: number) {
+  const stop = stops[index];
+  const previousStop = stops.slice(0, index).reverse().find(candidate => candidate.actualDeparture);
+  if (!previousStop?.actualDeparture) return null;
+
+  const departure = new Date(previousStop.actualDeparture);
+  return {
+    predictedDriveTime: getTravelMatrixProvider().estimate(previousStop, stop).durationMinutes,
+    correctedDriveTime: estimateTravel(previousStop, stop, departure).durationMinutes,
+    departureHour: departure.getHours(),
+    lat: stop.lat,
+    lng: stop.lng,
+  };
+}
+
 /**
  * Get route metrics for a specific date range
  */
@@ -1,5 +1,7 @@
-import { calculateDistance } from './location-utils'
-import type { Route, RouteStop } from './types'
+import { estimateTravel } from './travel-matrix-service'
+import { getBlockingChecklistItems } from './checklist-service'
+import type { ChecklistItemResult } from './firebase-types'
+import type { Route, RouteStop, StopSignature, TimestampSource } from './types'
 
 export interface RouteProgress {
   crewId: string
@@ -43,6 +45,12 @@ export interface CrewLocation {
   employeeCount: number
 }
 
+const METERS_PER_MILE = 1609.344
+
+// Road distance between two points in meters, from the shared travel matrix provider
+const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number =>
+  estimateTravel({ lat: lat1, lng: lng1 }, { lat: lat2, lng: lng2 }).distanceMiles * METERS_PER_MILE
+
 export class RouteProgressCalculator {
   private static readonly ON_TIME_THRESHOLD = 15 // minutes
   private static readonly PROGRESS_WEIGHTS = {
@@ -107,7 +115,7 @@ export class RouteProgressCalculator {
       
       // Distance metrics
       distanceTraveled: distanceProgress.traveled,
-      totalDistance: route.totalDistance,
+      totalDistance: Math.round(route.totalDistance * METERS_PER_MILE),
       distanceProgress: distanceProgress.percentage,
       
       // Time metrics
@@ -179,8 +187,9 @@ export class RouteProgressCalculator {
       }
     }
     
-    const percentage = route.totalDistance > 0 ? 
-      Math.min(100, (distanceTraveled / route.totalDistance) * 100) : 0
+    const totalDistanceMeters = route.totalDistance * METERS_PER_MILE // Route distances are in miles
+    const percentage = totalDistanceMeters > 0 ?
+      Math.min(100, (distanceTraveled / totalDistanceMeters) * 100) : 0
     
     return { traveled: Math.round(distanceTraveled), percentage: Math.round(percentage) }
   }
@@ -403,14 +412,16 @@ export class RouteProgressCalculator {
   static recordStopArrival(
     route: Route,
     customerId: string,
-    arrivalTime: Date = new Date()
+    arrivalTime: Date = new Date(),
+    source: TimestampSource = 'manual'
   ): Route {
     const updatedStops = route.stops.map(stop => {
       if (stop.customerId === customerId) {
         return {
           ...stop,
           status: 'in_progress' as const,
-          actualArrival: arrivalTime
+          actualArrival: arrivalTime,
+          arrivalSource: source
         }
       }
       return stop
@@ -424,12 +435,14 @@ export class RouteProgressCalculator {
   }
 
   /**
-   * Record stop departure time and calculate work/drive times
+   * Record stop departure time and calculate work/drive times.
+   * Throws while required checklist items are neither done nor waived with a reason.
    */
   static recordStopDeparture(
     route: Route,
     customerId: string,
-    departureTime: Date = new Date()
+    departureTime: Date = new Date(),
+    source: TimestampSource = 'manual'
   ): Route {
     const stopIndex = route.stops.findIndex(s => s.customerId === customerId)
     if (stopIndex === -1) return route
@@ -437,6 +450,11 @@ export class RouteProgressCalculator {
     const stop = route.stops[stopIndex]
     const previousStop = stopIndex > 0 ? route.stops[stopIndex - 1] : null
 
+    const blocking = getBlockingChecklistItems(stop.checklist)
+    if (blocking.length > 0) {
+      throw new Error(`Checklist incomplete: ${blocking.map(item => item.label).join(', ')}`)
+    }
+
     // Calculate work time
     const workTime = stop.actualArrival
       ? Math.round((departureTime.getTime() - (stop.actualArrival instanceof Date ? stop.actualArrival.getTime() : new Date(stop.actualArrival).getTime())) / 1000 / 60)
@@ -456,6 +474,7 @@ export class RouteProgressCalculator {
           ...s,
           status: 'completed' as const,
           actualDeparture: departureTime,
+          departureSource: source,
           workTime,
           driveTime
         }
@@ -463,8 +482,8 @@ export class RouteProgressCalculator {
       return s
     })
 
-    // Check if all stops are completed
-    const allCompleted = updatedStops.every(s => s.status === 'completed')
+    // Check if all stops are completed (skipped stops count as done for the day)
+    const allCompleted = updatedStops.every(s => s.status === 'completed' || s.status === 'skipped')
 
     return {
       ...route,
@@ -473,6 +492,34 @@ export class RouteProgressCalculator {
     }
   }
 
+  /**
+   * Skip a stop (customer not home, gate locked, weather)
+   */
+  static skipStop(
+    route: Route,
+    customerId: string,
+    reason?: string
+  ): Route {
+    const updatedStops = route.stops.map(stop => {
+      if (stop.customerId === customerId) {
+        return {
+          ...stop,
+          status: 'skipped' as const,
+          notes: reason || stop.notes
+        }
+      }
+      return stop
+    })
+
+    const allDone = updatedStops.every(s => s.status === 'completed' || s.status === 'skipped')
+
+    return {
+      ...route,
+      stops: updatedStops,
+      status: allDone ? 'completed' : 'in_progress'
+    }
+  }
+
   /**
    * Pause a stop (for breaks, interruptions)
    */
@@ -521,6 +568,56 @@ export class RouteProgressCalculator {
     }
   }
 
+  /**
+   * Save the crew's notes for a stop
+   */
+  static updateStopNotes(
+    route: Route,
+    customerId: string,
+    notes: string
+  ): Route {
+    return {
+      ...route,
+      stops: route.stops.map(stop =>
+        stop.customerId === customerId ? { ...stop, notes } : stop
+      )
+    }
+  }
+
+  /**
+   * Save the crew's checklist progress for a stop
+   */
+  static updateStopChecklist(
+    route: Route,
+    customerId: string,
+    checklist: ChecklistItemResult[]
+  ): Route {
+    return {
+      ...route,
+      stops: route.stops.map(stop =>
+        stop.customerId === customerId ? { ...stop, checklist } : stop
+      )
+    }
+  }
+
+  /**
+   * Save or clear the customer's signature for a stop
+   */
+  static updateStopSignature(
+    route: Route,
+    customerId: string,
+    signature: StopSignature | undefined
+  ): Route {
+    return {
+      ...route,
+      stops: route.stops.map(stop => {
+        if (stop.customerId !== customerId) return stop
+        const { signature: _previous, ...rest } = stop
+        return signature ? { ...rest, signature } : rest
+      })
+    }
+  }
+
   /**
    * Get stop with arrival/departure times
    */
@@ -0,0 +1,360 @@
+/**
+ * Route Replan Service
+ *
+ * Mid-day re-planning when a crew falls behind or skips a stop. The crew's
+ * device proposes a new order for the remaining stops from its current
+ * position, deferring low-priority stops to their next service day when the
+ * route no longer fits in the shift. A manager approves or rejects the
+ * proposal; approved plans are saved as a new route version, which the
+ * crew's route view picks up.
+ */
+
+import {
+  collection,
+  addDoc,
+  doc,
+  updateDoc,
+  getDocs,
+  query,
+  where,
+  onSnapshot,
+  Timestamp,
+} from 'firebase/firestore';
+import { getFirebaseDb } from './firebase';
+import { calculateScheduleStatus, isSignificantlyDelayed } from './schedule-status-service';
+import { replanRemainingStops, resequenceRoute } from './route-service';
+import { getDayOfWeek } from './scheduling-engine';
+import { isWorkingDay } from './company-calendar';
+import { getDueRecurringServices } from './service-recurrence';
+import { moveServiceOccurrence } from './customer-service';
+import { toDateKey } from './time-utils';
+import { getRouteId, getStoredRoute, saveRoute } from './route-storage-service';
+import type { Company, Customer, DailyRoute, ReplanTrigger, RouteReplanProposal } from './firebase-types';
+import type { Route } from './types';
+
+/**
+ * Why a route needs re-planning, if it does.
+ * Skips already covered by an earlier proposal are passed in so they don't trigger again.
+ */
+export function getReplanTrigger(
+  route: Route,
+  handledSkippedIds: string[] = [],
+  currentTime: Date = new Date()
+): ReplanTrigger | null {
+  const hasNewSkip = route.stops.some(stop =>
+    stop.status === 'skipped' && !handledSkippedIds.includes(stop.customerId)
+  );
+  if (hasNewSkip) {
+    return 'stop_skipped';
+  }
+
+  const hasRemainingStops = route.stops.some(stop => stop.status === 'pending');
+  if (hasRemainingStops && isSignificantlyDelayed(route, currentTime)) {
+    return 'delayed';
+  }
+
+  return null;
+}
+
+/**
+ * Build a re-plan for a crew's route and store it for manager approval.
+ * Returns the already pending proposal for the route instead of creating a second one.
+ */
+export const proposeReplan = async (
+  companyId: string,
+  route: Route,
+  trigger: ReplanTrigger,
+  requestedBy: string,
+  currentLocation?: { lat: number; lng: number },
+  currentTime: Date = new Date()
+): Promise<RouteReplanProposal | null> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const dailyRoute = await getStoredRoute(companyId, route.crewId, route.date);
+  if (!dailyRoute) {
+    return null;
+  }
+
+  const routeId = getRouteId(companyId, route.crewId, route.date);
+  const pending = await getDocs(query(
+    collection(db, 'route_replans'),
+    where('companyId', '==', companyId),
+    where('routeId', '==', routeId),
+    where('status', '==', 'pending')
+  ));
+  if (!pending.empty) {
+    return { id: pending.docs[0].id, ...pending.docs[0].data() } as RouteReplanProposal;
+  }
+
+  const finishedStops = route.stops.filter(stop => stop.status === 'completed' || stop.status === 'in_progress');
+  const skippedCustomerIds = route.stops.filter(stop => stop.status === 'skipped').map(stop => stop.customerId);
+
+  // Without GPS, assume the crew is at the last stop it reached
+  const lastFinishedStop = finishedStops[finishedStops.length - 1];
+  const fromLocation = currentLocation ||
+    (lastFinishedStop ? { lat: lastFinishedStop.lat, lng: lastFinishedStop.lng } : dailyRoute.optimizedPath[0]);
+  if (!fromLocation) {
+    return null;
+  }
+
+  const plan = await replanRemainingStops(dailyRoute, fromLocation, {
+    finishedCustomerIds: finishedStops.map(stop => stop.customerId),
+    skippedCustomerIds,
+    allowDeferrals: true,
+    currentTime,
+  });
+
+  const { getCompany } = await import('./company-service');
+  const company = await getCompany(companyId);
+
+  const finishedCustomerIds = finishedStops.map(stop => stop.customerId);
+  const proposal: Omit<RouteReplanProposal, 'id'> = {
+    companyId,
+    crewId: route.crewId,
+    routeId,
+    date: Timestamp.fromDate(dailyRoute.date),
+    trigger,
+    minutesBehind: Math.max(0, calculateScheduleStatus(route, currentTime).minutesDelta),
+    fromLocation: { lat: fromLocation.lat, lng: fromLocation.lng },
+    finishedCustomerIds,
+    proposedCustomerIds: plan.route.customers
+      .map(customer => customer.id)
+      .filter(customerId => !finishedCustomerIds.includes(customerId)),
+    skippedCustomerIds,
+    deferrals: plan.deferredCustomers.map(customer => ({
+      customerId: customer.id,
+      deferTo: Timestamp.fromDate(getNextServiceDate(customer, dailyRoute.date, company)),
+      reason: skippedCustomerIds.includes(customer.id) ? 'skipped' as const : 'over_shift' as const,
+    })),
+    estimatedFinishTime: plan.estimatedFinishTime,
+    estimatedDuration: plan.route.estimatedDuration,
+    totalDistance: plan.route.totalDistance,
+    ...(plan.route.stopSchedule && { stopSchedule: plan.route.stopSchedule }),
+    ...(plan.route.endLocation && { endLocation: plan.route.endLocation }),
+    status: 'pending',
+    requestedBy,
+    createdAt: Timestamp.now(),
+  };
+
+  const docRef = await addDoc(collection(db, 'route_replans'), proposal);
+  console.log(`Proposed re-plan for crew ${route.crewId} (${trigger}), deferring ${proposal.deferrals.length} stops`);
+  return { id: docRef.id, ...proposal };
+};
+
+/**
+ * Apply a proposal: save the new order as a route version and move deferred
+ * stops onto the crew's route for their next service day (if already planned)
+ */
+export const approveReplan = async (
+  proposal: RouteReplanProposal,
+  reviewerId: string
+): Promise<DailyRoute | null> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const date = proposal.date.toDate();
+  const dailyRoute = await getStoredRoute(proposal.companyId, proposal.crewId, date);
+  if (!dailyRoute) {
+    return null;
+  }
+
+  const customersById = new Map(dailyRoute.customers.map(customer => [customer.id, customer]));
+  const customers = [...proposal.finishedCustomerIds, ...proposal.proposedCustomerIds]
+    .map(customerId => customersById.get(customerId))
+    .filter(Boolean) as Customer[];
+  const remainingCustomers = customers.filter(customer => !proposal.finishedCustomerIds.includes(customer.id));
+  const endLocation = proposal.endLocation || dailyRoute.endLocation;
+
+  const updatedRoute: DailyRoute = {
+    ...dailyRoute,
+    customers,
+    optimizedPath: [
+      proposal.fromLocation,
+      ...remainingCustomers.map(customer => ({ lat: customer.lat, lng: customer.lng })),
+      ...(endLocation ? [endLocation] : []),
+    ],
+    ...(endLocation && { endLocation }),
+    estimatedDuration: proposal.estimatedDuration,
+    totalDistance: proposal.totalDistance,
+    stopSchedule: proposal.stopSchedule,
+    unhonoredTimeWindows: proposal.stopSchedule
+      ?.filter(stop => !stop.withinWindow)
+      .map(stop => stop.customerId),
+    stopLocks: (dailyRoute.stopLocks || []).filter(lock =>
+      lock.time && remainingCustomers.some(customer => customer.id === lock.customerId)
+    ),
+  };
+
+  updatedRoute.version = await saveRoute(updatedRoute, {
+    source: 'reoptimized',
+    userId: reviewerId,
+    note: proposal.trigger === 'delayed'
+      ? `Mid-day re-plan, ${proposal.minutesBehind} min behind`
+      : 'Mid-day re-plan after a skipped stop',
+  });
+
+  for (const deferral of proposal.deferrals) {
+    const customer = customersById.get(deferral.customerId);
+    if (customer) {
+      await deferCustomer(proposal, customer, deferral.deferTo.toDate(), reviewerId);
+    }
+  }
+
+  await updateDoc(doc(db, 'route_replans', proposal.id), {
+    status: 'approved',
+    reviewedBy: reviewerId,
+    reviewedAt: Timestamp.now(),
+  });
+
+  return updatedRoute;
+};
+
+/**
+ * Dismiss a proposal; the crew keeps its current order
+ */
+export const rejectReplan = async (proposal: RouteReplanProposal, reviewerId: string): Promise<void> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  await updateDoc(doc(db, 'route_replans', proposal.id), {
+    status: 'rejected',
+    reviewedBy: reviewerId,
+    reviewedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * Subscribe to proposals waiting for a manager in a company
+ */
+export const subscribeToPendingReplans = (
+  companyId: string,
+  callback: (proposals: RouteReplanProposal[]) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const q = query(
+    collection(db, 'route_replans'),
+    where('companyId', '==', companyId),
+    where('status', '==', 'pending')
+  );
+
+  return onSnapshot(
+    q,
+    querySnapshot => {
+      const proposals = querySnapshot.docs
+        .map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as RouteReplanProposal)
+        .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+      callback(proposals);
+    },
+    error => {
+      console.error('Error listening to pending re-plans:', error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Subscribe to every proposal for a crew (the crew's view reloads its route on approval)
+ */
+export const subscribeToCrewReplans = (
+  companyId: string,
+  crewId: string,
+  callback: (proposals: RouteReplanProposal[]) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const q = query(
+    collection(db, 'route_replans'),
+    where('companyId', '==', companyId),
+    where('crewId', '==', crewId)
+  );
+
+  return onSnapshot(
+    q,
+    querySnapshot => {
+      callback(querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as RouteReplanProposal));
+    },
+    error => {
+      console.error('Error listening to crew re-plans:', error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Next open day after the given date that the customer prefers service (within a week),
+ * else the next open day
+ */
+export function getNextServiceDate(customer: Customer, after: Date, company: Company | null = null): Date {
+  const preferredDays = customer.servicePreferences?.preferredDays || [];
+  let firstOpenDay: Date | null = null;
+
+  for (let offset = 1; offset <= 7; offset++) {
+    const candidate = new Date(after);
+    candidate.setDate(candidate.getDate() + offset);
+    if (!isWorkingDay(company, candidate)) continue;
+    if (preferredDays.length === 0 || preferredDays.includes(getDayOfWeek(candidate))) {
+      return candidate;
+    }
+    firstOpenDay = firstOpenDay || candidate;
+  }
+
+  if (firstOpenDay) return firstOpenDay;
+
+  const nextDay = new Date(after);
+  nextDay.setDate(nextDay.getDate() + 1);
+  return nextDay;
+}
+
+/**
+ * Add a deferred customer to the crew's stored route for that day.
+ * Days that aren't planned yet pick the customer up when they are generated;
+ * recurring services are moved so their pattern doesn't drop the job.
+ */
+const deferCustomer = async (
+  proposal: RouteReplanProposal,
+  customer: Customer,
+  deferTo: Date,
+  reviewerId: string
+): Promise<void> => {
+  const date = proposal.date.toDate();
+
+  for (const service of getDueRecurringServices(customer.services, date)) {
+    await moveServiceOccurrence(customer.id, service.id, toDateKey(date), toDateKey(deferTo), {
+      reason: 'Deferred by mid-day re-plan',
+      userId: reviewerId,
+    });
+  }
+
+  const nextRoute = await getStoredRoute(proposal.companyId, proposal.crewId, deferTo);
+  if (!nextRoute || nextRoute.customers.some(existing => existing.id === customer.id)) {
+    return;
+  }
+
+  const resequenced = await resequenceRoute({
+    ...nextRoute,
+    customers: [...nextRoute.customers, customer],
+    manualCustomerIds: [...(nextRoute.manualCustomerIds || []), customer.id],
+  });
+
+  await saveRoute(resequenced, {
+    source: 'edited',
+    userId: reviewerId,
+    note: `Deferred ${customer.name} from ${proposal.date.toDate().toDateString()}`,
+  });
+};
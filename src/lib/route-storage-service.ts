@@ -0,0 +1,268 @@
+/**
+ * Route Storage Service
+ *
+ * Persists daily routes in the `routes` collection, one document per
+ * company/crew/date, so every device and crew member sees the same plan.
+ * Each save bumps the plan version and keeps a snapshot in the route's
+ * `versions` subcollection.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  runTransaction,
+  Timestamp,
+} from 'firebase/firestore';
+import { getFirebaseDb } from './firebase';
+import { getCustomers } from './customer-service';
+import { toDateKey } from './time-utils';
+import type {
+  Customer,
+  DailyRoute,
+  RoutePlanSource,
+  RouteVersion,
+  StoredRoute,
+  StoredRoutePlan,
+} from './firebase-types';
+
+export interface SaveRouteOptions {
+  source: RoutePlanSource;
+  userId?: string; // Who made the change (omit for automatic plans)
+  note?: string;
+  ifMissing?: boolean; // Keep an existing plan instead of writing a new version
+}
+
+/**
+ * Deterministic document ID for a crew's route on a date
+ */
+export const getRouteId = (companyId: string, crewId: string, date: Date): string => {
+  return `${companyId}_${crewId}_${toDateKey(date)}`;
+};
+
+/**
+ * Save a route as the crew's current plan and record it as a new version.
+ * Returns the stored version number.
+ */
+export const saveRoute = async (route: DailyRoute, options: SaveRouteOptions): Promise<number> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const routeId = getRouteId(route.companyId, route.crewId, route.date);
+  const routeRef = doc(db, 'routes', routeId);
+  const plan = toStoredPlan(route);
+
+  return runTransaction(db, async transaction => {
+    const existing = await transaction.get(routeRef);
+    if (existing.exists() && options.ifMissing) {
+      return (existing.data() as StoredRoute).version;
+    }
+
+    const version = existing.exists() ? (existing.data() as StoredRoute).version + 1 : 1;
+    const now = Timestamp.now();
+
+    transaction.set(routeRef, {
+      ...plan,
+      version,
+      source: options.source,
+      ...(options.userId && { updatedBy: options.userId }),
+      updatedAt: now,
+    });
+
+    transaction.set(doc(db, 'routes', routeId, 'versions', String(version)), {
+      ...plan,
+      version,
+      source: options.source,
+      ...(options.userId && { createdBy: options.userId }),
+      ...(options.note && { note: options.note }),
+      createdAt: now,
+    });
+
+    return version;
+  });
+};
+
+/**
+ * Save several routes (e.g. a whole day's plan)
+ */
+export const saveRoutes = async (routes: DailyRoute[], options: SaveRouteOptions): Promise<void> => {
+  for (const route of routes) {
+    route.version = await saveRoute(route, options);
+    route.id = getRouteId(route.companyId, route.crewId, route.date);
+  }
+};
+
+/**
+ * Get the stored route for a crew on a date, with customer details filled in
+ */
+export const getStoredRoute = async (
+  companyId: string,
+  crewId: string,
+  date: Date,
+  customers?: Customer[]
+): Promise<DailyRoute | null> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const docSnap = await getDoc(doc(db, 'routes', getRouteId(companyId, crewId, date)));
+  if (!docSnap.exists()) {
+    return null;
+  }
+
+  const storedRoute = { id: docSnap.id, ...docSnap.data() } as StoredRoute;
+  return toDailyRoute(storedRoute, customers ?? await getCustomers(companyId));
+};
+
+/**
+ * Subscribe to a crew's stored route on a date, so its view picks up new versions
+ * as soon as they're saved. The callback gets null while no plan is stored.
+ * Listener errors (e.g. permission denied) are logged and passed to onError.
+ */
+export const subscribeToStoredRoute = (
+  companyId: string,
+  crewId: string,
+  date: Date,
+  callback: (route: StoredRoute | null) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  return onSnapshot(
+    doc(db, 'routes', getRouteId(companyId, crewId, date)),
+    docSnap => {
+      callback(docSnap.exists() ? { id: docSnap.id, ...docSnap.data() } as StoredRoute : null);
+    },
+    error => {
+      console.error('Error listening to stored route:', error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Get all stored routes for a company on a date
+ */
+export const getStoredRoutesForDate = async (
+  companyId: string,
+  date: Date,
+  customers?: Customer[]
+): Promise<DailyRoute[]> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const q = query(
+    collection(db, 'routes'),
+    where('companyId', '==', companyId),
+    where('dateKey', '==', toDateKey(date))
+  );
+  const querySnapshot = await getDocs(q);
+  if (querySnapshot.empty) {
+    return [];
+  }
+
+  const allCustomers = customers ?? await getCustomers(companyId);
+  return querySnapshot.docs.map(docSnap =>
+    toDailyRoute({ id: docSnap.id, ...docSnap.data() } as StoredRoute, allCustomers)
+  );
+};
+
+/**
+ * Version history for a crew's route on a date, newest first
+ */
+export const getRouteVersions = async (
+  companyId: string,
+  crewId: string,
+  date: Date
+): Promise<RouteVersion[]> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const q = query(
+    collection(db, 'routes', getRouteId(companyId, crewId, date), 'versions'),
+    orderBy('version', 'desc')
+  );
+  const querySnapshot = await getDocs(q);
+
+  return querySnapshot.docs.map(docSnap => ({
+    id: docSnap.id,
+    ...docSnap.data(),
+  })) as RouteVersion[];
+};
+
+/**
+ * Firestore shape of a route: customers by ID, no undefined fields
+ */
+const toStoredPlan = (route: DailyRoute): StoredRoutePlan => {
+  return {
+    companyId: route.companyId,
+    crewId: route.crewId,
+    date: Timestamp.fromDate(route.date),
+    dateKey: toDateKey(route.date),
+    customerIds: route.customers.map(customer => customer.id),
+    optimizedPath: route.optimizedPath.map(point => ({ lat: point.lat, lng: point.lng })),
+    estimatedDuration: route.estimatedDuration,
+    totalDistance: route.totalDistance,
+    ...(route.cost && { cost: route.cost }),
+    ...(route.improvement && { improvement: route.improvement }),
+    ...(route.stopSchedule && { stopSchedule: route.stopSchedule }),
+    ...(route.unhonoredTimeWindows && { unhonoredTimeWindows: route.unhonoredTimeWindows }),
+    ...(route.stopLocks?.length && {
+      stopLocks: route.stopLocks.map(lock => ({
+        customerId: lock.customerId,
+        ...(lock.position !== undefined && { position: lock.position }),
+        ...(lock.time && { time: lock.time }),
+      })),
+    }),
+    ...(route.manualCustomerIds?.length && { manualCustomerIds: route.manualCustomerIds }),
+    ...(route.serviceEstimates?.length && { serviceEstimates: route.serviceEstimates }),
+    ...(route.startLocation && { startLocation: { lat: route.startLocation.lat, lng: route.startLocation.lng } }),
+    ...(route.endLocation && { endLocation: { lat: route.endLocation.lat, lng: route.endLocation.lng } }),
+  };
+};
+
+/**
+ * Rebuild a DailyRoute from storage using current customer data.
+ * Customers deleted since the plan was saved are dropped.
+ */
+const toDailyRoute = (storedRoute: StoredRoute, customers: Customer[]): DailyRoute => {
+  const customersById = new Map(customers.map(customer => [customer.id, customer]));
+
+  return {
+    id: storedRoute.id,
+    companyId: storedRoute.companyId,
+    crewId: storedRoute.crewId,
+    date: storedRoute.date.toDate(),
+    customers: storedRoute.customerIds
+      .map(customerId => customersById.get(customerId))
+      .filter(Boolean) as Customer[],
+    optimizedPath: storedRoute.optimizedPath,
+    estimatedDuration: storedRoute.estimatedDuration,
+    totalDistance: storedRoute.totalDistance,
+    cost: storedRoute.cost,
+    improvement: storedRoute.improvement,
+    stopSchedule: storedRoute.stopSchedule,
+    unhonoredTimeWindows: storedRoute.unhonoredTimeWindows,
+    version: storedRoute.version,
+    stopLocks: storedRoute.stopLocks,
+    manualCustomerIds: storedRoute.manualCustomerIds,
+    serviceEstimates: storedRoute.serviceEstimates,
+    startLocation: storedRoute.startLocation,
+    endLocation: storedRoute.endLocation,
+  };
+};
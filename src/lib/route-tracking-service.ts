@@ -4,7 +4,9 @@
  * Handles automatic arrival/departure detection and time tracking for route stops
  */
 
-import { Route, RouteStop } from './types';
+import { Route, RouteStop, TimestampSource } from './types';
+import { haversineMiles } from './location-utils';
+import { getBlockingChecklistItems } from './checklist-service';
 
 /**
  * Calculate distance between two coordinates using Haversine formula
@@ -16,18 +18,7 @@ export function calculateDistance(
   lat2: number,
   lng2: number
 ): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lng2 - lng1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c; // Distance in meters
+  return haversineMiles(lat1, lng1, lat2, lng2) * 1609.344; // Distance in meters
 }
 
 /**
@@ -171,22 +162,34 @@ export function autoDetectArrival(
 /**
  * Mark a stop as arrived (updates the stop object)
  */
-export function markStopArrival(stop: RouteStop, arrivalTime?: Date): RouteStop {
+export function markStopArrival(
+  stop: RouteStop,
+  arrivalTime?: Date,
+  source: TimestampSource = 'manual'
+): RouteStop {
   return {
     ...stop,
     status: 'in_progress',
     actualArrival: arrivalTime || new Date(),
+    arrivalSource: source,
   };
 }
 
 /**
- * Mark a stop as departed/completed (updates the stop object and calculates times)
+ * Mark a stop as departed/completed (updates the stop object and calculates times).
+ * Throws while required checklist items are neither done nor waived with a reason.
  */
 export function markStopDeparture(
   stop: RouteStop,
   previousStop: RouteStop | null,
-  departureTime?: Date
+  departureTime?: Date,
+  source: TimestampSource = 'manual'
 ): RouteStop {
+  const blocking = getBlockingChecklistItems(stop.checklist);
+  if (blocking.length > 0) {
+    throw new Error(`Checklist incomplete: ${blocking.map(item => item.label).join(', ')}`);
+  }
+
   const departure = departureTime || new Date();
   const workTime = stop.actualArrival
     ? Math.round((departure.getTime() - (stop.actualArrival instanceof Date ? stop.actualArrival.getTime() : new Date(stop.actualArrival).getTime())) / 1000 / 60)
@@ -203,11 +206,162 @@ export function markStopDeparture(
     ...stop,
     status: 'completed',
     actualDeparture: departure,
+    departureSource: source,
     workTime,
     driveTime,
   };
 }
 
+export interface GeofenceSettings {
+  entryRadiusMeters: number; // Closer than this starts an arrival
+  exitRadiusMeters: number; // Farther than this starts a departure; wider than entry so GPS jitter at the edge doesn't flap
+  minDwellSeconds: number; // How long the crew must stay in (or out) before it counts
+  maxAccuracyMeters: number; // Fixes less accurate than this are ignored
+}
+
+export const DEFAULT_GEOFENCE_SETTINGS: GeofenceSettings = {
+  entryRadiusMeters: 50,
+  exitRadiusMeters: 100,
+  minDwellSeconds: 120,
+  maxAccuracyMeters: 100,
+};
+
+export interface LocationSample {
+  lat: number;
+  lng: number;
+  accuracy?: number; // Meters
+  timestamp: number; // Epoch milliseconds
+}
+
+export interface GeofenceState {
+  customerId: string | null; // Stop being entered or exited
+  phase: 'outside' | 'entering' | 'inside' | 'exiting';
+  since?: number; // When the current phase started (epoch milliseconds)
+  ignoredCustomerId?: string; // Stop whose detection the crew undid, ignored until they move on
+}
+
+export interface GeofenceEvent {
+  type: 'arrival' | 'departure';
+  customerId: string;
+  customerName: string;
+  at: Date; // When the crew crossed the boundary, not when the dwell time ran out
+}
+
+export const INITIAL_GEOFENCE_STATE: GeofenceState = { customerId: null, phase: 'outside' };
+
+/**
+ * Advance the geofence state machine by one location sample. Arrivals are
+ * detected at the nearest pending stop once the crew has stayed within the
+ * exit radius for the dwell time after entering the entry radius; departures
+ * once they've stayed beyond the exit radius of the in-progress stop for the
+ * dwell time. Events are timestamped when the boundary was first crossed.
+ */
+export function updateGeofence(
+  state: GeofenceState,
+  sample: LocationSample,
+  route: Route,
+  settings: GeofenceSettings = DEFAULT_GEOFENCE_SETTINGS
+): { state: GeofenceState; event?: GeofenceEvent } {
+  if (sample.accuracy !== undefined && sample.accuracy > settings.maxAccuracyMeters) {
+    return { state };
+  }
+
+  const dwellMs = settings.minDwellSeconds * 1000;
+  const distanceTo = (stop: RouteStop) => calculateDistance(sample.lat, sample.lng, stop.lat, stop.lng);
+
+  // An undone arrival is ignored until the crew leaves the stop, an undone departure until they come back
+  let ignoredCustomerId = state.ignoredCustomerId;
+  const ignoredStop = ignoredCustomerId && route.stops.find(stop => stop.customerId === ignoredCustomerId);
+  if (!ignoredStop
+    || (ignoredStop.status === 'pending' && distanceTo(ignoredStop) > settings.exitRadiusMeters)
+    || (ignoredStop.status === 'in_progress' && distanceTo(ignoredStop) <= settings.exitRadiusMeters)
+    || (ignoredStop.status !== 'pending' && ignoredStop.status !== 'in_progress')) {
+    ignoredCustomerId = undefined;
+  }
+  const next = (nextState: GeofenceState): GeofenceState =>
+    ignoredCustomerId ? { ...nextState, ignoredCustomerId } : nextState;
+
+  // At a stop: watch for the crew leaving it
+  const currentStop = getCurrentStop(route);
+  if (currentStop) {
+    if (currentStop.customerId === ignoredCustomerId) {
+      return { state: next(INITIAL_GEOFENCE_STATE) };
+    }
+
+    if (distanceTo(currentStop) <= settings.exitRadiusMeters) {
+      return { state: next({ customerId: currentStop.customerId, phase: 'inside' }) };
+    }
+
+    if (state.customerId !== currentStop.customerId || state.phase !== 'exiting' || state.since === undefined) {
+      return { state: next({ customerId: currentStop.customerId, phase: 'exiting', since: sample.timestamp }) };
+    }
+
+    if (sample.timestamp - state.since >= dwellMs) {
+      return {
+        state: next(INITIAL_GEOFENCE_STATE),
+        event: {
+          type: 'departure',
+          customerId: currentStop.customerId,
+          customerName: currentStop.customerName,
+          at: new Date(state.since),
+        },
+      };
+    }
+    return { state: next(state) };
+  }
+
+  // Between stops: keep dwelling at the stop being entered while within the exit radius
+  if (state.phase === 'entering' && state.customerId && state.since !== undefined) {
+    const enteringStop = route.stops.find(stop => stop.customerId === state.customerId && stop.status === 'pending');
+
+    if (enteringStop && enteringStop.customerId !== ignoredCustomerId && distanceTo(enteringStop) <= settings.exitRadiusMeters) {
+      if (sample.timestamp - state.since >= dwellMs) {
+        return {
+          state: next({ customerId: enteringStop.customerId, phase: 'inside' }),
+          event: {
+            type: 'arrival',
+            customerId: enteringStop.customerId,
+            customerName: enteringStop.customerName,
+            at: new Date(state.since),
+          },
+        };
+      }
+      return { state: next(state) };
+    }
+  }
+
+  // Otherwise look for a pending stop to enter. Crews sometimes take stops out of order, so any pending stop counts.
+  const candidates = route.stops.filter(stop => stop.status === 'pending' && stop.customerId !== ignoredCustomerId);
+  const nearest = findNearestStop(sample, candidates);
+  if (nearest && nearest.distance <= settings.entryRadiusMeters) {
+    return { state: next({ customerId: nearest.stop.customerId, phase: 'entering', since: sample.timestamp }) };
+  }
+
+  return { state: next(INITIAL_GEOFENCE_STATE) };
+}
+
+/**
+ * Apply a detected arrival or departure to the route, marking the timestamp as automatic
+ */
+export function applyGeofenceEvent(route: Route, event: GeofenceEvent): Route {
+  const stopIndex = route.stops.findIndex(stop => stop.customerId === event.customerId);
+  if (stopIndex === -1) return route;
+
+  const stops = route.stops.map((stop, index) => {
+    if (index !== stopIndex) return stop;
+    return event.type === 'arrival'
+      ? markStopArrival(stop, event.at, 'auto')
+      : markStopDeparture(stop, index > 0 ? route.stops[index - 1] : null, event.at, 'auto');
+  });
+  const allDone = stops.every(stop => stop.status === 'completed' || stop.status === 'skipped');
+
+  return {
+    ...route,
+    stops,
+    status: allDone ? 'completed' : 'in_progress',
+  };
+}
+
 /**
  * Pause a stop (records pause time)
  */
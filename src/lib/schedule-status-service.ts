@@ -5,8 +5,12 @@
  * and provides status messages and time estimates
  */
 
-import { Route, ScheduleStatus } from './types';
+import { Route, RouteStop, ScheduleStatus } from './types';
 import { calculateTimeBreakdown } from './time-analytics-service';
+import { estimateTravel } from './travel-matrix-service';
+
+// Planned minutes on site for stops without a learned estimate
+const DEFAULT_STOP_WORK_MINUTES = 20;
 
 /**
  * Calculate the schedule status for a route
@@ -30,9 +34,11 @@ export function calculateScheduleStatus(
     ? (currentTime.getTime() - startTime.getTime()) / 1000 / 60 // minutes
     : 0;
 
-  // Calculate progress ratios
+  // Calculate progress ratios (stops weighted by their estimated time on site)
+  const plannedWorkMinutes = sumPlannedWorkMinutes(route.stops);
+  const completedWorkMinutes = sumPlannedWorkMinutes(route.stops.filter(stop => stop.status === 'completed'));
   const plannedProgress = totalPlannedDuration > 0 ? timeElapsed / totalPlannedDuration : 0;
-  const actualProgress = totalStops > 0 ? completedStops / totalStops : 0;
+  const actualProgress = plannedWorkMinutes > 0 ? completedWorkMinutes / plannedWorkMinutes : 0;
 
   // Determine status based on progress comparison
   let status: 'on_schedule' | 'ahead' | 'behind';
@@ -59,7 +65,6 @@ export function calculateScheduleStatus(
     route,
     currentTime,
     timeBreakdown,
-    completedStops,
     stopsRemaining
   );
 
@@ -115,25 +120,18 @@ function estimateFinishTime(
   route: Route,
   currentTime: Date,
   timeBreakdown: { workTime: number; driveTime: number },
-  completedStops: number,
   stopsRemaining: number
 ): Date {
   if (stopsRemaining === 0) {
     return currentTime;
   }
 
-  // Calculate average time per completed stop
-  const avgWorkTimePerStop = completedStops > 0
-    ? timeBreakdown.workTime / completedStops
-    : 20; // Default 20 min per stop
-
-  const avgDriveTimePerStop = completedStops > 1
-    ? timeBreakdown.driveTime / (completedStops - 1) // First stop has no drive time
-    : 10; // Default 10 min drive time
+  // Drive legs between the remaining stops, from the shared travel matrix provider
+  const estimatedRemainingDrive = estimateRemainingDriveTime(route, currentTime);
 
-  // Estimate remaining time
-  const estimatedRemainingWork = avgWorkTimePerStop * stopsRemaining;
-  const estimatedRemainingDrive = avgDriveTimePerStop * Math.max(stopsRemaining - 1, 0);
+  // Each remaining stop's estimate, scaled by how the crew has done against estimates today
+  const remainingStops = route.stops.filter(stop => stop.status !== 'completed' && stop.status !== 'skipped');
+  const estimatedRemainingWork = sumPlannedWorkMinutes(remainingStops) * getWorkPace(route, timeBreakdown);
   const estimatedRemainingMinutes = estimatedRemainingWork + estimatedRemainingDrive;
 
   // Add to current time
@@ -143,6 +141,46 @@ function estimateFinishTime(
   return finishTime;
 }
 
+/**
+ * Planned minutes on site: the learned estimate, else a flat default
+ */
+function getPlannedWorkMinutes(stop: RouteStop): number {
+  return stop.estimatedWorkMinutes ?? DEFAULT_STOP_WORK_MINUTES;
+}
+
+function sumPlannedWorkMinutes(stops: RouteStop[]): number {
+  return stops.reduce((total, stop) => total + getPlannedWorkMinutes(stop), 0);
+}
+
+/**
+ * Recorded work minutes over planned work minutes for completed stops (1 = on estimate)
+ */
+function getWorkPace(route: Route, timeBreakdown: { workTime: number }): number {
+  const completedPlanned = sumPlannedWorkMinutes(route.stops.filter(stop => stop.status === 'completed'));
+  return completedPlanned > 0 && timeBreakdown.workTime > 0
+    ? timeBreakdown.workTime / completedPlanned
+    : 1;
+}
+
+/**
+ * Estimated drive minutes for the legs still ahead: from the last visited stop
+ * (or the current one) through every remaining stop in route order, with
+ * learned corrections for the current time of day
+ */
+function estimateRemainingDriveTime(route: Route, currentTime: Date): number {
+  const remaining = route.stops.filter(stop => stop.status === 'pending' || stop.status === 'in_progress');
+  const visited = route.stops.filter(stop => stop.status === 'completed');
+  const lastVisited = visited[visited.length - 1];
+
+  const legs = lastVisited ? [lastVisited, ...remaining] : remaining;
+  let minutes = 0;
+  for (let i = 1; i < legs.length; i++) {
+    minutes += estimateTravel(legs[i - 1], legs[i], currentTime).durationMinutes;
+  }
+
+  return minutes;
+}
+
 /**
  * Get the next stop's ETA
  */
@@ -156,18 +194,17 @@ export function getNextStopETA(route: Route, currentTime: Date = new Date()): Da
   if (currentStop) {
     // Estimate based on average work time + drive time
     const timeBreakdown = calculateTimeBreakdown(route);
-    const completedStops = route.stops.filter(s => s.status === 'completed').length;
-
-    const avgWorkTime = completedStops > 0 ? timeBreakdown.workTime / completedStops : 20;
-    const avgDriveTime = completedStops > 1 ? timeBreakdown.driveTime / (completedStops - 1) : 10;
+    const avgWorkTime = getPlannedWorkMinutes(currentStop) * getWorkPace(route, timeBreakdown);
 
     // Estimate when current stop will finish + drive time to next
     const remainingAtCurrent = currentStop.actualArrival
       ? Math.max(avgWorkTime - (currentTime.getTime() - (currentStop.actualArrival instanceof Date ? currentStop.actualArrival.getTime() : new Date(currentStop.actualArrival).getTime())) / 1000 / 60, 0)
       : avgWorkTime;
+    const departure = new Date(currentTime.getTime() + remainingAtCurrent * 60 * 1000);
+    const driveTime = estimateTravel(currentStop, nextStop, departure).durationMinutes;
 
     const eta = new Date(currentTime);
-    eta.setMinutes(eta.getMinutes() + remainingAtCurrent + avgDriveTime);
+    eta.setMinutes(eta.getMinutes() + remainingAtCurrent + driveTime);
 
     return eta;
   } else {
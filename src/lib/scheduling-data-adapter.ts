@@ -0,0 +1,77 @@
+/**
+ * Scheduling Data Adapter
+ *
+ * Everything the scheduling engine reads, behind one interface. The Firestore
+ * adapter is used by the app; the in-memory adapter plans from plain data so
+ * the engine can run (and be checked) without a database.
+ */
+
+import { getCustomers } from './customer-service';
+import { getStoredRoutesForDate } from './route-storage-service';
+import { getUsers } from './user-service';
+import { buildServiceDurationModel, getServiceDurationModel } from './service-duration-service';
+import type { ServiceDurationModel } from './service-duration-service';
+import { buildDriveTimeModel, getDriveTimeModel } from './drive-time-service';
+import type { DriveTimeModel } from './drive-time-service';
+import { toDateKey } from './time-utils';
+import type { Company, Customer, DailyRoute, Territory, User } from './firebase-types';
+import type { RouteMetrics } from './types';
+
+export interface SchedulingDataAdapter {
+  companyId: string;
+  getCompany(): Promise<Company | null>;
+  getCustomers(): Promise<Customer[]>;
+  getUsers(): Promise<User[]>;
+  getTerritories(): Promise<Territory[]>;
+  getServiceDurationModel(customers: Customer[]): Promise<ServiceDurationModel>;
+  getDriveTimeModel(): Promise<DriveTimeModel>;
+  getStoredRoutes(date: Date): Promise<DailyRoute[]>; // Saved plans for a day (customer details not needed)
+}
+
+export interface InMemorySchedulingData {
+  company?: Company | null;
+  customers: Customer[];
+  users: User[];
+  territories?: Territory[];
+  routeMetrics?: RouteMetrics[]; // Recorded work and drive times for service duration and drive time estimates
+  routes?: DailyRoute[]; // Plans treated as already saved
+}
+
+/**
+ * Adapter backed by the company's Firestore data
+ */
+export const createFirestoreSchedulingAdapter = (companyId: string): SchedulingDataAdapter => ({
+  companyId,
+  getCompany: async () => {
+    const { getCompany } = await import('./company-service');
+    return getCompany(companyId);
+  },
+  getCustomers: () => getCustomers(companyId),
+  getUsers: () => getUsers(companyId),
+  getTerritories: async () => {
+    const { getTerritories } = await import('./territory-service');
+    return getTerritories(companyId);
+  },
+  getServiceDurationModel: customers => getServiceDurationModel(companyId, customers),
+  getDriveTimeModel: () => getDriveTimeModel(companyId),
+  getStoredRoutes: date => getStoredRoutesForDate(companyId, date, []),
+});
+
+/**
+ * Adapter over fixed data, for previews and checks without Firestore
+ */
+export const createInMemorySchedulingAdapter = (
+  companyId: string,
+  data: InMemorySchedulingData
+): SchedulingDataAdapter => ({
+  companyId,
+  getCompany: async () => data.company ?? null,
+  getCustomers: async () => data.customers.filter(customer => customer.companyId === companyId),
+  getUsers: async () => data.users.filter(user => user.companyId === companyId),
+  getTerritories: async () => (data.territories || []).filter(territory => territory.companyId === companyId),
+  getServiceDurationModel: async customers => buildServiceDurationModel(data.routeMetrics || [], customers),
+  getDriveTimeModel: async () => buildDriveTimeModel(data.routeMetrics || []),
+  getStoredRoutes: async date => (data.routes || []).filter(route =>
+    route.companyId === companyId && toDateKey(route.date) === toDateKey(date)
+  ),
+});
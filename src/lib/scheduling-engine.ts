@@ -0,0 +1,621 @@
+/**
+ * Scheduling Engine
+ *
+ * The one planner behind every route in the app. A day is planned in four steps:
+ *
+ *   1. Demand      - which services are due: each service's own recurrence, else
+ *                    the customer's frequency under the company's demand rule
+ *   2. Eligibility - which crews work that day and which customers each can serve
+ *   3. Assignment  - capacitated assignment of customers to crews, territory
+ *                    crews first, then overflow by the company's rule, with
+ *                    working minutes balanced across crews for the day and week
+ *   4. Sequencing  - stop order per crew (time windows, pins, learned service and
+ *                    drive times), by the company's objective: miles, minutes or cost
+ *
+ * Nothing is planned on days the company calendar has closed, crews on time
+ * off are left out, and crew hours are cut to the day's business hours.
+ *
+ * Crews leave from and return to a depot (the company's home base unless the
+ * crew is set to another yard or home); open routes end at the last stop.
+ *
+ * Rules come from the company's `settings.scheduling`. The engine reads data
+ * only through a SchedulingDataAdapter and sorts every input, so the same data
+ * always produces the same plan.
+ */
+
+import { assignCustomersToCrews, getShiftMinutes } from './route-assignment-service';
+import { getWorkingDay, limitToWorkingDay } from './company-calendar';
+import { estimateServiceDurations, toServiceMinutes } from './service-duration-service';
+import { getStopRequirements } from './service-requirements';
+import { getDueRecurringServices } from './service-recurrence';
+import { getCrewCostModel, summarizeRouteCost } from './route-cost-service';
+import { toDateKey } from './time-utils';
+import { getTSPOptimizationService } from './tsp-optimization-service';
+import { getTravelMatrixProvider } from './travel-matrix-service';
+import { CorrectedTravelMatrixProvider } from './drive-time-service';
+import type { DriveTimeModel } from './drive-time-service';
+import type { CrewWorkload, UnassignedCustomer } from './route-assignment-service';
+import type { SchedulingDataAdapter } from './scheduling-data-adapter';
+import type { ServiceDurationModel } from './service-duration-service';
+import type { TimeWindowOptions } from './tsp-optimization-service';
+import type { TravelMatrixProvider } from './travel-matrix-service';
+import type {
+  Company,
+  CrewAvailability,
+  CrewEndpoint,
+  Customer,
+  CustomerPriority,
+  DailyRoute,
+  DayOfWeek,
+  Depot,
+  SchedulingRules,
+  Service,
+  StopLock,
+  User,
+} from './firebase-types';
+
+export const DEFAULT_SCHEDULING_RULES: SchedulingRules = {
+  demandRule: 'days_since_service',
+  minDaysBetweenServices: 5,
+  requirePreferredDay: true,
+  minCrewMembers: 1,
+  maxStopsPerCrew: 12,
+  territoryOverflow: 'any',
+  overflowMaxMiles: 5,
+  weatherThresholds: { maxPrecipitationInches: 0.25, maxPrecipitationChance: 80, maxWindMph: 30 },
+  weatherThresholdsByServiceType: {},
+  weatherMaxShiftDays: 3,
+  workloadTolerance: 0.1,
+  balanceWorkloadAcrossWeek: true,
+  optimizeFor: 'time',
+};
+
+// Depot ID of the company's home base (Company.baseLocation)
+export const BASE_DEPOT_ID = 'base';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface RoutePlan {
+  routes: DailyRoute[];
+  unassigned: UnassignedCustomer[]; // Customers wanting service that no crew could take
+}
+
+// Manual edits carried over from a crew's previous plan
+export interface RouteEdits {
+  stopLocks?: StopLock[];
+  manualCustomerIds?: string[];
+}
+
+export interface PlanOptions {
+  previousRoutes?: DailyRoute[]; // Earlier plans for the day; their manual edits are kept
+  travelMatrixProvider?: TravelMatrixProvider; // Defaults to the shared provider
+  earlierRoutes?: DailyRoute[]; // Unsaved plans for earlier days (e.g. a week preview), used over saved ones
+}
+
+/**
+ * The company's planning rules, with defaults for anything not set
+ */
+export function getSchedulingRules(company: Company | null): SchedulingRules {
+  return {
+    ...DEFAULT_SCHEDULING_RULES,
+    ...(company?.settings?.maxCustomersPerRoute && { maxStopsPerCrew: company.settings.maxCustomersPerRoute }),
+    ...company?.settings?.scheduling,
+  };
+}
+
+/**
+ * Plan every crew's route for a date
+ */
+export const planRoutesForDate = async (
+  adapter: SchedulingDataAdapter,
+  date: Date,
+  options: PlanOptions = {}
+): Promise<RoutePlan> => {
+  const [company, customers, users, territories] = await Promise.all([
+    adapter.getCompany(),
+    adapter.getCustomers(),
+    adapter.getUsers(),
+    adapter.getTerritories(),
+  ]);
+  const rules = getSchedulingRules(company);
+  const previousRoutes = options.previousRoutes || [];
+
+  const workingDay = getWorkingDay(company, date);
+  if (!workingDay.open) {
+    console.log(`Scheduling ${getDayOfWeek(date)}: company closed${workingDay.entries[0] ? ` (${workingDay.entries[0].name})` : ''}`);
+    return { routes: [], unassigned: [] };
+  }
+
+  // Step 1: Demand
+  const dueCustomers = getDueCustomers(customers, date, rules);
+  console.log(`Scheduling ${getDayOfWeek(date)}: ${dueCustomers.length} customers due (${rules.demandRule})`);
+
+  // Step 2: Eligibility
+  const crews = getEligibleCrews(users, date, rules, company);
+  console.log(`Scheduling ${getDayOfWeek(date)}: ${crews.length} crews available`);
+
+  // Step 3: Assignment, with learned minutes on site so crews aren't overfilled
+  const durationModel = await adapter.getServiceDurationModel(customers);
+  const driveTimeModel = await adapter.getDriveTimeModel();
+  const priorWorkload = rules.balanceWorkloadAcrossWeek
+    ? await getWeekWorkload(adapter, users, date, rules, company, options.earlierRoutes)
+    : {};
+  const serviceMinutes = toServiceMinutes(estimateServiceDurations(durationModel, dueCustomers));
+
+  // Customers a manager moved onto a crew stay with that crew
+  const fixedAssignments: Record<string, string> = {};
+  previousRoutes.forEach(route => {
+    route.manualCustomerIds?.forEach(customerId => {
+      fixedAssignments[customerId] = route.crewId;
+    });
+  });
+
+  const { assignments, unassigned } = assignCustomersToCrews(
+    dueCustomers.map(customer => toCustomerPriority(customer, date)),
+    crews,
+    {
+      depot: getCompanyDepots(company)[0],
+      fixedAssignments,
+      serviceMinutes,
+      territories,
+      territoryOverflow: rules.territoryOverflow,
+      overflowMaxMiles: rules.overflowMaxMiles,
+      priorWorkload,
+      workloadTolerance: rules.workloadTolerance,
+    }
+  );
+
+  if (unassigned.length > 0) {
+    console.warn(`${unassigned.length} customers could not be assigned:`, unassigned);
+  }
+
+  // Step 4: Sequencing
+  const customersById = new Map(dueCustomers.map(customer => [customer.id, customer]));
+  const routes: DailyRoute[] = [];
+
+  for (const { crew, customers: assigned, plannedMinutes, shiftMinutes } of assignments) {
+    const crewCustomers = assigned
+      .map(priority => customersById.get(priority.customerId))
+      .filter(Boolean) as Customer[];
+
+    console.log(`Crew ${crew.crewId} assigned ${crewCustomers.length} customers (${Math.round(plannedMinutes)}/${shiftMinutes} min planned)`);
+
+    const previousRoute = previousRoutes.find(route => route.crewId === crew.crewId);
+    routes.push(await sequenceCrewRoute(adapter.companyId, crew, crewCustomers, date, company, {
+      edits: {
+        stopLocks: previousRoute?.stopLocks,
+        manualCustomerIds: previousRoute?.manualCustomerIds,
+      },
+      durationModel,
+      driveTimeModel,
+      travelMatrixProvider: options.travelMatrixProvider,
+    }));
+  }
+
+  return { routes, unassigned };
+};
+
+/**
+ * Plan each day in a range (inclusive), e.g. for a week preview.
+ * Each day's plan counts toward the week's workload for the days after it.
+ */
+export const planRoutesForRange = async (
+  adapter: SchedulingDataAdapter,
+  startDate: Date,
+  endDate: Date,
+  options: Omit<PlanOptions, 'previousRoutes'> = {}
+): Promise<RoutePlan[]> => {
+  const plans: RoutePlan[] = [];
+  const date = new Date(startDate);
+
+  while (date <= endDate) {
+    const earlierRoutes = [...(options.earlierRoutes || []), ...plans.flatMap(plan => plan.routes)];
+    plans.push(await planRoutesForDate(adapter, new Date(date), { ...options, earlierRoutes }));
+    date.setDate(date.getDate() + 1);
+  }
+
+  return plans;
+};
+
+/**
+ * Minutes each crew is planned for earlier in the date's week (from Monday),
+ * against the minutes it is scheduled for on the days that have a plan.
+ * Unsaved plans passed in win over saved ones for the same day.
+ */
+export const getWeekWorkload = async (
+  adapter: SchedulingDataAdapter,
+  users: User[],
+  date: Date,
+  rules: SchedulingRules,
+  company: Company | null,
+  earlierRoutes: DailyRoute[] = []
+): Promise<Record<string, CrewWorkload>> => {
+  const workload: Record<string, CrewWorkload> = {};
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+
+  for (; toDateKey(day) < toDateKey(date); day.setDate(day.getDate() + 1)) {
+    const dayKey = toDateKey(day);
+    const previewRoutes = earlierRoutes.filter(route => toDateKey(route.date) === dayKey);
+    const routes = previewRoutes.length > 0 ? previewRoutes : await adapter.getStoredRoutes(new Date(day));
+    if (routes.length === 0) continue;
+
+    for (const crew of getEligibleCrews(users, day, rules, company)) {
+      const plannedMinutes = routes
+        .filter(route => route.crewId === crew.crewId)
+        .reduce((total, route) => total + route.estimatedDuration, 0);
+
+      workload[crew.crewId] = {
+        plannedMinutes: (workload[crew.crewId]?.plannedMinutes || 0) + plannedMinutes,
+        shiftMinutes: (workload[crew.crewId]?.shiftMinutes || 0) + getShiftMinutes(crew),
+      };
+    }
+  }
+
+  return workload;
+};
+
+/**
+ * Step 1: active customers due for service on a date, most overdue first.
+ * Services with their own recurrence are due on the days it expands to; the
+ * rest follow the customer-level demand rule. Each returned customer only
+ * lists the services due that day, so crews are matched to the day's jobs.
+ */
+export function getDueCustomers(customers: Customer[], date: Date, rules: SchedulingRules): Customer[] {
+  return customers
+    .filter(customer => customer.status === 'active')
+    .map(customer => {
+      if (customer.services.length === 0) {
+        return isDueByCustomerRule(customer, date, rules) ? customer : null;
+      }
+
+      const services = getDueServices(customer, date, rules);
+      return services.length > 0 ? { ...customer, services } : null;
+    })
+    .filter((customer): customer is Customer => customer !== null)
+    .sort((a, b) =>
+      toCustomerPriority(b, date).priority - toCustomerPriority(a, date).priority ||
+      a.id.localeCompare(b.id)
+    );
+}
+
+/**
+ * A customer's services due on a date: recurring ones on their occurrences,
+ * the rest together whenever the customer-level rule says a visit is due
+ */
+export function getDueServices(customer: Customer, date: Date, rules: SchedulingRules): Service[] {
+  const dueRecurring = getDueRecurringServices(customer.services, date);
+  const legacyDue = customer.services.some(service => !service.recurrence) &&
+    isDueByCustomerRule(customer, date, rules);
+
+  return customer.services.filter(service =>
+    service.recurrence ? dueRecurring.includes(service) : legacyDue
+  );
+}
+
+/**
+ * Step 2: crews with enough members scheduled to work on a date.
+ * A crew's hours, start/end, location, region, territories and equipment come from its first available member.
+ * Only members scheduled that day are counted, so crew size checks use who is actually working.
+ * Closed days, crew time off and business hours from the company calendar are applied.
+ */
+export function getEligibleCrews(
+  users: User[],
+  date: Date,
+  rules: SchedulingRules,
+  company: Company | null = null
+): CrewAvailability[] {
+  if (!getWorkingDay(company, date).open) return [];
+
+  const dayOfWeek = getDayOfWeek(date);
+  const crewMembers = new Map<string, User[]>();
+
+  [...users]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .forEach(user => {
+      const daySchedule = user.schedule?.[dayOfWeek];
+      if (!user.crewId || !daySchedule?.start || !daySchedule?.end) return;
+
+      crewMembers.set(user.crewId, [...(crewMembers.get(user.crewId) || []), user]);
+    });
+
+  return Array.from(crewMembers.entries())
+    .filter(([, members]) => members.length >= Math.max(1, rules.minCrewMembers))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([crewId, members]) => {
+      const lead = members[0];
+      const hours = limitToWorkingDay(
+        lead.schedule?.[dayOfWeek]?.start || '08:00',
+        lead.schedule?.[dayOfWeek]?.end || '17:00',
+        getWorkingDay(company, date, crewId)
+      );
+      if (!hours) return [];
+
+      return [{
+        crewId,
+        managerId: lead.id,
+        employeeIds: members.map(member => member.id),
+        availability: {
+          date,
+          startTime: hours.startTime,
+          endTime: hours.endTime,
+          maxCustomers: rules.maxStopsPerCrew,
+          currentLocation: lead.currentLocation
+            ? { lat: lead.currentLocation.lat, lng: lead.currentLocation.lng }
+            : undefined,
+          ...getCrewEndpoints(lead, company),
+        },
+        capabilities: lead.crewServiceTypes || ['general'],
+        region: lead.region || 'default',
+        territoryIds: lead.crewTerritoryIds || [],
+        ...(lead.crewEquipment && { equipment: lead.crewEquipment }),
+        ...(lead.crewFuelCostPerMile !== undefined && { fuelCostPerMile: lead.crewFuelCostPerMile }),
+      }];
+    });
+}
+
+/**
+ * Step 4: sequence one crew's stops, honoring any manual edits that still apply
+ */
+export const sequenceCrewRoute = async (
+  companyId: string,
+  crew: CrewAvailability,
+  customers: Customer[],
+  date: Date,
+  company: Company | null,
+  options: {
+    edits?: RouteEdits;
+    durationModel: ServiceDurationModel;
+    driveTimeModel?: DriveTimeModel; // Learned corrections to drive minutes
+    travelMatrixProvider?: TravelMatrixProvider;
+  }
+): Promise<DailyRoute> => {
+  const customerIds = new Set(customers.map(customer => customer.id));
+  const stopLocks = (options.edits?.stopLocks || []).filter(lock => customerIds.has(lock.customerId));
+  const manualCustomerIds = (options.edits?.manualCustomerIds || []).filter(customerId => customerIds.has(customerId));
+
+  // Learned minutes on site for this crew at each stop
+  const serviceEstimates = estimateServiceDurations(options.durationModel, customers, crew.crewId);
+
+  const travelMatrixProvider = options.travelMatrixProvider || getTravelMatrixProvider();
+  const tspService = getTSPOptimizationService(
+    process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || '',
+    options.driveTimeModel
+      ? new CorrectedTravelMatrixProvider(travelMatrixProvider, options.driveTimeModel)
+      : travelMatrixProvider
+  );
+
+  const startLocation = getStartLocation(crew, customers);
+  const { endLocation } = crew.availability;
+  const costModel = getCrewCostModel(crew, company);
+
+  try {
+    console.log(`Optimizing route for crew ${crew.crewId} with ${customers.length} customers (${stopLocks.length} pinned${endLocation ? '' : ', open route'})`);
+
+    const optimizationResult = await tspService.optimizeRoute(customers, {
+      startLocation,
+      ...(endLocation && { endLocation }),
+      optimizeFor: getSchedulingRules(company).optimizeFor,
+      costModel,
+      travelMode: 'driving',
+      timeWindows: getTimeWindowOptions(company, crew, stopLocks),
+      lockedStops: stopLocks,
+      serviceDurations: toServiceMinutes(serviceEstimates),
+      useGoogleDirections: false, // Keep plans reproducible
+    });
+
+    if (optimizationResult.unhonoredTimeWindows?.length) {
+      console.warn(`Crew ${crew.crewId}: ${optimizationResult.unhonoredTimeWindows.length} stops can't be reached within their preferred time range`);
+    }
+
+    return {
+      companyId, // REQUIRED: Multi-tenant isolation
+      crewId: crew.crewId,
+      date,
+      customers: optimizationResult.optimizedCustomers,
+      optimizedPath: optimizationResult.optimizedPath,
+      estimatedDuration: optimizationResult.estimatedDuration,
+      totalDistance: optimizationResult.totalDistance,
+      cost: summarizeRouteCost(
+        optimizationResult.optimizedCustomers,
+        optimizationResult.totalDistance,
+        optimizationResult.estimatedDuration,
+        costModel
+      ),
+      stopSchedule: optimizationResult.schedule,
+      unhonoredTimeWindows: optimizationResult.unhonoredTimeWindows,
+      improvement: optimizationResult.improvement,
+      stopLocks,
+      manualCustomerIds,
+      serviceEstimates,
+      startLocation,
+      endLocation,
+    };
+  } catch (error) {
+    console.error(`TSP optimization failed for crew ${crew.crewId}, falling back to original order:`, error);
+
+    const estimatedDuration = serviceEstimates.reduce((total, estimate) => total + estimate.minutes, 0);
+    return {
+      companyId, // REQUIRED: Multi-tenant isolation
+      crewId: crew.crewId,
+      date,
+      customers,
+      optimizedPath: customers.map(c => ({ lat: c.lat, lng: c.lng })),
+      estimatedDuration,
+      totalDistance: 0,
+      cost: summarizeRouteCost(customers, 0, estimatedDuration, costModel),
+      stopLocks,
+      manualCustomerIds,
+      serviceEstimates,
+      startLocation,
+      endLocation,
+    };
+  }
+};
+
+/**
+ * Depots crews can start or end at: the home base first (the default), then any other yards
+ */
+export function getCompanyDepots(company: Company | null): Depot[] {
+  const depots = company?.depots || [];
+  if (!company?.baseLocation) return depots;
+
+  return [
+    {
+      id: BASE_DEPOT_ID,
+      name: 'Home Base',
+      lat: company.baseLocation.lat,
+      lng: company.baseLocation.lng,
+      address: company.baseLocation.address,
+    },
+    ...depots,
+  ];
+}
+
+/**
+ * Where a crew starts and ends, from its lead's settings.
+ * Start defaults to the home base; end defaults to the start. No end means an open route.
+ */
+export function getCrewEndpoints(
+  lead: User,
+  company: Company | null
+): { startLocation?: { lat: number; lng: number }; endLocation?: { lat: number; lng: number } } {
+  const defaultDepot = getCompanyDepots(company)[0];
+  const startLocation = (lead.crewStart && resolveCrewEndpoint(lead, lead.crewStart, company)) ||
+    (defaultDepot && { lat: defaultDepot.lat, lng: defaultDepot.lng });
+
+  if (lead.crewEnd?.type === 'last_stop') {
+    return { ...(startLocation && { startLocation }) };
+  }
+
+  const endLocation = (lead.crewEnd && resolveCrewEndpoint(lead, lead.crewEnd, company)) || startLocation;
+  return {
+    ...(startLocation && { startLocation }),
+    ...(endLocation && { endLocation }),
+  };
+}
+
+/**
+ * Time window settings for a crew's route (soft windows unless the company says otherwise)
+ */
+export function getTimeWindowOptions(
+  company: Company | null,
+  crew: CrewAvailability,
+  stopLocks: StopLock[] = []
+): TimeWindowOptions | undefined {
+  const settings = company?.settings?.timeWindows;
+  if (settings?.mode === 'ignore') {
+    // Stops pinned to a time still need a timed schedule
+    return stopLocks.some(lock => lock.time)
+      ? { mode: 'hard', routeStartTime: crew.availability.startTime, customerWindows: false }
+      : undefined;
+  }
+
+  return {
+    mode: settings?.mode || 'soft',
+    routeStartTime: crew.availability.startTime,
+    latePenaltyPerMinute: settings?.latePenaltyPerMinute,
+  };
+}
+
+/**
+ * Priority entry for a customer (days since last service drives the score)
+ */
+export function toCustomerPriority(customer: Customer, date: Date): CustomerPriority {
+  const daysSinceLastService = getDaysSinceLastService(customer, date) ?? 30; // Default to 30 days if no last service
+  const requirements = getStopRequirements(customer.services);
+
+  return {
+    customerId: customer.id,
+    priority: Math.min(daysSinceLastService * 10, 100),
+    factors: {
+      daysSinceLastService,
+      customerPreferences: customer.servicePreferences,
+      serviceType: customer.services[0]?.type || 'general',
+      serviceTypes: customer.services.map(service => service.type),
+      location: { lat: customer.lat, lng: customer.lng },
+      territoryId: customer.territoryId,
+      requiredEquipment: requirements.equipment,
+      requiredCrewSize: requirements.crewSize,
+    },
+  };
+}
+
+/**
+ * Day of week for a date
+ */
+export function getDayOfWeek(date: Date): DayOfWeek {
+  const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  return days[date.getDay()] as DayOfWeek;
+}
+
+/**
+ * Location of a crew's depot or home setting, or undefined if it isn't set up
+ */
+function resolveCrewEndpoint(
+  lead: User,
+  endpoint: CrewEndpoint,
+  company: Company | null
+): { lat: number; lng: number } | undefined {
+  if (endpoint.type === 'home') {
+    if (!lead.crewHomeLocation) {
+      console.warn(`Crew ${lead.crewId} is set to use home but has no home location, using the default depot`);
+      return undefined;
+    }
+    return { lat: lead.crewHomeLocation.lat, lng: lead.crewHomeLocation.lng };
+  }
+
+  if (endpoint.type === 'depot') {
+    const depot = getCompanyDepots(company).find(candidate => candidate.id === endpoint.depotId);
+    if (!depot) {
+      console.warn(`Crew ${lead.crewId} is set to depot ${endpoint.depotId}, which no longer exists, using the default depot`);
+      return undefined;
+    }
+    return { lat: depot.lat, lng: depot.lng };
+  }
+
+  return undefined;
+}
+
+/**
+ * Where a crew leaves from: its start setting, else its current location, else its first stop
+ */
+function getStartLocation(crew: CrewAvailability, customers: Customer[]): { lat: number; lng: number } {
+  if (crew.availability.startLocation) {
+    return crew.availability.startLocation;
+  }
+  if (crew.availability.currentLocation) {
+    return crew.availability.currentLocation;
+  }
+  return customers.length > 0
+    ? { lat: customers[0].lat, lng: customers[0].lng }
+    : { lat: 0, lng: 0 };
+}
+
+/**
+ * Customer-level demand rule, for services without their own recurrence.
+ * Visits moved onto the date are due; visits skipped or moved off it are not.
+ */
+function isDueByCustomerRule(customer: Customer, date: Date, rules: SchedulingRules): boolean {
+  const dateKey = toDateKey(date);
+  const exceptions = customer.visitExceptions || [];
+  if (exceptions.some(exception => exception.action === 'move' && exception.movedTo === dateKey)) return true;
+  if (exceptions.some(exception => exception.date === dateKey)) return false;
+
+  const wantsServiceToday = customer.servicePreferences?.preferredDays?.includes(getDayOfWeek(date)) || false;
+  if (rules.requirePreferredDay && !wantsServiceToday) return false;
+
+  const daysSinceLastService = getDaysSinceLastService(customer, date);
+  if (daysSinceLastService === null) return true;
+
+  return rules.demandRule === 'service_frequency'
+    ? daysSinceLastService >= (customer.servicePreferences?.serviceFrequency || 7)
+    : daysSinceLastService >= rules.minDaysBetweenServices;
+}
+
+/**
+ * Whole days between the customer's last service and a date, or null if never serviced
+ */
+function getDaysSinceLastService(customer: Customer, date: Date): number | null {
+  const lastService = customer.lastServiceDate?.toDate();
+  return lastService ? Math.floor((date.getTime() - lastService.getTime()) / MS_PER_DAY) : null;
+}
@@ -0,0 +1,262 @@
+/**
+ * Service Duration Service
+ *
+ * Learns how long each stop takes from the work times crews record
+ * (`route_metrics.stopMetrics`). Estimates are made per customer, service
+ * mix and crew, each level shrunk toward the broader one below it so a
+ * single odd visit doesn't swing the plan. A service mix is the set of
+ * service types done on one visit (e.g. mowing and edging together).
+ * Customers without history fall back to the average for their lot size,
+ * and a mix nobody has recorded yet adds up its service types.
+ */
+
+import { getCustomers } from './customer-service';
+import { getRouteMetrics } from './route-metrics-service';
+import type {
+  Customer,
+  LotSize,
+  ServiceDurationConfidence,
+  ServiceDurationEstimate,
+} from './firebase-types';
+import type { RouteMetrics } from './types';
+
+// Minutes on site when nothing has been recorded for a service type
+export const DEFAULT_SERVICE_MINUTES = 30;
+
+// Relative time on site by lot size (medium = 1)
+const LOT_SIZE_FACTORS: Record<LotSize, number> = {
+  small: 0.75,
+  medium: 1,
+  large: 1.5,
+  estate: 2.5,
+};
+
+const HISTORY_DAYS = 90;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Visits a service type group needs before its average replaces the default
+const MIN_GROUP_SAMPLES = 5;
+
+// How many visits' worth of weight the broader estimate keeps when shrinking
+const PRIOR_WEIGHT = 2;
+
+// Recorded work times outside this range are treated as timer mistakes
+const MIN_SAMPLE_MINUTES = 1;
+const MAX_SAMPLE_MINUTES = 8 * 60;
+
+interface SampleStats {
+  count: number;
+  total: number;
+}
+
+export interface ServiceDurationModel {
+  samples: Map<string, SampleStats>;
+}
+
+const modelCache = new Map<string, { model: ServiceDurationModel; loadedAt: number }>();
+
+/**
+ * Build a model from recorded route metrics.
+ * Customers are needed for the lot size and service type of older samples.
+ */
+export function buildServiceDurationModel(
+  metrics: RouteMetrics[],
+  customers: Customer[]
+): ServiceDurationModel {
+  const customersById = new Map(customers.map(customer => [customer.id, customer]));
+  const samples = new Map<string, SampleStats>();
+
+  const addSample = (key: string, minutes: number) => {
+    const stats = samples.get(key) || { count: 0, total: 0 };
+    stats.count++;
+    stats.total += minutes;
+    samples.set(key, stats);
+  };
+
+  for (const metric of metrics) {
+    for (const stop of metric.stopMetrics || []) {
+      if (stop.workTime < MIN_SAMPLE_MINUTES || stop.workTime > MAX_SAMPLE_MINUTES) continue;
+
+      const customer = customersById.get(stop.customerId);
+      const serviceType = stop.serviceType || (customer && getPrimaryServiceType(customer));
+      if (!serviceType) continue;
+      const serviceMix = getServiceMix(stop.serviceTypes?.length ? stop.serviceTypes : [serviceType]);
+
+      // The overall service mix average is kept in medium-lot minutes
+      addSample(serviceMix, stop.workTime / getLotSizeFactor(customer));
+      addSample(`${serviceMix}|${customer?.lotSize || 'medium'}`, stop.workTime);
+      addSample(`${stop.customerId}|${serviceMix}`, stop.workTime);
+      addSample(`${stop.customerId}|${serviceMix}|${metric.crewId}`, stop.workTime);
+    }
+  }
+
+  return { samples };
+}
+
+/**
+ * Load the company's model from the last 90 days of route metrics.
+ * Models are cached for a few minutes; without history every estimate uses the defaults.
+ */
+export const getServiceDurationModel = async (
+  companyId: string,
+  customers?: Customer[]
+): Promise<ServiceDurationModel> => {
+  const cached = modelCache.get(companyId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.model;
+  }
+
+  const endDate = new Date();
+  const startDate = new Date(endDate);
+  startDate.setDate(startDate.getDate() - HISTORY_DAYS);
+
+  let model: ServiceDurationModel;
+  try {
+    const [metrics, allCustomers] = await Promise.all([
+      getRouteMetrics(companyId, startDate, endDate),
+      customers ?? getCustomers(companyId),
+    ]);
+    model = buildServiceDurationModel(metrics, allCustomers);
+  } catch (error) {
+    console.warn('Could not load route metrics for service durations, using defaults:', error);
+    model = { samples: new Map() };
+  }
+
+  modelCache.set(companyId, { model, loadedAt: Date.now() });
+  return model;
+};
+
+/**
+ * Estimated minutes on site for a customer's due services, most specific history
+ * first: this crew at this customer, any crew at this customer, then the service mix
+ */
+export function estimateServiceDuration(
+  model: ServiceDurationModel,
+  customer: Customer,
+  crewId?: string
+): ServiceDurationEstimate {
+  const serviceTypes = getDueServiceTypes(customer);
+  const serviceMix = getServiceMix(serviceTypes);
+
+  // A mix without enough history of its own adds up its service types
+  const mixEstimate = estimateGroupMinutes(model, serviceMix, customer);
+  const typeEstimates = serviceTypes.length > 1 && mixEstimate.source === 'default'
+    ? serviceTypes.map(serviceType => estimateGroupMinutes(model, serviceType, customer))
+    : [mixEstimate];
+
+  let minutes = typeEstimates.reduce((total, estimate) => total + estimate.minutes, 0);
+  let source: ServiceDurationEstimate['source'] = typeEstimates.every(estimate => estimate.source === 'service_type')
+    ? 'service_type'
+    : 'default';
+  let sampleSize = source === 'default' ? 0 : Math.min(...typeEstimates.map(estimate => estimate.sampleSize));
+
+  const customerStats = model.samples.get(`${customer.id}|${serviceMix}`);
+  if (customerStats) {
+    minutes = shrink(customerStats, minutes);
+    source = 'customer';
+    sampleSize = customerStats.count;
+  }
+
+  const crewStats = crewId ? model.samples.get(`${customer.id}|${serviceMix}|${crewId}`) : undefined;
+  if (crewStats) {
+    minutes = shrink(crewStats, minutes);
+    source = 'customer_crew';
+    sampleSize = crewStats.count;
+  }
+
+  return {
+    customerId: customer.id,
+    minutes: Math.max(MIN_SAMPLE_MINUTES, Math.round(minutes)),
+    confidence: getConfidence(source, sampleSize),
+    sampleSize,
+    source,
+  };
+}
+
+/**
+ * Estimates for every customer on a route
+ */
+export function estimateServiceDurations(
+  model: ServiceDurationModel,
+  customers: Customer[],
+  crewId?: string
+): ServiceDurationEstimate[] {
+  return customers.map(customer => estimateServiceDuration(model, customer, crewId));
+}
+
+/**
+ * Estimated minutes keyed by customer ID, as routing options expect them
+ */
+export function toServiceMinutes(estimates: ServiceDurationEstimate[]): Record<string, number> {
+  return Object.fromEntries(estimates.map(estimate => [estimate.customerId, estimate.minutes]));
+}
+
+/**
+ * Minutes for a service type or mix from every customer's visits, for this customer's
+ * lot size; the default when too few visits were recorded
+ */
+function estimateGroupMinutes(
+  model: ServiceDurationModel,
+  serviceMix: string,
+  customer: Customer
+): { minutes: number; source: 'default' | 'service_type'; sampleSize: number } {
+  const mixForLot = model.samples.get(`${serviceMix}|${customer.lotSize || 'medium'}`);
+  const mixOverall = model.samples.get(serviceMix);
+
+  if (mixForLot && mixForLot.count >= MIN_GROUP_SAMPLES) {
+    return { minutes: mixForLot.total / mixForLot.count, source: 'service_type', sampleSize: mixForLot.count };
+  }
+  if (mixOverall && mixOverall.count >= MIN_GROUP_SAMPLES) {
+    return {
+      minutes: (mixOverall.total / mixOverall.count) * getLotSizeFactor(customer),
+      source: 'service_type',
+      sampleSize: mixOverall.count,
+    };
+  }
+  return { minutes: DEFAULT_SERVICE_MINUTES * getLotSizeFactor(customer), source: 'default', sampleSize: 0 };
+}
+
+/**
+ * Service type used to group older visits recorded without one (the first requested service)
+ */
+function getPrimaryServiceType(customer: Customer): string {
+  return customer.services?.[0]?.type || 'general';
+}
+
+/**
+ * Service types still to do at the customer; planned routes only carry the day's due services
+ */
+function getDueServiceTypes(customer: Customer): string[] {
+  const dueTypes = (customer.services || [])
+    .filter(service => service.status !== 'completed' && service.status !== 'cancelled')
+    .map(service => service.type);
+  return dueTypes.length > 0 ? dueTypes : [getPrimaryServiceType(customer)];
+}
+
+/**
+ * Key for a set of service types done on one visit; a single type is its own key
+ */
+function getServiceMix(serviceTypes: string[]): string {
+  return Array.from(new Set(serviceTypes)).sort().join('+');
+}
+
+function getLotSizeFactor(customer?: Customer): number {
+  return LOT_SIZE_FACTORS[customer?.lotSize || 'medium'];
+}
+
+/**
+ * Weighted average of the recorded visits and the broader estimate
+ */
+function shrink(stats: SampleStats, prior: number): number {
+  return (stats.total + PRIOR_WEIGHT * prior) / (stats.count + PRIOR_WEIGHT);
+}
+
+function getConfidence(
+  source: ServiceDurationEstimate['source'],
+  sampleSize: number
+): ServiceDurationConfidence {
+  if (source === 'default') return 'low';
+  if (source === 'service_type') return sampleSize >= 20 ? 'medium' : 'low';
+  if (sampleSize >= 5) return 'high';
+  return sampleSize >= 2 ? 'medium' : 'low';
+}
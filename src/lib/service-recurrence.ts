@@ -0,0 +1,243 @@
+/**
+ * Service Recurrence
+ *
+ * Expands each service's repeat pattern (RRULE-style: every N weeks on given
+ * days, the Nth weekday or a day of the month, within a season, until a date
+ * or for a count) into dated occurrences, then applies the skips and moves
+ * recorded against it. The planner asks which services are due on a day, so
+ * weekly mowing, monthly edging and a spring/fall aeration each keep their
+ * own schedule on the same customer.
+ */
+
+import { fromDateKey, toDateKey } from './time-utils';
+import type { DayOfWeek, Service, ServiceOccurrenceException, ServiceRecurrence } from './firebase-types';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const DAYS: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface ServiceOccurrence {
+  serviceId: string;
+  serviceType: string;
+  date: string; // Day the job falls on ("YYYY-MM-DD")
+  originalDate: string; // Day the pattern put it on; differs for moved jobs
+  status: 'due' | 'skipped' | 'moved'; // 'moved' marks the original day of a job moved elsewhere
+  exception?: ServiceOccurrenceException;
+}
+
+type RecurringService = Pick<Service, 'id' | 'type' | 'recurrence'>;
+
+/**
+ * Whether the pattern lands on a date, ignoring its count and exceptions
+ */
+export function matchesRecurrence(recurrence: ServiceRecurrence, date: Date): boolean {
+  const day = startOfDay(date);
+  const start = fromDateKey(recurrence.startDate);
+
+  if (day < start) return false;
+  if (recurrence.until && day > fromDateKey(recurrence.until)) return false;
+  if (recurrence.byMonth?.length && !recurrence.byMonth.includes(day.getMonth() + 1)) return false;
+  if (!isInSeason(recurrence, day)) return false;
+
+  const interval = Math.max(1, recurrence.interval || 1);
+
+  switch (recurrence.frequency) {
+    case 'once':
+      return daysBetween(start, day) === 0;
+
+    case 'weekly': {
+      const byDay = recurrence.byDay?.length ? recurrence.byDay : [DAYS[start.getDay()]];
+      if (!byDay.includes(DAYS[day.getDay()])) return false;
+
+      const weeks = Math.round(daysBetween(startOfWeek(start), startOfWeek(day)) / 7);
+      return weeks % interval === 0;
+    }
+
+    case 'monthly': {
+      const months = (day.getFullYear() - start.getFullYear()) * 12 + day.getMonth() - start.getMonth();
+      if (months % interval !== 0) return false;
+
+      if (recurrence.bySetPos && recurrence.byDay?.length) {
+        return recurrence.byDay.includes(DAYS[day.getDay()]) && isNthWeekday(day, recurrence.bySetPos);
+      }
+
+      // Days past the end of a short month fall on its last day
+      const lastDay = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+      return day.getDate() === Math.min(recurrence.byMonthDay || start.getDate(), lastDay);
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Every occurrence of a service between two dates (inclusive), with its exceptions applied.
+ * Jobs moved into the range from outside it are included; services without a recurrence have none.
+ */
+export function getServiceOccurrences(service: RecurringService, from: Date, to: Date): ServiceOccurrence[] {
+  const recurrence = service.recurrence;
+  if (!recurrence) return [];
+
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  const exceptions = new Map((recurrence.exceptions || []).map(exception => [exception.date, exception]));
+  const occurrences: ServiceOccurrence[] = [];
+
+  for (const dateKey of getPatternDates(recurrence, fromKey, toKey)) {
+    const exception = exceptions.get(dateKey);
+    occurrences.push({
+      serviceId: service.id,
+      serviceType: service.type,
+      date: dateKey,
+      originalDate: dateKey,
+      status: !exception ? 'due' : exception.action === 'skip' ? 'skipped' : 'moved',
+      ...(exception && { exception }),
+    });
+  }
+
+  for (const exception of exceptions.values()) {
+    if (exception.action !== 'move' || !exception.movedTo) continue;
+    if (exception.movedTo < fromKey || exception.movedTo > toKey) continue;
+    if (getPatternDates(recurrence, exception.date, exception.date).length === 0) continue;
+
+    occurrences.push({
+      serviceId: service.id,
+      serviceType: service.type,
+      date: exception.movedTo,
+      originalDate: exception.date,
+      status: 'due',
+      exception,
+    });
+  }
+
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date) || a.originalDate.localeCompare(b.originalDate));
+}
+
+/**
+ * The recurring services with a job due on a date (services without a recurrence are left out)
+ */
+export function getDueRecurringServices<T extends RecurringService>(services: T[], date: Date): T[] {
+  return services.filter(service =>
+    getServiceOccurrences(service, date, date).some(occurrence => occurrence.status === 'due')
+  );
+}
+
+/**
+ * Next job due on or after a date, looking ahead up to a year
+ */
+export function getNextOccurrence(service: RecurringService, after: Date, horizonDays = 366): ServiceOccurrence | null {
+  const horizon = startOfDay(after);
+  horizon.setDate(horizon.getDate() + horizonDays);
+
+  return getServiceOccurrences(service, after, horizon).find(occurrence => occurrence.status === 'due') || null;
+}
+
+/**
+ * Short description of a pattern, e.g. "Every 2 weeks on Mon, Thu · Mar 15-Nov 30"
+ */
+export function describeRecurrence(recurrence: ServiceRecurrence): string {
+  const interval = Math.max(1, recurrence.interval || 1);
+  const start = fromDateKey(recurrence.startDate);
+  const dayNames = (recurrence.byDay?.length ? recurrence.byDay : [DAYS[start.getDay()]])
+    .map(day => day.charAt(0).toUpperCase() + day.slice(1, 3));
+  let text: string;
+
+  if (recurrence.frequency === 'once') {
+    text = `Once on ${start.toLocaleDateString()}`;
+  } else if (recurrence.frequency === 'weekly') {
+    text = `${interval === 1 ? 'Weekly' : `Every ${interval} weeks`} on ${dayNames.join(', ')}`;
+  } else {
+    const every = interval === 1 ? 'monthly' : `every ${interval} months`;
+    text = recurrence.bySetPos && recurrence.byDay?.length
+      ? `${formatSetPos(recurrence.bySetPos)} ${dayNames.join('/')} ${every}`
+      : `Day ${recurrence.byMonthDay || start.getDate()} ${every}`;
+  }
+
+  if (recurrence.byMonth?.length) {
+    text += ` in ${recurrence.byMonth.map(month => MONTHS[month - 1]).join(', ')}`;
+  }
+  if (recurrence.seasonStart || recurrence.seasonEnd) {
+    text += ` · ${formatMonthDay(recurrence.seasonStart || '01-01')}-${formatMonthDay(recurrence.seasonEnd || '12-31')}`;
+  }
+  if (recurrence.count) {
+    text += ` · ${recurrence.count} times`;
+  } else if (recurrence.until) {
+    text += ` · until ${fromDateKey(recurrence.until).toLocaleDateString()}`;
+  }
+
+  return text;
+}
+
+/**
+ * Day keys the pattern lands on in a range. With a count, occurrences are
+ * numbered from the start date so the limit holds wherever the range begins.
+ */
+function getPatternDates(recurrence: ServiceRecurrence, fromKey: string, toKey: string): string[] {
+  const lastKey = recurrence.until && recurrence.until < toKey ? recurrence.until : toKey;
+  const firstKey = recurrence.count || fromKey < recurrence.startDate ? recurrence.startDate : fromKey;
+  const dates: string[] = [];
+  let index = 0;
+
+  for (const cursor = fromDateKey(firstKey); toDateKey(cursor) <= lastKey; cursor.setDate(cursor.getDate() + 1)) {
+    if (!matchesRecurrence(recurrence, cursor)) continue;
+
+    const dateKey = toDateKey(cursor);
+    index++;
+    if (recurrence.count && index > recurrence.count) break;
+    if (dateKey >= fromKey) dates.push(dateKey);
+  }
+
+  return dates;
+}
+
+/**
+ * Whether a date is in the pattern's yearly season (seasons may wrap past the new year)
+ */
+function isInSeason(recurrence: ServiceRecurrence, day: Date): boolean {
+  if (!recurrence.seasonStart && !recurrence.seasonEnd) return true;
+
+  const monthDay = toDateKey(day).slice(5);
+  const seasonStart = recurrence.seasonStart || '01-01';
+  const seasonEnd = recurrence.seasonEnd || '12-31';
+
+  return seasonStart <= seasonEnd
+    ? monthDay >= seasonStart && monthDay <= seasonEnd
+    : monthDay >= seasonStart || monthDay <= seasonEnd;
+}
+
+/**
+ * Whether a day is the Nth of its weekday in the month (negative counts from the end)
+ */
+function isNthWeekday(day: Date, position: number): boolean {
+  if (position > 0) {
+    return Math.ceil(day.getDate() / 7) === position;
+  }
+  const lastDay = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+  return Math.ceil((lastDay - day.getDate() + 1) / 7) === -position;
+}
+
+function formatSetPos(position: number): string {
+  if (position === -1) return 'Last';
+  return ['1st', '2nd', '3rd', '4th', '5th'][position - 1] || `${position}th`;
+}
+
+function formatMonthDay(monthDay: string): string {
+  const [month, day] = monthDay.split('-').map(Number);
+  return `${MONTHS[month - 1]} ${day}`;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Weeks start on Monday, as in RRULE
+function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
@@ -0,0 +1,71 @@
+/**
+ * Service Requirements
+ *
+ * What a job needs from the crew that takes it: the equipment on the truck
+ * and how many members must be on site. Each service type has defaults (a
+ * riding mow needs a riding mower and a trailer to haul it); a customer's
+ * service can add equipment or ask for a bigger crew.
+ */
+
+import type { EquipmentType, Service } from './firebase-types';
+
+export interface ServiceRequirements {
+  equipment: EquipmentType[];
+  crewSize: number;
+}
+
+export const EQUIPMENT_LABELS: Record<EquipmentType, string> = {
+  riding_mower: 'Riding Mower',
+  push_mower: 'Push Mower',
+  trailer: 'Trailer',
+  trimmer: 'Trimmer / Edger',
+  blower: 'Blower',
+  aerator: 'Aerator',
+  spreader: 'Spreader',
+};
+
+// Service types not listed here need no particular equipment and one member
+const SERVICE_TYPE_REQUIREMENTS: Record<string, Partial<ServiceRequirements>> = {
+  'riding-mow': { equipment: ['riding_mower', 'trailer'] },
+};
+
+/**
+ * Requirements for one service type, with any per-service overrides
+ */
+export function getServiceRequirements(
+  serviceType: string,
+  overrides?: Pick<Service, 'requiredEquipment' | 'crewSize'>
+): ServiceRequirements {
+  const defaults = SERVICE_TYPE_REQUIREMENTS[serviceType] || {};
+
+  return {
+    equipment: Array.from(new Set([...(defaults.equipment || []), ...(overrides?.requiredEquipment || [])])),
+    crewSize: overrides?.crewSize || defaults.crewSize || 1,
+  };
+}
+
+/**
+ * Combined requirements for a stop: all equipment any of its services needs,
+ * and the largest crew any of them needs
+ */
+export function getStopRequirements(
+  services: Pick<Service, 'type' | 'requiredEquipment' | 'crewSize'>[]
+): ServiceRequirements {
+  const equipment = new Set<EquipmentType>();
+  let crewSize = 1;
+
+  for (const service of services) {
+    const requirements = getServiceRequirements(service.type, service);
+    requirements.equipment.forEach(item => equipment.add(item));
+    crewSize = Math.max(crewSize, requirements.crewSize);
+  }
+
+  return { equipment: Array.from(equipment).sort(), crewSize };
+}
+
+/**
+ * Equipment a crew's service types imply, for crews that haven't listed their own
+ */
+export function getDefaultCrewEquipment(serviceTypes: string[]): EquipmentType[] {
+  return getStopRequirements(serviceTypes.map(type => ({ type }))).equipment;
+}
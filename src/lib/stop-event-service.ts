@@ -0,0 +1,207 @@
+/**
+ * Stop Event Service
+ *
+ * Records what crews do at each stop (arrive, depart, pause, resume, skip,
+ * notes) in the `stop_events` collection and merges it into the route's
+ * progress record in `route_progress`. Events can arrive late and out of
+ * order (a phone that was offline for an hour, two crew members at the same
+ * stop), so they're merged by the time they happened on the device: the
+ * earliest arrival and latest departure win, a completed stop is never
+ * skipped, and older notes don't replace newer ones. Events that lose are
+ * kept with the reason.
+ */
+
+import { doc, getDoc, onSnapshot, runTransaction, Timestamp } from 'firebase/firestore';
+import { getFirebaseDb } from './firebase';
+import type { RouteStopProgress, StopEvent, StoredRouteProgress } from './firebase-types';
+
+// A stop event as captured on the device, before it reaches Firestore
+export type StopEventInput = Omit<StopEvent, 'occurredAt' | 'syncedAt' | 'result' | 'conflict'> & {
+  occurredAt: number; // Epoch milliseconds on the device
+};
+
+export interface StopEventResult {
+  result: 'applied' | 'conflict';
+  conflict?: string;
+}
+
+/**
+ * Save an event and merge it into the route's progress. Saving an event that
+ * was already saved returns the earlier result without applying it twice.
+ */
+export const applyStopEvent = async (input: StopEventInput): Promise<StopEventResult> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const eventRef = doc(db, 'stop_events', input.id);
+  const progressRef = doc(db, 'route_progress', input.routeId);
+
+  return runTransaction(db, async transaction => {
+    const existingEvent = await transaction.get(eventRef);
+    if (existingEvent.exists()) {
+      const saved = existingEvent.data() as StopEvent;
+      return { result: saved.result || 'applied', ...(saved.conflict && { conflict: saved.conflict }) };
+    }
+
+    const progressDoc = await transaction.get(progressRef);
+    const stored = progressDoc.exists() ? progressDoc.data() as StoredRouteProgress : null;
+    const event: StopEvent = {
+      id: input.id,
+      companyId: input.companyId,
+      routeId: input.routeId,
+      crewId: input.crewId,
+      customerId: input.customerId,
+      action: input.action,
+      occurredAt: Timestamp.fromMillis(input.occurredAt),
+      ...(input.notes !== undefined && { notes: input.notes }),
+      ...(input.source && { source: input.source }),
+      recordedBy: input.recordedBy,
+    };
+    const { progress, conflict } = mergeStopEvent(stored?.stops[input.customerId], event);
+    const now = Timestamp.now();
+
+    if (progress) {
+      transaction.set(progressRef, {
+        companyId: input.companyId,
+        crewId: input.crewId,
+        stops: { [input.customerId]: progress },
+        updatedAt: now,
+      }, { merge: true });
+    }
+
+    transaction.set(eventRef, {
+      ...event,
+      syncedAt: now,
+      result: conflict ? 'conflict' : 'applied',
+      ...(conflict && { conflict }),
+    });
+
+    if (conflict) {
+      console.warn(`Stop event ${input.action} at ${input.customerId} conflicted: ${conflict}`);
+    }
+    return { result: conflict ? 'conflict' : 'applied', ...(conflict && { conflict }) };
+  });
+};
+
+/**
+ * The merged progress for a route, or null before any stop event reached Firestore
+ */
+export const getRouteProgress = async (routeId: string): Promise<StoredRouteProgress | null> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const progressDoc = await getDoc(doc(db, 'route_progress', routeId));
+  return progressDoc.exists() ? progressDoc.data() as StoredRouteProgress : null;
+};
+
+/**
+ * Listen to a route's merged progress, including events saved from other devices
+ */
+export const subscribeToRouteProgress = (
+  routeId: string,
+  callback: (progress: StoredRouteProgress | null) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  return onSnapshot(
+    doc(db, 'route_progress', routeId),
+    docSnap => {
+      callback(docSnap.exists() ? docSnap.data() as StoredRouteProgress : null);
+    },
+    error => {
+      console.error('Error listening to route progress:', error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * A stop's progress with one more event applied. Progress is null when the event
+ * changes nothing; a conflict explains what was kept instead.
+ */
+export function mergeStopEvent(
+  current: RouteStopProgress | undefined,
+  event: Pick<StopEvent, 'action' | 'occurredAt' | 'notes' | 'source' | 'recordedBy'>
+): { progress: RouteStopProgress | null; conflict?: string } {
+  const at = event.occurredAt;
+  const base: RouteStopProgress = current || { status: 'pending', updatedAt: at, updatedBy: event.recordedBy };
+  const touched = {
+    updatedAt: base.updatedAt.toMillis() > at.toMillis() ? base.updatedAt : at,
+    updatedBy: event.recordedBy,
+  };
+
+  switch (event.action) {
+    case 'arrive': {
+      const keepArrival = base.arrivedAt && base.arrivedAt.toMillis() <= at.toMillis();
+      if (base.status === 'skipped' && base.updatedAt.toMillis() > at.toMillis()) {
+        return { progress: null, conflict: 'The stop was skipped after this arrival' };
+      }
+      return {
+        progress: {
+          ...base,
+          ...touched,
+          status: base.status === 'completed' ? 'completed' : 'in_progress',
+          ...(!keepArrival && { arrivedAt: at, arrivalSource: event.source || 'manual' }),
+        },
+      };
+    }
+
+    case 'depart': {
+      const keepDeparture = base.departedAt && base.departedAt.toMillis() >= at.toMillis();
+      return {
+        progress: {
+          ...base,
+          ...touched,
+          status: 'completed',
+          ...(!base.arrivedAt && { arrivedAt: at, arrivalSource: event.source || 'manual' }),
+          ...(!keepDeparture && { departedAt: at, departureSource: event.source || 'manual' }),
+        },
+      };
+    }
+
+    case 'skip': {
+      if (base.status === 'completed') {
+        return { progress: null, conflict: 'The stop was already completed' };
+      }
+      if (base.status === 'in_progress' && base.arrivedAt && base.arrivedAt.toMillis() > at.toMillis()) {
+        return { progress: null, conflict: 'The crew arrived after this skip' };
+      }
+      return {
+        progress: {
+          ...base,
+          ...touched,
+          status: 'skipped',
+          ...(event.notes && { notes: event.notes, notesUpdatedAt: at }),
+        },
+      };
+    }
+
+    case 'pause':
+    case 'resume': {
+      if (base.status !== 'in_progress') {
+        return { progress: null, conflict: `The stop was ${base.status.replace('_', ' ')}, not in progress` };
+      }
+      const field = event.action === 'pause' ? 'pausedAt' : 'resumedAt';
+      const previous = base[field];
+      if (previous && previous.toMillis() >= at.toMillis()) {
+        return { progress: null, conflict: `A later ${event.action} was already recorded` };
+      }
+      return { progress: { ...base, ...touched, [field]: at } };
+    }
+
+    case 'notes': {
+      if (base.notesUpdatedAt && base.notesUpdatedAt.toMillis() > at.toMillis()) {
+        return { progress: null, conflict: 'Newer notes were saved from another device' };
+      }
+      return { progress: { ...base, ...touched, notes: event.notes || '', notesUpdatedAt: at } };
+    }
+  }
+}
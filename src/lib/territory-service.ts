@@ -0,0 +1,189 @@
+/**
+ * Territory Service
+ *
+ * Named service areas drawn as polygons on the map. Every customer is tagged
+ * with the territory containing its location (point-in-polygon on lat/lng),
+ * and crews are bound to the territories they serve. Customer tags are kept in
+ * sync whenever a territory is added, reshaped or removed.
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  getDocs,
+  query,
+  where,
+  onSnapshot,
+  Timestamp,
+} from 'firebase/firestore';
+import { getFirebaseDb } from './firebase';
+import { getCustomers } from './customer-service';
+import { isPointInPolygon } from './location-utils';
+import type { Territory } from './firebase-types';
+
+type LatLng = { lat: number; lng: number };
+
+/**
+ * Get all territories for a company
+ */
+export const getTerritories = async (companyId: string): Promise<Territory[]> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const snapshot = await getDocs(query(collection(db, 'territories'), where('companyId', '==', companyId)));
+  return snapshot.docs
+    .map(territoryDoc => ({ id: territoryDoc.id, ...territoryDoc.data() } as Territory))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Subscribe to a company's territories
+ */
+export const subscribeToTerritories = (
+  companyId: string,
+  callback: (territories: Territory[]) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  return onSnapshot(
+    query(collection(db, 'territories'), where('companyId', '==', companyId)),
+    snapshot => {
+      callback(snapshot.docs
+        .map(territoryDoc => ({ id: territoryDoc.id, ...territoryDoc.data() } as Territory))
+        .sort((a, b) => a.name.localeCompare(b.name)));
+    },
+    error => {
+      console.error('Error listening to territories:', error);
+      onError?.(error);
+    }
+  );
+};
+
+/**
+ * Create a territory and tag the customers inside it
+ */
+export const createTerritory = async (
+  companyId: string,
+  data: Pick<Territory, 'name' | 'color' | 'polygon'>
+): Promise<string> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+  if (data.polygon.length < 3) {
+    throw new Error('A territory needs at least 3 points');
+  }
+
+  const now = Timestamp.now();
+  const docRef = await addDoc(collection(db, 'territories'), {
+    companyId, // REQUIRED: Multi-tenant isolation
+    name: data.name,
+    color: data.color,
+    polygon: data.polygon.map(point => ({ lat: point.lat, lng: point.lng })),
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await syncCustomerTerritories(companyId);
+  return docRef.id;
+};
+
+/**
+ * Rename, recolor or reshape a territory. Customer tags are re-synced when the shape changes.
+ */
+export const updateTerritory = async (
+  companyId: string,
+  territoryId: string,
+  updates: Partial<Pick<Territory, 'name' | 'color' | 'polygon'>>
+): Promise<void> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+  if (updates.polygon && updates.polygon.length < 3) {
+    throw new Error('A territory needs at least 3 points');
+  }
+
+  await updateDoc(doc(db, 'territories', territoryId), {
+    ...updates,
+    updatedAt: Timestamp.now(),
+  });
+
+  if (updates.polygon) {
+    await syncCustomerTerritories(companyId);
+  }
+};
+
+/**
+ * Delete a territory. Its customers are re-tagged (or left without a territory).
+ */
+export const deleteTerritory = async (companyId: string, territoryId: string): Promise<void> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  await deleteDoc(doc(db, 'territories', territoryId));
+  await syncCustomerTerritories(companyId);
+};
+
+/**
+ * Re-tag every customer with the territory containing it.
+ * Returns how many customers changed territory.
+ */
+export const syncCustomerTerritories = async (companyId: string): Promise<number> => {
+  const db = getFirebaseDb();
+  if (!db) {
+    throw new Error('Firebase database not initialized');
+  }
+
+  const [territories, customers] = await Promise.all([getTerritories(companyId), getCustomers(companyId)]);
+  let changed = 0;
+
+  for (const customer of customers) {
+    const territoryId = findTerritoryForLocation(territories, customer)?.id;
+    if (territoryId === customer.territoryId) continue;
+
+    await updateDoc(doc(db, 'customers', customer.id), {
+      territoryId: territoryId ?? deleteField(),
+      updatedAt: Timestamp.now(),
+    });
+    changed++;
+  }
+
+  console.log(`Territories synced for company ${companyId}: ${changed} customers changed territory`);
+  return changed;
+};
+
+/**
+ * Territory ID for a new or moved customer location, if any contains it
+ */
+export const getTerritoryIdForLocation = async (
+  companyId: string,
+  location: LatLng
+): Promise<string | undefined> => {
+  try {
+    return findTerritoryForLocation(await getTerritories(companyId), location)?.id;
+  } catch (error) {
+    console.warn('Could not load territories, leaving customer without a territory:', error);
+    return undefined;
+  }
+};
+
+/**
+ * First territory whose polygon contains the location (territories don't normally overlap)
+ */
+export function findTerritoryForLocation(territories: Territory[], location: LatLng): Territory | undefined {
+  if (!location.lat && !location.lng) return undefined;
+  return territories.find(territory => isPointInPolygon(location, territory.polygon));
+}
@@ -9,6 +9,7 @@
  */
 
 import { Route, RouteStop, TimeBreakdown, StopAnalytics } from './types';
+import { estimateTravel } from './travel-matrix-service';
 
 /**
  * Calculate comprehensive time breakdown for a route
@@ -134,14 +135,8 @@ function calculateDriveTime(
 
   const gap = (arrivalTime - departureTime) / 1000 / 60; // Total time between stops
 
-  // Estimate expected drive time based on distance (rough estimate: 1 mile = 2 minutes in city)
-  const distance = calculateDistance(
-    previousStop.lat,
-    previousStop.lng,
-    currentStop.lat,
-    currentStop.lng
-  );
-  const expectedDriveTime = (distance / 1609.34) * 2; // Convert meters to miles, assume 2 min per mile
+  // Expected drive time from the shared travel matrix provider, with learned corrections
+  const expectedDriveTime = estimateTravel(previousStop, currentStop, new Date(departureTime)).durationMinutes;
 
   return {
     driveTime: Math.min(gap, expectedDriveTime * 1.5), // Cap at 1.5x expected time
@@ -150,29 +145,6 @@ function calculateDriveTime(
   };
 }
 
-/**
- * Calculate distance between coordinates (Haversine formula)
- */
-function calculateDistance(
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number
-): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lng2 - lng1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c; // Distance in meters
-}
-
 /**
  * Calculate overall route efficiency (work time / total time)
  */
@@ -0,0 +1,41 @@
+/**
+ * Time Utilities
+ *
+ * Helpers for the "HH:MM" clock strings used by schedules and time windows,
+ * and the "YYYY-MM-DD" day keys used to store routes
+ */
+
+/**
+ * Convert "HH:MM" to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Convert minutes since midnight to "HH:MM"
+ */
+export function minutesToTime(totalMinutes: number): string {
+  const rounded = Math.round(totalMinutes);
+  const hours = Math.floor(rounded / 60) % 24;
+  const minutes = rounded % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Local calendar day as "YYYY-MM-DD"
+ */
+export function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local midnight for a "YYYY-MM-DD" day key
+ */
+export function fromDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, (month || 1) - 1, day || 1);
+}
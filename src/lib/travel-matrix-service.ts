@@ -0,0 +1,376 @@
+/**
+ * Travel Matrix Service
+ *
+ * Single source of stop-to-stop distances and travel times. Providers:
+ * - Haversine with a road factor (offline, always available)
+ * - OSRM-compatible HTTP table service (can be self-hosted)
+ * - Google Distance Matrix (browser only, requires Maps to be loaded)
+ *
+ * Computed pairs are kept in a persistent cache so repeated planning and ETA
+ * lookups don't hit the network, and synchronous callers (ETAs, progress)
+ * can read cached road times with a Haversine fallback. Those callers also
+ * get any travel time correction set here (learned from recorded drives).
+ */
+
+import { haversineMiles } from './location-utils';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface TravelEstimate {
+  distanceMiles: number;
+  durationMinutes: number;
+}
+
+export interface TravelMatrix {
+  distances: number[][]; // miles, [origin][destination]
+  durations: number[][]; // minutes, [origin][destination]
+}
+
+export interface TravelMatrixProvider {
+  readonly name: string;
+  getMatrix(origins: LatLng[], destinations: LatLng[]): Promise<TravelMatrix>;
+}
+
+// Multiplier for a leg's drive minutes; departure is given when known
+export type TravelTimeCorrection = (from: LatLng, to: LatLng, departure?: Date) => number;
+
+export interface TravelCache {
+  get(key: string): TravelEstimate | undefined;
+  set(key: string, value: TravelEstimate): void;
+}
+
+const METERS_PER_MILE = 1609.344;
+
+// Pairs kept by a travel cache (~100 bytes each in localStorage); least recently used go first
+const DEFAULT_MAX_CACHE_ENTRIES = 5000;
+
+/**
+ * Straight-line distance stretched by a road factor, at an average speed.
+ * Defaults (1.3x, 30 mph) match the 2 minutes per mile used across the app.
+ */
+export class HaversineMatrixProvider implements TravelMatrixProvider {
+  readonly name = 'haversine';
+
+  constructor(
+    private roadFactor: number = 1.3,
+    private averageSpeedMph: number = 30
+  ) {}
+
+  estimate(from: LatLng, to: LatLng): TravelEstimate {
+    const distanceMiles = haversineMiles(from.lat, from.lng, to.lat, to.lng) * this.roadFactor;
+    return {
+      distanceMiles,
+      durationMinutes: (distanceMiles / this.averageSpeedMph) * 60,
+    };
+  }
+
+  async getMatrix(origins: LatLng[], destinations: LatLng[]): Promise<TravelMatrix> {
+    const estimates = origins.map(origin => destinations.map(destination => this.estimate(origin, destination)));
+    return {
+      distances: estimates.map(row => row.map(estimate => estimate.distanceMiles)),
+      durations: estimates.map(row => row.map(estimate => estimate.durationMinutes)),
+    };
+  }
+}
+
+/**
+ * OSRM `table` service (https://project-osrm.org/docs/v5.24.0/api/#table-service)
+ */
+export class OsrmMatrixProvider implements TravelMatrixProvider {
+  readonly name = 'osrm';
+
+  constructor(
+    private baseUrl: string,
+    private profile: string = 'driving'
+  ) {}
+
+  async getMatrix(origins: LatLng[], destinations: LatLng[]): Promise<TravelMatrix> {
+    if (origins.length === 0 || destinations.length === 0) {
+      return { distances: [], durations: [] };
+    }
+
+    // OSRM takes lng,lat pairs; sources and destinations index into one coordinate list
+    const coordinates = [...origins, ...destinations]
+      .map(point => `${point.lng},${point.lat}`)
+      .join(';');
+    const sources = origins.map((_, index) => index).join(';');
+    const targets = destinations.map((_, index) => origins.length + index).join(';');
+    const url = `${this.baseUrl.replace(/\/$/, '')}/table/v1/${this.profile}/${coordinates}` +
+      `?sources=${sources}&destinations=${targets}&annotations=duration,distance`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`OSRM table request failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.code !== 'Ok') {
+      throw new Error(`OSRM table error: ${data.code}`);
+    }
+
+    return {
+      distances: (data.distances as (number | null)[][]).map(row =>
+        row.map(meters => (meters ?? Infinity) / METERS_PER_MILE)
+      ),
+      durations: (data.durations as (number | null)[][]).map(row =>
+        row.map(seconds => (seconds ?? Infinity) / 60)
+      ),
+    };
+  }
+}
+
+/**
+ * Google Distance Matrix via the Maps JavaScript API.
+ * Note: This requires the Google Maps API to be loaded in the browser
+ */
+export class GoogleMatrixProvider implements TravelMatrixProvider {
+  readonly name = 'google';
+  // Origins and destinations per request: 10 x 10 stays within the 100 elements a request may return
+  private static readonly CHUNK_SIZE = 10;
+
+  async getMatrix(origins: LatLng[], destinations: LatLng[]): Promise<TravelMatrix> {
+    if (typeof window === 'undefined' || !window.google?.maps) {
+      throw new Error('Google Maps API not loaded');
+    }
+
+    const service = new window.google.maps.DistanceMatrixService();
+    const distances: number[][] = origins.map(() => []);
+    const durations: number[][] = origins.map(() => []);
+    const size = GoogleMatrixProvider.CHUNK_SIZE;
+
+    for (let originStart = 0; originStart < origins.length; originStart += size) {
+      for (let destinationStart = 0; destinationStart < destinations.length; destinationStart += size) {
+        const originChunk = origins.slice(originStart, originStart + size);
+        const destinationChunk = destinations.slice(destinationStart, destinationStart + size);
+
+        const response: google.maps.DistanceMatrixResponse = await service.getDistanceMatrix({
+          origins: originChunk,
+          destinations: destinationChunk,
+          travelMode: window.google.maps.TravelMode.DRIVING,
+          unitSystem: window.google.maps.UnitSystem.IMPERIAL,
+        });
+
+        response.rows.forEach((row, rowIndex) => {
+          row.elements.forEach((element, columnIndex) => {
+            const ok = element.status === 'OK';
+            distances[originStart + rowIndex][destinationStart + columnIndex] =
+              ok ? element.distance.value / METERS_PER_MILE : Infinity;
+            durations[originStart + rowIndex][destinationStart + columnIndex] =
+              ok ? element.duration.value / 60 : Infinity;
+          });
+        });
+      }
+    }
+
+    return { distances, durations };
+  }
+}
+
+/**
+ * In-memory cache, optionally persisted to localStorage in the browser.
+ * Holds at most maxEntries pairs, dropping the least recently used.
+ */
+export const createTravelCache = (
+  storageKey?: string,
+  maxEntries: number = DEFAULT_MAX_CACHE_ENTRIES
+): TravelCache => {
+  const entries = new Map<string, TravelEstimate>();
+  const storage = storageKey && typeof window !== 'undefined' ? window.localStorage : null;
+
+  if (storage && storageKey) {
+    try {
+      const stored = storage.getItem(storageKey);
+      if (stored) {
+        Object.entries(JSON.parse(stored) as Record<string, TravelEstimate>).forEach(([key, value]) => {
+          entries.set(key, value);
+        });
+      }
+    } catch (error) {
+      console.warn('Failed to load travel cache:', error);
+    }
+  }
+
+  // Map keeps insertion order, so the first keys are the least recently used
+  const evict = (count: number) => {
+    const keys = entries.keys();
+    for (let i = 0; i < count; i++) {
+      const next = keys.next();
+      if (next.done) break;
+      entries.delete(next.value);
+    }
+  };
+  evict(entries.size - maxEntries);
+
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+  const persist = () => {
+    if (!storage || !storageKey || persistTimer) return;
+    // Batch writes from a whole matrix into one localStorage update
+    persistTimer = setTimeout(() => {
+      persistTimer = null;
+      try {
+        storage.setItem(storageKey, JSON.stringify(Object.fromEntries(entries)));
+      } catch (error) {
+        // Out of quota (other data grew): keep the newer half and try once more
+        console.warn('Failed to persist travel cache, dropping older pairs:', error);
+        evict(Math.ceil(entries.size / 2));
+        try {
+          storage.setItem(storageKey, JSON.stringify(Object.fromEntries(entries)));
+        } catch (retryError) {
+          console.warn('Failed to persist travel cache:', retryError);
+        }
+      }
+    }, 0);
+  };
+
+  return {
+    get: key => {
+      const value = entries.get(key);
+      if (value) {
+        // Move to the back so it's evicted last
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      evict(entries.size - maxEntries);
+      persist();
+    },
+  };
+};
+
+/**
+ * Wraps a provider with the pair cache and a Haversine fallback
+ */
+export class CachedTravelMatrixProvider implements TravelMatrixProvider {
+  readonly name: string;
+  private fallback: HaversineMatrixProvider;
+
+  constructor(
+    private provider: TravelMatrixProvider,
+    private cache: TravelCache = createTravelCache()
+  ) {
+    this.name = provider.name;
+    this.fallback = provider instanceof HaversineMatrixProvider ? provider : new HaversineMatrixProvider();
+  }
+
+  /**
+   * Only request pairs that aren't cached yet; fall back to Haversine if the provider fails.
+   * Fallback estimates aren't cached, so the provider is asked again next time.
+   */
+  async getMatrix(origins: LatLng[], destinations: LatLng[]): Promise<TravelMatrix> {
+    // Haversine is cheap to recompute, so there is nothing worth caching
+    if (this.provider === this.fallback) {
+      return this.fallback.getMatrix(origins, destinations);
+    }
+
+    const missingOrigins = origins.filter(origin =>
+      destinations.some(destination => !this.cache.get(this.getKey(origin, destination)))
+    );
+
+    let matrix: TravelMatrix | null = null;
+    if (missingOrigins.length > 0) {
+      try {
+        matrix = await this.provider.getMatrix(missingOrigins, destinations);
+      } catch (error) {
+        console.warn(`Travel matrix provider "${this.provider.name}" failed, using Haversine estimates:`, error);
+      }
+    }
+
+    // Pairs left uncached (provider failed or unroutable) are estimated with Haversine below
+    if (matrix) {
+      const providerMatrix = matrix;
+      missingOrigins.forEach((origin, row) => {
+        destinations.forEach((destination, column) => {
+          const distanceMiles = providerMatrix.distances[row][column];
+          const durationMinutes = providerMatrix.durations[row][column];
+          // Unroutable pairs are left out so they fall back to Haversine
+          if (Number.isFinite(distanceMiles) && Number.isFinite(durationMinutes)) {
+            this.cache.set(this.getKey(origin, destination), { distanceMiles, durationMinutes });
+          }
+        });
+      });
+    }
+
+    const estimates = origins.map(origin => destinations.map(destination => this.estimate(origin, destination)));
+    return {
+      distances: estimates.map(row => row.map(estimate => estimate.distanceMiles)),
+      durations: estimates.map(row => row.map(estimate => estimate.durationMinutes)),
+    };
+  }
+
+  /**
+   * Synchronous lookup: cached provider value, otherwise a Haversine estimate
+   */
+  estimate(from: LatLng, to: LatLng): TravelEstimate {
+    if (this.provider === this.fallback) {
+      return this.fallback.estimate(from, to);
+    }
+    return this.cache.get(this.getKey(from, to)) ?? this.fallback.estimate(from, to);
+  }
+
+  private getKey(from: LatLng, to: LatLng): string {
+    // ~1m precision is plenty for stop-to-stop travel
+    return `${this.provider.name}:${from.lat.toFixed(5)},${from.lng.toFixed(5)}>${to.lat.toFixed(5)},${to.lng.toFixed(5)}`;
+  }
+}
+
+let travelMatrixProvider: CachedTravelMatrixProvider | null = null;
+let travelTimeCorrection: TravelTimeCorrection | null = null;
+
+/**
+ * Shared provider used by the optimizer, ETAs and progress tracking.
+ * Selected with NEXT_PUBLIC_TRAVEL_MATRIX_PROVIDER ('haversine' | 'osrm' | 'google');
+ * OSRM reads its base URL from NEXT_PUBLIC_OSRM_URL.
+ */
+export const getTravelMatrixProvider = (): CachedTravelMatrixProvider => {
+  if (!travelMatrixProvider) {
+    const providerName = process.env.NEXT_PUBLIC_TRAVEL_MATRIX_PROVIDER || 'haversine';
+    let provider: TravelMatrixProvider;
+
+    if (providerName === 'osrm' && process.env.NEXT_PUBLIC_OSRM_URL) {
+      provider = new OsrmMatrixProvider(process.env.NEXT_PUBLIC_OSRM_URL);
+    } else if (providerName === 'google') {
+      provider = new GoogleMatrixProvider();
+    } else {
+      provider = new HaversineMatrixProvider();
+    }
+
+    travelMatrixProvider = new CachedTravelMatrixProvider(provider, createTravelCache('openlawn-travel-cache'));
+  }
+
+  return travelMatrixProvider;
+};
+
+/**
+ * Replace the shared provider (e.g. to use a self-hosted OSRM server)
+ */
+export const setTravelMatrixProvider = (
+  provider: TravelMatrixProvider,
+  cache?: TravelCache
+): void => {
+  travelMatrixProvider = new CachedTravelMatrixProvider(provider, cache);
+};
+
+/**
+ * Correct drive minutes from estimateTravel (null removes the correction)
+ */
+export const setTravelTimeCorrection = (correction: TravelTimeCorrection | null): void => {
+  travelTimeCorrection = correction;
+};
+
+/**
+ * Convenience wrapper for a single leg using the shared provider and any correction
+ */
+export const estimateTravel = (from: LatLng, to: LatLng, departure?: Date): TravelEstimate => {
+  const estimate = getTravelMatrixProvider().estimate(from, to);
+  if (!travelTimeCorrection) {
+    return estimate;
+  }
+  return { ...estimate, durationMinutes: estimate.durationMinutes * travelTimeCorrection(from, to, departure) };
+};
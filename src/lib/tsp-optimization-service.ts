@@ -1,10 +1,30 @@
-import type { Customer } from './firebase-types';
+import type { Customer, RouteImprovementSummary, RouteObjective, StopLock, StopSchedule } from './firebase-types';
+import { improveSequence, insertLockedItems } from './route-local-search';
+import { timeToMinutes, minutesToTime } from './time-utils';
+import { getTravelMatrixProvider } from './travel-matrix-service';
+import { calculateRouteCost } from './route-cost-service';
+import type { RouteCostModel } from './route-cost-service';
+import type { TravelEstimate, TravelMatrixProvider } from './travel-matrix-service';
 
 export interface TSPOptimizationOptions {
   startLocation: { lat: number; lng: number };
   endLocation?: { lat: number; lng: number };
-  optimizeFor: 'distance' | 'time';
+  optimizeFor: RouteObjective; // 'cost' needs costModel, else time is used
+  costModel?: RouteCostModel; // Fuel and labor rates for the 'cost' objective
   travelMode: 'driving' | 'walking' | 'bicycling' | 'transit';
+  timeWindows?: TimeWindowOptions; // Enables time-window-aware (VRPTW) sequencing
+  lockedStops?: StopLock[]; // Position pins always apply; time pins need timeWindows
+  serviceDurations?: Record<string, number>; // Minutes on site, keyed by customer ID (default 30)
+  useGoogleDirections?: boolean; // Let Google seed the order of large routes (default true); false always sequences locally
+}
+
+export interface TimeWindowOptions {
+  mode: 'hard' | 'soft';
+  routeStartTime: string; // "HH:MM" when the crew leaves the start location
+  latePenaltyPerMinute?: number; // Soft mode only, default 10 (in the objective's units)
+  serviceDurations?: Record<string, number>; // Minutes on site, keyed by customer ID
+  defaultServiceDuration?: number; // Minutes, default 30
+  customerWindows?: boolean; // Honor customers' preferred time ranges (default true)
 }
 
 export interface TSPOptimizationResult {
@@ -13,6 +33,22 @@ export interface TSPOptimizationResult {
   estimatedDuration: number; // in minutes
   totalDistance: number; // in miles
   waypoints: google.maps.DirectionsWaypoint[];
+  improvement?: RouteImprovementSummary; // Present when the local search phase ran
+  schedule?: StopSchedule[]; // Present in time window mode
+  unhonoredTimeWindows?: string[]; // Customer IDs that arrive after their window closes
+}
+
+// Penalty per late minute in hard mode, large enough to dominate any travel saving
+const HARD_WINDOW_PENALTY = 1_000_000;
+
+// Most waypoints a Directions API request may carry; larger routes are sequenced locally
+const MAX_DIRECTIONS_WAYPOINTS = 23;
+
+// Travel lookups for one optimization run, backed by a single matrix request
+interface RouteLegs {
+  fromStart(customer: Customer): TravelEstimate;
+  between(from: Customer, to: Customer): TravelEstimate;
+  toEnd(customer: Customer): TravelEstimate | null;
 }
 
 declare global {
@@ -24,9 +60,11 @@ declare global {
 export class TSPOptimizationService {
   private apiKey: string;
   private directionsService: any;
+  private travelMatrixProvider: TravelMatrixProvider;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, travelMatrixProvider: TravelMatrixProvider = getTravelMatrixProvider()) {
     this.apiKey = apiKey;
+    this.travelMatrixProvider = travelMatrixProvider;
     // Note: This service needs to be used in a browser context where Google Maps is loaded
     // For server-side usage, we would need a different approach
   }
@@ -49,13 +87,27 @@ export class TSPOptimizationService {
       };
     }
 
-    // For small datasets (≤ 10 customers), use simple nearest neighbor algorithm
-    if (customers.length <= 10) {
+    // Google Maps can't honor time windows, so always sequence those locally
+    if (options.timeWindows) {
+      return this.optimizeWithTimeWindows(customers, options, {
+        ...options.timeWindows,
+        serviceDurations: options.timeWindows.serviceDurations ?? options.serviceDurations,
+      });
+    }
+
+    // Small routes, routes with pinned stops, routes too long for one Directions request
+    // and local-only runs use nearest neighbor + local search
+    if (
+      customers.length <= 10 ||
+      customers.length > MAX_DIRECTIONS_WAYPOINTS ||
+      options.lockedStops?.length ||
+      options.useGoogleDirections === false
+    ) {
       return this.optimizeWithNearestNeighbor(customers, options);
     }
 
-    // For larger datasets, try Google Maps Directions API with optimization
-    // If that fails, fall back to nearest neighbor
+    // Otherwise Google's optimized waypoint order seeds the same local search.
+    // If that fails, fall back to nearest neighbor + local search
     try {
       return await this.optimizeWithGoogleMaps(customers, options);
     } catch (error) {
@@ -65,77 +117,89 @@ export class TSPOptimizationService {
   }
 
   /**
-   * Simple nearest neighbor algorithm for small datasets
+   * Nearest neighbor construction followed by a local search improvement phase
+   * (2-opt, Or-opt, relocate). Runs without any Google Maps dependency.
    */
   private async optimizeWithNearestNeighbor(
     customers: Customer[],
     options: TSPOptimizationOptions
   ): Promise<TSPOptimizationResult> {
-    const { startLocation } = options;
+    const legs = await this.getRouteLegs(customers, options);
+    const legCost = this.getLegCost(options);
+    const { free, locked } = this.splitLockedStops(customers, options.lockedStops);
 
     // Start with the starting location
-    let currentLocation = startLocation;
-    const remainingCustomers = [...customers];
-    const optimizedCustomers: Customer[] = [];
-    const optimizedPath: { lat: number; lng: number }[] = [startLocation];
-
-    // Calculate Haversine distance for nearest neighbor
-    const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-      const R = 3959; // Earth's radius in miles
-      const dLat = (lat2 - lat1) * Math.PI / 180;
-      const dLng = (lng2 - lng1) * Math.PI / 180;
-      const a =
-        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-        Math.sin(dLng / 2) * Math.sin(dLng / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      return R * c;
-    };
-
-    let totalDistance = 0;
-    let estimatedDuration = 0;
+    let current: Customer | null = null;
+    const remainingCustomers = [...free];
+    const nearestNeighborOrder: Customer[] = [];
 
     // Find nearest neighbor until all customers are assigned
     while (remainingCustomers.length > 0) {
       let nearestIndex = 0;
-      let nearestDistance = Infinity;
+      let nearestCost = Infinity;
 
       for (let i = 0; i < remainingCustomers.length; i++) {
-        const distance = calculateDistance(
-          currentLocation.lat,
-          currentLocation.lng,
-          remainingCustomers[i].lat,
-          remainingCustomers[i].lng
-        );
+        const leg: TravelEstimate = current
+          ? legs.between(current, remainingCustomers[i])
+          : legs.fromStart(remainingCustomers[i]);
 
-        if (distance < nearestDistance) {
-          nearestDistance = distance;
+        if (legCost(leg) < nearestCost) {
+          nearestCost = legCost(leg);
           nearestIndex = i;
         }
       }
 
-      const nearestCustomer = remainingCustomers[nearestIndex];
-      optimizedCustomers.push(nearestCustomer);
-      optimizedPath.push({ lat: nearestCustomer.lat, lng: nearestCustomer.lng });
-
-      totalDistance += nearestDistance;
-      estimatedDuration += 30; // 30 minutes per customer
-
-      currentLocation = { lat: nearestCustomer.lat, lng: nearestCustomer.lng };
+      current = remainingCustomers[nearestIndex];
+      nearestNeighborOrder.push(current);
       remainingCustomers.splice(nearestIndex, 1);
     }
 
-    // Add travel time back to start/end if specified
-    if (options.endLocation) {
-      const returnDistance = calculateDistance(
-        currentLocation.lat,
-        currentLocation.lng,
-        options.endLocation.lat,
-        options.endLocation.lng
-      );
-      totalDistance += returnDistance;
-      estimatedDuration += returnDistance * 2; // Rough estimate: 2 minutes per mile
-    }
+    return this.improveOrder(nearestNeighborOrder, customers, options, legs, locked);
+  }
+
+  /**
+   * Local search improvement phase (2-opt, Or-opt, relocate) from an initial
+   * order of the free stops; start, end and pinned stops stay fixed.
+   */
+  private improveOrder(
+    initialOrder: Customer[],
+    customers: Customer[],
+    options: TSPOptimizationOptions,
+    legs: RouteLegs,
+    locked: { item: Customer; position: number }[] = []
+  ): TSPOptimizationResult {
+    const { startLocation, endLocation } = options;
+    const legCost = this.getLegCost(options);
+    const withLocks = (sequence: Customer[]) => insertLockedItems(sequence, locked);
+    const serviceMinutes = customers.reduce(
+      (total, customer) => total + (options.serviceDurations?.[customer.id] ?? 30),
+      0
+    );
+
+    // Overtime makes cost depend on the whole day, so cost routes are scored as a whole
+    const localSearch = improveSequence(initialOrder, sequence => {
+      const route = withLocks(sequence);
+      if (options.optimizeFor !== 'cost' || !options.costModel) {
+        return this.sumLegs(route, legs, legCost);
+      }
+      return calculateRouteCost(
+        this.sumLegs(route, legs, leg => leg.distanceMiles),
+        this.sumLegs(route, legs, leg => leg.durationMinutes) + serviceMinutes,
+        options.costModel
+      ).totalCost;
+    });
+    const optimizedCustomers = withLocks(localSearch.sequence);
+    const initialDistance = this.sumLegs(withLocks(initialOrder), legs, leg => leg.distanceMiles);
+    const totalDistance = this.sumLegs(optimizedCustomers, legs, leg => leg.distanceMiles);
+
+    const optimizedPath: { lat: number; lng: number }[] = [
+      startLocation,
+      ...optimizedCustomers.map(customer => ({ lat: customer.lat, lng: customer.lng })),
+      ...(endLocation ? [endLocation] : []),
+    ];
+
+    // Time on site plus every drive, including back to the end if there is one
+    const estimatedDuration = serviceMinutes + this.sumLegs(optimizedCustomers, legs, leg => leg.durationMinutes);
 
     return {
       optimizedCustomers,
@@ -143,24 +207,320 @@ export class TSPOptimizationService {
       estimatedDuration,
       totalDistance,
       waypoints: [],
+      improvement: {
+        initialDistance,
+        finalDistance: totalDistance,
+        distanceSaved: initialDistance - totalDistance,
+        iterations: localSearch.iterations,
+        moves: localSearch.moves,
+      },
+    };
+  }
+
+  /**
+   * Time-window-aware sequencing (VRPTW style, single vehicle).
+   * Orders stops by window deadline, then improves with local search where the
+   * cost is total route minutes plus a penalty for every minute past a window.
+   * In hard mode the penalty dominates; stops that still can't be honored are flagged.
+   * Stops pinned to a time are always treated as hard windows.
+   */
+  private async optimizeWithTimeWindows(
+    customers: Customer[],
+    options: TSPOptimizationOptions,
+    timeWindows: TimeWindowOptions
+  ): Promise<TSPOptimizationResult> {
+    const { startLocation, endLocation } = options;
+    const legs = await this.getRouteLegs(customers, options);
+    const penalty = timeWindows.mode === 'hard'
+      ? HARD_WINDOW_PENALTY
+      : timeWindows.latePenaltyPerMinute ?? 10;
+    const { free, locked } = this.splitLockedStops(customers, options.lockedStops);
+    const withLocks = (sequence: Customer[]) => insertLockedItems(sequence, locked);
+    const pinnedTimes = new Map(
+      (options.lockedStops || [])
+        .filter(lock => lock.time)
+        .map(lock => [lock.customerId, lock.time!])
+    );
+
+    // Earliest deadline first as the construction heuristic
+    const initialOrder = [...free].sort((a, b) => {
+      const aWindow = this.getTimeWindow(a, timeWindows, pinnedTimes);
+      const bWindow = this.getTimeWindow(b, timeWindows, pinnedTimes);
+      return timeToMinutes(aWindow.end) - timeToMinutes(bWindow.end) ||
+        timeToMinutes(aWindow.start) - timeToMinutes(bWindow.start);
+    });
+
+    const localSearch = improveSequence(initialOrder, sequence => {
+      const evaluation = this.evaluateTimeWindowRoute(withLocks(sequence), legs, timeWindows, pinnedTimes);
+      return this.getObjective(evaluation.distance, evaluation.durationMinutes, options) +
+        evaluation.lateMinutes * penalty +
+        evaluation.pinnedLateMinutes * HARD_WINDOW_PENALTY;
+    });
+
+    const optimizedCustomers = withLocks(localSearch.sequence);
+    const evaluation = this.evaluateTimeWindowRoute(optimizedCustomers, legs, timeWindows, pinnedTimes);
+    const initialDistance = this.sumLegs(withLocks(initialOrder), legs, leg => leg.distanceMiles);
+
+    return {
+      optimizedCustomers,
+      optimizedPath: [
+        startLocation,
+        ...optimizedCustomers.map(customer => ({ lat: customer.lat, lng: customer.lng })),
+        ...(endLocation ? [endLocation] : []),
+      ],
+      estimatedDuration: evaluation.durationMinutes,
+      totalDistance: evaluation.distance,
+      waypoints: [],
+      improvement: {
+        initialDistance,
+        finalDistance: evaluation.distance,
+        distanceSaved: initialDistance - evaluation.distance,
+        iterations: localSearch.iterations,
+        moves: localSearch.moves,
+      },
+      schedule: evaluation.schedule,
+      unhonoredTimeWindows: evaluation.schedule
+        .filter(stop => !stop.withinWindow)
+        .map(stop => stop.customerId),
     };
   }
 
   /**
-   * Use Google Maps Directions API for optimization
+   * Cost of a single leg under the objective (linear: overtime only shows on whole routes)
+   */
+  private getLegCost(options: TSPOptimizationOptions): (leg: TravelEstimate) => number {
+    if (options.optimizeFor === 'distance') {
+      return leg => leg.distanceMiles;
+    }
+    const costModel = options.optimizeFor === 'cost' ? options.costModel : undefined;
+    if (costModel) {
+      return leg => leg.distanceMiles * costModel.fuelCostPerMile + leg.durationMinutes * costModel.laborCostPerMinute;
+    }
+    return leg => leg.durationMinutes;
+  }
+
+  /**
+   * Score of a whole route under the objective: miles, minutes, or fuel + labor with overtime
+   */
+  private getObjective(distanceMiles: number, durationMinutes: number, options: TSPOptimizationOptions): number {
+    if (options.optimizeFor === 'distance') {
+      return distanceMiles;
+    }
+    if (options.optimizeFor === 'cost' && options.costModel) {
+      return calculateRouteCost(distanceMiles, durationMinutes, options.costModel).totalCost;
+    }
+    return durationMinutes;
+  }
+
+  /**
+   * Simulate a route in time: arrival, waiting for the window to open, service and departure
+   */
+  private evaluateTimeWindowRoute(
+    customers: Customer[],
+    legs: RouteLegs,
+    timeWindows: TimeWindowOptions,
+    pinnedTimes: Map<string, string>
+  ): {
+    schedule: StopSchedule[];
+    durationMinutes: number;
+    distance: number;
+    lateMinutes: number;
+    pinnedLateMinutes: number;
+  } {
+    const routeStart = timeToMinutes(timeWindows.routeStartTime);
+    const schedule: StopSchedule[] = [];
+    let clock = routeStart;
+    let distance = 0;
+    let lateMinutes = 0;
+    let pinnedLateMinutes = 0;
+    let previous: Customer | null = null;
+
+    for (const customer of customers) {
+      const leg: TravelEstimate = previous ? legs.between(previous, customer) : legs.fromStart(customer);
+      distance += leg.distanceMiles;
+
+      const arrival = clock + leg.durationMinutes;
+      const window = this.getTimeWindow(customer, timeWindows, pinnedTimes);
+      const windowStart = timeToMinutes(window.start);
+      const windowEnd = timeToMinutes(window.end);
+      const serviceStart = Math.max(arrival, windowStart);
+      const late = Math.max(0, serviceStart - windowEnd);
+      const serviceDuration = timeWindows.serviceDurations?.[customer.id] ??
+        timeWindows.defaultServiceDuration ?? 30;
+      const departure = serviceStart + serviceDuration;
+
+      schedule.push({
+        customerId: customer.id,
+        arrival: minutesToTime(arrival),
+        serviceStart: minutesToTime(serviceStart),
+        departure: minutesToTime(departure),
+        waitMinutes: Math.round(serviceStart - arrival),
+        lateMinutes: Math.round(late),
+        timeWindow: window,
+        withinWindow: late < 1,
+      });
+
+      if (pinnedTimes.has(customer.id)) {
+        pinnedLateMinutes += late;
+      } else {
+        lateMinutes += late;
+      }
+      clock = departure;
+      previous = customer;
+    }
+
+    const returnLeg = previous ? legs.toEnd(previous) : null;
+    if (returnLeg) {
+      distance += returnLeg.distanceMiles;
+      clock += returnLeg.durationMinutes;
+    }
+
+    return { schedule, durationMinutes: clock - routeStart, distance, lateMinutes, pinnedLateMinutes };
+  }
+
+  /**
+   * Pinned service time, else the customer's preferred time range, else the whole day
+   */
+  private getTimeWindow(
+    customer: Customer,
+    timeWindows: TimeWindowOptions,
+    pinnedTimes: Map<string, string>
+  ): { start: string; end: string } {
+    const pinnedTime = pinnedTimes.get(customer.id);
+    if (pinnedTime) {
+      return { start: pinnedTime, end: pinnedTime };
+    }
+
+    const range = timeWindows.customerWindows === false
+      ? undefined
+      : customer.servicePreferences?.preferredTimeRange;
+    return {
+      start: range?.start || '00:00',
+      end: range?.end || '23:59',
+    };
+  }
+
+  /**
+   * Separate stops pinned to a position from the ones the optimizer may move
+   */
+  private splitLockedStops(
+    customers: Customer[],
+    lockedStops: StopLock[] = []
+  ): { free: Customer[]; locked: { item: Customer; position: number }[] } {
+    const positions = new Map(
+      lockedStops
+        .filter(lock => lock.position !== undefined)
+        .map(lock => [lock.customerId, lock.position!])
+    );
+
+    return {
+      free: customers.filter(customer => !positions.has(customer.id)),
+      locked: customers
+        .filter(customer => positions.has(customer.id))
+        .map(customer => ({ item: customer, position: positions.get(customer.id)! })),
+    };
+  }
+
+  /**
+   * Fetch one travel matrix for the start, every customer and the end (if any)
+   */
+  private async getRouteLegs(customers: Customer[], options: TSPOptimizationOptions): Promise<RouteLegs> {
+    const { startLocation, endLocation } = options;
+    const points = [
+      startLocation,
+      ...customers.map(customer => ({ lat: customer.lat, lng: customer.lng })),
+      ...(endLocation ? [endLocation] : []),
+    ];
+    const matrix = await this.travelMatrixProvider.getMatrix(points, points);
+    const indexById = new Map(customers.map((customer, index) => [customer.id, index + 1]));
+    const endIndex = points.length - 1;
+
+    const leg = (from: number, to: number): TravelEstimate => ({
+      distanceMiles: matrix.distances[from][to],
+      durationMinutes: matrix.durations[from][to],
+    });
+
+    return {
+      fromStart: customer => leg(0, indexById.get(customer.id)!),
+      between: (from, to) => leg(indexById.get(from.id)!, indexById.get(to.id)!),
+      toEnd: customer => endLocation ? leg(indexById.get(customer.id)!, endIndex) : null,
+    };
+  }
+
+  /**
+   * Sum a leg measure from the start, through every customer, to the end (if any)
+   */
+  private sumLegs(
+    customers: Customer[],
+    legs: RouteLegs,
+    measure: (leg: TravelEstimate) => number
+  ): number {
+    if (customers.length === 0) return 0;
+
+    let total = measure(legs.fromStart(customers[0]));
+    for (let i = 1; i < customers.length; i++) {
+      total += measure(legs.between(customers[i - 1], customers[i]));
+    }
+
+    const returnLeg = legs.toEnd(customers[customers.length - 1]);
+    if (returnLeg) {
+      total += measure(returnLeg);
+    }
+
+    return total;
+  }
+
+  /**
+   * Seed the local search with the Google Maps Directions API's optimized waypoint order
    * Note: This requires the Google Maps API to be loaded in the browser
    */
   private async optimizeWithGoogleMaps(
     customers: Customer[],
     options: TSPOptimizationOptions
   ): Promise<TSPOptimizationResult> {
+    const legs = await this.getRouteLegs(customers, options);
+
+    // Open routes finish at a stop, not back at the start: end at the stop farthest
+    // from the start and let Google order the rest
+    const lastStop = options.endLocation
+      ? undefined
+      : customers.reduce((farthest, customer) =>
+          legs.fromStart(customer).distanceMiles > legs.fromStart(farthest).distanceMiles ? customer : farthest
+        );
+    const googleOrder = await this.getGoogleWaypointOrder(customers, options, lastStop);
+
+    const result = this.improveOrder(googleOrder.customers, customers, options, legs);
+
+    // Keep Google's road geometry when the local search left its order alone
+    const unchanged = result.optimizedCustomers.every((customer, index) => customer.id === googleOrder.customers[index].id);
+    return unchanged ? { ...result, optimizedPath: googleOrder.path } : result;
+  }
+
+  /**
+   * Ask the Directions API to order the stops (at most MAX_DIRECTIONS_WAYPOINTS).
+   * Without an end location the route finishes at lastStop.
+   */
+  private getGoogleWaypointOrder(
+    customers: Customer[],
+    options: TSPOptimizationOptions,
+    lastStop?: Customer
+  ): Promise<{ customers: Customer[]; path: { lat: number; lng: number }[] }> {
     // Check if we're in a browser environment with Google Maps loaded
     if (typeof window === 'undefined') {
-      throw new Error('Google Maps API not available in server environment. Falling back to nearest neighbor algorithm.');
+      return Promise.reject(new Error('Google Maps API not available in server environment. Falling back to nearest neighbor algorithm.'));
     }
 
     if (!window.google || !window.google.maps) {
-      throw new Error('Google Maps API not loaded. Falling back to nearest neighbor algorithm.');
+      return Promise.reject(new Error('Google Maps API not loaded. Falling back to nearest neighbor algorithm.'));
+    }
+
+    if (!options.endLocation && !lastStop) {
+      return Promise.reject(new Error('An open route needs a last stop to end at'));
+    }
+
+    const waypointCustomers = lastStop ? customers.filter(customer => customer.id !== lastStop.id) : customers;
+    if (waypointCustomers.length > MAX_DIRECTIONS_WAYPOINTS) {
+      return Promise.reject(new Error(`Directions API takes at most ${MAX_DIRECTIONS_WAYPOINTS} waypoints, got ${waypointCustomers.length}`));
     }
 
     return new Promise((resolve, reject) => {
@@ -169,17 +529,15 @@ export class TSPOptimizationService {
           this.directionsService = new window.google.maps.DirectionsService();
         }
 
-        // Create waypoints for Google Maps (limit to 23 for Directions API)
-        const waypoints = customers.slice(0, 23).map(customer => ({
+        const waypoints = waypointCustomers.map(customer => ({
           location: new window.google.maps.LatLng(customer.lat, customer.lng),
           stopover: true,
         }));
 
         // Set origin and destination
         const origin = new window.google.maps.LatLng(options.startLocation.lat, options.startLocation.lng);
-        const destination = options.endLocation
-          ? new window.google.maps.LatLng(options.endLocation.lat, options.endLocation.lng)
-          : origin; // Return to start if no end location specified
+        const destinationPoint = options.endLocation || lastStop!;
+        const destination = new window.google.maps.LatLng(destinationPoint.lat, destinationPoint.lng);
 
         const request = {
           origin,
@@ -197,29 +555,22 @@ export class TSPOptimizationService {
         this.directionsService.route(request, (response: any, status: any) => {
           if (status === 'OK' && response && response.routes && response.routes.length > 0) {
             const route = response.routes[0];
-            const optimizedWaypoints = route.waypoint_order || [];
-
-            // Reorder customers based on optimized waypoint order
-            const optimizedCustomers = optimizedWaypoints.map((index: number) => customers[index]);
-            const optimizedPath = route.overview_path.map((point: any) => ({
-              lat: point.lat(),
-              lng: point.lng(),
-            }));
-
-            const totalDistance = route.legs.reduce((total: number, leg: any) => {
-              return total + (leg.distance?.value || 0);
-            }, 0) / 1609.34; // Convert meters to miles
+            const optimizedWaypoints: number[] = route.waypoint_order || [];
 
-            const estimatedDuration = route.legs.reduce((total: number, leg: any) => {
-              return total + (leg.duration?.value || 0);
-            }, 0) / 60; // Convert seconds to minutes
+            if (optimizedWaypoints.length !== waypointCustomers.length) {
+              reject(new Error('Google Maps returned an incomplete waypoint order'));
+              return;
+            }
 
             resolve({
-              optimizedCustomers,
-              optimizedPath,
-              estimatedDuration,
-              totalDistance,
-              waypoints,
+              customers: [
+                ...optimizedWaypoints.map(index => waypointCustomers[index]),
+                ...(lastStop ? [lastStop] : []),
+              ],
+              path: route.overview_path.map((point: any) => ({
+                lat: point.lat(),
+                lng: point.lng(),
+              })),
             });
           } else {
             const errorMsg = status === 'OK' ? 'No routes found' : `Google Maps API error: ${status}`;
@@ -236,6 +587,9 @@ export class TSPOptimizationService {
 /**
  * Factory function to get TSP optimization service instance
  */
-export const getTSPOptimizationService = (apiKey: string): TSPOptimizationService => {
-  return new TSPOptimizationService(apiKey);
+export const getTSPOptimizationService = (
+  apiKey: string,
+  travelMatrixProvider?: TravelMatrixProvider
+): TSPOptimizationService => {
+  return new TSPOptimizationService(apiKey, travelMatrixProvider);
 };
\ No newline at end of file
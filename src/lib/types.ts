@@ -1,5 +1,10 @@
+import type { ChecklistItemResult, EquipmentType, ServiceRecurrence, ServiceSignature } from './firebase-types';
+
 export type ServiceType = 'push-mow' | 'edge' | 'blow' | 'detail' | 'riding-mow';
 
+// How a stop timestamp was recorded: tapped by the crew, or detected by geofencing
+export type TimestampSource = 'manual' | 'auto';
+
 export type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
 
 // Service type for embedded services in customer
@@ -14,6 +19,9 @@ export type Service = {
   notes?: string;
   photos?: string[];
   assignedCrew?: string;
+  requiredEquipment?: EquipmentType[];
+  crewSize?: number;
+  recurrence?: ServiceRecurrence;
 };
 
 // Legacy types for backward compatibility - these will be removed as we migrate
@@ -34,6 +42,7 @@ export type Customer = {
   createdBy?: string; // User ID who created this customer
   lastServiceDate?: Date | { seconds: number; nanoseconds: number };
   nextServiceDate?: Date | { seconds: number; nanoseconds: number };
+  lotSize?: 'small' | 'medium' | 'large' | 'estate';
 };
 
 export type ServicePreferences = {
@@ -55,9 +64,11 @@ export type ServiceRecord = {
   completedBy?: string; // Optional for backward compatibility
   crewId?: string;
   duration?: number;
+  serviceIds?: string[]; // Services done at this visit
   status?: 'completed' | 'in-progress' | 'cancelled' | 'no-show';
   beforePhotos?: string[]; // URLs to before photos
   afterPhotos?: string[]; // URLs to after photos
+  signature?: ServiceSignature; // Signed proof of service
 };
 
 // Simple user profile type for backward compatibility
@@ -95,8 +106,15 @@ export type RouteStop = {
   status: 'pending' | 'in_progress' | 'completed' | 'skipped';
   eta?: Date;
   estimatedArrival?: string; // Time in HH:MM format
+  serviceType?: string; // Primary service type at this stop
+  serviceTypes?: string[]; // Every service type due at this stop
+  serviceIds?: string[]; // Every service due at this stop
+  estimatedWorkMinutes?: number; // Planned minutes on site
+  estimateConfidence?: 'high' | 'medium' | 'low';
   actualArrival?: Date;
   actualDeparture?: Date;
+  arrivalSource?: TimestampSource; // Whether the arrival was tapped or detected from GPS
+  departureSource?: TimestampSource;
 
   // Timing analytics
   driveTime?: number; // Minutes driving to this stop
@@ -104,6 +122,15 @@ export type RouteStop = {
   notes?: string; // Employee notes per stop
   pausedAt?: Date; // If stop was paused
   resumedAt?: Date; // If stop was resumed
+  checklist?: ChecklistItemResult[]; // Checklist progress, once the crew has touched it
+  signature?: StopSignature; // Customer's proof-of-service signature, if one was taken
+};
+
+// A signature captured on the device, uploaded with the stop's service record
+export type StopSignature = {
+  signerName: string;
+  signedAt: Date;
+  image: string; // PNG data URL
 };
 
 // Schedule status types
@@ -156,9 +183,18 @@ export type RouteMetrics = {
   // Per-stop breakdown
   stopMetrics: {
     customerId: string;
+    serviceType?: string;
+    serviceTypes?: string[]; // Every service done at the stop, when there was more than one
     driveTime: number;
     workTime: number;
     efficiency: number;
+    predictedDriveTime?: number; // Travel estimate for the leg, before learned corrections
+    correctedDriveTime?: number; // Estimate with the learned corrections in use at the time
+    departureHour?: number; // Hour the crew left the previous stop (0-23)
+    lat?: number; // Stop location, for learning drive times by area
+    lng?: number;
+    arrivalSource?: TimestampSource;
+    departureSource?: TimestampSource;
   }[];
 
   // Metadata
@@ -0,0 +1,238 @@
+/**
+ * Weather Reschedule Service
+ *
+ * Finds jobs planned on days the forecast makes unworkable for their service
+ * type (precipitation and wind limits from the scheduling rules) and proposes
+ * moving each one to the next workable day, keeping it on one of the
+ * customer's preferred days when one comes up soon enough. Jobs cascade past
+ * any further bad days. A manager reviews the moves as a diff; approving
+ * records them as moved visits and re-plans the days that already have routes.
+ */
+
+import { getDayOfWeek, getDueServices, getSchedulingRules } from './scheduling-engine';
+import { getRoutesForRange, regenerateRoutesForDate } from './route-service';
+import { getStoredRoutesForDate } from './route-storage-service';
+import { moveCustomerVisit, moveServiceOccurrence } from './customer-service';
+import { getWeatherProvider } from './weather-service';
+import { isWorkingDay } from './company-calendar';
+import { fromDateKey, toDateKey } from './time-utils';
+import type { DailyForecast } from './weather-service';
+import type { Company, DailyRoute, SchedulingRules, WeatherThresholds } from './firebase-types';
+
+// How far past a bad day to look for a workable one
+const MAX_SEARCH_DAYS = 14;
+
+export interface WeatherMove {
+  customerId: string;
+  customerName: string;
+  crewId: string; // Crew the job was planned on
+  serviceTypes: string[];
+  recurringServiceIds: string[]; // Moved one by one as recurrence exceptions
+  movesCustomerVisit: boolean; // Services on the customer's own frequency move as one visit
+  fromDate: string; // "YYYY-MM-DD"
+  toDate: string;
+  onPreferredDay: boolean;
+  reason: string; // e.g. "0.60 in of rain"
+}
+
+export interface WeatherReschedulePlan {
+  forecasts: DailyForecast[];
+  unworkableDates: string[]; // Days over the default limits
+  moves: WeatherMove[];
+}
+
+/**
+ * Why the weather rules out a service type on a day, or null if it's workable.
+ * Days without a forecast are workable.
+ */
+export function getWeatherBlock(
+  forecast: DailyForecast | undefined,
+  serviceType: string | null,
+  rules: SchedulingRules
+): string | null {
+  if (!forecast) return null;
+
+  const thresholds: WeatherThresholds = {
+    ...rules.weatherThresholds,
+    ...(serviceType && rules.weatherThresholdsByServiceType[serviceType]),
+  };
+
+  if (thresholds.maxPrecipitationInches !== undefined && forecast.precipitationInches > thresholds.maxPrecipitationInches) {
+    return `${forecast.precipitationInches.toFixed(2)} in of rain`;
+  }
+  if (thresholds.maxPrecipitationChance !== undefined && forecast.precipitationChance > thresholds.maxPrecipitationChance) {
+    return `${Math.round(forecast.precipitationChance)}% chance of rain`;
+  }
+  if (thresholds.maxWindMph !== undefined && forecast.windMph > thresholds.maxWindMph) {
+    return `${Math.round(forecast.windMph)} mph wind`;
+  }
+
+  return null;
+}
+
+/**
+ * Moves for every job on an unworkable day in the given routes.
+ * Days the company calendar has closed are never picked as targets.
+ */
+export function proposeWeatherMoves(
+  routes: DailyRoute[],
+  forecasts: DailyForecast[],
+  rules: SchedulingRules,
+  company: Company | null = null
+): WeatherMove[] {
+  const forecastsByDate = new Map(forecasts.map(forecast => [forecast.date, forecast]));
+  const moves: WeatherMove[] = [];
+
+  const sortedRoutes = [...routes].sort((a, b) =>
+    toDateKey(a.date).localeCompare(toDateKey(b.date)) || a.crewId.localeCompare(b.crewId)
+  );
+
+  for (const route of sortedRoutes) {
+    const fromDate = toDateKey(route.date);
+    const forecast = forecastsByDate.get(fromDate);
+    if (!forecast) continue;
+
+    for (const customer of route.customers) {
+      const blocked = getDueServices(customer, route.date, rules)
+        .map(service => ({ service, reason: getWeatherBlock(forecast, service.type, rules) }))
+        .filter(({ reason }) => reason !== null);
+      if (blocked.length === 0) continue;
+
+      const serviceTypes = Array.from(new Set(blocked.map(({ service }) => service.type)));
+      const target = findTargetDate(fromDate, serviceTypes, customer.servicePreferences?.preferredDays || [], forecastsByDate, rules, company);
+      if (!target) {
+        console.warn(`No workable day within ${MAX_SEARCH_DAYS} days for ${customer.name} (${fromDate})`);
+        continue;
+      }
+
+      moves.push({
+        customerId: customer.id,
+        customerName: customer.name,
+        crewId: route.crewId,
+        serviceTypes,
+        recurringServiceIds: blocked.filter(({ service }) => service.recurrence).map(({ service }) => service.id),
+        movesCustomerVisit: blocked.some(({ service }) => !service.recurrence),
+        fromDate,
+        toDate: target.date,
+        onPreferredDay: target.onPreferredDay,
+        reason: blocked[0].reason!,
+      });
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * Forecast the next few days at the company's home base and propose moves
+ * for the jobs planned (or previewed) on unworkable days
+ */
+export const planWeatherReschedule = async (
+  companyId: string,
+  startDate: Date,
+  days: number = 7
+): Promise<WeatherReschedulePlan> => {
+  const provider = await getWeatherProvider();
+  if (!provider) {
+    throw new Error('No weather provider configured');
+  }
+
+  const { getCompany } = await import('./company-service');
+  const company = await getCompany(companyId);
+  const rules = getSchedulingRules(company);
+
+  const endDate = new Date(startDate);
+  endDate.setDate(endDate.getDate() + days - 1);
+  const routes = await getRoutesForRange(companyId, startDate, endDate);
+
+  const location = company?.baseLocation || routes.flatMap(route => route.customers)[0];
+  if (!location) {
+    return { forecasts: [], unworkableDates: [], moves: [] };
+  }
+
+  // Forecast past the range too, so jobs can cascade into the following days
+  const forecastEnd = new Date(endDate);
+  forecastEnd.setDate(forecastEnd.getDate() + MAX_SEARCH_DAYS);
+  const forecasts = await provider.getDailyForecasts({ lat: location.lat, lng: location.lng }, startDate, forecastEnd);
+
+  const endKey = toDateKey(endDate);
+  const moves = proposeWeatherMoves(routes, forecasts, rules, company);
+  console.log(`Weather check (${provider.name}): ${moves.length} jobs to move`);
+
+  return {
+    forecasts: forecasts.filter(forecast => forecast.date <= endKey),
+    unworkableDates: forecasts
+      .filter(forecast => forecast.date <= endKey && getWeatherBlock(forecast, null, rules))
+      .map(forecast => forecast.date),
+    moves,
+  };
+};
+
+/**
+ * Record approved moves and re-plan the affected days that already have routes.
+ * Days not planned yet pick the moved jobs up when they are generated.
+ */
+export const applyWeatherReschedule = async (
+  companyId: string,
+  moves: WeatherMove[],
+  userId?: string
+): Promise<void> => {
+  for (const move of moves) {
+    const details = { reason: `Weather: ${move.reason}`, userId };
+
+    for (const serviceId of move.recurringServiceIds) {
+      await moveServiceOccurrence(move.customerId, serviceId, move.fromDate, move.toDate, details);
+    }
+    if (move.movesCustomerVisit) {
+      await moveCustomerVisit(move.customerId, move.fromDate, move.toDate, details);
+    }
+  }
+
+  const affectedDates = Array.from(new Set(moves.flatMap(move => [move.fromDate, move.toDate]))).sort();
+  for (const dateKey of affectedDates) {
+    const date = fromDateKey(dateKey);
+    const storedRoutes = await getStoredRoutesForDate(companyId, date, []);
+    if (storedRoutes.length > 0) {
+      await regenerateRoutesForDate(companyId, date, userId);
+    }
+  }
+};
+
+/**
+ * Next open day workable for every service type, preferring one of the
+ * customer's preferred days if one is workable within the rules' shift limit
+ */
+function findTargetDate(
+  fromDate: string,
+  serviceTypes: string[],
+  preferredDays: string[],
+  forecastsByDate: Map<string, DailyForecast>,
+  rules: SchedulingRules,
+  company: Company | null
+): { date: string; onPreferredDay: boolean } | null {
+  let firstWorkable: string | null = null;
+  const candidate = fromDateKey(fromDate);
+
+  for (let offset = 1; offset <= MAX_SEARCH_DAYS; offset++) {
+    candidate.setDate(candidate.getDate() + 1);
+    const dateKey = toDateKey(candidate);
+    const forecast = forecastsByDate.get(dateKey);
+    if (!isWorkingDay(company, candidate)) continue;
+    if (serviceTypes.some(type => getWeatherBlock(forecast, type, rules))) continue;
+
+    const onPreferredDay = preferredDays.length === 0 || preferredDays.includes(getDayOfWeek(candidate));
+    if (onPreferredDay && offset <= rules.weatherMaxShiftDays) {
+      return { date: dateKey, onPreferredDay };
+    }
+
+    firstWorkable = firstWorkable || dateKey;
+    if (offset >= rules.weatherMaxShiftDays) break;
+  }
+
+  return firstWorkable
+    ? {
+        date: firstWorkable,
+        onPreferredDay: preferredDays.length === 0 || preferredDays.includes(getDayOfWeek(fromDateKey(firstWorkable))),
+      }
+    : null;
+}
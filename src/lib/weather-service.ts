@@ -0,0 +1,116 @@
+/**
+ * Weather Service
+ *
+ * Daily forecasts for the service area, behind a provider interface. Providers:
+ * - Fixture: forecasts from a JSON file or object (offline, demos, checks)
+ * - Open-Meteo daily forecast API (no key needed)
+ *
+ * The scheduling rules decide what counts as unworkable; this module only
+ * fetches and normalizes forecasts.
+ */
+
+import { toDateKey } from './time-utils';
+
+export interface DailyForecast {
+  date: string; // "YYYY-MM-DD"
+  precipitationInches: number;
+  precipitationChance: number; // 0-100
+  windMph: number; // Max sustained wind
+  summary?: string; // e.g. "Thunderstorms"
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  getDailyForecasts(location: { lat: number; lng: number }, from: Date, to: Date): Promise<DailyForecast[]>;
+}
+
+// Shape of a forecast fixture file
+export interface WeatherFixture {
+  forecasts: DailyForecast[];
+}
+
+/**
+ * Fixed forecasts, one per day for the whole service area.
+ * Days missing from the fixture are left out, which the rules treat as workable.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = 'fixture';
+
+  constructor(private fixture: WeatherFixture) {}
+
+  async getDailyForecasts(_location: { lat: number; lng: number }, from: Date, to: Date): Promise<DailyForecast[]> {
+    const fromKey = toDateKey(from);
+    const toKey = toDateKey(to);
+
+    return this.fixture.forecasts
+      .filter(forecast => forecast.date >= fromKey && forecast.date <= toKey)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
+
+/**
+ * Open-Meteo daily forecast (https://open-meteo.com/en/docs), up to 16 days ahead
+ */
+export class OpenMeteoWeatherProvider implements WeatherProvider {
+  readonly name = 'open-meteo';
+
+  constructor(private baseUrl: string = 'https://api.open-meteo.com/v1/forecast') {}
+
+  async getDailyForecasts(location: { lat: number; lng: number }, from: Date, to: Date): Promise<DailyForecast[]> {
+    const url = `${this.baseUrl}?latitude=${location.lat}&longitude=${location.lng}` +
+      '&daily=precipitation_sum,precipitation_probability_max,wind_speed_10m_max' +
+      '&precipitation_unit=inch&wind_speed_unit=mph&timezone=auto' +
+      `&start_date=${toDateKey(from)}&end_date=${toDateKey(to)}`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Open-Meteo forecast request failed: ${response.status}`);
+    }
+
+    const { daily } = await response.json();
+    return (daily?.time as string[] || []).map((date, index) => ({
+      date,
+      precipitationInches: daily.precipitation_sum?.[index] ?? 0,
+      precipitationChance: daily.precipitation_probability_max?.[index] ?? 0,
+      windMph: daily.wind_speed_10m_max?.[index] ?? 0,
+    }));
+  }
+}
+
+/**
+ * Load a fixture file (e.g. a JSON file served with the app) as a provider
+ */
+export const loadWeatherFixture = async (url: string): Promise<FixtureWeatherProvider> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Weather fixture request failed: ${response.status}`);
+  }
+  return new FixtureWeatherProvider(await response.json() as WeatherFixture);
+};
+
+let weatherProvider: WeatherProvider | null = null;
+
+/**
+ * Shared provider, selected with NEXT_PUBLIC_WEATHER_PROVIDER ('open-meteo' | 'fixture').
+ * The fixture provider reads NEXT_PUBLIC_WEATHER_FIXTURE_URL. Returns null when weather is off.
+ */
+export const getWeatherProvider = async (): Promise<WeatherProvider | null> => {
+  if (!weatherProvider) {
+    const providerName = process.env.NEXT_PUBLIC_WEATHER_PROVIDER;
+
+    if (providerName === 'open-meteo') {
+      weatherProvider = new OpenMeteoWeatherProvider();
+    } else if (providerName === 'fixture' && process.env.NEXT_PUBLIC_WEATHER_FIXTURE_URL) {
+      weatherProvider = await loadWeatherFixture(process.env.NEXT_PUBLIC_WEATHER_FIXTURE_URL);
+    }
+  }
+
+  return weatherProvider;
+};
+
+/**
+ * Replace the shared provider (e.g. with a fixture for offline use)
+ */
+export const setWeatherProvider = (provider: WeatherProvider | null): void => {
+  weatherProvider = provider;
+};
@@ -0,0 +1,117 @@
+/**
+ * Workload Report Service
+ *
+ * Planned hours per crew per day against the shift each crew is scheduled
+ * for, so managers can see whether work is spread fairly across crews and
+ * across the week. Planned minutes are drive + work from each day's route;
+ * shift length comes from the crew's schedule (its first member working that
+ * day, as the planner uses).
+ */
+
+import { getRoutesForRange } from './route-service';
+import { getUsers } from './user-service';
+import { getDayOfWeek } from './scheduling-engine';
+import { timeToMinutes, toDateKey } from './time-utils';
+import type { DailyRoute, User } from './firebase-types';
+
+export interface CrewDayWorkload {
+  date: string; // "YYYY-MM-DD"
+  plannedMinutes: number;
+  shiftMinutes: number; // 0 when nobody on the crew is scheduled
+  stops: number;
+}
+
+export interface CrewWorkloadSummary {
+  crewId: string;
+  crewName: string;
+  days: CrewDayWorkload[];
+  plannedMinutes: number;
+  shiftMinutes: number;
+  utilization: number; // Planned over shift minutes for the range (0 without shifts)
+}
+
+export interface WorkloadReport {
+  dates: string[];
+  crews: CrewWorkloadSummary[];
+  utilizationSpread: number; // Gap between the busiest and lightest crew
+}
+
+/**
+ * Workload per crew for each date from the given routes
+ */
+export function buildWorkloadReport(routes: DailyRoute[], users: User[], dates: Date[]): WorkloadReport {
+  const crewIds = Array.from(new Set([
+    ...users.filter(user => user.crewId).map(user => user.crewId!),
+    ...routes.map(route => route.crewId),
+  ])).sort();
+
+  const crews = crewIds.map(crewId => {
+    const members = users
+      .filter(user => user.crewId === crewId)
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    const days = dates.map(date => {
+      const dateKey = toDateKey(date);
+      const dayRoutes = routes.filter(route => route.crewId === crewId && toDateKey(route.date) === dateKey);
+
+      return {
+        date: dateKey,
+        plannedMinutes: dayRoutes.reduce((total, route) => total + route.estimatedDuration, 0),
+        shiftMinutes: getScheduledMinutes(members, date),
+        stops: dayRoutes.reduce((total, route) => total + route.customers.length, 0),
+      };
+    });
+
+    const plannedMinutes = days.reduce((total, day) => total + day.plannedMinutes, 0);
+    const shiftMinutes = days.reduce((total, day) => total + day.shiftMinutes, 0);
+
+    return {
+      crewId,
+      crewName: members.find(member => member.crewName)?.crewName || crewId,
+      days,
+      plannedMinutes,
+      shiftMinutes,
+      utilization: shiftMinutes > 0 ? plannedMinutes / shiftMinutes : 0,
+    };
+  });
+
+  const utilizations = crews.filter(crew => crew.shiftMinutes > 0).map(crew => crew.utilization);
+
+  return {
+    dates: dates.map(toDateKey),
+    crews,
+    utilizationSpread: utilizations.length > 1 ? Math.max(...utilizations) - Math.min(...utilizations) : 0,
+  };
+}
+
+/**
+ * Workload report for the week starting on a date (stored plans, else previews)
+ */
+export const getWeeklyWorkloadReport = async (
+  companyId: string,
+  weekStart: Date,
+  days: number = 7
+): Promise<WorkloadReport> => {
+  const dates = Array.from({ length: days }, (_, index) =>
+    new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + index)
+  );
+
+  const [routes, users] = await Promise.all([
+    getRoutesForRange(companyId, dates[0], dates[dates.length - 1]),
+    getUsers(companyId),
+  ]);
+
+  return buildWorkloadReport(routes, users, dates);
+};
+
+/**
+ * Shift minutes from the schedule of the crew's first member working that day
+ */
+function getScheduledMinutes(members: User[], date: Date): number {
+  const dayOfWeek = getDayOfWeek(date);
+  const lead = members.find(member => member.schedule?.[dayOfWeek]?.start && member.schedule?.[dayOfWeek]?.end);
+  if (!lead) return 0;
+
+  const daySchedule = lead.schedule![dayOfWeek];
+  return Math.max(0, timeToMinutes(daySchedule.end) - timeToMinutes(daySchedule.start));
+}
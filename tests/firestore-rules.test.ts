@@ -0,0 +1,219 @@
+/**
+ * Firestore security rules tests. They call the app's services against the
+ * emulator as different users. Run with `npm run test:rules`.
+ */
+
+import { readFileSync } from 'node:fs';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import type { RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { Timestamp, doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { actAs } from './support/firebase';
+import { applyStopEvent } from '../src/lib/stop-event-service';
+import { getRouteId, saveRoute } from '../src/lib/route-storage-service';
+import { saveBreadcrumbSegment } from '../src/lib/breadcrumb-service';
+import { addServiceRecord } from '../src/lib/customer-service';
+import type { DailyRoute, ServiceRecord } from '../src/lib/firebase-types';
+
+const COMPANY_ID = 'company-a';
+const OTHER_COMPANY_ID = 'company-b';
+const CREW_ID = 'crew-1';
+const CUSTOMER_ID = 'customer-1';
+const ROUTE_DATE = new Date(2026, 9, 18);
+const ROUTE_ID = getRouteId(COMPANY_ID, CREW_ID, ROUTE_DATE);
+
+let testEnv: RulesTestEnvironment;
+
+const asCrew = () => actAs(testEnv.authenticatedContext('crew-user'));
+const asManager = () => actAs(testEnv.authenticatedContext('manager-user'));
+const asOtherCompany = () => actAs(testEnv.authenticatedContext('other-user'));
+
+const route: DailyRoute = {
+  companyId: COMPANY_ID,
+  crewId: CREW_ID,
+  date: ROUTE_DATE,
+  customers: [],
+  optimizedPath: [],
+  estimatedDuration: 0,
+  totalDistance: 0,
+};
+
+const arrival = (id: string, companyId = COMPANY_ID, recordedBy = 'crew-user') => ({
+  id,
+  companyId,
+  routeId: ROUTE_ID,
+  crewId: CREW_ID,
+  customerId: CUSTOMER_ID,
+  action: 'arrive' as const,
+  occurredAt: ROUTE_DATE.getTime() + 60 * 60 * 1000,
+  recordedBy,
+});
+
+const segment = (id: string, recordedBy = 'crew-user') => ({
+  id,
+  companyId: COMPANY_ID,
+  crewId: CREW_ID,
+  date: '2026-10-18',
+  recordedBy,
+  points: [{ lat: 40.7, lng: -74.0, timestamp: ROUTE_DATE.getTime() }],
+});
+
+const serviceRecord = (id: string): ServiceRecord => ({
+  id,
+  date: Timestamp.fromDate(ROUTE_DATE),
+  managerId: 'manager-user',
+  beforePhotos: [],
+  afterPhotos: [],
+  notes: '',
+  status: 'completed',
+  crewId: CREW_ID,
+  completedBy: 'crew-user',
+});
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'openlawn-rules-test',
+    firestore: { rules: readFileSync(new URL('../firestore.rules', import.meta.url), 'utf8') },
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async context => {
+    const db = context.firestore();
+    await setDoc(doc(db, 'users', 'crew-user'), { companyId: COMPANY_ID, role: 'employee', accountStatus: 'active' });
+    await setDoc(doc(db, 'users', 'manager-user'), { companyId: COMPANY_ID, role: 'manager', accountStatus: 'active' });
+    await setDoc(doc(db, 'users', 'other-user'), { companyId: OTHER_COMPANY_ID, role: 'manager', accountStatus: 'active' });
+    await setDoc(doc(db, 'customers', CUSTOMER_ID), {
+      companyId: COMPANY_ID,
+      name: 'Test Customer',
+      createdBy: 'manager-user',
+      serviceHistory: [],
+    });
+  });
+});
+
+after(async () => {
+  await testEnv?.cleanup();
+});
+
+describe('routes', () => {
+  test("a crew member can save the first plan for the company's route", async () => {
+    asCrew();
+    await assertSucceeds(saveRoute(route, { source: 'generated' }));
+  });
+
+  test('a manager can save later versions', async () => {
+    asCrew();
+    await saveRoute(route, { source: 'generated' });
+    asManager();
+    await assertSucceeds(saveRoute(route, { source: 'edited', userId: 'manager-user' }));
+  });
+
+  test("another company can't claim the company's route ID first", async () => {
+    const db = asOtherCompany();
+    await assertFails(setDoc(doc(db, 'routes', ROUTE_ID), { ...route, companyId: OTHER_COMPANY_ID, date: Timestamp.now() }));
+    await assertFails(setDoc(doc(db, 'routes', ROUTE_ID, 'versions', '1'), { companyId: OTHER_COMPANY_ID }));
+  });
+
+  test("only the company can check for a route that doesn't exist yet", async () => {
+    await assertSucceeds(getDoc(doc(asCrew(), 'routes', ROUTE_ID)));
+    await assertFails(getDoc(doc(asOtherCompany(), 'routes', ROUTE_ID)));
+  });
+});
+
+describe('stop events and route progress', () => {
+  test('a crew member can record the first event on a route', async () => {
+    asCrew();
+    await assertSucceeds(applyStopEvent(arrival('event-1')));
+  });
+
+  test('a crew member can record later events and replay saved ones', async () => {
+    asCrew();
+    await applyStopEvent(arrival('event-1'));
+    await assertSucceeds(applyStopEvent({ ...arrival('event-2'), action: 'depart', occurredAt: arrival('event-2').occurredAt + 1000 }));
+    await assertSucceeds(applyStopEvent(arrival('event-1')));
+  });
+
+  test("another company can't claim the route's progress doc first", async () => {
+    const db = asOtherCompany();
+    await assertFails(setDoc(doc(db, 'route_progress', ROUTE_ID), { companyId: OTHER_COMPANY_ID, crewId: CREW_ID, stops: {} }));
+  });
+
+  test("only the company can check for progress that doesn't exist yet", async () => {
+    await assertSucceeds(getDoc(doc(asCrew(), 'route_progress', ROUTE_ID)));
+    await assertFails(getDoc(doc(asOtherCompany(), 'route_progress', ROUTE_ID)));
+  });
+
+  test("another company can't read or add to a route's events", async () => {
+    asCrew();
+    await applyStopEvent(arrival('event-1'));
+
+    const db = asOtherCompany();
+    await assertFails(getDoc(doc(db, 'stop_events', 'event-1')));
+    await assertFails(getDoc(doc(db, 'route_progress', ROUTE_ID)));
+    await assertFails(applyStopEvent(arrival('event-2', OTHER_COMPANY_ID, 'other-user')));
+  });
+});
+
+describe('breadcrumbs', () => {
+  test("a crew member can upload the first segment of a day's track", async () => {
+    asCrew();
+    await assertSucceeds(saveBreadcrumbSegment(segment('segment-1')));
+  });
+
+  test('a crew member can add segments to an existing track', async () => {
+    asCrew();
+    await saveBreadcrumbSegment(segment('segment-1'));
+    await assertSucceeds(saveBreadcrumbSegment(segment('segment-2')));
+  });
+
+  test("a crew member can't upload a segment as someone else", async () => {
+    asCrew();
+    await assertFails(saveBreadcrumbSegment(segment('segment-1', 'other-user')));
+  });
+
+  test("another company can't claim the track first or read it", async () => {
+    const otherDb = asOtherCompany();
+    await assertFails(setDoc(doc(otherDb, 'breadcrumbs', ROUTE_ID), { companyId: OTHER_COMPANY_ID, crewId: CREW_ID }));
+    await assertFails(getDoc(doc(otherDb, 'breadcrumbs', ROUTE_ID)));
+
+    asCrew();
+    await saveBreadcrumbSegment(segment('segment-1'));
+    await assertFails(getDoc(doc(asOtherCompany(), 'breadcrumbs', ROUTE_ID, 'segments', 'segment-1')));
+  });
+});
+
+describe('customer service history', () => {
+  test('a crew member can add a service record, and retrying it is harmless', async () => {
+    asCrew();
+    await assertSucceeds(addServiceRecord(CUSTOMER_ID, serviceRecord('visit-1')));
+    await assertSucceeds(addServiceRecord(CUSTOMER_ID, serviceRecord('visit-1')));
+    await assertSucceeds(addServiceRecord(CUSTOMER_ID, serviceRecord('visit-2')));
+  });
+
+  test("a crew member can't rewrite or delete earlier records", async () => {
+    asCrew();
+    await addServiceRecord(CUSTOMER_ID, serviceRecord('visit-1'));
+
+    const db = asCrew();
+    await assertFails(updateDoc(doc(db, 'customers', CUSTOMER_ID), { serviceHistory: [] }));
+    await assertFails(updateDoc(doc(db, 'customers', CUSTOMER_ID), {
+      serviceHistory: [{ ...serviceRecord('visit-1'), notes: 'Changed' }, serviceRecord('visit-2')],
+    }));
+    await assertFails(updateDoc(doc(db, 'customers', CUSTOMER_ID), { name: 'Renamed' }));
+  });
+
+  test('a manager can correct the history', async () => {
+    asCrew();
+    await addServiceRecord(CUSTOMER_ID, serviceRecord('visit-1'));
+
+    const db = asManager();
+    await assertSucceeds(updateDoc(doc(db, 'customers', CUSTOMER_ID), { serviceHistory: [] }));
+  });
+
+  test("another company can't add records", async () => {
+    asOtherCompany();
+    await assertFails(addServiceRecord(CUSTOMER_ID, serviceRecord('visit-1')));
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Scheduling engine tests. They plan days from plain data through the
+ * in-memory adapter, so no Firestore is needed. Run with `npm test`.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Timestamp } from 'firebase/firestore';
+import { planRoutesForDate } from '../src/lib/scheduling-engine';
+import { createInMemorySchedulingAdapter } from '../src/lib/scheduling-data-adapter';
+import type { InMemorySchedulingData } from '../src/lib/scheduling-data-adapter';
+import type { Company, Customer, DayOfWeek, User } from '../src/lib/firebase-types';
+
+const COMPANY_ID = 'company-a';
+const MONDAY = new Date(2026, 9, 19);
+const BASE = { lat: 40.0, lng: -75.0, address: '1 Yard Rd' };
+const CREATED = Timestamp.fromDate(new Date(2026, 0, 1));
+
+const company: Company = {
+  id: COMPANY_ID,
+  name: 'Test Lawns',
+  owner: 'manager-user',
+  baseLocation: BASE,
+  settings: { maxCustomersPerRoute: 2 },
+  isActive: true,
+  createdAt: CREATED,
+  updatedAt: CREATED,
+};
+
+const workday = { start: '08:00', end: '17:00', available: true };
+const dayOff = { start: '', end: '', available: false };
+
+const crewMember = (id: string, crewId: string, works: boolean): User => ({
+  id,
+  companyId: COMPANY_ID,
+  name: id,
+  email: `${id}@example.com`,
+  role: 'employee',
+  crewId,
+  crewServiceTypes: ['push-mow'],
+  schedule: {
+    monday: works ? workday : dayOff,
+    tuesday: workday,
+    wednesday: workday,
+    thursday: workday,
+    friday: workday,
+    saturday: dayOff,
+    sunday: dayOff,
+  },
+  status: 'available',
+  accountStatus: 'active',
+  createdAt: CREATED,
+  updatedAt: CREATED,
+});
+
+const customer = (
+  id: string,
+  lat: number,
+  lng: number,
+  options: { preferredDays?: DayOfWeek[]; lastServiceDate?: Date } = {}
+): Customer => ({
+  id,
+  companyId: COMPANY_ID,
+  name: id,
+  address: `${id} Street`,
+  lat,
+  lng,
+  notes: '',
+  billingInfo: {},
+  status: 'active',
+  services: [{
+    id: `${id}-mow`,
+    type: 'push-mow',
+    description: 'Weekly mow',
+    price: 40,
+    scheduledDate: CREATED,
+    status: 'scheduled',
+  }],
+  ...(options.lastServiceDate && { lastServiceDate: Timestamp.fromDate(options.lastServiceDate) }),
+  createdBy: 'manager-user',
+  servicePreferences: {
+    preferredDays: options.preferredDays || ['monday'],
+    preferredTimeRange: { start: '08:00', end: '17:00' },
+    serviceFrequency: 7,
+  },
+  serviceHistory: [],
+  createdAt: CREATED,
+  updatedAt: CREATED,
+});
+
+const data: InMemorySchedulingData = {
+  company,
+  users: [
+    crewMember('crew-a-lead', 'crew-a', true),
+    crewMember('crew-b-lead', 'crew-b', true),
+    crewMember('crew-c-lead', 'crew-c', false),
+  ],
+  customers: [
+    customer('north-1', 40.05, -75.0),
+    customer('north-2', 40.06, -75.01),
+    customer('south-1', 39.95, -75.0),
+    customer('south-2', 39.94, -75.01),
+    customer('east-1', 40.0, -74.9),
+    customer('tuesday-only', 40.01, -75.0, { preferredDays: ['tuesday'] }),
+    customer('just-mowed', 40.02, -75.0, { lastServiceDate: new Date(2026, 9, 17) }),
+    { ...customer('other-company', 40.0, -75.0), companyId: 'company-b' },
+  ],
+};
+
+const planMonday = () => planRoutesForDate(createInMemorySchedulingAdapter(COMPANY_ID, data), MONDAY);
+
+describe('planning a day from in-memory data', () => {
+  test('only customers due that day are planned', async () => {
+    const plan = await planMonday();
+    const planned = [
+      ...plan.routes.flatMap(route => route.customers.map(stop => stop.id)),
+      ...plan.unassigned.map(entry => entry.customerId),
+    ].sort();
+
+    assert.deepEqual(planned, ['east-1', 'north-1', 'north-2', 'south-1', 'south-2']);
+  });
+
+  test('only crews working that day get a route', async () => {
+    const plan = await planMonday();
+
+    assert.deepEqual(plan.routes.map(route => route.crewId).sort(), ['crew-a', 'crew-b']);
+  });
+
+  test('each customer goes to one crew, within its stop limit, and the rest are reported', async () => {
+    const plan = await planMonday();
+    const assigned = plan.routes.flatMap(route => route.customers.map(stop => stop.id));
+
+    assert.equal(new Set(assigned).size, assigned.length);
+    assert.ok(plan.routes.every(route => route.customers.length <= 2));
+    assert.equal(assigned.length + plan.unassigned.length, 5);
+    assert.equal(plan.unassigned.length, 1);
+  });
+
+  test('each route is sequenced from and back to the base with a time for every stop', async () => {
+    const plan = await planMonday();
+
+    for (const route of plan.routes) {
+      const path = route.optimizedPath;
+      assert.equal(path.length, route.customers.length + 2);
+      assert.deepEqual({ lat: path[0].lat, lng: path[0].lng }, { lat: BASE.lat, lng: BASE.lng });
+      assert.deepEqual({ lat: path[path.length - 1].lat, lng: path[path.length - 1].lng }, { lat: BASE.lat, lng: BASE.lng });
+      assert.deepEqual(
+        route.stopSchedule?.map(stop => stop.customerId),
+        route.customers.map(stop => stop.id)
+      );
+      assert.ok(route.totalDistance > 0);
+      assert.ok(route.estimatedDuration > 0);
+    }
+  });
+
+  test('the same data always gives the same plan', async () => {
+    const [first, second] = [await planMonday(), await planMonday()];
+
+    assert.deepEqual(
+      second.routes.map(route => [route.crewId, route.customers.map(stop => stop.id)]),
+      first.routes.map(route => [route.crewId, route.customers.map(stop => stop.id)])
+    );
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Stands in for src/lib/firebase.ts in the rules tests, so the services run
+ * against the emulator as whichever user the test signs in.
+ */
+
+import type { RulesTestContext } from '@firebase/rules-unit-testing';
+import type { Firestore } from 'firebase/firestore';
+
+let db: Firestore | null = null;
+const auth = null;
+const storage = null;
+
+export const getFirebaseDb = () => db;
+export const getFirebaseAuth = () => auth;
+export const getFirebaseStorage = () => storage;
+
+/**
+ * Run the services as the user behind a test context
+ */
+export const actAs = (context: RulesTestContext): Firestore => {
+  db = context.firestore() as unknown as Firestore;
+  return db;
+};
+
+export { db, auth, storage };
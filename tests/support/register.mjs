@@ -0,0 +1,14 @@
+/**
+ * Loaded (after tsx) before the rules tests: the services' imports of
+ * src/lib/firebase.ts get the emulator stand-in instead of the app's setup.
+ */
+
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const appFirebase = fileURLToPath(new URL('../../src/lib/firebase.ts', import.meta.url));
+const testFirebase = require.resolve('./firebase.ts');
+
+require(testFirebase);
+require.cache[appFirebase] = require.cache[testFirebase];